@@ -0,0 +1,268 @@
+/**
+ * Scratchpad CLI - offline maintenance commands that run against the database file directly
+ *
+ *   scratchpad-mcp-v2-cli export <workflow_id> [--format json|markdown] [--out <path>] [--db <path>]
+ *   scratchpad-mcp-v2-cli import <path> [--policy skip|overwrite|duplicate] [--regenerate-ids]
+ *                                       [--project-scope <scope>] [--db <path>]
+ *   scratchpad-mcp-v2-cli sync <remote.db> [--db <path>] [--dry-run] [--json]
+ *
+ * 這些子命令也可透過 server 執行檔使用（`scratchpad-mcp-v2 sync ...`，見 isCliCommand）
+ *
+ * 資料庫路徑預設為 SCRATCHPAD_DB_PATH 或 ./scratchpad.db；限制與配額設定同 MCP server（見 src/config）
+ */
+import { ScratchpadDatabase } from './database/index.js';
+import { loadConfigFromEnv } from './config/index.js';
+import { createWorkflowArchive, readWorkflowArchive, writeWorkflowArchive } from './portability/index.js';
+import { syncDatabases, type SyncReport } from './sync/index.js';
+import { importWorkflowTool } from './tools/index.js';
+
+export interface CliIO {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  env: NodeJS.ProcessEnv;
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+const USAGE = `Usage:
+  scratchpad-mcp-v2-cli export <workflow_id> [--format json|markdown] [--out <path>] [--db <path>]
+  scratchpad-mcp-v2-cli import <path> [--policy skip|overwrite|duplicate] [--regenerate-ids]
+                                      [--project-scope <scope>] [--db <path>]
+  scratchpad-mcp-v2-cli sync <remote.db> [--db <path>] [--dry-run] [--json]
+
+Without --out, export prints the JSON archive to stdout (markdown requires --out).
+import accepts a JSON archive file or a Markdown bundle directory.
+sync merges the local database and <remote.db> (created if missing) record by record.`;
+
+/** Flags that take no value */
+const BOOLEAN_FLAGS = new Set(['--regenerate-ids', '--dry-run', '--json', '--help']);
+
+/**
+ * 解析 `--flag value`、`--flag=value` 與布林旗標，其餘視為位置參數
+ */
+const parseArgs = (argv: string[]): ParsedArgs => {
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]!;
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    if (equals !== -1) {
+      flags.set(arg.slice(0, equals), arg.slice(equals + 1));
+    } else if (BOOLEAN_FLAGS.has(arg)) {
+      flags.set(arg, true);
+    } else {
+      const value = argv[index + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      flags.set(arg, value);
+      index++;
+    }
+  }
+
+  return { positionals, flags };
+};
+
+const readFlag = (args: ParsedArgs, name: string): string | undefined => {
+  const value = args.flags.get(name);
+  if (value === true) {
+    throw new Error(`Missing value for ${name}`);
+  }
+  return value;
+};
+
+const assertKnownFlags = (args: ParsedArgs, allowed: string[]): void => {
+  for (const flag of args.flags.keys()) {
+    if (!allowed.includes(flag)) {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+};
+
+const openDatabase = (
+  env: NodeJS.ProcessEnv,
+  filename = env['SCRATCHPAD_DB_PATH'] ?? './scratchpad.db'
+): ScratchpadDatabase =>
+  new ScratchpadDatabase({ filename, limits: loadConfigFromEnv(env).limits });
+
+const runExport = async (args: ParsedArgs, io: CliIO): Promise<void> => {
+  assertKnownFlags(args, ['--format', '--out', '--db']);
+  const [workflowId] = args.positionals;
+  if (!workflowId) {
+    throw new Error('export requires a workflow ID');
+  }
+  const format = readFlag(args, '--format') ?? 'json';
+  if (format !== 'json' && format !== 'markdown') {
+    throw new Error(`Invalid format: ${format} (use json or markdown)`);
+  }
+  const outputPath = readFlag(args, '--out');
+  if (format === 'markdown' && outputPath === undefined) {
+    throw new Error('markdown export requires --out <directory>');
+  }
+
+  const db = openDatabase(io.env, readFlag(args, '--db'));
+  try {
+    const archive = createWorkflowArchive(db, workflowId);
+    if (outputPath === undefined) {
+      io.stdout(JSON.stringify(archive, null, 2));
+      return;
+    }
+    // 檔案路徑只在 CLI 處理；MCP tools 一律 inline 傳遞封存
+    const written = writeWorkflowArchive(archive, format, outputPath);
+    const label = `workflow "${archive.workflow.name}" (${archive.scratchpads.length} scratchpads)`;
+    io.stderr(`Exported ${label} to ${format === 'json' ? written[0] : outputPath} as ${format}`);
+  } finally {
+    db.close();
+  }
+};
+
+const runImport = async (args: ParsedArgs, io: CliIO): Promise<void> => {
+  assertKnownFlags(args, ['--policy', '--regenerate-ids', '--project-scope', '--db']);
+  const [inputPath] = args.positionals;
+  if (!inputPath) {
+    throw new Error('import requires a path');
+  }
+  const policy = readFlag(args, '--policy') ?? 'skip';
+  if (policy !== 'skip' && policy !== 'overwrite' && policy !== 'duplicate') {
+    throw new Error(`Invalid policy: ${policy} (use skip, overwrite or duplicate)`);
+  }
+  const projectScope = readFlag(args, '--project-scope');
+
+  const db = openDatabase(io.env, readFlag(args, '--db'));
+  try {
+    const result = await importWorkflowTool(db)({
+      archive: readWorkflowArchive(inputPath),
+      policy,
+      regenerate_ids: args.flags.has('--regenerate-ids'),
+      ...(projectScope !== undefined && { project_scope: projectScope }),
+    });
+    io.stdout(result.message);
+    for (const scratchpad of result.scratchpads) {
+      io.stdout(`  ${scratchpad.action.padEnd(11)} ${scratchpad.id}  ${scratchpad.title}`);
+    }
+  } finally {
+    db.close();
+  }
+};
+
+const describeSync = (report: SyncReport): string[] => {
+  const lines = [
+    `${report.dry_run ? 'Would sync' : 'Synced'}: ${report.counts.to_local} change(s) to local, ${report.counts.to_remote} to remote, ${report.counts.conflicts} conflict(s)` +
+      (report.last_synced_at === null
+        ? ' (first sync)'
+        : ` (last sync ${new Date(report.last_synced_at * 1000).toISOString()})`),
+  ];
+  for (const change of report.changes) {
+    const copy = change.conflict_copy_id
+      ? ` [losing version kept as ${change.conflict_copy_id}]`
+      : '';
+    lines.push(
+      `  ${change.action.padEnd(8)} ${change.target.padEnd(6)} ${change.entity.padEnd(10)} ${change.id}  ${change.title}${copy}`
+    );
+  }
+  return lines;
+};
+
+const runSync = async (args: ParsedArgs, io: CliIO): Promise<void> => {
+  assertKnownFlags(args, ['--db', '--dry-run', '--json']);
+  const [remotePath] = args.positionals;
+  if (!remotePath) {
+    throw new Error('sync requires the path of the remote database');
+  }
+
+  const local = openDatabase(io.env, readFlag(args, '--db'));
+  try {
+    const remote = openDatabase(io.env, remotePath);
+    try {
+      const report = syncDatabases(local, remote, { dry_run: args.flags.has('--dry-run') });
+      if (args.flags.has('--json')) {
+        io.stdout(JSON.stringify(report, null, 2));
+      } else {
+        describeSync(report).forEach((line) => io.stdout(line));
+      }
+    } finally {
+      remote.close();
+    }
+  } finally {
+    local.close();
+  }
+};
+
+const COMMANDS: Record<string, (args: ParsedArgs, io: CliIO) => Promise<void>> = {
+  export: runExport,
+  import: runImport,
+  sync: runSync,
+};
+
+/**
+ * Whether argv (without node / script) starts with a CLI subcommand rather than server options
+ */
+export const isCliCommand = (argv: string[]): boolean =>
+  argv[0] !== undefined && Object.prototype.hasOwnProperty.call(COMMANDS, argv[0]);
+
+/**
+ * Run a CLI command
+ *
+ * @returns process exit code（0 成功、1 執行失敗、2 用法錯誤）
+ */
+export const runCli = async (
+  argv: string[],
+  io: CliIO = {
+    stdout: (line) => console.log(line),
+    stderr: (line) => console.error(line),
+    env: process.env,
+  }
+): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === 'help') {
+    io.stdout(USAGE);
+    return command ? 0 : 2;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    io.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(rest);
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : 'Unknown error'}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.flags.has('--help')) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    await handler(args, io);
+    return 0;
+  } catch (error) {
+    io.stderr(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return 1;
+  }
+};
+
+// Run the CLI if this file is run directly (the bundled server includes this module too, so check the script name)
+if (
+  import.meta.url === `file://${process.argv[1]}` &&
+  /cli\.[cm]?[jt]s$/.test(process.argv[1] ?? '')
+) {
+  runCli(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      console.error('CLI failed:', error);
+      process.exit(1);
+    });
+}
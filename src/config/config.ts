@@ -0,0 +1,195 @@
+/**
+ * Limits and quotas from an optional JSON config file and environment variables
+ *
+ * SCRATCHPAD_CONFIG_FILE: path of a JSON config file, e.g.
+ *   {
+ *     "limits": {
+ *       "max_scratchpad_size": "2MB",
+ *       "max_scratchpads_per_workflow": 200,
+ *       "project_quotas": { "*": "100MB", "research": "500MB" }
+ *     },
+ *     "responses": { "max_size": "1MB", "tools": { "get-scratchpad": "256KB" } }
+ *   }
+ *
+ * 環境變數優先於設定檔：
+ * SCRATCHPAD_MAX_SCRATCHPAD_SIZE / SCRATCHPAD_MAX_SCRATCHPADS_PER_WORKFLOW /
+ * SCRATCHPAD_PROJECT_QUOTA（'*' 預設配額）/ SCRATCHPAD_MAX_RESPONSE_SIZE
+ *
+ * 大小可為位元組數或帶單位的字串（B、KB、MB、GB，以 1024 為基數）
+ */
+import { readFileSync } from 'fs';
+import { DEFAULT_DATABASE_LIMITS } from '../database/types.js';
+import { ConfigurationError } from './errors.js';
+import type { ScratchpadConfig } from './types.js';
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+/**
+ * Parse a byte size such as 1048576, "512KB" or "1.5 MB"
+ *
+ * @throws ConfigurationError 非正數或無法辨識的單位
+ */
+export const parseByteSize = (value: unknown, source: string): number => {
+  let bytes: number | undefined;
+  if (typeof value === 'number') {
+    bytes = value;
+  } else if (typeof value === 'string') {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmg]?b)?$/i.exec(value.trim());
+    if (match) {
+      bytes = Math.floor(Number(match[1]) * BYTE_UNITS[(match[2] ?? 'b').toLowerCase()]!);
+    }
+  }
+  if (bytes === undefined || !Number.isInteger(bytes) || bytes <= 0) {
+    throw new ConfigurationError(
+      `Invalid ${source}: ${JSON.stringify(value)} (expected a positive byte size such as 1048576 or "512KB")`
+    );
+  }
+  return bytes;
+};
+
+const parseCount = (value: unknown, source: string): number => {
+  const count = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count <= 0) {
+    throw new ConfigurationError(
+      `Invalid ${source}: ${JSON.stringify(value)} (expected a positive integer)`
+    );
+  }
+  return count;
+};
+
+const asObject = (
+  value: unknown,
+  source: string,
+  allowedKeys: string[]
+): Record<string, unknown> => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigurationError(`Invalid ${source}: expected an object`);
+  }
+  const unknown = Object.keys(value).filter((key) => !allowedKeys.includes(key));
+  if (unknown.length > 0) {
+    throw new ConfigurationError(`Unknown key in ${source}: ${unknown.join(', ')}`);
+  }
+  return value as Record<string, unknown>;
+};
+
+const parseSizeMap = (value: unknown, source: string): Record<string, number> => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigurationError(`Invalid ${source}: expected an object`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, size]) => [key, parseByteSize(size, `${source}.${key}`)])
+  );
+};
+
+/**
+ * Resolve the effective configuration from environment variables and parsed config file contents
+ *
+ * @param file - 已解析的設定檔 JSON（未使用設定檔時省略）
+ * @throws ConfigurationError
+ */
+export const resolveConfig = (env: NodeJS.ProcessEnv, file?: unknown): ScratchpadConfig => {
+  const config: ScratchpadConfig = {
+    limits: { ...DEFAULT_DATABASE_LIMITS, project_storage_quotas: {} },
+    responses: { max_bytes: null, tools: {} },
+  };
+
+  if (file !== undefined) {
+    const root = asObject(file, 'config', ['limits', 'responses']);
+    if (root['limits'] !== undefined) {
+      const limits = asObject(root['limits'], 'limits', [
+        'max_scratchpad_size',
+        'max_scratchpads_per_workflow',
+        'project_quotas',
+      ]);
+      if (limits['max_scratchpad_size'] !== undefined) {
+        config.limits.max_scratchpad_bytes = parseByteSize(
+          limits['max_scratchpad_size'],
+          'limits.max_scratchpad_size'
+        );
+      }
+      if (limits['max_scratchpads_per_workflow'] !== undefined) {
+        config.limits.max_scratchpads_per_workflow = parseCount(
+          limits['max_scratchpads_per_workflow'],
+          'limits.max_scratchpads_per_workflow'
+        );
+      }
+      if (limits['project_quotas'] !== undefined) {
+        config.limits.project_storage_quotas = parseSizeMap(
+          limits['project_quotas'],
+          'limits.project_quotas'
+        );
+      }
+    }
+    if (root['responses'] !== undefined) {
+      const responses = asObject(root['responses'], 'responses', ['max_size', 'tools']);
+      if (responses['max_size'] !== undefined) {
+        config.responses.max_bytes = parseByteSize(responses['max_size'], 'responses.max_size');
+      }
+      if (responses['tools'] !== undefined) {
+        config.responses.tools = parseSizeMap(responses['tools'], 'responses.tools');
+      }
+    }
+  }
+
+  const envValue = (name: string): string | undefined => env[name]?.trim() || undefined;
+  const maxSize = envValue('SCRATCHPAD_MAX_SCRATCHPAD_SIZE');
+  if (maxSize !== undefined) {
+    config.limits.max_scratchpad_bytes = parseByteSize(maxSize, 'SCRATCHPAD_MAX_SCRATCHPAD_SIZE');
+  }
+  const maxCount = envValue('SCRATCHPAD_MAX_SCRATCHPADS_PER_WORKFLOW');
+  if (maxCount !== undefined) {
+    config.limits.max_scratchpads_per_workflow = parseCount(
+      maxCount,
+      'SCRATCHPAD_MAX_SCRATCHPADS_PER_WORKFLOW'
+    );
+  }
+  const projectQuota = envValue('SCRATCHPAD_PROJECT_QUOTA');
+  if (projectQuota !== undefined) {
+    config.limits.project_storage_quotas['*'] = parseByteSize(
+      projectQuota,
+      'SCRATCHPAD_PROJECT_QUOTA'
+    );
+  }
+  const maxResponse = envValue('SCRATCHPAD_MAX_RESPONSE_SIZE');
+  if (maxResponse !== undefined) {
+    config.responses.max_bytes = parseByteSize(maxResponse, 'SCRATCHPAD_MAX_RESPONSE_SIZE');
+  }
+
+  return config;
+};
+
+/**
+ * Read and parse a JSON config file
+ *
+ * @throws ConfigurationError 檔案無法讀取或不是合法的 JSON
+ */
+export const loadConfigFile = (filePath: string): unknown => {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid JSON in config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
+
+/**
+ * Load the configuration from SCRATCHPAD_CONFIG_FILE (if set) and environment variables
+ */
+export const loadConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): ScratchpadConfig => {
+  const filePath = env['SCRATCHPAD_CONFIG_FILE']?.trim();
+  return resolveConfig(env, filePath ? loadConfigFile(filePath) : undefined);
+};
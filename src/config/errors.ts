@@ -0,0 +1,15 @@
+/**
+ * Configuration error types
+ */
+
+/**
+ * Invalid config file or environment variable value
+ */
+export class ConfigurationError extends Error {
+  readonly code = 'INVALID_CONFIG';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
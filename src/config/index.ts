@@ -0,0 +1,6 @@
+/**
+ * Server configuration module exports
+ */
+export * from './types.js';
+export * from './errors.js';
+export * from './config.js';
@@ -0,0 +1,19 @@
+/**
+ * Server configuration type definitions
+ */
+import type { DatabaseLimits } from '../database/types.js';
+
+/**
+ * Caps on the size of a single tool response（JSON 文字的 UTF-8 位元組數）
+ */
+export interface ResponseLimits {
+  /** Default cap for every tool; null means unlimited */
+  max_bytes: number | null;
+  /** Per-tool caps that override max_bytes, keyed by tool name */
+  tools: Record<string, number>;
+}
+
+export interface ScratchpadConfig {
+  limits: DatabaseLimits;
+  responses: ResponseLimits;
+}
@@ -20,23 +20,186 @@ import type {
   Workflow,
   WorkflowDbRow,
   Scratchpad,
+  ScratchpadDbRow,
+  EntityMetadata,
+  EntityFilter,
+  TaggableEntityType,
+  TagChanges,
+  MetadataChanges,
   SearchResult,
   DatabaseConfig,
+  DatabaseLimits,
   CreateWorkflowParams,
   CreateScratchpadParams,
+  CopyScratchpadParams,
+  CloneWorkflowParams,
+  MergeScratchpadsParams,
+  WorkflowSnapshot,
+  ImportWorkflowOptions,
+  ImportWorkflowResult,
+  ImportAction,
   AppendScratchpadParams,
   ListScratchpadsParams,
   SearchScratchpadsParams,
+  SearchAllScratchpadsParams,
+  SearchAllScratchpadsPage,
+  ScratchpadSearchHit,
+  BlockEmbedding,
+  BlockEmbeddingCandidate,
+  ListBlockEmbeddingsParams,
+  ScratchpadRevision,
+  RevisionRetention,
+  ListRevisionsParams,
+  UpdateWorkflowParams,
+  WriteGuard,
+  DatabaseChange,
+  DatabaseChangeListener,
+  TrashEntry,
+  TrashItemType,
+  StoredTemplate,
+  SaveTemplateParams,
 } from './types.js';
-import { assertScratchpad, assertWorkflowDbRow } from './types.js';
+import {
+  assertScratchpad,
+  assertWorkflowDbRow,
+  isScratchpad,
+  isWorkflowDbRow,
+  DEFAULT_DATABASE_LIMITS,
+} from './types.js';
+import { QuotaExceededError, ScratchpadConflictError } from './errors.js';
+import { UnifiedDiff } from '../utils/UnifiedDiff.js';
+import { BLOCK_KINDS, BlockParser } from '../utils/BlockParser.js';
+import { TagNormalizer } from '../utils/TagNormalizer.js';
+import { SearchQueryParser, type SearchQueryNode } from '../utils/SearchQueryParser.js';
+import {
+  SearchQueryCompiler,
+  SCRATCHPAD_QUERY_TARGET,
+  WORKFLOW_QUERY_TARGET,
+  type CompiledSearchQuery,
+} from './SearchQueryCompiler.js';
+
+/**
+ * search-all-scratchpads 共用的欄位與篩選條件（篩選值由 searchAllFilterValues 產生）
+ */
+const SEARCH_ALL_COLUMNS = `
+  s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes, s.version,
+  s.tags, s.metadata,
+  w.id as w_id, w.name as w_name, w.description as w_description,
+  w.created_at as w_created_at, w.updated_at as w_updated_at,
+  w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
+  w.tags as w_tags, w.metadata as w_metadata
+`;
+
+const SEARCH_ALL_FILTERS = `
+  AND (? IS NULL OR w.project_scope = ?)
+  AND (? IS NULL OR w.is_active = ?)
+  AND (? IS NULL OR s.updated_at >= ?)
+  AND (? IS NULL OR s.updated_at <= ?)
+`;
+
+interface SearchAllRow {
+  id: string;
+  workflow_id: string;
+  title: string;
+  content: string;
+  created_at: number;
+  updated_at: number;
+  size_bytes: number;
+  version: number;
+  tags: string;
+  metadata: string | null;
+  w_id: string;
+  w_name: string;
+  w_description: string | null;
+  w_created_at: number;
+  w_updated_at: number;
+  w_scratchpad_count: number;
+  w_is_active: number;
+  w_project_scope: string | null;
+  w_tags: string;
+  w_metadata: string | null;
+}
+
+/**
+ * Parse the stored tags text (space-separated) and metadata JSON
+ */
+const parseTags = (text: string | null | undefined): string[] =>
+  text ? text.split(' ').filter((tag) => tag.length > 0) : [];
+
+const parseMetadata = (text: string | null | undefined): EntityMetadata => {
+  if (!text) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as EntityMetadata)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const toWorkflow = (row: WorkflowDbRow): Workflow => ({
+  ...row,
+  is_active: Boolean(row.is_active),
+  tags: parseTags(row.tags),
+  metadata: parseMetadata(row.metadata),
+});
+
+const toScratchpad = (row: ScratchpadDbRow): Scratchpad => ({
+  ...row,
+  tags: parseTags(row.tags),
+  metadata: parseMetadata(row.metadata),
+});
+
+/**
+ * Tag / metadata filter conditions (each prefixed with AND; empty when no filter is given)
+ */
+const buildEntityFilter = (
+  entityType: TaggableEntityType,
+  idColumn: string,
+  metadataColumn: string,
+  filter: EntityFilter
+): { sql: string; params: Array<string | number> } => {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  for (const tag of TagNormalizer.normalizeAll(filter.tags ?? [])) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM tags t WHERE t.entity_type = ? AND t.entity_id = ${idColumn} AND t.tag = ?)`
+    );
+    params.push(entityType, tag);
+  }
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    // json_extract 以 1 / 0 表示 JSON 布林值
+    conditions.push(`json_extract(${metadataColumn}, ?) = ?`);
+    params.push(TagNormalizer.metadataPath(key), typeof value === 'boolean' ? Number(value) : value);
+  }
+
+  return { sql: conditions.map((condition) => ` AND ${condition}`).join(''), params };
+};
+
+interface SearchAllOptions {
+  limit: number;
+  offset: number;
+  snippetTokens: number;
+  open: string;
+  close: string;
+}
 
 export class ScratchpadDatabase {
   private db: Database.Database;
   private hasFTS5: boolean = false;
   private hasSimpleTokenizer = false; // Simple 中文分詞擴展可用性
   private hasJiebaTokenizer = false; // Jieba 結巴分詞功能可用性
-  private readonly MAX_SCRATCHPAD_SIZE = 1024 * 1024; // 1MB
-  private readonly MAX_SCRATCHPADS_PER_WORKFLOW = 50;
+  private readonly limits: DatabaseLimits;
+  private readonly DEFAULT_MAX_REVISIONS = 20;
+  private readonly MIN_REVISIONS = 2; // 至少保留目前版本與前一版本，才能復原
+  private readonly CONFLICT_DIFF_HINT_LINES = 20; // 版本衝突錯誤中 diff 提示的最大行數
+  private readonly SEARCH_TITLE_WEIGHT = 5.0; // 全域搜尋中 title 命中相對 content 的權重
+  private readonly LIKE_SEARCH_SCAN_LIMIT = 1000; // LIKE 降級搜尋最多取回並計分的列數
+  private changeListeners = new Set<DatabaseChangeListener>();
 
   /**
    * 嘗試載入 Simple 中文分詞擴展
@@ -77,6 +240,12 @@ export class ScratchpadDatabase {
   }
 
   constructor(config: DatabaseConfig) {
+    this.limits = {
+      ...DEFAULT_DATABASE_LIMITS,
+      ...config.limits,
+      project_storage_quotas: { ...config.limits?.project_storage_quotas },
+    };
+
     this.db = new Database(config.filename, {
       readonly: config.readonly ?? false,
       timeout: config.timeout ?? 30000,
@@ -169,6 +338,10 @@ export class ScratchpadDatabase {
       UPDATE workflows SET scratchpad_count = scratchpad_count + 1 WHERE id = ?
     `);
 
+    this.decrementScratchpadCount = this.db.prepare(`
+      UPDATE workflows SET scratchpad_count = MAX(scratchpad_count - 1, 0) WHERE id = ?
+    `);
+
     // New workflow statements for is_active support
     this.getLatestActiveWorkflowStmt = this.db.prepare(`
       SELECT * FROM workflows 
@@ -193,8 +366,8 @@ export class ScratchpadDatabase {
 
     this.updateScratchpad = this.db.prepare(`
       UPDATE scratchpads 
-      SET content = ?, size_bytes = ?, updated_at = unixepoch()
-      WHERE id = ?
+      SET content = ?, size_bytes = ?, updated_at = unixepoch(), version = version + 1
+      WHERE id = ? AND version = ?
     `);
 
     this.listScratchpadsByWorkflow = this.db.prepare(`
@@ -208,17 +381,42 @@ export class ScratchpadDatabase {
       SELECT COUNT(*) as count FROM scratchpads WHERE workflow_id = ?
     `);
 
+    // Revision statements
+    this.insertRevision = this.db.prepare(`
+      INSERT INTO scratchpad_revisions (scratchpad_id, revision, content, size_bytes, operation, scratchpad_version, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getLatestRevisionNumber = this.db.prepare(`
+      SELECT MAX(revision) as revision FROM scratchpad_revisions WHERE scratchpad_id = ?
+    `);
+
+    this.listRevisionsByScratchpad = this.db.prepare(`
+      SELECT * FROM scratchpad_revisions
+      WHERE scratchpad_id = ?
+      ORDER BY revision DESC
+      LIMIT ? OFFSET ?
+    `);
+
+    this.getRevisionStmt = this.db.prepare(`
+      SELECT * FROM scratchpad_revisions WHERE scratchpad_id = ? AND revision = ?
+    `);
+
+    this.getRevisionSettings = this.db.prepare(`
+      SELECT max_revisions, max_bytes FROM workflow_revision_settings WHERE workflow_id = ?
+    `);
+
+    this.upsertRevisionSettings = this.db.prepare(`
+      INSERT OR REPLACE INTO workflow_revision_settings (workflow_id, max_revisions, max_bytes)
+      VALUES (?, ?, ?)
+    `);
+
     // Search statements
     if (this.hasFTS5) {
       // 根據是否有 simple tokenizer 使用不同的準備語句
       if (this.hasSimpleTokenizer) {
         this.searchScratchpadsFTS = this.db.prepare(`
-          SELECT 
-            s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-            w.id as w_id, w.name as w_name, w.description as w_description, 
-            w.created_at as w_created_at, w.updated_at as w_updated_at, 
-            w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-            fts.rank
+          SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
           FROM scratchpads_fts fts
           JOIN scratchpads s ON s.rowid = fts.rowid
           JOIN workflows w ON s.workflow_id = w.id
@@ -229,12 +427,7 @@ export class ScratchpadDatabase {
         `);
       } else {
         this.searchScratchpadsFTS = this.db.prepare(`
-          SELECT 
-            s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-            w.id as w_id, w.name as w_name, w.description as w_description, 
-            w.created_at as w_created_at, w.updated_at as w_updated_at, 
-            w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-            fts.rank
+          SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
           FROM scratchpads_fts fts
           JOIN scratchpads s ON s.rowid = fts.rowid
           JOIN workflows w ON s.workflow_id = w.id
@@ -247,12 +440,7 @@ export class ScratchpadDatabase {
     }
 
     this.searchScratchpadsLike = this.db.prepare(`
-      SELECT 
-        s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-        w.id as w_id, w.name as w_name, w.description as w_description, 
-        w.created_at as w_created_at, w.updated_at as w_updated_at, 
-        w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-        1.0 as rank
+      SELECT ${SEARCH_ALL_COLUMNS}, 1.0 as rank
       FROM scratchpads s
       JOIN workflows w ON s.workflow_id = w.id
       WHERE (s.title LIKE ? OR s.content LIKE ?)
@@ -267,7 +455,7 @@ export class ScratchpadDatabase {
         this.searchWorkflowsFTS = this.db.prepare(`
           SELECT 
             w.id, w.name, w.description, w.created_at, w.updated_at, 
-            w.scratchpad_count, w.is_active, w.project_scope,
+            w.scratchpad_count, w.is_active, w.project_scope, w.tags, w.metadata,
             fts.rank
           FROM workflows_fts fts
           JOIN workflows w ON w.rowid = fts.rowid
@@ -280,7 +468,7 @@ export class ScratchpadDatabase {
         this.searchWorkflowsFTS = this.db.prepare(`
           SELECT 
             w.id, w.name, w.description, w.created_at, w.updated_at, 
-            w.scratchpad_count, w.is_active, w.project_scope,
+            w.scratchpad_count, w.is_active, w.project_scope, w.tags, w.metadata,
             fts.rank
           FROM workflows_fts fts
           JOIN workflows w ON w.rowid = fts.rowid
@@ -295,7 +483,7 @@ export class ScratchpadDatabase {
     this.searchWorkflowsLike = this.db.prepare(`
       SELECT 
         w.id, w.name, w.description, w.created_at, w.updated_at, 
-        w.scratchpad_count, w.is_active, w.project_scope,
+        w.scratchpad_count, w.is_active, w.project_scope, w.tags, w.metadata,
         1.0 as rank
       FROM workflows w
       WHERE (w.name LIKE ? OR COALESCE(w.description, '') LIKE ?)
@@ -322,7 +510,7 @@ export class ScratchpadDatabase {
     // 轉義雙引號以防止 FTS5 語法錯誤
     const escaped = query.replace(/"/g, '""');
     // 在 title 和 content 欄位中搜尋，避免將特殊字符解析為欄位分隔符
-    return `title:"${escaped}" OR content:"${escaped}"`;
+    return `title:"${escaped}" OR content:"${escaped}" OR tags:"${escaped}"`;
   }
 
   /**
@@ -333,32 +521,10 @@ export class ScratchpadDatabase {
     query: string,
     workflowId?: string,
     limit: number = 20
-  ): Array<{
-    id: string;
-    workflow_id: string;
-    title: string;
-    content: string;
-    created_at: number;
-    updated_at: number;
-    size_bytes: number;
-    w_id: string;
-    w_name: string;
-    w_description: string | null;
-    w_created_at: number;
-    w_updated_at: number;
-    w_scratchpad_count: number;
-    w_is_active: number;
-    w_project_scope: string | null;
-    rank: number;
-  }> {
+  ): Array<SearchAllRow & { rank: number }> {
     // 使用參數化查詢防止 SQL 注入
     const sql = `
-      SELECT 
-        s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-        w.id as w_id, w.name as w_name, w.description as w_description, 
-        w.created_at as w_created_at, w.updated_at as w_updated_at, 
-        w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-        fts.rank
+      SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
       FROM scratchpads_fts fts
       JOIN scratchpads s ON s.rowid = fts.rowid
       JOIN workflows w ON s.workflow_id = w.id
@@ -369,24 +535,7 @@ export class ScratchpadDatabase {
     `;
 
     const stmt = this.db.prepare(sql);
-    return stmt.all(query, workflowId, workflowId, limit) as Array<{
-      id: string;
-      workflow_id: string;
-      title: string;
-      content: string;
-      created_at: number;
-      updated_at: number;
-      size_bytes: number;
-      w_id: string;
-      w_name: string;
-      w_description: string | null;
-      w_created_at: number;
-      w_updated_at: number;
-      w_scratchpad_count: number;
-      w_is_active: number;
-      w_project_scope: string | null;
-      rank: number;
-    }>;
+    return stmt.all(query, workflowId, workflowId, limit) as Array<SearchAllRow & { rank: number }>;
   }
 
   /**
@@ -456,17 +605,24 @@ export class ScratchpadDatabase {
   private listWorkflows!: Database.Statement<[]>;
   private updateWorkflowTimestamp!: Database.Statement<[string]>;
   private incrementScratchpadCount!: Database.Statement<[string]>;
+  private decrementScratchpadCount!: Database.Statement<[string]>;
   private insertScratchpad!: Database.Statement<[string, string, string, string, number]>;
   private getScratchpad!: Database.Statement<[string]>;
-  private updateScratchpad!: Database.Statement<[string, number, string]>;
+  private updateScratchpad!: Database.Statement<[string, number, string, number]>;
   private listScratchpadsByWorkflow!: Database.Statement<[string, number, number]>;
   private countScratchpadsByWorkflow!: Database.Statement<[string]>;
+  private insertRevision!: Database.Statement<[string, number, string, number, string, number | null, number]>;
+  private getLatestRevisionNumber!: Database.Statement<[string]>;
+  private listRevisionsByScratchpad!: Database.Statement<[string, number, number]>;
+  private getRevisionStmt!: Database.Statement<[string, number]>;
+  private getRevisionSettings!: Database.Statement<[string]>;
+  private upsertRevisionSettings!: Database.Statement<[string, number, number]>;
   private searchScratchpadsFTS?: Database.Statement<[string, string | null, string | null, number]>;
   private searchScratchpadsLike!: Database.Statement<
     [string, string, string | null, string | null, number]
   >;
   private searchWorkflowsFTS?: Database.Statement<[string, string | null, string | null, number]>;
-  private searchWorkflowsLike!: Database.Statement<[string, string, string | null, number]>;
+  private searchWorkflowsLike!: Database.Statement<[string, string, string | null, string | null, number]>;
 
   /**
    * Create a new workflow
@@ -482,6 +638,8 @@ export class ScratchpadDatabase {
       params.project_scope ?? null
     );
 
+    this.emitChange({ type: 'workflow', action: 'created', workflow_id: id });
+
     return {
       id,
       name: params.name,
@@ -491,6 +649,8 @@ export class ScratchpadDatabase {
       scratchpad_count: 0,
       is_active: true,
       project_scope: params.project_scope ?? null,
+      tags: [],
+      metadata: {},
     };
   }
 
@@ -500,22 +660,25 @@ export class ScratchpadDatabase {
   getWorkflowById(id: string): Workflow | null {
     const rawResult = this.getWorkflow.get(id);
     const result = assertWorkflowDbRow(rawResult, 'getWorkflowById');
-    if (!result) {
-      return null;
-    }
-    return {
-      ...result,
-      is_active: Boolean(result.is_active),
-    };
+    return result ? toWorkflow(result) : null;
   }
 
   /**
    * List all workflows
    */
-  getWorkflows(projectScope?: string): Workflow[] {
+  getWorkflows(projectScope?: string, filter: EntityFilter = {}): Workflow[] {
     let results: WorkflowDbRow[];
 
-    if (projectScope) {
+    const entityFilter = buildEntityFilter('workflow', 'id', 'metadata', filter);
+    if (entityFilter.sql) {
+      results = this.db
+        .prepare(
+          `SELECT * FROM workflows
+           WHERE (? IS NULL OR project_scope = ?)${entityFilter.sql}
+           ORDER BY updated_at DESC`
+        )
+        .all(projectScope || null, projectScope || null, ...entityFilter.params) as WorkflowDbRow[];
+    } else if (projectScope) {
       // Use project-specific query
       const scopedStmt = this.db.prepare(`
         SELECT * FROM workflows 
@@ -528,10 +691,7 @@ export class ScratchpadDatabase {
       results = this.listWorkflows.all() as WorkflowDbRow[];
     }
 
-    return results.map((result) => ({
-      ...result,
-      is_active: Boolean(result.is_active),
-    }));
+    return results.map(toWorkflow);
   }
 
   /**
@@ -556,13 +716,7 @@ export class ScratchpadDatabase {
       result = assertWorkflowDbRow(rawResult, 'getLatestActiveWorkflow global');
     }
 
-    if (!result) {
-      return null;
-    }
-    return {
-      ...result,
-      is_active: Boolean(result.is_active),
-    };
+    return result ? toWorkflow(result) : null;
   }
 
   /**
@@ -575,10 +729,114 @@ export class ScratchpadDatabase {
     }
 
     this.updateWorkflowActiveStatusStmt.run(isActive ? 1 : 0, id);
+    this.emitChange({ type: 'workflow', action: 'updated', workflow_id: id });
 
     return this.getWorkflowById(id);
   }
 
+  /**
+   * Update workflow name, description or project scope
+   */
+  updateWorkflow(id: string, params: UpdateWorkflowParams): Workflow {
+    const existing = this.getWorkflowById(id);
+    if (!existing) {
+      throw new Error(`Workflow not found: ${id}`);
+    }
+
+    if (params.name !== undefined && params.name.trim() === '') {
+      throw new Error('Workflow name cannot be empty');
+    }
+
+    const name = params.name ?? existing.name;
+    const description = params.description !== undefined ? params.description : existing.description;
+    const projectScope =
+      params.project_scope !== undefined ? params.project_scope : existing.project_scope;
+
+    // workflows_fts 由 UPDATE 觸發器同步
+    this.db
+      .prepare(
+        `UPDATE workflows SET name = ?, description = ?, project_scope = ?, updated_at = unixepoch() WHERE id = ?`
+      )
+      .run(name, description, projectScope, id);
+
+    const updated = this.getWorkflowById(id);
+    if (!updated) {
+      throw new Error('Failed to update workflow');
+    }
+    this.emitChange({ type: 'workflow', action: 'updated', workflow_id: id });
+    return updated;
+  }
+
+  /**
+   * Delete a workflow with all its scratchpads
+   * 預設移至垃圾桶（可還原），permanent=true 時直接永久刪除
+   */
+  deleteWorkflow(
+    id: string,
+    options: { permanent?: boolean | undefined } = {}
+  ): { workflow: Workflow; scratchpads_deleted: number; trash_id: string | null } {
+    const workflow = this.getWorkflowById(id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${id}`);
+    }
+
+    const scratchpads = (
+      this.db.prepare('SELECT * FROM scratchpads WHERE workflow_id = ?').all(id) as ScratchpadDbRow[]
+    ).map(toScratchpad);
+
+    let trashId: string | null = null;
+
+    const transaction = this.db.transaction(() => {
+      if (!options.permanent) {
+        const workflowRow = this.getWorkflow.get(id);
+        const revisions = this.db
+          .prepare(
+            `SELECT r.* FROM scratchpad_revisions r
+             JOIN scratchpads s ON s.id = r.scratchpad_id
+             WHERE s.workflow_id = ?`
+          )
+          .all(id);
+        const revisionSettings = this.getRevisionSettings.get(id) ?? null;
+
+        trashId = this.insertTrashEntry({
+          item_type: 'workflow',
+          item_id: id,
+          workflow_id: id,
+          title: workflow.name,
+          size_bytes: scratchpads.reduce((total, scratchpad) => total + scratchpad.size_bytes, 0),
+          payload: {
+            workflow: workflowRow,
+            scratchpads,
+            revisions,
+            revision_settings: revisionSettings,
+          },
+        });
+      }
+
+      // 明確刪除子資料（foreign_keys 只在 schema 初始化的連線上啟用）
+      for (const scratchpad of scratchpads) {
+        this.db.prepare('DELETE FROM scratchpad_revisions WHERE scratchpad_id = ?').run(scratchpad.id);
+        this.db.prepare('DELETE FROM block_embeddings WHERE scratchpad_id = ?').run(scratchpad.id);
+      }
+      this.db.prepare('DELETE FROM scratchpads WHERE workflow_id = ?').run(id);
+      this.db.prepare('DELETE FROM workflow_revision_settings WHERE workflow_id = ?').run(id);
+      this.db.prepare('DELETE FROM workflows WHERE id = ?').run(id);
+    });
+    transaction();
+
+    for (const scratchpad of scratchpads) {
+      this.emitChange({
+        type: 'scratchpad',
+        action: 'deleted',
+        workflow_id: id,
+        scratchpad_id: scratchpad.id,
+      });
+    }
+    this.emitChange({ type: 'workflow', action: 'deleted', workflow_id: id });
+
+    return { workflow, scratchpads_deleted: scratchpads.length, trash_id: trashId };
+  }
+
   /**
    * Create a new scratchpad
    */
@@ -594,21 +852,11 @@ export class ScratchpadDatabase {
       throw new Error(`Cannot create scratchpad: workflow is not active: ${params.workflow_id}`);
     }
 
-    // Check size limit
+    // Check size, count and project storage limits
     const sizeBytes = Buffer.byteLength(params.content, 'utf8');
-    if (sizeBytes > this.MAX_SCRATCHPAD_SIZE) {
-      throw new Error(
-        `Scratchpad content too large: ${sizeBytes} bytes (max: ${this.MAX_SCRATCHPAD_SIZE} bytes)`
-      );
-    }
-
-    // Check scratchpad count limit
-    const count = this.countScratchpadsByWorkflow.get(params.workflow_id) as { count: number };
-    if (count.count >= this.MAX_SCRATCHPADS_PER_WORKFLOW) {
-      throw new Error(
-        `Too many scratchpads in workflow: ${count.count} (max: ${this.MAX_SCRATCHPADS_PER_WORKFLOW})`
-      );
-    }
+    this.assertScratchpadSize('Scratchpad content too large', sizeBytes);
+    this.assertWorkflowCapacity(params.workflow_id, 1);
+    this.assertProjectStorage(workflow.project_scope, sizeBytes, { workflow_id: workflow.id });
 
     const id = randomUUID();
     const now = Math.floor(Date.now() / 1000);
@@ -618,9 +866,11 @@ export class ScratchpadDatabase {
       this.insertScratchpad.run(id, params.workflow_id, params.title, params.content, sizeBytes);
       this.incrementScratchpadCount.run(params.workflow_id);
       this.updateWorkflowTimestamp.run(params.workflow_id);
+      this.recordRevision(id, params.workflow_id, params.content, sizeBytes, 'create', 1);
     });
 
     transaction();
+    this.emitScratchpadChange('created', params.workflow_id, id);
 
     return {
       id,
@@ -630,6 +880,9 @@ export class ScratchpadDatabase {
       created_at: now,
       updated_at: now,
       size_bytes: sizeBytes,
+      version: 1,
+      tags: [],
+      metadata: {},
     };
   }
 
@@ -638,13 +891,17 @@ export class ScratchpadDatabase {
    */
   getScratchpadById(id: string): Scratchpad | null {
     const rawResult = this.getScratchpad.get(id);
-    return assertScratchpad(rawResult, 'getScratchpadById');
+    return assertScratchpad(rawResult, 'getScratchpadById')
+      ? toScratchpad(rawResult as ScratchpadDbRow)
+      : null;
   }
 
   /**
    * Append content to existing scratchpad
+   *
+   * @param guard - 可選的樂觀並行條件（expected_version / if_unmodified_since）
    */
-  appendToScratchpad(params: AppendScratchpadParams): Scratchpad {
+  appendToScratchpad(params: AppendScratchpadParams, guard: WriteGuard = {}): Scratchpad {
     const existing = this.getScratchpadById(params.id);
     if (!existing) {
       throw new Error(`Scratchpad not found: ${params.id}`);
@@ -658,25 +915,45 @@ export class ScratchpadDatabase {
       );
     }
 
-    // Block-based 分隔模板：兩個空行 + 分隔線 + block 標記
-    const appendTemplate = '\n\n---\n<!--- block start --->\n';
+    this.assertWriteGuard(existing, guard);
+
+    // Block-based 分隔：兩個空行 + 分隔線 + 帶穩定 ID、作者、種類、標籤與時間戳的 block 標記
+    const header = {
+      id: BlockParser.generateBlockId(existing.content),
+      author: this.normalizeBlockAuthor(params.author),
+      kind: params.kind,
+      tags: TagNormalizer.normalizeAll(params.tags ?? []),
+      timestamp: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    };
+    if (header.kind !== undefined && !BlockParser.isBlockKind(header.kind)) {
+      throw new Error(`Invalid block kind: ${String(params.kind)} (use ${BLOCK_KINDS.join(', ')})`);
+    }
     const newContent =
       existing.content.trim() === ''
-        ? params.content // 首次 append 不需要分隔符
-        : existing.content + appendTemplate + params.content;
+        ? BlockParser.createLeadingHeader(header) + params.content // 首次 append 不需要分隔線
+        : existing.content + BlockParser.createSplitter(header) + params.content;
     const newSizeBytes = Buffer.byteLength(newContent, 'utf8');
 
-    if (newSizeBytes > this.MAX_SCRATCHPAD_SIZE) {
-      throw new Error(
-        `Appending would exceed size limit: ${newSizeBytes} bytes (max: ${this.MAX_SCRATCHPAD_SIZE} bytes)`
-      );
-    }
+    this.assertScratchpadSize('Appending would exceed size limit', newSizeBytes, existing);
+    this.assertProjectStorage(workflow.project_scope, newSizeBytes - existing.size_bytes, {
+      workflow_id: workflow.id,
+      scratchpad_id: existing.id,
+    });
 
     // 使用簡化的事務處理，依賴 SQLite 原生 FTS5 觸發器
     // WAL 模式 + FTS5 觸發器需要 PRAGMA trusted_schema = ON（已在構造函數設定）
     const transaction = this.db.transaction(() => {
-      this.updateScratchpad.run(newContent, newSizeBytes, params.id);
+      this.writeScratchpadContent(existing, newContent, newSizeBytes, guard);
       this.updateWorkflowTimestamp.run(existing.workflow_id);
+      this.recordRevision(
+        params.id,
+        existing.workflow_id,
+        newContent,
+        newSizeBytes,
+        'append',
+        existing.version + 1,
+        existing
+      );
     });
 
     try {
@@ -684,7 +961,11 @@ export class ScratchpadDatabase {
     } catch (error) {
       // FTS5 觸發器理論上已透過 PRAGMA trusted_schema = ON 解決
       // 若仍出錯，記錄警告並降級到 LIKE 搜尋後重試
-      if (error instanceof Error && error.message.includes('fts')) {
+      if (
+        error instanceof Error &&
+        !(error instanceof ScratchpadConflictError) &&
+        error.message.includes('fts')
+      ) {
         console.warn(
           'FTS5 觸發器錯誤（已降級至 LIKE 搜尋）；請檢查 PRAGMA trusted_schema 設定:',
           error.message
@@ -704,13 +985,22 @@ export class ScratchpadDatabase {
       throw new Error('Failed to update scratchpad');
     }
 
+    this.emitScratchpadChange('updated', updated.workflow_id, updated.id);
     return updated;
   }
 
   /**
    * Update scratchpad content directly (for operations like chop)
+   *
+   * @param operation - 記錄在修訂歷史中的操作名稱（例如 'chop'、'update:replace_lines'）
+   * @param guard - 可選的樂觀並行條件（expected_version / if_unmodified_since）
    */
-  updateScratchpadContent(id: string, newContent: string): Scratchpad {
+  updateScratchpadContent(
+    id: string,
+    newContent: string,
+    operation: string = 'update',
+    guard: WriteGuard = {}
+  ): Scratchpad {
     const existing = this.getScratchpadById(id);
     if (!existing) {
       throw new Error(`Scratchpad not found: ${id}`);
@@ -722,12 +1012,28 @@ export class ScratchpadDatabase {
       throw new Error(`Cannot update scratchpad: workflow is not active: ${existing.workflow_id}`);
     }
 
+    this.assertWriteGuard(existing, guard);
+
     const newSizeBytes = Buffer.byteLength(newContent, 'utf8');
+    this.assertScratchpadSize('Scratchpad content too large', newSizeBytes, existing);
+    this.assertProjectStorage(workflow.project_scope, newSizeBytes - existing.size_bytes, {
+      workflow_id: workflow.id,
+      scratchpad_id: existing.id,
+    });
 
     // Use transaction for consistency
     const transaction = this.db.transaction(() => {
-      this.updateScratchpad.run(newContent, newSizeBytes, id);
+      this.writeScratchpadContent(existing, newContent, newSizeBytes, guard);
       this.updateWorkflowTimestamp.run(existing.workflow_id);
+      this.recordRevision(
+        id,
+        existing.workflow_id,
+        newContent,
+        newSizeBytes,
+        operation,
+        existing.version + 1,
+        existing
+      );
     });
 
     try {
@@ -735,7 +1041,11 @@ export class ScratchpadDatabase {
     } catch (error) {
       // FTS5 觸發器理論上已透過 PRAGMA trusted_schema = ON 解決
       // 若仍出錯，記錄警告並降級到 LIKE 搜尋後重試
-      if (error instanceof Error && error.message.includes('fts')) {
+      if (
+        error instanceof Error &&
+        !(error instanceof ScratchpadConflictError) &&
+        error.message.includes('fts')
+      ) {
         console.warn(
           'FTS5 觸發器錯誤（已降級至 LIKE 搜尋）；請檢查 PRAGMA trusted_schema 設定:',
           error.message
@@ -752,308 +1062,1881 @@ export class ScratchpadDatabase {
       throw new Error('Failed to update scratchpad');
     }
 
+    this.emitScratchpadChange('updated', updated.workflow_id, updated.id);
     return updated;
   }
 
   /**
-   * List scratchpads in a workflow
+   * Subscribe to change notifications (emitted after each successful write)
+   * 回傳取消訂閱函式
    */
-  listScratchpads(params: ListScratchpadsParams): Scratchpad[] {
-    const limit = Math.min(params.limit ?? 50, 100);
-    const offset = params.offset ?? 0;
+  onChange(listener: DatabaseChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 
-    return this.listScratchpadsByWorkflow.all(params.workflow_id, limit, offset) as Scratchpad[];
+  private emitChange(change: DatabaseChange): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        // 通知失敗不應影響已提交的寫入
+        console.warn('Database change listener failed:', error);
+      }
+    }
   }
 
   /**
-   * Search scratchpads using FTS5 or LIKE fallback
+   * Emit a scratchpad change (subscribers also treat it as a change of the parent workflow)
    */
-  searchScratchpads(params: SearchScratchpadsParams): SearchResult[] {
-    const limit = Math.min(params.limit ?? 20, 50);
-
-    // 檢查 FTS5 健康狀態並嘗試使用 FTS5 搜尋
-    if (this.checkFTS5Health()) {
-      try {
-        let results: Array<{
-          id: string;
-          workflow_id: string;
-          title: string;
-          content: string;
-          created_at: number;
-          updated_at: number;
-          size_bytes: number;
-          w_id: string;
-          w_name: string;
-          w_description: string | null;
-          w_created_at: number;
-          w_updated_at: number;
-          w_scratchpad_count: number;
-          w_is_active: number;
-          w_project_scope: string | null;
-          rank: number;
-        }>;
-
-        // 智慧模式選擇：自動偵測中文內容並選擇最佳搜尋方式
-        const hasChinese = /[\u4e00-\u9fa5]/.test(params.query);
-        const shouldUseJieba = params.useJieba || (hasChinese && this.hasJiebaTokenizer);
-
-        if (shouldUseJieba && this.hasJiebaTokenizer) {
-          // 優先使用 jieba_query() 結巴分詞搜尋 - 提供最佳中文搜尋體驗
-          try {
-            results = this.searchWithJieba(params.query, params.workflow_id, limit);
-          } catch (jiebaError) {
-            console.warn('⚠️ Jieba 搜尋失敗，降級到 simple_query:', jiebaError);
-            // 降級到 simple_query，使用參數化查詢
-            const sql = `
-              SELECT 
-                s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-                w.id as w_id, w.name as w_name, w.description as w_description, 
-                w.created_at as w_created_at, w.updated_at as w_updated_at, 
-                w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-                fts.rank
-              FROM scratchpads_fts fts
-              JOIN scratchpads s ON s.rowid = fts.rowid
-              JOIN workflows w ON s.workflow_id = w.id
-              WHERE scratchpads_fts MATCH simple_query(?)
-              AND (? IS NULL OR s.workflow_id = ?)
-              ORDER BY fts.rank
-              LIMIT ?
-            `;
+  private emitScratchpadChange(
+    action: DatabaseChange['action'],
+    workflowId: string,
+    scratchpadId: string
+  ): void {
+    this.emitChange({ type: 'scratchpad', action, workflow_id: workflowId, scratchpad_id: scratchpadId });
+  }
 
-            const stmt = this.db.prepare(sql);
-            results = stmt.all(
-              params.query,
-              params.workflow_id,
-              params.workflow_id,
-              limit
-            ) as Array<{
-              id: string;
-              workflow_id: string;
-              title: string;
-              content: string;
-              created_at: number;
-              updated_at: number;
-              size_bytes: number;
-              w_id: string;
-              w_name: string;
-              w_description: string | null;
-              w_created_at: number;
-              w_updated_at: number;
-              w_scratchpad_count: number;
-              w_is_active: number;
-              w_project_scope: string | null;
-              rank: number;
-            }>;
-          }
-        } else if (this.hasSimpleTokenizer) {
-          // 使用 simple_query() 函數，使用參數化查詢
-          const sql = `
-            SELECT 
-              s.id, s.workflow_id, s.title, s.content, s.created_at, s.updated_at, s.size_bytes,
-              w.id as w_id, w.name as w_name, w.description as w_description, 
-              w.created_at as w_created_at, w.updated_at as w_updated_at, 
-              w.scratchpad_count as w_scratchpad_count, w.is_active as w_is_active, w.project_scope as w_project_scope,
-              fts.rank
-            FROM scratchpads_fts fts
-            JOIN scratchpads s ON s.rowid = fts.rowid
-            JOIN workflows w ON s.workflow_id = w.id
-            WHERE scratchpads_fts MATCH simple_query(?)
-            AND (? IS NULL OR s.workflow_id = ?)
-            ORDER BY fts.rank
-            LIMIT ?
-          `;
+  /**
+   * Verify optimistic concurrency conditions against the current scratchpad state
+   * 不符合時拋出 ScratchpadConflictError（含目前版本與 diff 提示）
+   *
+   * if_unmodified_since 為盡力而為：updated_at 只有秒級精度，同一秒內的修改無法偵測
+   */
+  assertWriteGuard(existing: Scratchpad, guard: WriteGuard): void {
+    const versionMismatch =
+      guard.expected_version !== undefined && guard.expected_version !== existing.version;
+    const modifiedSince =
+      guard.if_unmodified_since !== undefined && existing.updated_at > guard.if_unmodified_since;
+
+    if (versionMismatch || modifiedSince) {
+      throw this.createConflictError(existing, guard);
+    }
+  }
 
-          const stmt = this.db.prepare(sql);
-          results = stmt.all(params.query, params.workflow_id, params.workflow_id, limit) as Array<{
-            id: string;
-            workflow_id: string;
-            title: string;
-            content: string;
-            created_at: number;
-            updated_at: number;
-            size_bytes: number;
-            w_id: string;
-            w_name: string;
-            w_description: string | null;
-            w_created_at: number;
-            w_updated_at: number;
-            w_scratchpad_count: number;
-            w_is_active: number;
-            w_project_scope: string | null;
-            rank: number;
-          }>;
-        } else if (this.searchScratchpadsFTS) {
-          // 使用標準 FTS5 查詢 - 現在安全地直接傳遞參數
-          if (this.hasSimpleTokenizer) {
-            // simple_query(?) 會安全地處理用戶輸入
-            results = this.searchScratchpadsFTS.all(
-              params.query, // 直接傳遞原始查詢
-              params.workflow_id ?? null,
-              params.workflow_id ?? null,
-              limit
-            ) as Array<{
-              id: string;
-              workflow_id: string;
-              title: string;
-              content: string;
-              created_at: number;
-              updated_at: number;
-              size_bytes: number;
-              w_id: string;
-              w_name: string;
-              w_description: string | null;
-              w_created_at: number;
-              w_updated_at: number;
-              w_scratchpad_count: number;
-              w_is_active: number;
-              w_project_scope: string | null;
-              rank: number;
-            }>;
-          } else {
-            // 基本 FTS5 查詢 - 需要使用構建的安全查詢
-            const safeQuery = this.buildFTS5Query(params.query);
-            results = this.searchScratchpadsFTS.all(
-              safeQuery,
-              params.workflow_id ?? null,
-              params.workflow_id ?? null,
-              limit
-            ) as Array<{
-              id: string;
-              workflow_id: string;
-              title: string;
-              content: string;
-              created_at: number;
-              updated_at: number;
-              size_bytes: number;
-              w_id: string;
-              w_name: string;
-              w_description: string | null;
-              w_created_at: number;
-              w_updated_at: number;
-              w_scratchpad_count: number;
-              w_is_active: number;
-              w_project_scope: string | null;
-              rank: number;
-            }>;
-          }
-        } else {
-          throw new Error('No FTS search method available');
-        }
+  /**
+   * 條件式寫入：僅在版本仍等於讀取時的版本才更新（跨程序寫入時的最後防線）
+   */
+  private writeScratchpadContent(
+    existing: Scratchpad,
+    newContent: string,
+    newSizeBytes: number,
+    guard: WriteGuard
+  ): void {
+    const result = this.updateScratchpad.run(newContent, newSizeBytes, existing.id, existing.version);
+    if (result.changes === 0) {
+      const current = this.getScratchpadById(existing.id);
+      if (!current) {
+        throw new Error(`Scratchpad not found: ${existing.id}`);
+      }
+      throw this.createConflictError(current, {
+        expected_version: guard.expected_version ?? existing.version,
+        if_unmodified_since: guard.if_unmodified_since,
+      });
+    }
+  }
 
-        return results.map((row) => ({
-          scratchpad: {
-            id: row.id,
-            workflow_id: row.workflow_id,
-            title: row.title,
-            content: row.content,
-            created_at: row.created_at,
-            updated_at: row.updated_at,
-            size_bytes: row.size_bytes,
-          },
-          workflow: {
-            id: row.w_id,
-            name: row.w_name,
-            description: row.w_description,
-            created_at: row.w_created_at,
-            updated_at: row.w_updated_at,
-            scratchpad_count: row.w_scratchpad_count,
-            is_active: Boolean(row.w_is_active),
-            project_scope: row.w_project_scope,
-          },
-          rank: row.rank,
-        }));
-      } catch (error) {
-        console.warn('FTS5 搜尋失敗，降級到 LIKE 搜尋:', error);
-        this.hasFTS5 = false; // 禁用 FTS5 避免重複錯誤
-        this.hasSimpleTokenizer = false; // 也禁用 simple 擴展
+  /**
+   * Build a conflict error with a short diff from the caller's base revision to the current content
+   */
+  private createConflictError(current: Scratchpad, guard: WriteGuard): ScratchpadConflictError {
+    const base = (
+      guard.expected_version !== undefined
+        ? this.db
+            .prepare(
+              `SELECT * FROM scratchpad_revisions
+               WHERE scratchpad_id = ? AND scratchpad_version <= ?
+               ORDER BY revision DESC LIMIT 1`
+            )
+            .get(current.id, guard.expected_version)
+        : this.db
+            .prepare(
+              `SELECT * FROM scratchpad_revisions
+               WHERE scratchpad_id = ? AND created_at <= ?
+               ORDER BY revision DESC LIMIT 1`
+            )
+            .get(current.id, guard.if_unmodified_since ?? 0)
+    ) as ScratchpadRevision | undefined;
+
+    let diffHint: string;
+    if (!base) {
+      diffHint = `Base version is no longer in revision history; current content is ${current.size_bytes} bytes`;
+    } else {
+      const { patch, stats } = UnifiedDiff.createPatch(base.content, current.content, {
+        context: 1,
+        oldLabel: `version ${base.scratchpad_version ?? '?'}`,
+        newLabel: `version ${current.version}`,
+      });
+      if (patch === '') {
+        diffHint = 'Content is unchanged since the base version (metadata such as the title changed)';
+      } else {
+        const lines = patch.split('\n');
+        diffHint =
+          lines.length > this.CONFLICT_DIFF_HINT_LINES
+            ? `${lines.slice(0, this.CONFLICT_DIFF_HINT_LINES).join('\n')}\n... (+${stats.additions} -${stats.deletions} lines in total)`
+            : patch;
       }
     }
 
-    // Fallback to LIKE search (或 FTS5 失敗時的降級搜尋)
-    const searchPattern = `%${params.query}%`;
-    const results = this.searchScratchpadsLike.all(
-      searchPattern,
-      searchPattern,
-      params.workflow_id ?? null,
-      params.workflow_id ?? null,
-      limit
-    ) as Array<{
-      id: string;
-      workflow_id: string;
-      title: string;
-      content: string;
-      created_at: number;
-      updated_at: number;
-      size_bytes: number;
-      w_id: string;
-      w_name: string;
-      w_description: string | null;
-      w_created_at: number;
-      w_updated_at: number;
-      w_scratchpad_count: number;
-      w_is_active: number;
-      w_project_scope: string | null;
-      rank: number;
-    }>;
-
-    return results.map((row) => ({
-      scratchpad: {
-        id: row.id,
-        workflow_id: row.workflow_id,
-        title: row.title,
-        content: row.content,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-        size_bytes: row.size_bytes,
-      },
-      workflow: {
-        id: row.w_id,
-        name: row.w_name,
-        description: row.w_description,
-        created_at: row.w_created_at,
-        updated_at: row.w_updated_at,
-        scratchpad_count: row.w_scratchpad_count,
-        is_active: Boolean(row.w_is_active),
-        project_scope: row.w_project_scope,
-      },
-      rank: row.rank,
-    }));
+    return new ScratchpadConflictError({
+      scratchpad_id: current.id,
+      expected_version: guard.expected_version ?? null,
+      if_unmodified_since: guard.if_unmodified_since ?? null,
+      current_version: current.version,
+      current_updated_at: current.updated_at,
+      diff_hint: diffHint,
+    });
   }
 
   /**
-   * Search workflows using FTS5 or LIKE fallback
+   * Rename a scratchpad (FTS5 索引由 UPDATE 觸發器同步)
    */
-  searchWorkflows(params: {
-    query: string;
-    project_scope?: string;
-    limit?: number;
-  }): Array<{
-    id: string;
-    name: string;
-    description: string | null;
-    created_at: number;
-    updated_at: number;
-    scratchpad_count: number;
-    is_active: boolean;
-    project_scope: string | null;
-    rank: number;
-  }> {
-    const limit = Math.min(params.limit ?? 20, 50);
+  renameScratchpad(id: string, title: string): Scratchpad {
+    const existing = this.getScratchpadById(id);
+    if (!existing) {
+      throw new Error(`Scratchpad not found: ${id}`);
+    }
 
-    // 檢查 FTS5 健康狀態並嘗試使用 FTS5 搜尋
-    if (this.checkFTS5Health()) {
-      try {
-        let results: Array<{
-          id: string;
-          name: string;
-          description: string | null;
-          created_at: number;
-          updated_at: number;
-          scratchpad_count: number;
-          is_active: number;
-          project_scope: string | null;
-          rank: number;
-        }>;
+    if (title.trim() === '') {
+      throw new Error('Scratchpad title cannot be empty');
+    }
+
+    const workflow = this.getWorkflowById(existing.workflow_id);
+    if (!workflow || !workflow.is_active) {
+      throw new Error(`Cannot rename scratchpad: workflow is not active: ${existing.workflow_id}`);
+    }
+
+    const transaction = this.db.transaction(() => {
+      this.db
+        .prepare(
+          'UPDATE scratchpads SET title = ?, updated_at = unixepoch(), version = version + 1 WHERE id = ?'
+        )
+        .run(title, id);
+      this.updateWorkflowTimestamp.run(existing.workflow_id);
+    });
+    transaction();
+
+    const updated = this.getScratchpadById(id);
+    if (!updated) {
+      throw new Error('Failed to rename scratchpad');
+    }
+    this.emitScratchpadChange('updated', updated.workflow_id, updated.id);
+    return updated;
+  }
+
+  /**
+   * Move a scratchpad to another workflow, keeping its ID and revision history
+   * 兩個 workflow 的 scratchpad_count / updated_at 在同一 transaction 內更新（FTS5 由 UPDATE 觸發器同步）
+   */
+  moveScratchpad(
+    id: string,
+    targetWorkflowId: string
+  ): { scratchpad: Scratchpad; from_workflow_id: string } {
+    const existing = this.getScratchpadById(id);
+    if (!existing) {
+      throw new Error(`Scratchpad not found: ${id}`);
+    }
+    if (existing.workflow_id === targetWorkflowId) {
+      throw new Error(`Scratchpad is already in workflow: ${targetWorkflowId}`);
+    }
+
+    const source = this.getWorkflowById(existing.workflow_id);
+    if (!source || !source.is_active) {
+      throw new Error(`Cannot move scratchpad: workflow is not active: ${existing.workflow_id}`);
+    }
+    const target = this.assertScratchpadTarget(targetWorkflowId, 'move', 1);
+    if (target.project_scope !== source.project_scope) {
+      this.assertProjectStorage(target.project_scope, existing.size_bytes, {
+        workflow_id: target.id,
+        scratchpad_id: existing.id,
+      });
+    }
+
+    const transaction = this.db.transaction(() => {
+      this.db
+        .prepare(
+          'UPDATE scratchpads SET workflow_id = ?, updated_at = unixepoch(), version = version + 1 WHERE id = ?'
+        )
+        .run(targetWorkflowId, id);
+      this.decrementScratchpadCount.run(existing.workflow_id);
+      this.incrementScratchpadCount.run(targetWorkflowId);
+      this.updateWorkflowTimestamp.run(existing.workflow_id);
+      this.updateWorkflowTimestamp.run(targetWorkflowId);
+    });
+    transaction();
+
+    const moved = this.getScratchpadById(id);
+    if (!moved) {
+      throw new Error('Failed to move scratchpad');
+    }
+    this.emitScratchpadChange('deleted', existing.workflow_id, id);
+    this.emitScratchpadChange('created', targetWorkflowId, id);
+    return { scratchpad: moved, from_workflow_id: existing.workflow_id };
+  }
+
+  /**
+   * Copy a scratchpad (content, tags and metadata) into a workflow under a new ID
+   * 副本從新的修訂歷史開始（一筆 'copy' 修訂）
+   */
+  copyScratchpad(params: CopyScratchpadParams): Scratchpad {
+    const existing = this.getScratchpadById(params.id);
+    if (!existing) {
+      throw new Error(`Scratchpad not found: ${params.id}`);
+    }
+    if (params.title !== undefined && params.title.trim() === '') {
+      throw new Error('Scratchpad title cannot be empty');
+    }
+    const target = this.assertScratchpadTarget(params.workflow_id, 'copy', 1);
+    this.assertProjectStorage(target.project_scope, existing.size_bytes, {
+      workflow_id: target.id,
+      scratchpad_id: existing.id,
+    });
+
+    const copy = this.buildScratchpadCopy(existing, params.workflow_id, params.title);
+    const transaction = this.db.transaction(() => {
+      this.insertScratchpadCopy(copy, existing.id);
+      this.incrementScratchpadCount.run(params.workflow_id);
+      this.updateWorkflowTimestamp.run(params.workflow_id);
+    });
+    transaction();
+
+    this.emitScratchpadChange('created', copy.workflow_id, copy.id);
+    return copy;
+  }
+
+  /**
+   * Clone a workflow with (a subset of) its scratchpads into a new active workflow
+   * 標籤與 metadata 一併複製；scratchpad 副本各自從新的修訂歷史開始
+   */
+  cloneWorkflow(params: CloneWorkflowParams): {
+    workflow: Workflow;
+    scratchpads: Array<{ scratchpad: Scratchpad; source_id: string }>;
+  } {
+    const source = this.getWorkflowById(params.workflow_id);
+    if (!source) {
+      throw new Error(`Workflow not found: ${params.workflow_id}`);
+    }
+    const name = params.name ?? `${source.name} (copy)`;
+    if (name.trim() === '') {
+      throw new Error('Workflow name cannot be empty');
+    }
+
+    let scratchpads =
+      params.include_scratchpads === false
+        ? []
+        : this.listAllScratchpads(source.id);
+    if (params.scratchpad_ids !== undefined) {
+      const requested = new Set(params.scratchpad_ids);
+      const existingIds = new Set(scratchpads.map((scratchpad) => scratchpad.id));
+      const unknown = [...requested].filter((id) => !existingIds.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`Scratchpads not found in workflow ${source.id}: ${unknown.join(', ')}`);
+      }
+      scratchpads = scratchpads.filter((scratchpad) => requested.has(scratchpad.id));
+    }
+    const matched = new Set(
+      this.filterEntityIds(
+        'scratchpad',
+        scratchpads.map((scratchpad) => scratchpad.id),
+        params
+      )
+    );
+    // listAllScratchpads 依建立時間排序，讓副本保持原本的相對順序
+    scratchpads = scratchpads.filter((scratchpad) => matched.has(scratchpad.id));
+    const projectScope =
+      params.project_scope !== undefined ? params.project_scope : source.project_scope;
+    this.assertProjectStorage(
+      projectScope,
+      scratchpads.reduce((total, scratchpad) => total + scratchpad.size_bytes, 0),
+      { workflow_id: source.id }
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    const workflow: Workflow = {
+      id: randomUUID(),
+      name,
+      description: params.description !== undefined ? params.description : source.description,
+      created_at: now,
+      updated_at: now,
+      scratchpad_count: scratchpads.length,
+      is_active: true,
+      project_scope: projectScope,
+      tags: source.tags,
+      metadata: source.metadata,
+    };
+    const copies = scratchpads.map((scratchpad) => ({
+      scratchpad: this.buildScratchpadCopy(scratchpad, workflow.id),
+      source_id: scratchpad.id,
+    }));
+
+    const transaction = this.db.transaction(() => {
+      this.insertWorkflowRow(workflow);
+      for (const copy of copies) {
+        this.insertScratchpadCopy(copy.scratchpad, copy.source_id);
+      }
+    });
+    transaction();
+
+    this.emitChange({ type: 'workflow', action: 'created', workflow_id: workflow.id });
+    for (const copy of copies) {
+      this.emitScratchpadChange('created', workflow.id, copy.scratchpad.id);
+    }
+    return { workflow, scratchpads: copies };
+  }
+
+  /**
+   * Merge scratchpads of a workflow into a new scratchpad
+   *
+   * 每個來源成為一個 block（以來源標題為 `##` 標題），以新格式分隔符串接；
+   * delete_sources 時來源移至垃圾桶，與新 scratchpad 的寫入在同一 transaction 內完成
+   */
+  mergeScratchpads(params: MergeScratchpadsParams): {
+    scratchpad: Scratchpad;
+    sources: Scratchpad[];
+    trash_ids: string[];
+  } {
+    const ids = params.scratchpad_ids;
+    if (ids.length < 2) {
+      throw new Error('At least two scratchpads are required to merge');
+    }
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw new Error(`Duplicate scratchpad IDs: ${[...new Set(duplicates)].join(', ')}`);
+    }
+    if (params.title.trim() === '') {
+      throw new Error('Scratchpad title cannot be empty');
+    }
+
+    const workflow = this.getWorkflowById(params.workflow_id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${params.workflow_id}`);
+    }
+    if (!workflow.is_active) {
+      throw new Error(`Cannot merge scratchpads: workflow is not active: ${params.workflow_id}`);
+    }
+
+    const sources = ids.map((id) => {
+      const scratchpad = this.getScratchpadById(id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${id}`);
+      }
+      if (scratchpad.workflow_id !== params.workflow_id) {
+        throw new Error(`Scratchpad ${id} does not belong to workflow ${params.workflow_id}`);
+      }
+      return scratchpad;
+    });
+
+    const order = params.order ?? 'created_at';
+    if (order !== 'explicit') {
+      // Array.prototype.sort 為穩定排序：時間相同時保留 scratchpad_ids 的順序
+      sources.sort((a, b) => a[order] - b[order]);
+    }
+
+    const content = BlockParser.joinBlocks(
+      sources.map((source) => `## ${source.title}\n\n${source.content.trim()}`)
+    );
+    const sizeBytes = Buffer.byteLength(content, 'utf8');
+    this.assertScratchpadSize('Merged content too large', sizeBytes);
+    this.assertScratchpadTarget(
+      params.workflow_id,
+      'merge',
+      params.delete_sources ? 1 - sources.length : 1
+    );
+    const removedBytes = params.delete_sources
+      ? sources.reduce((total, source) => total + source.size_bytes, 0)
+      : 0;
+    this.assertProjectStorage(workflow.project_scope, sizeBytes - removedBytes, {
+      workflow_id: workflow.id,
+    });
+
+    const id = randomUUID();
+    const trashIds: string[] = [];
+    const transaction = this.db.transaction(() => {
+      if (params.delete_sources) {
+        for (const source of sources) {
+          trashIds.push(this.removeScratchpadRow(source)!);
+        }
+      }
+      this.insertScratchpad.run(id, params.workflow_id, params.title, content, sizeBytes);
+      this.incrementScratchpadCount.run(params.workflow_id);
+      this.updateWorkflowTimestamp.run(params.workflow_id);
+      this.recordRevision(id, params.workflow_id, content, sizeBytes, 'merge', 1);
+    });
+    transaction();
+
+    if (params.delete_sources) {
+      for (const source of sources) {
+        this.emitScratchpadChange('deleted', source.workflow_id, source.id);
+      }
+    }
+    this.emitScratchpadChange('created', params.workflow_id, id);
+
+    const scratchpad = this.getScratchpadById(id);
+    if (!scratchpad) {
+      throw new Error('Failed to merge scratchpads');
+    }
+    return { scratchpad, sources, trash_ids: trashIds };
+  }
+
+  /**
+   * Import a workflow snapshot (from an archive or another database) with a conflict policy
+   *
+   * - 新建的 workflow / scratchpad 保留快照中的 ID 與時間戳
+   * - overwrite 取代既有內容，scratchpad 的 version 仍遞增以維持樂觀並行檢查
+   * - 每個寫入的 scratchpad 記錄一筆修訂（預設 'import'）；整個匯入在同一 transaction 內完成
+   */
+  importWorkflow(snapshot: WorkflowSnapshot, options: ImportWorkflowOptions = {}): ImportWorkflowResult {
+    const policy = options.policy ?? 'skip';
+    const idMap: Record<string, string> = {};
+    const resolveId = (id: string): string => {
+      const mapped = options.id_map?.[id] ?? (options.regenerate_ids ? randomUUID() : id);
+      if (mapped !== id) {
+        idMap[id] = mapped;
+      }
+      return mapped;
+    };
+    const duplicateId = (id: string): string => {
+      const fresh = randomUUID();
+      idMap[id] = fresh;
+      return fresh;
+    };
+
+    for (const scratchpad of snapshot.scratchpads) {
+      this.assertScratchpadSize(
+        `Scratchpad content too large (${scratchpad.id})`,
+        Buffer.byteLength(scratchpad.content, 'utf8'),
+        { id: scratchpad.id, size_bytes: 0 }
+      );
+    }
+
+    let workflowId = resolveId(snapshot.workflow.id);
+    const existingWorkflow = this.getWorkflowById(workflowId);
+    let workflowAction: ImportAction = 'created';
+    if (existingWorkflow) {
+      workflowAction = policy === 'skip' ? 'skipped' : policy === 'overwrite' ? 'overwritten' : 'duplicated';
+      if (policy === 'duplicate') {
+        workflowId = duplicateId(snapshot.workflow.id);
+      }
+    }
+    const workflow: Workflow = {
+      ...snapshot.workflow,
+      id: workflowId,
+      project_scope:
+        options.project_scope !== undefined ? options.project_scope : snapshot.workflow.project_scope,
+      tags: TagNormalizer.normalizeAll(snapshot.workflow.tags),
+    };
+
+    const results: ImportWorkflowResult['scratchpads'] = [];
+    const touchedWorkflows = new Set<string>([workflowId]);
+    const storageBefore = this.getProjectStorageUsage(workflow.project_scope);
+    const transaction = this.db.transaction(() => {
+      if (workflowAction === 'created' || workflowAction === 'duplicated') {
+        this.insertWorkflowRow({ ...workflow, scratchpad_count: 0 });
+      } else if (workflowAction === 'overwritten') {
+        this.db
+          .prepare(
+            `UPDATE workflows SET name = ?, description = ?, is_active = ?, project_scope = ?, tags = ?,
+             metadata = ?, updated_at = unixepoch() WHERE id = ?`
+          )
+          .run(
+            workflow.name,
+            workflow.description,
+            workflow.is_active ? 1 : 0,
+            workflow.project_scope,
+            workflow.tags.join(' '),
+            Object.keys(workflow.metadata).length > 0 ? JSON.stringify(workflow.metadata) : null,
+            workflowId
+          );
+        this.db.prepare("DELETE FROM tags WHERE entity_type = 'workflow' AND entity_id = ?").run(workflowId);
+        this.insertTagRows('workflow', workflowId, workflow.tags);
+      }
+
+      for (const source of snapshot.scratchpads) {
+        let id = resolveId(source.id);
+        const existing = this.getScratchpadById(id);
+        let action: ImportAction = 'created';
+        if (existing) {
+          action = policy === 'skip' ? 'skipped' : policy === 'overwrite' ? 'overwritten' : 'duplicated';
+          if (policy === 'duplicate') {
+            id = duplicateId(source.id);
+          }
+        }
+        results.push({ source_id: source.id, id, title: source.title, action });
+        if (action === 'skipped') {
+          continue;
+        }
+
+        const scratchpad: Scratchpad = {
+          ...source,
+          id,
+          workflow_id: workflowId,
+          size_bytes: Buffer.byteLength(source.content, 'utf8'),
+          version: existing && action === 'overwritten' ? existing.version + 1 : source.version,
+          tags: TagNormalizer.normalizeAll(source.tags),
+        };
+        if (existing && action === 'overwritten') {
+          // 原地更新，保留修訂歷史與 embeddings（FTS5 由 UPDATE 觸發器同步）
+          touchedWorkflows.add(existing.workflow_id);
+          this.db
+            .prepare(
+              `UPDATE scratchpads SET workflow_id = ?, title = ?, content = ?, created_at = ?, updated_at = ?,
+               size_bytes = ?, version = ?, tags = ?, metadata = ? WHERE id = ?`
+            )
+            .run(
+              workflowId,
+              scratchpad.title,
+              scratchpad.content,
+              scratchpad.created_at,
+              scratchpad.updated_at,
+              scratchpad.size_bytes,
+              scratchpad.version,
+              scratchpad.tags.join(' '),
+              Object.keys(scratchpad.metadata).length > 0 ? JSON.stringify(scratchpad.metadata) : null,
+              id
+            );
+          this.db.prepare("DELETE FROM tags WHERE entity_type = 'scratchpad' AND entity_id = ?").run(id);
+          this.insertTagRows('scratchpad', id, scratchpad.tags);
+        } else {
+          this.insertScratchpadRow(scratchpad);
+        }
+        this.recordRevision(
+          id,
+          workflowId,
+          scratchpad.content,
+          scratchpad.size_bytes,
+          options.operation ?? 'import',
+          scratchpad.version,
+          // 被覆寫的 scratchpad 若尚無修訂，先保存匯入前內容作為 baseline
+          existing && action === 'overwritten' ? existing : undefined
+        );
+      }
+
+      const changed = results.some((result) => result.action !== 'skipped');
+      // 依實際資料列重新計算計數（overwrite 可能把 scratchpad 從其他 workflow 移入）
+      for (const touchedId of touchedWorkflows) {
+        this.db
+          .prepare(
+            'UPDATE workflows SET scratchpad_count = (SELECT COUNT(*) FROM scratchpads WHERE workflow_id = ?) WHERE id = ?'
+          )
+          .run(touchedId, touchedId);
+        if (touchedId !== workflowId || (workflowAction === 'skipped' && changed)) {
+          this.updateWorkflowTimestamp.run(touchedId);
+        }
+      }
+      // 寫入後再檢查，超過上限時整個匯入回滾
+      this.assertWorkflowCapacity(workflowId, 0);
+      this.assertProjectStorage(
+        workflow.project_scope,
+        this.getProjectStorageUsage(workflow.project_scope) - storageBefore,
+        { workflow_id: workflowId },
+        storageBefore
+      );
+    });
+    transaction();
+
+    if (workflowAction !== 'skipped') {
+      this.emitChange({
+        type: 'workflow',
+        action: workflowAction === 'overwritten' ? 'updated' : 'created',
+        workflow_id: workflowId,
+      });
+    }
+    for (const result of results) {
+      if (result.action !== 'skipped') {
+        this.emitScratchpadChange(
+          result.action === 'overwritten' ? 'updated' : 'created',
+          workflowId,
+          result.id
+        );
+      }
+    }
+
+    const imported = this.getWorkflowById(workflowId);
+    if (!imported) {
+      throw new Error('Failed to import workflow');
+    }
+    return { workflow: imported, workflow_action: workflowAction, scratchpads: results, id_map: idMap };
+  }
+
+  /**
+   * 寫入 workflow 資料列與標籤（需在呼叫端的 transaction 內執行）
+   */
+  private insertWorkflowRow(workflow: Workflow): void {
+    this.db
+      .prepare(
+        `INSERT INTO workflows (id, name, description, created_at, updated_at, scratchpad_count, is_active, project_scope, tags, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        workflow.id,
+        workflow.name,
+        workflow.description,
+        workflow.created_at,
+        workflow.updated_at,
+        workflow.scratchpad_count,
+        workflow.is_active ? 1 : 0,
+        workflow.project_scope,
+        workflow.tags.join(' '),
+        Object.keys(workflow.metadata).length > 0 ? JSON.stringify(workflow.metadata) : null
+      );
+    this.insertTagRows('workflow', workflow.id, workflow.tags);
+  }
+
+  /**
+   * 驗證目標 workflow 存在、為啟用狀態，且加入 incoming 個 scratchpad 後不超過上限
+   */
+  private assertScratchpadTarget(workflowId: string, action: string, incoming: number): Workflow {
+    const target = this.getWorkflowById(workflowId);
+    if (!target) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+    if (!target.is_active) {
+      throw new Error(`Cannot ${action} scratchpad: workflow is not active: ${workflowId}`);
+    }
+    this.assertWorkflowCapacity(workflowId, incoming);
+    return target;
+  }
+
+  /**
+   * 正規化 block 作者（去除前後空白，空字串視為未指定）
+   *
+   * @throws Error 作者名稱過長或含換行時
+   */
+  private normalizeBlockAuthor(author: string | undefined): string | undefined {
+    const normalized = author?.trim();
+    if (!normalized) {
+      return undefined;
+    }
+    if (normalized.length > 100 || /[\r\n]/.test(normalized)) {
+      throw new Error('Invalid block author: use a single line of at most 100 characters');
+    }
+    return normalized;
+  }
+
+  /**
+   * 驗證 scratchpad 大小上限；existing 為被改寫的 scratchpad，不增加大小的寫入一律允許
+   *
+   * @throws QuotaExceededError 超過 max_scratchpad_bytes 時
+   */
+  private assertScratchpadSize(
+    label: string,
+    sizeBytes: number,
+    existing?: Pick<Scratchpad, 'id' | 'size_bytes'>
+  ): void {
+    const limit = this.limits.max_scratchpad_bytes;
+    const current = existing?.size_bytes ?? 0;
+    if (sizeBytes <= limit || sizeBytes <= current) {
+      return;
+    }
+    throw new QuotaExceededError(`${label}: ${sizeBytes} bytes (max: ${limit} bytes)`, {
+      quota: 'scratchpad_size',
+      unit: 'bytes',
+      limit,
+      current,
+      attempted: sizeBytes,
+      ...(existing && { scratchpad_id: existing.id }),
+    });
+  }
+
+  /**
+   * 驗證 workflow 加入 incoming 個 scratchpad 後不超過 max_scratchpads_per_workflow
+   * （incoming 為 0 時檢查目前數量，用於寫入後的驗證）
+   *
+   * @throws QuotaExceededError
+   */
+  private assertWorkflowCapacity(workflowId: string, incoming: number): void {
+    const { count } = this.countScratchpadsByWorkflow.get(workflowId) as { count: number };
+    const limit = this.limits.max_scratchpads_per_workflow;
+    const attempted = count + incoming;
+    if (attempted <= limit || incoming < 0) {
+      return;
+    }
+    throw new QuotaExceededError(`Too many scratchpads in workflow: ${count} (max: ${limit})`, {
+      quota: 'workflow_scratchpads',
+      unit: 'scratchpads',
+      limit,
+      current: count,
+      attempted,
+      workflow_id: workflowId,
+    });
+  }
+
+  /**
+   * Total scratchpad bytes of all workflows in a project scope（null 為未設定範圍的 workflow）
+   */
+  getProjectStorageUsage(projectScope: string | null): number {
+    const row = this.db
+      .prepare(
+        `SELECT COALESCE(SUM(s.size_bytes), 0) AS total FROM scratchpads s
+         JOIN workflows w ON w.id = s.workflow_id WHERE w.project_scope IS ?`
+      )
+      .get(projectScope) as { total: number };
+    return row.total;
+  }
+
+  /**
+   * Storage quota for a project scope, or null when unlimited（未個別設定時套用 '*'）
+   */
+  getProjectStorageQuota(projectScope: string | null): number | null {
+    const quotas = this.limits.project_storage_quotas;
+    return (projectScope !== null ? quotas[projectScope] : undefined) ?? quotas['*'] ?? null;
+  }
+
+  /**
+   * 驗證專案範圍增加 deltaBytes 後不超過儲存配額；減少用量的寫入一律允許
+   *
+   * @param current - 寫入前的用量（已在 transaction 內寫入時由呼叫端提供）
+   * @throws QuotaExceededError
+   */
+  private assertProjectStorage(
+    projectScope: string | null,
+    deltaBytes: number,
+    context: { workflow_id?: string; scratchpad_id?: string },
+    current: number = this.getProjectStorageUsage(projectScope)
+  ): void {
+    const limit = this.getProjectStorageQuota(projectScope);
+    if (limit === null || deltaBytes <= 0 || current + deltaBytes <= limit) {
+      return;
+    }
+    const attempted = current + deltaBytes;
+    const scopeLabel =
+      projectScope === null ? 'unscoped workflows' : `project scope "${projectScope}"`;
+    throw new QuotaExceededError(
+      `Project storage quota exceeded for ${scopeLabel}: ${attempted} bytes (max: ${limit} bytes)`,
+      {
+        quota: 'project_storage',
+        unit: 'bytes',
+        limit,
+        current,
+        attempted,
+        project_scope: projectScope,
+        ...context,
+      }
+    );
+  }
+
+  private buildScratchpadCopy(source: Scratchpad, workflowId: string, title?: string): Scratchpad {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      ...source,
+      id: randomUUID(),
+      workflow_id: workflowId,
+      title: title ?? source.title,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+  }
+
+  /**
+   * 寫入 scratchpad 副本與其第一筆修訂（需在呼叫端的 transaction 內執行）
+   */
+  private insertScratchpadCopy(copy: Scratchpad, sourceId: string): void {
+    this.insertScratchpadRow(copy);
+    this.recordRevision(
+      copy.id,
+      copy.workflow_id,
+      copy.content,
+      copy.size_bytes,
+      `copy:${sourceId}`,
+      1
+    );
+  }
+
+  /**
+   * Add, remove or replace the tags of a workflow or scratchpad
+   * tags 表與實體的 tags 欄位（FTS5 索引來源）在同一 transaction 內同步
+   */
+  setTags(entityType: TaggableEntityType, id: string, changes: TagChanges): string[] {
+    const current = this.getTaggableEntity(entityType, id, 'tag');
+
+    const tags = new Set(
+      changes.set !== undefined ? TagNormalizer.normalizeAll(changes.set) : current.tags
+    );
+    TagNormalizer.normalizeAll(changes.add ?? []).forEach((tag) => tags.add(tag));
+    TagNormalizer.normalizeAll(changes.remove ?? []).forEach((tag) => tags.delete(tag));
+    if (tags.size > TagNormalizer.MAX_TAGS) {
+      throw new Error(`Too many tags: ${tags.size} (max: ${TagNormalizer.MAX_TAGS})`);
+    }
+    const sorted = [...tags].sort();
+
+    const transaction = this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM tags WHERE entity_type = ? AND entity_id = ?')
+        .run(entityType, id);
+      this.insertTagRows(entityType, id, sorted);
+      this.touchTaggableEntity(entityType, id, current.workflow_id, 'tags', sorted.join(' '));
+    });
+    transaction();
+
+    this.emitTaggableChange(entityType, id, current.workflow_id);
+    return sorted;
+  }
+
+  /**
+   * Merge (or replace) key/value metadata of a workflow or scratchpad; null values delete keys
+   */
+  setMetadata(entityType: TaggableEntityType, id: string, changes: MetadataChanges): EntityMetadata {
+    const current = this.getTaggableEntity(entityType, id, 'update metadata of');
+
+    const metadata: EntityMetadata = changes.replace ? {} : { ...current.metadata };
+    for (const [key, value] of Object.entries(changes.set)) {
+      TagNormalizer.assertMetadataKey(key);
+      if (value === null) {
+        delete metadata[key];
+      } else {
+        metadata[key] = value;
+      }
+    }
+
+    const json = JSON.stringify(metadata);
+    const sizeBytes = Buffer.byteLength(json, 'utf8');
+    if (sizeBytes > TagNormalizer.MAX_METADATA_BYTES) {
+      throw new Error(
+        `Metadata too large: ${sizeBytes} bytes (max: ${TagNormalizer.MAX_METADATA_BYTES} bytes)`
+      );
+    }
+
+    this.db.transaction(() => {
+      this.touchTaggableEntity(
+        entityType,
+        id,
+        current.workflow_id,
+        'metadata',
+        Object.keys(metadata).length > 0 ? json : null
+      );
+    })();
+
+    this.emitTaggableChange(entityType, id, current.workflow_id);
+    return metadata;
+  }
+
+  /**
+   * Keep only the IDs whose entity matches the tag / metadata filter (order preserved)
+   */
+  filterEntityIds(entityType: TaggableEntityType, ids: string[], filter: EntityFilter): string[] {
+    const entityFilter = buildEntityFilter(entityType, 'id', 'metadata', filter);
+    if (!entityFilter.sql || ids.length === 0) {
+      return ids;
+    }
+
+    const table = entityType === 'workflow' ? 'workflows' : 'scratchpads';
+    const rows = this.db
+      .prepare(
+        `SELECT id FROM ${table} WHERE id IN (${ids.map(() => '?').join(', ')})${entityFilter.sql}`
+      )
+      .all(...ids, ...entityFilter.params) as Array<{ id: string }>;
+    const matched = new Set(rows.map((row) => row.id));
+    return ids.filter((id) => matched.has(id));
+  }
+
+  private getTaggableEntity(
+    entityType: TaggableEntityType,
+    id: string,
+    action: string
+  ): { workflow_id: string; tags: string[]; metadata: EntityMetadata } {
+    if (entityType === 'workflow') {
+      const workflow = this.getWorkflowById(id);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${id}`);
+      }
+      return { workflow_id: workflow.id, tags: workflow.tags, metadata: workflow.metadata };
+    }
+
+    const scratchpad = this.getScratchpadById(id);
+    if (!scratchpad) {
+      throw new Error(`Scratchpad not found: ${id}`);
+    }
+    const workflow = this.getWorkflowById(scratchpad.workflow_id);
+    if (!workflow || !workflow.is_active) {
+      throw new Error(`Cannot ${action} scratchpad: workflow is not active: ${scratchpad.workflow_id}`);
+    }
+    return { workflow_id: scratchpad.workflow_id, tags: scratchpad.tags, metadata: scratchpad.metadata };
+  }
+
+  /**
+   * 寫入 tags / metadata 欄位並更新時間戳（scratchpad 同 rename 遞增 version；需在 transaction 內執行）
+   */
+  private touchTaggableEntity(
+    entityType: TaggableEntityType,
+    id: string,
+    workflowId: string,
+    column: 'tags' | 'metadata',
+    value: string | null
+  ): void {
+    if (entityType === 'workflow') {
+      this.db
+        .prepare(`UPDATE workflows SET ${column} = ?, updated_at = unixepoch() WHERE id = ?`)
+        .run(value, id);
+      return;
+    }
+    this.db
+      .prepare(
+        `UPDATE scratchpads SET ${column} = ?, updated_at = unixepoch(), version = version + 1 WHERE id = ?`
+      )
+      .run(value, id);
+    this.updateWorkflowTimestamp.run(workflowId);
+  }
+
+  private emitTaggableChange(entityType: TaggableEntityType, id: string, workflowId: string): void {
+    if (entityType === 'workflow') {
+      this.emitChange({ type: 'workflow', action: 'updated', workflow_id: id });
+    } else {
+      this.emitScratchpadChange('updated', workflowId, id);
+    }
+  }
+
+  /**
+   * Delete a scratchpad
+   * 預設移至垃圾桶（可還原），permanent=true 時直接永久刪除
+   */
+  deleteScratchpad(
+    id: string,
+    options: { permanent?: boolean | undefined; allow_inactive?: boolean | undefined } = {}
+  ): { scratchpad: Scratchpad; trash_id: string | null } {
+    const existing = this.getScratchpadById(id);
+    if (!existing) {
+      throw new Error(`Scratchpad not found: ${id}`);
+    }
+
+    const workflow = this.getWorkflowById(existing.workflow_id);
+    if (!workflow || (!workflow.is_active && !options.allow_inactive)) {
+      throw new Error(`Cannot delete scratchpad: workflow is not active: ${existing.workflow_id}`);
+    }
+
+    const transaction = this.db.transaction(() =>
+      this.removeScratchpadRow(existing, options.permanent)
+    );
+    const trashId = transaction();
+
+    this.emitScratchpadChange('deleted', existing.workflow_id, id);
+    return { scratchpad: existing, trash_id: trashId };
+  }
+
+  /**
+   * 刪除 scratchpad 與其修訂（非 permanent 時先寫入垃圾桶；需在呼叫端的 transaction 內執行）
+   *
+   * @returns trash ID（permanent 時為 null）
+   */
+  private removeScratchpadRow(existing: Scratchpad, permanent?: boolean): string | null {
+    let trashId: string | null = null;
+    if (!permanent) {
+      const revisions = this.db
+        .prepare('SELECT * FROM scratchpad_revisions WHERE scratchpad_id = ?')
+        .all(existing.id);
+      trashId = this.insertTrashEntry({
+        item_type: 'scratchpad',
+        item_id: existing.id,
+        workflow_id: existing.workflow_id,
+        title: existing.title,
+        size_bytes: existing.size_bytes,
+        payload: { scratchpad: existing, revisions },
+      });
+    }
+
+    this.db.prepare('DELETE FROM scratchpad_revisions WHERE scratchpad_id = ?').run(existing.id);
+    this.db.prepare('DELETE FROM block_embeddings WHERE scratchpad_id = ?').run(existing.id);
+    this.db.prepare('DELETE FROM scratchpads WHERE id = ?').run(existing.id);
+    this.decrementScratchpadCount.run(existing.workflow_id);
+    this.updateWorkflowTimestamp.run(existing.workflow_id);
+    return trashId;
+  }
+
+  /**
+   * 寫入垃圾桶項目（需在呼叫端的 transaction 內執行）
+   */
+  private insertTrashEntry(entry: Omit<TrashEntry, 'id' | 'deleted_at'> & { payload: unknown }): string {
+    const trashId = randomUUID();
+    this.db
+      .prepare(
+        `INSERT INTO trash (id, item_type, item_id, workflow_id, title, size_bytes, payload, deleted_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, unixepoch())`
+      )
+      .run(
+        trashId,
+        entry.item_type,
+        entry.item_id,
+        entry.workflow_id,
+        entry.title,
+        entry.size_bytes,
+        JSON.stringify(entry.payload)
+      );
+    return trashId;
+  }
+
+  /**
+   * Stable ID of this database file (created with the schema, used as the sync peer ID)
+   */
+  getDatabaseId(): string {
+    const row = this.db.prepare("SELECT value FROM schema_info WHERE key = 'database_id'").get() as
+      | { value: string }
+      | undefined;
+    if (!row) {
+      throw new Error('Database ID not initialized');
+    }
+    return row.value;
+  }
+
+  /**
+   * Unix timestamp of the last successful sync with a peer database (null if never synced)
+   */
+  getLastSyncedAt(peerId: string): number | null {
+    const row = this.db.prepare('SELECT last_synced_at FROM sync_state WHERE peer_id = ?').get(peerId) as
+      | { last_synced_at: number }
+      | undefined;
+    return row ? row.last_synced_at : null;
+  }
+
+  /**
+   * Record a successful sync with a peer database
+   */
+  recordSync(peerId: string, syncedAt: number): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO sync_state (peer_id, last_synced_at) VALUES (?, ?)')
+      .run(peerId, syncedAt);
+  }
+
+  /**
+   * List trash entries (newest first)
+   */
+  listTrash(params: { item_type?: TrashItemType | undefined; workflow_id?: string | undefined } = {}): TrashEntry[] {
+    return this.db
+      .prepare(
+        `SELECT id, item_type, item_id, workflow_id, title, size_bytes, deleted_at FROM trash
+         WHERE (? IS NULL OR item_type = ?)
+         AND (? IS NULL OR workflow_id = ?)
+         ORDER BY deleted_at DESC, rowid DESC`
+      )
+      .all(
+        params.item_type ?? null,
+        params.item_type ?? null,
+        params.workflow_id ?? null,
+        params.workflow_id ?? null
+      ) as TrashEntry[];
+  }
+
+  /**
+   * Restore a trashed scratchpad or workflow with its original IDs and timestamps
+   */
+  restoreFromTrash(trashId: string): { item_type: TrashItemType; item_id: string; scratchpads_restored: number } {
+    const row = this.db.prepare('SELECT * FROM trash WHERE id = ?').get(trashId) as
+      | (TrashEntry & { payload: string })
+      | undefined;
+    if (!row) {
+      throw new Error(`Trash entry not found: ${trashId}`);
+    }
+
+    const payload = JSON.parse(row.payload) as Record<string, unknown>;
+    const revisions = Array.isArray(payload['revisions'])
+      ? (payload['revisions'] as ScratchpadRevision[])
+      : [];
+
+    if (row.item_type === 'scratchpad') {
+      // schema v7 以前的垃圾桶快照沒有 version 欄位，v9 以前沒有 tags / metadata
+      const scratchpad: unknown = {
+        version: 1,
+        tags: [],
+        metadata: {},
+        ...(payload['scratchpad'] as object),
+      };
+      if (!isScratchpad(scratchpad)) {
+        throw new Error(`Corrupted trash entry: ${trashId}`);
+      }
+      if (this.getScratchpadById(scratchpad.id)) {
+        throw new Error(`Scratchpad already exists: ${scratchpad.id}`);
+      }
+
+      const workflow = this.getWorkflowById(scratchpad.workflow_id);
+      if (!workflow) {
+        throw new Error(
+          `Cannot restore scratchpad: workflow ${scratchpad.workflow_id} no longer exists (restore the workflow first)`
+        );
+      }
+      if (!workflow.is_active) {
+        throw new Error(`Cannot restore scratchpad: workflow is not active: ${scratchpad.workflow_id}`);
+      }
+
+      this.assertWorkflowCapacity(scratchpad.workflow_id, 1);
+      this.assertProjectStorage(workflow.project_scope, scratchpad.size_bytes, {
+        workflow_id: workflow.id,
+        scratchpad_id: scratchpad.id,
+      });
+
+      const transaction = this.db.transaction(() => {
+        this.insertScratchpadRow(scratchpad);
+        this.insertRevisionRows(revisions);
+        this.incrementScratchpadCount.run(scratchpad.workflow_id);
+        this.updateWorkflowTimestamp.run(scratchpad.workflow_id);
+        this.db.prepare('DELETE FROM trash WHERE id = ?').run(trashId);
+      });
+      transaction();
+
+      this.emitScratchpadChange('created', scratchpad.workflow_id, scratchpad.id);
+      return { item_type: 'scratchpad', item_id: scratchpad.id, scratchpads_restored: 1 };
+    }
+
+    const workflowRow = payload['workflow'];
+    if (!isWorkflowDbRow(workflowRow)) {
+      throw new Error(`Corrupted trash entry: ${trashId}`);
+    }
+    if (this.getWorkflowById(workflowRow.id)) {
+      throw new Error(`Workflow already exists: ${workflowRow.id}`);
+    }
+
+    const scratchpads = (Array.isArray(payload['scratchpads']) ? payload['scratchpads'] : [])
+      .map((candidate: unknown): unknown => ({
+        version: 1,
+        tags: [],
+        metadata: {},
+        ...(candidate as object),
+      }))
+      .filter((candidate): candidate is Scratchpad => isScratchpad(candidate));
+    const revisionSettings = payload['revision_settings'] as RevisionRetention | null | undefined;
+    this.assertProjectStorage(
+      workflowRow.project_scope,
+      scratchpads.reduce((total, scratchpad) => total + scratchpad.size_bytes, 0),
+      { workflow_id: workflowRow.id }
+    );
+
+    const transaction = this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO workflows (id, name, description, created_at, updated_at, scratchpad_count, is_active, project_scope, tags, metadata)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          workflowRow.id,
+          workflowRow.name,
+          workflowRow.description,
+          workflowRow.created_at,
+          workflowRow.updated_at,
+          scratchpads.length,
+          workflowRow.is_active,
+          workflowRow.project_scope,
+          workflowRow.tags ?? '',
+          workflowRow.metadata ?? null
+        );
+      this.insertTagRows('workflow', workflowRow.id, parseTags(workflowRow.tags));
+      for (const scratchpad of scratchpads) {
+        this.insertScratchpadRow(scratchpad);
+      }
+      this.insertRevisionRows(revisions);
+      if (revisionSettings) {
+        this.upsertRevisionSettings.run(
+          workflowRow.id,
+          revisionSettings.max_revisions,
+          revisionSettings.max_bytes
+        );
+      }
+      this.db.prepare('DELETE FROM trash WHERE id = ?').run(trashId);
+    });
+    transaction();
+
+    this.emitChange({ type: 'workflow', action: 'created', workflow_id: workflowRow.id });
+    for (const scratchpad of scratchpads) {
+      this.emitScratchpadChange('created', workflowRow.id, scratchpad.id);
+    }
+    return { item_type: 'workflow', item_id: workflowRow.id, scratchpads_restored: scratchpads.length };
+  }
+
+  /**
+   * Permanently delete trash entries (all, or only those older than the given age)
+   */
+  emptyTrash(olderThanSeconds?: number): number {
+    const cutoff =
+      olderThanSeconds !== undefined ? Math.floor(Date.now() / 1000) - olderThanSeconds : null;
+    const result = this.db
+      .prepare('DELETE FROM trash WHERE (? IS NULL OR deleted_at <= ?)')
+      .run(cutoff, cutoff);
+    return result.changes;
+  }
+
+  /**
+   * 以原始 ID 與時間戳寫回 scratchpad（還原用，FTS5 由 INSERT 觸發器同步）
+   */
+  private insertScratchpadRow(scratchpad: Scratchpad): void {
+    this.db
+      .prepare(
+        `INSERT INTO scratchpads (id, workflow_id, title, content, created_at, updated_at, size_bytes, version, tags, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        scratchpad.id,
+        scratchpad.workflow_id,
+        scratchpad.title,
+        scratchpad.content,
+        scratchpad.created_at,
+        scratchpad.updated_at,
+        scratchpad.size_bytes,
+        scratchpad.version,
+        scratchpad.tags.join(' '),
+        Object.keys(scratchpad.metadata).length > 0 ? JSON.stringify(scratchpad.metadata) : null
+      );
+    this.insertTagRows('scratchpad', scratchpad.id, scratchpad.tags);
+  }
+
+  private insertTagRows(entityType: TaggableEntityType, entityId: string, tags: string[]): void {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO tags (entity_type, entity_id, tag) VALUES (?, ?, ?)'
+    );
+    for (const tag of tags) {
+      insert.run(entityType, entityId, tag);
+    }
+  }
+
+  private insertRevisionRows(revisions: ScratchpadRevision[]): void {
+    for (const revision of revisions) {
+      this.insertRevision.run(
+        revision.scratchpad_id,
+        revision.revision,
+        revision.content,
+        revision.size_bytes,
+        revision.operation,
+        revision.scratchpad_version ?? null,
+        revision.created_at
+      );
+    }
+  }
+
+  /**
+   * 記錄一筆修訂快照（需在呼叫端的 transaction 內執行）
+   *
+   * 若 scratchpad 尚無任何修訂（例如 v5 之前建立的資料），先以變更前內容建立 baseline 修訂，
+   * 確保第一次修改後仍可復原。
+   */
+  private recordRevision(
+    scratchpadId: string,
+    workflowId: string,
+    content: string,
+    sizeBytes: number,
+    operation: string,
+    scratchpadVersion: number,
+    previous?: Scratchpad
+  ): void {
+    const latest = this.getLatestRevisionNumber.get(scratchpadId) as { revision: number | null };
+    let nextRevision = (latest.revision ?? 0) + 1;
+
+    if (latest.revision === null && previous) {
+      this.insertRevision.run(
+        scratchpadId,
+        nextRevision,
+        previous.content,
+        previous.size_bytes,
+        'baseline',
+        previous.version,
+        previous.updated_at
+      );
+      nextRevision++;
+    }
+
+    this.insertRevision.run(
+      scratchpadId,
+      nextRevision,
+      content,
+      sizeBytes,
+      operation,
+      scratchpadVersion,
+      Math.floor(Date.now() / 1000)
+    );
+
+    this.pruneRevisions(scratchpadId, workflowId);
+  }
+
+  /**
+   * 依 workflow 保留設定刪除最舊的修訂：超過數量上限，或總位元組超過預算時
+   * （至少保留 MIN_REVISIONS 筆）
+   */
+  private pruneRevisions(scratchpadId: string, workflowId: string): void {
+    const retention = this.getRevisionRetention(workflowId);
+    const revisions = this.db
+      .prepare(
+        `SELECT revision, size_bytes FROM scratchpad_revisions WHERE scratchpad_id = ? ORDER BY revision DESC`
+      )
+      .all(scratchpadId) as Array<{ revision: number; size_bytes: number }>;
+
+    let keep = 0;
+    let totalBytes = 0;
+    for (const revision of revisions) {
+      const withinCount = keep < retention.max_revisions;
+      const withinBudget = totalBytes + revision.size_bytes <= retention.max_bytes;
+      if (keep < this.MIN_REVISIONS || (withinCount && withinBudget)) {
+        keep++;
+        totalBytes += revision.size_bytes;
+      } else {
+        break;
+      }
+    }
+
+    const oldestKept = revisions[keep - 1];
+    if (oldestKept && keep < revisions.length) {
+      this.db
+        .prepare(`DELETE FROM scratchpad_revisions WHERE scratchpad_id = ? AND revision < ?`)
+        .run(scratchpadId, oldestKept.revision);
+    }
+  }
+
+  /**
+   * Get revision retention settings for a workflow (falls back to defaults)
+   */
+  getRevisionRetention(workflowId: string): RevisionRetention {
+    const row = this.getRevisionSettings.get(workflowId) as RevisionRetention | undefined;
+    return {
+      max_revisions: row?.max_revisions ?? this.DEFAULT_MAX_REVISIONS,
+      max_bytes: row?.max_bytes ?? this.limits.max_scratchpad_bytes,
+    };
+  }
+
+  /**
+   * Configure revision retention for a workflow
+   */
+  setRevisionRetention(
+    workflowId: string,
+    params: { max_revisions?: number | undefined; max_bytes?: number | undefined }
+  ): RevisionRetention {
+    const workflow = this.getWorkflowById(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    const current = this.getRevisionRetention(workflowId);
+    const maxRevisions = params.max_revisions ?? current.max_revisions;
+    const maxBytes = params.max_bytes ?? current.max_bytes;
+
+    if (!Number.isInteger(maxRevisions) || maxRevisions < this.MIN_REVISIONS) {
+      throw new Error(`max_revisions must be an integer >= ${this.MIN_REVISIONS}`);
+    }
+    if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+      throw new Error('max_bytes must be a positive integer');
+    }
+
+    this.upsertRevisionSettings.run(workflowId, maxRevisions, maxBytes);
+
+    // 立即套用新的保留設定
+    const scratchpadIds = this.db
+      .prepare('SELECT id FROM scratchpads WHERE workflow_id = ?')
+      .all(workflowId) as Array<{ id: string }>;
+    const transaction = this.db.transaction(() => {
+      for (const { id } of scratchpadIds) {
+        this.pruneRevisions(id, workflowId);
+      }
+    });
+    transaction();
+
+    return { max_revisions: maxRevisions, max_bytes: maxBytes };
+  }
+
+  /**
+   * List revisions of a scratchpad (newest first)
+   */
+  listScratchpadRevisions(params: ListRevisionsParams): ScratchpadRevision[] {
+    const limit = Math.min(params.limit ?? 20, 100);
+    const offset = params.offset ?? 0;
+
+    return this.listRevisionsByScratchpad.all(
+      params.scratchpad_id,
+      limit,
+      offset
+    ) as ScratchpadRevision[];
+  }
+
+  /**
+   * Count revisions of a scratchpad
+   */
+  countScratchpadRevisions(scratchpadId: string): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) as count FROM scratchpad_revisions WHERE scratchpad_id = ?')
+      .get(scratchpadId) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Get a specific revision of a scratchpad
+   */
+  getScratchpadRevision(scratchpadId: string, revision: number): ScratchpadRevision | null {
+    const row = this.getRevisionStmt.get(scratchpadId, revision) as ScratchpadRevision | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * Restore scratchpad content from a previous revision (recorded as a new revision)
+   */
+  restoreScratchpadRevision(scratchpadId: string, revision: number): Scratchpad {
+    const target = this.getScratchpadRevision(scratchpadId, revision);
+    if (!target) {
+      throw new Error(`Revision ${revision} not found for scratchpad: ${scratchpadId}`);
+    }
+
+    return this.updateScratchpadContent(scratchpadId, target.content, `restore:${revision}`);
+  }
+
+  /**
+   * List scratchpads in a workflow
+   */
+  listScratchpads(params: ListScratchpadsParams): Scratchpad[] {
+    const limit = Math.min(params.limit ?? 50, 100);
+    const offset = params.offset ?? 0;
+
+    const filter = buildEntityFilter('scratchpad', 'id', 'metadata', params);
+    const rows = filter.sql
+      ? this.db
+          .prepare(
+            `SELECT * FROM scratchpads WHERE workflow_id = ?${filter.sql}
+             ORDER BY updated_at DESC LIMIT ? OFFSET ?`
+          )
+          .all(params.workflow_id, ...filter.params, limit, offset)
+      : this.listScratchpadsByWorkflow.all(params.workflow_id, limit, offset);
+    return (rows as ScratchpadDbRow[]).map(toScratchpad);
+  }
+
+  /**
+   * List every scratchpad in a workflow in creation order（不受 listScratchpads 的分頁上限限制）
+   */
+  listAllScratchpads(workflowId: string): Scratchpad[] {
+    const rows = this.db
+      .prepare('SELECT * FROM scratchpads WHERE workflow_id = ? ORDER BY created_at, rowid')
+      .all(workflowId);
+    return (rows as ScratchpadDbRow[]).map(toScratchpad);
+  }
+
+  /**
+   * Search scratchpads using FTS5 or LIKE fallback
+   */
+  searchScratchpads(params: SearchScratchpadsParams): SearchResult[] {
+    const limit = Math.min(params.limit ?? 20, 50);
+
+    // 使用查詢語法（片語、布林運算、欄位前綴等）時改走編譯後的查詢
+    const parsed = SearchQueryParser.parse(params.query);
+    if (parsed.advanced) {
+      return this.searchScratchpadsWithQuery(parsed.root, params.workflow_id, limit);
+    }
+
+    // 檢查 FTS5 健康狀態並嘗試使用 FTS5 搜尋
+    if (this.checkFTS5Health()) {
+      try {
+        let results: Array<SearchAllRow & { rank: number }>;
+
+        // 智慧模式選擇：自動偵測中文內容並選擇最佳搜尋方式
+        const hasChinese = /[\u4e00-\u9fa5]/.test(params.query);
+        const shouldUseJieba = params.useJieba || (hasChinese && this.hasJiebaTokenizer);
+
+        if (shouldUseJieba && this.hasJiebaTokenizer) {
+          // 優先使用 jieba_query() 結巴分詞搜尋 - 提供最佳中文搜尋體驗
+          try {
+            results = this.searchWithJieba(params.query, params.workflow_id, limit);
+          } catch (jiebaError) {
+            console.warn('⚠️ Jieba 搜尋失敗，降級到 simple_query:', jiebaError);
+            // 降級到 simple_query，使用參數化查詢
+            const sql = `
+              SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
+              FROM scratchpads_fts fts
+              JOIN scratchpads s ON s.rowid = fts.rowid
+              JOIN workflows w ON s.workflow_id = w.id
+              WHERE scratchpads_fts MATCH simple_query(?)
+              AND (? IS NULL OR s.workflow_id = ?)
+              ORDER BY fts.rank
+              LIMIT ?
+            `;
+
+            const stmt = this.db.prepare(sql);
+            results = stmt.all(
+              params.query,
+              params.workflow_id,
+              params.workflow_id,
+              limit
+            ) as Array<SearchAllRow & { rank: number }>;
+          }
+        } else if (this.hasSimpleTokenizer) {
+          // 使用 simple_query() 函數，使用參數化查詢
+          const sql = `
+            SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
+            FROM scratchpads_fts fts
+            JOIN scratchpads s ON s.rowid = fts.rowid
+            JOIN workflows w ON s.workflow_id = w.id
+            WHERE scratchpads_fts MATCH simple_query(?)
+            AND (? IS NULL OR s.workflow_id = ?)
+            ORDER BY fts.rank
+            LIMIT ?
+          `;
+
+          const stmt = this.db.prepare(sql);
+          results = stmt.all(params.query, params.workflow_id, params.workflow_id, limit) as Array<SearchAllRow & { rank: number }>;
+        } else if (this.searchScratchpadsFTS) {
+          // 使用標準 FTS5 查詢 - 現在安全地直接傳遞參數
+          if (this.hasSimpleTokenizer) {
+            // simple_query(?) 會安全地處理用戶輸入
+            results = this.searchScratchpadsFTS.all(
+              params.query, // 直接傳遞原始查詢
+              params.workflow_id ?? null,
+              params.workflow_id ?? null,
+              limit
+            ) as Array<SearchAllRow & { rank: number }>;
+          } else {
+            // 基本 FTS5 查詢 - 需要使用構建的安全查詢
+            const safeQuery = this.buildFTS5Query(params.query);
+            results = this.searchScratchpadsFTS.all(
+              safeQuery,
+              params.workflow_id ?? null,
+              params.workflow_id ?? null,
+              limit
+            ) as Array<SearchAllRow & { rank: number }>;
+          }
+        } else {
+          throw new Error('No FTS search method available');
+        }
+
+        return results.map((row) => ({ ...this.mapSearchAllRow(row), rank: row.rank }));
+      } catch (error) {
+        console.warn('FTS5 搜尋失敗，降級到 LIKE 搜尋:', error);
+        this.hasFTS5 = false; // 禁用 FTS5 避免重複錯誤
+        this.hasSimpleTokenizer = false; // 也禁用 simple 擴展
+      }
+    }
+
+    // Fallback to LIKE search (或 FTS5 失敗時的降級搜尋)
+    const searchPattern = `%${params.query}%`;
+    const results = this.searchScratchpadsLike.all(
+      searchPattern,
+      searchPattern,
+      params.workflow_id ?? null,
+      params.workflow_id ?? null,
+      limit
+    ) as Array<SearchAllRow & { rank: number }>;
+
+    return results.map((row) => ({ ...this.mapSearchAllRow(row), rank: row.rank }));
+  }
+
+  /**
+   * Search scratchpads with a compiled query-language expression（FTS5 或 LIKE 降級）
+   */
+  private searchScratchpadsWithQuery(
+    root: SearchQueryNode | null,
+    workflowId: string | undefined,
+    limit: number
+  ): SearchResult[] {
+    if (!root) {
+      return [];
+    }
+    const workflowFilter = 'AND (? IS NULL OR s.workflow_id = ?)';
+
+    if (this.checkFTS5Health()) {
+      try {
+        const compiled = SearchQueryCompiler.compile(root, SCRATCHPAD_QUERY_TARGET, { mode: 'fts5' });
+        if (compiled.match !== null) {
+          const rows = this.db
+            .prepare(
+              `
+              SELECT ${SEARCH_ALL_COLUMNS}, fts.rank
+              FROM scratchpads_fts fts
+              JOIN scratchpads s ON s.rowid = fts.rowid
+              JOIN workflows w ON s.workflow_id = w.id
+              WHERE scratchpads_fts MATCH ?
+              AND ${compiled.where}
+              ${workflowFilter}
+              ORDER BY fts.rank
+              LIMIT ?
+            `
+            )
+            .all(
+              compiled.match,
+              ...compiled.params,
+              workflowId ?? null,
+              workflowId ?? null,
+              limit
+            ) as Array<SearchAllRow & { rank: number }>;
+          return rows.map((row) => ({ ...this.mapSearchAllRow(row), rank: row.rank }));
+        }
+        return this.scanScratchpadsWithQuery(compiled, workflowFilter, workflowId, limit);
+      } catch (error) {
+        console.warn('FTS5 查詢語法搜尋失敗，降級到 LIKE 搜尋:', error);
+      }
+    }
+
+    const compiled = SearchQueryCompiler.compile(root, SCRATCHPAD_QUERY_TARGET, { mode: 'like' });
+    return this.scanScratchpadsWithQuery(compiled, workflowFilter, workflowId, limit);
+  }
+
+  private scanScratchpadsWithQuery(
+    compiled: CompiledSearchQuery,
+    workflowFilter: string,
+    workflowId: string | undefined,
+    limit: number
+  ): SearchResult[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT ${SEARCH_ALL_COLUMNS}
+        FROM scratchpads s
+        JOIN workflows w ON s.workflow_id = w.id
+        WHERE ${compiled.where}
+        ${workflowFilter}
+        ORDER BY s.updated_at DESC
+        LIMIT ?
+      `
+      )
+      .all(...compiled.params, workflowId ?? null, workflowId ?? null, limit) as SearchAllRow[];
+    return rows.map((row) => ({ ...this.mapSearchAllRow(row), rank: 1.0 }));
+  }
+
+  /**
+   * Search scratchpads across all workflows with ranking and filters
+   *
+   * 查詢使用 SearchQueryParser 語法（片語、布林運算、欄位前綴、前綴萬用字元、updated: 日期）。
+   * FTS5 可用時以 bm25() 排序（title 欄位加權），並以 highlight() / snippet() 產生標示片段；
+   * 否則降級為 LIKE 搜尋，在 JS 中計分並產生相同格式的標示片段
+   */
+  searchAllScratchpads(params: SearchAllScratchpadsParams): SearchAllScratchpadsPage {
+    // 語法錯誤直接拋出，不進入降級流程
+    const { root } = SearchQueryParser.parse(params.query);
+    const options: SearchAllOptions = {
+      limit: Math.min(Math.max(params.limit ?? 10, 1), 50),
+      offset: Math.max(params.offset ?? 0, 0),
+      snippetTokens: Math.min(Math.max(params.snippet_tokens ?? 16, 1), 64),
+      open: params.highlight_open ?? '**',
+      close: params.highlight_close ?? '**',
+    };
+    const defaultField = params.title_only ? 'title' : undefined;
+
+    // 標籤 / metadata 篩選併入編譯後的 SQL 條件（標籤驗證錯誤同樣直接拋出）
+    const entityFilter = buildEntityFilter('scratchpad', 's.id', 's.metadata', params);
+    const withEntityFilter = (compiled: CompiledSearchQuery): CompiledSearchQuery => ({
+      ...compiled,
+      where: `${compiled.where}${entityFilter.sql}`,
+      params: [...compiled.params, ...entityFilter.params],
+    });
+
+    if (this.checkFTS5Health()) {
+      if (!root) {
+        return { hits: [], total: 0, search_method: 'fts5' };
+      }
+      try {
+        const compiled = withEntityFilter(
+          SearchQueryCompiler.compile(root, SCRATCHPAD_QUERY_TARGET, { mode: 'fts5', defaultField })
+        );
+        // 只有篩選條件（如 scope:x updated:>...）時沒有 MATCH，改為掃描並依時間排序
+        return compiled.match !== null
+          ? this.searchAllScratchpadsFTS(compiled, params, options)
+          : this.searchAllScratchpadsScan(compiled, params, options, 'fts5');
+      } catch (error) {
+        console.warn('FTS5 全域搜尋失敗，降級到 LIKE 搜尋:', error);
+      }
+    }
+
+    if (!root) {
+      return { hits: [], total: 0, search_method: 'like' };
+    }
+    const compiled = withEntityFilter(
+      SearchQueryCompiler.compile(root, SCRATCHPAD_QUERY_TARGET, { mode: 'like', defaultField })
+    );
+    return this.searchAllScratchpadsScan(compiled, params, options, 'like');
+  }
+
+  /**
+   * Positional values for SEARCH_ALL_FILTERS（每個條件各綁定兩次）
+   */
+  private searchAllFilterValues(params: SearchAllScratchpadsParams): Array<string | number | null> {
+    const isActive = params.is_active === undefined ? null : params.is_active ? 1 : 0;
+    return [
+      params.project_scope ?? null,
+      params.project_scope ?? null,
+      isActive,
+      isActive,
+      params.updated_after ?? null,
+      params.updated_after ?? null,
+      params.updated_before ?? null,
+      params.updated_before ?? null,
+    ];
+  }
+
+  private searchAllScratchpadsFTS(
+    compiled: CompiledSearchQuery,
+    params: SearchAllScratchpadsParams,
+    options: SearchAllOptions
+  ): SearchAllScratchpadsPage {
+    const filterValues = [...compiled.params, ...this.searchAllFilterValues(params)];
+
+    const fromClause = `
+      FROM scratchpads_fts fts
+      JOIN scratchpads s ON s.rowid = fts.rowid
+      JOIN workflows w ON s.workflow_id = w.id
+      WHERE scratchpads_fts MATCH ?
+      AND ${compiled.where}
+      ${SEARCH_ALL_FILTERS}
+    `;
+
+    const countRow = this.db
+      .prepare(`SELECT COUNT(*) as count ${fromClause}`)
+      .get(compiled.match, ...filterValues) as { count: number };
+
+    // bm25() 權重依欄位順序：id, workflow_id（UNINDEXED）, title, content（tags 使用預設權重 1.0）
+    const rows = this.db
+      .prepare(
+        `
+        SELECT ${SEARCH_ALL_COLUMNS},
+          bm25(scratchpads_fts, 0.0, 0.0, ?, 1.0) as bm25_score,
+          highlight(scratchpads_fts, 2, ?, ?) as title_highlight,
+          snippet(scratchpads_fts, 3, ?, ?, '…', ?) as snippet
+        ${fromClause}
+        ORDER BY bm25_score, s.updated_at DESC
+        LIMIT ? OFFSET ?
+      `
+      )
+      .all(
+        this.SEARCH_TITLE_WEIGHT,
+        options.open,
+        options.close,
+        options.open,
+        options.close,
+        options.snippetTokens,
+        compiled.match,
+        ...filterValues,
+        options.limit,
+        options.offset
+      ) as Array<SearchAllRow & { bm25_score: number; title_highlight: string; snippet: string }>;
+
+    return {
+      hits: rows.map((row) => ({
+        ...this.mapSearchAllRow(row),
+        score: -row.bm25_score,
+        title_highlight: row.title_highlight,
+        snippet: row.snippet,
+      })),
+      total: countRow.count,
+      search_method: 'fts5',
+    };
+  }
+
+  /**
+   * Scan scratchpads with SQL predicates only（LIKE 降級，或 FTS5 模式下沒有可 MATCH 的詞彙）
+   */
+  private searchAllScratchpadsScan(
+    compiled: CompiledSearchQuery,
+    params: SearchAllScratchpadsParams,
+    options: SearchAllOptions,
+    searchMethod: SearchAllScratchpadsPage['search_method']
+  ): SearchAllScratchpadsPage {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT ${SEARCH_ALL_COLUMNS}
+        FROM scratchpads s
+        JOIN workflows w ON s.workflow_id = w.id
+        WHERE ${compiled.where}
+        ${SEARCH_ALL_FILTERS}
+        ORDER BY s.updated_at DESC
+        LIMIT ?
+      `
+      )
+      .all(
+        ...compiled.params,
+        ...this.searchAllFilterValues(params),
+        this.LIKE_SEARCH_SCAN_LIMIT
+      ) as SearchAllRow[];
+
+    // 以出現次數計分，title 命中依 SEARCH_TITLE_WEIGHT 加權（同分時維持 updated_at 排序）
+    // 沒有文字詞彙時使用永不命中的 pattern
+    const pattern = new RegExp(
+      compiled.terms.length > 0
+        ? compiled.terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')
+        : '(?!)',
+      'gi'
+    );
+    const countMatches = (text: string): number => text.match(pattern)?.length ?? 0;
+
+    const scored = rows
+      .map((row) => ({
+        row,
+        score:
+          countMatches(row.title) * this.SEARCH_TITLE_WEIGHT +
+          (params.title_only ? 0 : countMatches(row.content)),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    return {
+      hits: scored.slice(options.offset, options.offset + options.limit).map(({ row, score }) => ({
+        ...this.mapSearchAllRow(row),
+        score,
+        title_highlight: row.title.replace(pattern, (hit) => `${options.open}${hit}${options.close}`),
+        snippet: this.buildLikeSnippet(row.content, pattern, options),
+      })),
+      total: scored.length,
+      search_method: searchMethod,
+    };
+  }
+
+  /**
+   * Build a snippet around the first match（模擬 FTS5 snippet() 的輸出格式）
+   */
+  private buildLikeSnippet(content: string, pattern: RegExp, options: SearchAllOptions): string {
+    const words = content.split(/\s+/).filter((word) => word.length > 0);
+    const matcher = new RegExp(pattern.source, 'i');
+    const hitIndex = Math.max(
+      0,
+      words.findIndex((word) => matcher.test(word))
+    );
+    const start = Math.max(
+      0,
+      Math.min(hitIndex - Math.floor(options.snippetTokens / 4), words.length - options.snippetTokens)
+    );
+    const end = Math.min(words.length, start + options.snippetTokens);
+
+    const text = words
+      .slice(start, end)
+      .join(' ')
+      .replace(pattern, (hit) => `${options.open}${hit}${options.close}`);
+    return `${start > 0 ? '…' : ''}${text}${end < words.length ? '…' : ''}`;
+  }
+
+  private mapSearchAllRow(row: SearchAllRow): Pick<ScratchpadSearchHit, 'scratchpad' | 'workflow'> {
+    return {
+      scratchpad: {
+        id: row.id,
+        workflow_id: row.workflow_id,
+        title: row.title,
+        content: row.content,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        size_bytes: row.size_bytes,
+        version: row.version,
+        tags: parseTags(row.tags),
+        metadata: parseMetadata(row.metadata),
+      },
+      workflow: {
+        id: row.w_id,
+        name: row.w_name,
+        description: row.w_description,
+        created_at: row.w_created_at,
+        updated_at: row.w_updated_at,
+        scratchpad_count: row.w_scratchpad_count,
+        is_active: Boolean(row.w_is_active),
+        project_scope: row.w_project_scope,
+        tags: parseTags(row.w_tags),
+        metadata: parseMetadata(row.w_metadata),
+      },
+    };
+  }
+
+  /**
+   * Search workflows using FTS5 or LIKE fallback
+   */
+  searchWorkflows(params: {
+    query: string;
+    project_scope?: string;
+    limit?: number;
+  }): Array<Workflow & { rank: number }> {
+    const limit = Math.min(params.limit ?? 20, 50);
+
+    // 使用查詢語法時改走編譯後的查詢
+    const parsed = SearchQueryParser.parse(params.query);
+    if (parsed.advanced) {
+      return this.searchWorkflowsWithQuery(parsed.root, params.project_scope, limit);
+    }
+
+    // 檢查 FTS5 健康狀態並嘗試使用 FTS5 搜尋
+    if (this.checkFTS5Health()) {
+      try {
+        let results: Array<WorkflowDbRow & { rank: number }>;
 
         // 智慧模式選擇：自動偵測中文內容並選擇最佳搜尋方式
         const hasChinese = /[\u4e00-\u9fa5]/.test(params.query);
@@ -1072,17 +2955,7 @@ export class ScratchpadDatabase {
                 params.project_scope ?? null,
                 params.project_scope ?? null,
                 limit
-              ) as Array<{
-                id: string;
-                name: string;
-                description: string | null;
-                created_at: number;
-                updated_at: number;
-                scratchpad_count: number;
-                is_active: number;
-                project_scope: string | null;
-                rank: number;
-              }>;
+              ) as Array<WorkflowDbRow & { rank: number }>;
             } else {
               throw new Error('No workflows FTS search method available');
             }
@@ -1094,17 +2967,7 @@ export class ScratchpadDatabase {
             params.project_scope ?? null,
             params.project_scope ?? null,
             limit
-          ) as Array<{
-            id: string;
-            name: string;
-            description: string | null;
-            created_at: number;
-            updated_at: number;
-            scratchpad_count: number;
-            is_active: number;
-            project_scope: string | null;
-            rank: number;
-          }>;
+          ) as Array<WorkflowDbRow & { rank: number }>;
         } else if (this.searchWorkflowsFTS) {
           // 使用標準 FTS5 查詢
           const safeQuery = this.buildWorkflowsFTS5Query(params.query);
@@ -1113,32 +2976,12 @@ export class ScratchpadDatabase {
             params.project_scope ?? null,
             params.project_scope ?? null,
             limit
-          ) as Array<{
-            id: string;
-            name: string;
-            description: string | null;
-            created_at: number;
-            updated_at: number;
-            scratchpad_count: number;
-            is_active: number;
-            project_scope: string | null;
-            rank: number;
-          }>;
+          ) as Array<WorkflowDbRow & { rank: number }>;
         } else {
           throw new Error('No FTS workflows search method available');
         }
 
-        return results.map((row) => ({
-          id: row.id,
-          name: row.name,
-          description: row.description,
-          created_at: row.created_at,
-          updated_at: row.updated_at,
-          scratchpad_count: row.scratchpad_count,
-          is_active: Boolean(row.is_active),
-          project_scope: row.project_scope,
-          rank: row.rank,
-        }));
+        return results.map((row) => ({ ...toWorkflow(row), rank: row.rank }));
       } catch (error) {
         console.warn('FTS5 workflows 搜尋失敗，降級到 LIKE 搜尋:', error);
         this.hasFTS5 = false;
@@ -1151,30 +2994,109 @@ export class ScratchpadDatabase {
       searchPattern,
       searchPattern,
       params.project_scope ?? null,
+      params.project_scope ?? null,
       limit
-    ) as Array<{
-      id: string;
-      name: string;
-      description: string | null;
-      created_at: number;
-      updated_at: number;
-      scratchpad_count: number;
-      is_active: number;
-      project_scope: string | null;
-      rank: number;
-    }>;
-
-    return results.map((row) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      scratchpad_count: row.scratchpad_count,
-      is_active: Boolean(row.is_active),
-      project_scope: row.project_scope,
-      rank: row.rank,
-    }));
+    ) as Array<WorkflowDbRow & { rank: number }>;
+
+    return results.map((row) => ({ ...toWorkflow(row), rank: row.rank }));
+  }
+
+  /**
+   * Search workflows with a compiled query-language expression（FTS5 或 LIKE 降級）
+   */
+  private searchWorkflowsWithQuery(
+    root: SearchQueryNode | null,
+    projectScope: string | undefined,
+    limit: number
+  ): ReturnType<ScratchpadDatabase['searchWorkflows']> {
+    if (!root) {
+      return [];
+    }
+    const columns = `
+      w.id, w.name, w.description, w.created_at, w.updated_at,
+      w.scratchpad_count, w.is_active, w.project_scope, w.tags, w.metadata
+    `;
+    const scopeValues = [projectScope ?? null, projectScope ?? null];
+    let rows: Array<WorkflowDbRow & { rank: number }> | undefined;
+
+    if (this.checkFTS5Health()) {
+      try {
+        const compiled = SearchQueryCompiler.compile(root, WORKFLOW_QUERY_TARGET, { mode: 'fts5' });
+        rows = (
+          compiled.match !== null
+            ? this.db
+                .prepare(
+                  `
+                  SELECT ${columns}, fts.rank
+                  FROM workflows_fts fts
+                  JOIN workflows w ON w.rowid = fts.rowid
+                  WHERE workflows_fts MATCH ?
+                  AND ${compiled.where}
+                  AND (? IS NULL OR w.project_scope = ?)
+                  ORDER BY fts.rank
+                  LIMIT ?
+                `
+                )
+                .all(compiled.match, ...compiled.params, ...scopeValues, limit)
+            : this.scanWorkflowsWithQuery(columns, compiled, scopeValues, limit)
+        ) as Array<WorkflowDbRow & { rank: number }>;
+      } catch (error) {
+        console.warn('FTS5 workflows 查詢語法搜尋失敗，降級到 LIKE 搜尋:', error);
+      }
+    }
+
+    if (!rows) {
+      const compiled = SearchQueryCompiler.compile(root, WORKFLOW_QUERY_TARGET, { mode: 'like' });
+      rows = this.scanWorkflowsWithQuery(columns, compiled, scopeValues, limit);
+    }
+
+    return rows.map((row) => ({ ...toWorkflow(row), rank: row.rank }));
+  }
+
+  private scanWorkflowsWithQuery(
+    columns: string,
+    compiled: CompiledSearchQuery,
+    scopeValues: Array<string | null>,
+    limit: number
+  ): Array<WorkflowDbRow & { rank: number }> {
+    return this.db
+      .prepare(
+        `
+        SELECT ${columns}, 1.0 as rank
+        FROM workflows w
+        WHERE ${compiled.where}
+        AND (? IS NULL OR w.project_scope = ?)
+        ORDER BY w.updated_at DESC
+        LIMIT ?
+      `
+      )
+      .all(...compiled.params, ...scopeValues, limit) as Array<WorkflowDbRow & { rank: number }>;
+  }
+
+  /**
+   * Jieba-tokenized workflow search used as a separate ranking signal
+   *
+   * jieba 分詞不可用時回傳空陣列（不降級），由呼叫端標示該訊號不可用
+   */
+  searchWorkflowsJieba(params: { query: string; project_scope?: string | undefined; limit?: number }): {
+    available: boolean;
+    results: Array<{ id: string; rank: number }>;
+  } {
+    if (!this.checkFTS5Health() || !this.hasJiebaTokenizer) {
+      return { available: false, results: [] };
+    }
+
+    try {
+      const rows = this.searchWorkflowsWithJieba(
+        params.query,
+        params.project_scope,
+        Math.min(params.limit ?? 20, 100)
+      );
+      return { available: true, results: rows.map((row) => ({ id: row.id, rank: row.rank })) };
+    } catch (error) {
+      console.warn('⚠️ Jieba workflows 搜尋失敗:', error);
+      return { available: false, results: [] };
+    }
   }
 
   /**
@@ -1184,21 +3106,11 @@ export class ScratchpadDatabase {
     query: string,
     projectScope?: string,
     limit: number = 20
-  ): Array<{
-    id: string;
-    name: string;
-    description: string | null;
-    created_at: number;
-    updated_at: number;
-    scratchpad_count: number;
-    is_active: number;
-    project_scope: string | null;
-    rank: number;
-  }> {
+  ): Array<WorkflowDbRow & { rank: number }> {
     const sql = `
       SELECT 
         w.id, w.name, w.description, w.created_at, w.updated_at, 
-        w.scratchpad_count, w.is_active, w.project_scope,
+        w.scratchpad_count, w.is_active, w.project_scope, w.tags, w.metadata,
         fts.rank
       FROM workflows_fts fts
       JOIN workflows w ON w.rowid = fts.rowid
@@ -1209,17 +3121,7 @@ export class ScratchpadDatabase {
     `;
 
     const stmt = this.db.prepare(sql);
-    return stmt.all(query, projectScope, projectScope, limit) as Array<{
-      id: string;
-      name: string;
-      description: string | null;
-      created_at: number;
-      updated_at: number;
-      scratchpad_count: number;
-      is_active: number;
-      project_scope: string | null;
-      rank: number;
-    }>;
+    return stmt.all(query, projectScope, projectScope, limit) as Array<WorkflowDbRow & { rank: number }>;
   }
 
   /**
@@ -1233,7 +3135,138 @@ export class ScratchpadDatabase {
 
     // 降級到基本 FTS5 查詢
     const escaped = query.replace(/"/g, '""');
-    return `name:"${escaped}" OR description:"${escaped}"`;
+    return `name:"${escaped}" OR description:"${escaped}" OR tags:"${escaped}"`;
+  }
+
+  /**
+   * List templates saved in the database (sorted by name)
+   */
+  listTemplates(): StoredTemplate[] {
+    return this.db
+      .prepare('SELECT name, description, content, created_at, updated_at FROM templates ORDER BY name')
+      .all() as StoredTemplate[];
+  }
+
+  /**
+   * Get a saved template by name
+   */
+  getTemplate(name: string): StoredTemplate | null {
+    const row = this.db
+      .prepare('SELECT name, description, content, created_at, updated_at FROM templates WHERE name = ?')
+      .get(name) as StoredTemplate | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * Create or replace a saved template（保留原本的 created_at）
+   */
+  saveTemplate(params: SaveTemplateParams): StoredTemplate {
+    this.assertScratchpadSize(
+      'Template content too large',
+      Buffer.byteLength(params.content, 'utf8')
+    );
+
+    this.db
+      .prepare(
+        `INSERT INTO templates (name, description, content, created_at, updated_at)
+         VALUES (?, ?, ?, unixepoch(), unixepoch())
+         ON CONFLICT(name) DO UPDATE SET
+           description = excluded.description,
+           content = excluded.content,
+           updated_at = excluded.updated_at`
+      )
+      .run(params.name, params.description ?? '', params.content);
+
+    return this.getTemplate(params.name)!;
+  }
+
+  /**
+   * Get stored block embeddings of a scratchpad for one embedding model
+   */
+  getBlockEmbeddings(scratchpadId: string, model: string): BlockEmbedding[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT scratchpad_id, block_index, content_hash, start_line, end_line, embedding
+        FROM block_embeddings
+        WHERE scratchpad_id = ? AND model = ?
+        ORDER BY block_index
+      `
+      )
+      .all(scratchpadId, model) as Array<Omit<BlockEmbedding, 'embedding'> & { embedding: Buffer }>;
+
+    return rows.map((row) => ({ ...row, embedding: this.decodeEmbedding(row.embedding) }));
+  }
+
+  /**
+   * Replace all block embeddings of a scratchpad for one embedding model
+   *
+   * scratchpad 已被刪除時（索引進行中被刪）直接略過
+   */
+  replaceBlockEmbeddings(scratchpadId: string, model: string, embeddings: BlockEmbedding[]): void {
+    const transaction = this.db.transaction(() => {
+      if (!this.getScratchpadById(scratchpadId)) {
+        return;
+      }
+
+      this.db
+        .prepare('DELETE FROM block_embeddings WHERE scratchpad_id = ? AND model = ?')
+        .run(scratchpadId, model);
+
+      const insert = this.db.prepare(`
+        INSERT INTO block_embeddings (
+          scratchpad_id, model, block_index, content_hash, start_line, end_line, dimensions, embedding, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+      `);
+      for (const entry of embeddings) {
+        insert.run(
+          scratchpadId,
+          model,
+          entry.block_index,
+          entry.content_hash,
+          entry.start_line,
+          entry.end_line,
+          entry.embedding.length,
+          Buffer.from(entry.embedding.buffer, entry.embedding.byteOffset, entry.embedding.byteLength)
+        );
+      }
+    });
+
+    transaction();
+  }
+
+  /**
+   * List block embeddings with scratchpad / workflow info for similarity search
+   */
+  listBlockEmbeddings(params: ListBlockEmbeddingsParams): BlockEmbeddingCandidate[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT
+          e.scratchpad_id, e.block_index, e.content_hash, e.start_line, e.end_line, e.embedding,
+          s.title as scratchpad_title, s.workflow_id, w.name as workflow_name
+        FROM block_embeddings e
+        JOIN scratchpads s ON s.id = e.scratchpad_id
+        JOIN workflows w ON w.id = s.workflow_id
+        WHERE e.model = ?
+        AND (? IS NULL OR s.workflow_id = ?)
+        AND (? IS NULL OR w.project_scope = ?)
+      `
+      )
+      .all(
+        params.model,
+        params.workflow_id ?? null,
+        params.workflow_id ?? null,
+        params.project_scope ?? null,
+        params.project_scope ?? null
+      ) as Array<Omit<BlockEmbeddingCandidate, 'embedding'> & { embedding: Buffer }>;
+
+    return rows.map((row) => ({ ...row, embedding: this.decodeEmbedding(row.embedding) }));
+  }
+
+  private decodeEmbedding(blob: Buffer): Float32Array {
+    // 複製到新的 ArrayBuffer，避免 Buffer pool 的 byteOffset 未對齊 4 bytes
+    return new Float32Array(new Uint8Array(blob).buffer);
   }
 
   /**
@@ -0,0 +1,270 @@
+/**
+ * Compile parsed search queries (utils/SearchQueryParser) into FTS5 MATCH expressions and SQL predicates
+ */
+import type { SearchQueryField, SearchQueryNode } from '../utils/SearchQueryParser.js';
+
+/**
+ * How a query field maps onto one search target
+ * - text：FTS5 欄位（FTS5 不可用時以 LIKE 比對對應的 SQL 欄位）
+ * - sql：直接編譯為 SQL 條件（如 project_scope 精確比對）
+ */
+type FieldMapping =
+  | { kind: 'text'; columns: Array<{ fts: string; sql: string }> }
+  | {
+      kind: 'sql';
+      compile: (value: string, likePattern: string, prefix: boolean) => CompiledPredicate;
+    };
+
+interface CompiledPredicate {
+  sql: string;
+  params: Array<string | number>;
+}
+
+export interface SearchQueryTarget {
+  ftsTable: string;
+  rowidColumn: string;
+  updatedColumn: string;
+  fields: Record<SearchQueryField | 'default', FieldMapping>;
+}
+
+export interface CompiledSearchQuery {
+  /** FTS5 MATCH expression that drives bm25 ranking; null when nothing can be matched at top level */
+  match: string | null;
+  /** Remaining SQL predicate（不含 WHERE；沒有條件時為 '1'） */
+  where: string;
+  params: Array<string | number>;
+  /** Positive text values on text fields, for highlighting and LIKE scoring */
+  terms: string[];
+}
+
+export interface CompileSearchQueryOptions {
+  mode: 'fts5' | 'like';
+  /** Field applied to terms without a field prefix (e.g. 'title' for title_only searches) */
+  defaultField?: SearchQueryField | undefined;
+}
+
+const escapeLike = (value: string): string => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+const SCOPE_FIELD: FieldMapping = {
+  kind: 'sql',
+  compile: (value) => ({ sql: 'w.project_scope = ?', params: [value] }),
+};
+
+/**
+ * tag: 比對 tags 表（標籤以小寫、去除開頭 '#' 儲存；`tag:proj*` 比對前綴）
+ */
+const tagField = (entityType: 'workflow' | 'scratchpad', idColumn: string): FieldMapping => ({
+  kind: 'sql',
+  compile: (value, _likePattern, prefix): CompiledPredicate => {
+    const tag = value.trim().replace(/^#+/, '').toLowerCase();
+    return {
+      sql: `EXISTS (SELECT 1 FROM tags t WHERE t.entity_type = '${entityType}' AND t.entity_id = ${idColumn} AND t.tag ${prefix ? "LIKE ? ESCAPE '\\'" : '= ?'})`,
+      params: [prefix ? `${tag.replace(/[\\%_]/g, '\\$&')}%` : tag],
+    };
+  },
+});
+
+/**
+ * Scratchpad search: title/content/tags are FTS5 columns, workflow: matches workflow name or ID
+ */
+export const SCRATCHPAD_QUERY_TARGET: SearchQueryTarget = {
+  ftsTable: 'scratchpads_fts',
+  rowidColumn: 's.rowid',
+  updatedColumn: 's.updated_at',
+  fields: {
+    default: {
+      kind: 'text',
+      columns: [
+        { fts: 'title', sql: 's.title' },
+        { fts: 'content', sql: 's.content' },
+        { fts: 'tags', sql: 's.tags' },
+      ],
+    },
+    title: { kind: 'text', columns: [{ fts: 'title', sql: 's.title' }] },
+    content: { kind: 'text', columns: [{ fts: 'content', sql: 's.content' }] },
+    workflow: {
+      kind: 'sql',
+      compile: (value, likePattern) => ({
+        sql: "(w.name LIKE ? ESCAPE '\\' OR w.id = ?)",
+        params: [likePattern, value],
+      }),
+    },
+    scope: SCOPE_FIELD,
+    tag: tagField('scratchpad', 's.id'),
+  },
+};
+
+/**
+ * Workflow search: title:/workflow: match the workflow name, content: its description
+ */
+export const WORKFLOW_QUERY_TARGET: SearchQueryTarget = {
+  ftsTable: 'workflows_fts',
+  rowidColumn: 'w.rowid',
+  updatedColumn: 'w.updated_at',
+  fields: {
+    default: {
+      kind: 'text',
+      columns: [
+        { fts: 'name', sql: 'w.name' },
+        { fts: 'description', sql: "COALESCE(w.description, '')" },
+        { fts: 'tags', sql: 'w.tags' },
+      ],
+    },
+    title: { kind: 'text', columns: [{ fts: 'name', sql: 'w.name' }] },
+    workflow: { kind: 'text', columns: [{ fts: 'name', sql: 'w.name' }] },
+    content: {
+      kind: 'text',
+      columns: [{ fts: 'description', sql: "COALESCE(w.description, '')" }],
+    },
+    scope: SCOPE_FIELD,
+    tag: tagField('workflow', 'w.id'),
+  },
+};
+
+export class SearchQueryCompiler {
+  /**
+   * 編譯 AST：FTS5 模式下，頂層 AND 中可完全以 FTS5 表達的部分合併為 MATCH（供 bm25 排序），
+   * 其餘部分編譯為 SQL，巢狀的文字條件以 rowid 子查詢比對；LIKE 模式下全部編譯為 SQL
+   */
+  static compile(
+    root: SearchQueryNode,
+    target: SearchQueryTarget,
+    options: CompileSearchQueryOptions
+  ): CompiledSearchQuery {
+    const compiler = new SearchQueryCompiler(target, options);
+    const terms = [...new Set(compiler.collectTerms(root))];
+
+    if (options.mode === 'like') {
+      const predicate = compiler.toSql(root);
+      return { match: null, where: predicate.sql, params: predicate.params, terms };
+    }
+
+    const conjuncts = root.type === 'and' ? root.children : [root];
+    const positives = conjuncts.filter(
+      (node) => node.type !== 'not' && compiler.toFts(node) !== null
+    );
+    const matched = new Set<SearchQueryNode>(positives);
+    if (positives.length > 0) {
+      // 可表達為 FTS5 的排除條件併入 MATCH（FTS5 的 NOT 為二元運算子）
+      conjuncts
+        .filter((node) => node.type === 'not' && compiler.toFts(node.child) !== null)
+        .forEach((node) => matched.add(node));
+    }
+
+    const remaining = conjuncts
+      .filter((node) => !matched.has(node))
+      .map((node) => compiler.toSql(node));
+    return {
+      match: positives.length > 0 ? compiler.toFts({ type: 'and', children: [...matched] }) : null,
+      where: remaining.length > 0 ? remaining.map((predicate) => predicate.sql).join(' AND ') : '1',
+      params: remaining.flatMap((predicate) => predicate.params),
+      terms,
+    };
+  }
+
+  private constructor(
+    private readonly target: SearchQueryTarget,
+    private readonly options: CompileSearchQueryOptions
+  ) {}
+
+  private fieldMapping(field: SearchQueryField | null): FieldMapping {
+    return this.target.fields[field ?? this.options.defaultField ?? 'default'];
+  }
+
+  /**
+   * FTS5 expression for a subtree, or null when it needs SQL (field filters, dates, standalone NOT)
+   */
+  private toFts(node: SearchQueryNode): string | null {
+    switch (node.type) {
+      case 'text': {
+        const mapping = this.fieldMapping(node.field);
+        if (mapping.kind !== 'text') {
+          return null;
+        }
+        // 以 phrase 形式跳脫使用者輸入，避免被解析為 FTS5 語法
+        const columns = mapping.columns.map((column) => column.fts);
+        const filter = columns.length === 1 ? columns[0] : `{${columns.join(' ')}}`;
+        return `${filter} : "${node.value.replace(/"/g, '""')}"${node.prefix ? '*' : ''}`;
+      }
+      case 'and': {
+        const positives: string[] = [];
+        const negatives: string[] = [];
+        for (const child of node.children) {
+          const expression = this.toFts(child.type === 'not' ? child.child : child);
+          if (expression === null) {
+            return null;
+          }
+          (child.type === 'not' ? negatives : positives).push(expression);
+        }
+        if (positives.length === 0) {
+          return null;
+        }
+        return negatives.reduce(
+          (expression, negative) => `(${expression}) NOT (${negative})`,
+          positives.map((expression) => `(${expression})`).join(' AND ')
+        );
+      }
+      case 'or': {
+        const expressions = node.children.map((child) => this.toFts(child));
+        return expressions.every((expression) => expression !== null)
+          ? expressions.map((expression) => `(${expression})`).join(' OR ')
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private toSql(node: SearchQueryNode): CompiledPredicate {
+    if (this.options.mode === 'fts5') {
+      const expression = this.toFts(node);
+      if (expression !== null) {
+        const { ftsTable, rowidColumn } = this.target;
+        return {
+          sql: `${rowidColumn} IN (SELECT rowid FROM ${ftsTable} WHERE ${ftsTable} MATCH ?)`,
+          params: [expression],
+        };
+      }
+    }
+
+    switch (node.type) {
+      case 'text': {
+        const mapping = this.fieldMapping(node.field);
+        const pattern = escapeLike(node.value);
+        if (mapping.kind === 'sql') {
+          return mapping.compile(node.value, pattern, node.prefix);
+        }
+        return {
+          sql: `(${mapping.columns.map((column) => `${column.sql} LIKE ? ESCAPE '\\'`).join(' OR ')})`,
+          params: mapping.columns.map(() => pattern),
+        };
+      }
+      case 'updated':
+        return { sql: `${this.target.updatedColumn} ${node.comparator} ?`, params: [node.value] };
+      case 'not': {
+        const inner = this.toSql(node.child);
+        return { sql: `NOT (${inner.sql})`, params: inner.params };
+      }
+      case 'and':
+      case 'or': {
+        const parts = node.children.map((child) => this.toSql(child));
+        return {
+          sql: `(${parts.map((part) => part.sql).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+          params: parts.flatMap((part) => part.params),
+        };
+      }
+    }
+  }
+
+  private collectTerms(node: SearchQueryNode): string[] {
+    switch (node.type) {
+      case 'text':
+        return this.fieldMapping(node.field).kind === 'text' ? [node.value] : [];
+      case 'and':
+      case 'or':
+        return node.children.flatMap((child) => this.collectTerms(child));
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Database error types
+ */
+
+export interface ScratchpadConflictDetails {
+  scratchpad_id: string;
+  expected_version: number | null;
+  if_unmodified_since: number | null; // unix seconds
+  current_version: number;
+  current_updated_at: number; // unix seconds
+  /** Short unified diff from the caller's base version to the current content */
+  diff_hint: string;
+}
+
+/**
+ * Optimistic concurrency conflict: the scratchpad changed since the caller read it
+ */
+export class ScratchpadConflictError extends Error {
+  readonly code = 'VERSION_CONFLICT';
+  readonly details: ScratchpadConflictDetails;
+
+  constructor(details: ScratchpadConflictDetails) {
+    const expectation =
+      details.expected_version !== null
+        ? `expected version ${details.expected_version}`
+        : `expected no changes since ${new Date((details.if_unmodified_since ?? 0) * 1000).toISOString()}`;
+    super(
+      `Version conflict on scratchpad ${details.scratchpad_id}: ${expectation}, current version is ${details.current_version}. Re-read the scratchpad and retry.`
+    );
+    this.name = 'ScratchpadConflictError';
+    this.details = details;
+  }
+
+  /**
+   * Structured payload for tool responses (timestamps as ISO strings)
+   */
+  toJSON(): Record<string, unknown> {
+    const toIso = (unixTimestamp: number): string => new Date(unixTimestamp * 1000).toISOString();
+    return {
+      error: this.code,
+      message: this.message,
+      ...this.details,
+      if_unmodified_since:
+        this.details.if_unmodified_since !== null ? toIso(this.details.if_unmodified_since) : null,
+      current_updated_at: toIso(this.details.current_updated_at),
+    };
+  }
+}
+
+export type QuotaKind = 'scratchpad_size' | 'workflow_scratchpads' | 'project_storage' | 'response_size';
+
+export interface QuotaExceededDetails {
+  quota: QuotaKind;
+  unit: 'bytes' | 'scratchpads';
+  limit: number;
+  /** Usage before the rejected operation */
+  current: number;
+  /** Usage the rejected operation would have resulted in */
+  attempted: number;
+  workflow_id?: string;
+  scratchpad_id?: string;
+  project_scope?: string | null;
+  tool?: string;
+}
+
+/**
+ * A configured limit or quota (see DatabaseLimits / src/config) would be exceeded
+ */
+export class QuotaExceededError extends Error {
+  readonly code = 'QUOTA_EXCEEDED';
+  readonly details: QuotaExceededDetails;
+
+  constructor(message: string, details: QuotaExceededDetails) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.details = details;
+  }
+
+  /**
+   * Structured payload for tool responses
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      error: this.code,
+      message: this.message,
+      ...this.details,
+    };
+  }
+}
@@ -4,3 +4,4 @@
 export { ScratchpadDatabase } from './ScratchpadDatabase.js';
 export * from './types.js';
 export * from './schema.js';
+export * from './errors.js';
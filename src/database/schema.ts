@@ -4,7 +4,7 @@
 import type Database from 'better-sqlite3';
 import { assertVersionResult } from './types.js';
 
-export const SCHEMA_VERSION = 4;
+export const SCHEMA_VERSION = 11;
 
 export const initializeSchema = (
   db: Database.Database,
@@ -23,7 +23,9 @@ export const initializeSchema = (
       updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
       scratchpad_count INTEGER NOT NULL DEFAULT 0,
       is_active BOOLEAN NOT NULL DEFAULT 1,
-      project_scope TEXT DEFAULT NULL
+      project_scope TEXT DEFAULT NULL,
+      tags TEXT NOT NULL DEFAULT '',
+      metadata TEXT DEFAULT NULL
     )
   `);
 
@@ -40,6 +42,9 @@ export const initializeSchema = (
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
       size_bytes INTEGER NOT NULL DEFAULT 0,
+      version INTEGER NOT NULL DEFAULT 1,
+      tags TEXT NOT NULL DEFAULT '',
+      metadata TEXT DEFAULT NULL,
       FOREIGN KEY (workflow_id) REFERENCES workflows(id) ON DELETE CASCADE
     )
   `);
@@ -55,6 +60,115 @@ export const initializeSchema = (
     ON scratchpads(updated_at DESC)
   `);
 
+  // Create scratchpad revisions table (content snapshot after every mutation)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scratchpad_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scratchpad_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL DEFAULT 0,
+      operation TEXT NOT NULL,
+      scratchpad_version INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (scratchpad_id) REFERENCES scratchpads(id) ON DELETE CASCADE,
+      UNIQUE (scratchpad_id, revision)
+    )
+  `);
+
+  // Per-workflow revision retention overrides (defaults apply when no row exists)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workflow_revision_settings (
+      workflow_id TEXT PRIMARY KEY,
+      max_revisions INTEGER NOT NULL,
+      max_bytes INTEGER NOT NULL,
+      FOREIGN KEY (workflow_id) REFERENCES workflows(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Block embeddings for semantic search (vector stored as Float32 BLOB, keyed by provider:model)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS block_embeddings (
+      scratchpad_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      block_index INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      start_line INTEGER NOT NULL,
+      end_line INTEGER NOT NULL,
+      dimensions INTEGER NOT NULL,
+      embedding BLOB NOT NULL,
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (scratchpad_id, model, block_index),
+      FOREIGN KEY (scratchpad_id) REFERENCES scratchpads(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Tags of workflows and scratchpads（tags 欄位為同步的空白分隔副本，供 FTS5 索引）
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tags (
+      entity_type TEXT NOT NULL CHECK (entity_type IN ('workflow', 'scratchpad')),
+      entity_id TEXT NOT NULL,
+      tag TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (entity_type, entity_id, tag)
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_tags_tag 
+    ON tags(entity_type, tag)
+  `);
+
+  // tags 沒有外鍵（同時指向兩張表），以觸發器清理
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS scratchpads_tags_delete 
+    AFTER DELETE ON scratchpads 
+    BEGIN
+      DELETE FROM tags WHERE entity_type = 'scratchpad' AND entity_id = OLD.id;
+    END
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS workflows_tags_delete 
+    AFTER DELETE ON workflows 
+    BEGIN
+      DELETE FROM tags WHERE entity_type = 'workflow' AND entity_id = OLD.id;
+    END
+  `);
+
+  // Trash for soft-deleted scratchpads/workflows (payload holds the JSON snapshot for restore)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS trash (
+      id TEXT PRIMARY KEY,
+      item_type TEXT NOT NULL CHECK (item_type IN ('scratchpad', 'workflow')),
+      item_id TEXT NOT NULL,
+      workflow_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL DEFAULT 0,
+      payload TEXT NOT NULL,
+      deleted_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // Scratchpad templates saved through save-template (directory / built-in templates are not stored)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS templates (
+      name TEXT PRIMARY KEY,
+      description TEXT NOT NULL DEFAULT '',
+      content TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // Last successful sync with each peer database (see src/sync)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+      peer_id TEXT PRIMARY KEY,
+      last_synced_at INTEGER NOT NULL
+    )
+  `);
+
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_workflows_updated_at 
     ON workflows(updated_at DESC)
@@ -77,6 +191,7 @@ export const initializeSchema = (
           workflow_id UNINDEXED,
           title,
           content,
+          tags,
           content='scratchpads',
           content_rowid='rowid',
           tokenize='${tokenizer}'
@@ -88,8 +203,8 @@ export const initializeSchema = (
         CREATE TRIGGER IF NOT EXISTS scratchpads_fts_insert 
         AFTER INSERT ON scratchpads 
         BEGIN
-          INSERT INTO scratchpads_fts(rowid, id, workflow_id, title, content) 
-          VALUES (NEW.rowid, NEW.id, NEW.workflow_id, NEW.title, NEW.content);
+          INSERT INTO scratchpads_fts(rowid, id, workflow_id, title, content, tags) 
+          VALUES (NEW.rowid, NEW.id, NEW.workflow_id, NEW.title, NEW.content, NEW.tags);
         END
       `);
 
@@ -106,8 +221,8 @@ export const initializeSchema = (
         CREATE TRIGGER IF NOT EXISTS scratchpads_fts_update 
         AFTER UPDATE ON scratchpads 
         BEGIN
-          INSERT OR REPLACE INTO scratchpads_fts(rowid, id, workflow_id, title, content) 
-          VALUES (NEW.rowid, NEW.id, NEW.workflow_id, NEW.title, NEW.content);
+          INSERT OR REPLACE INTO scratchpads_fts(rowid, id, workflow_id, title, content, tags) 
+          VALUES (NEW.rowid, NEW.id, NEW.workflow_id, NEW.title, NEW.content, NEW.tags);
         END
       `);
 
@@ -119,6 +234,7 @@ export const initializeSchema = (
           name,
           description,
           project_scope UNINDEXED,
+          tags,
           content='workflows',
           content_rowid='rowid',
           tokenize='${tokenizer}'
@@ -130,8 +246,8 @@ export const initializeSchema = (
         CREATE TRIGGER IF NOT EXISTS workflows_fts_insert 
         AFTER INSERT ON workflows 
         BEGIN
-          INSERT INTO workflows_fts(rowid, id, name, description, project_scope) 
-          VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''), NEW.project_scope);
+          INSERT INTO workflows_fts(rowid, id, name, description, project_scope, tags) 
+          VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''), NEW.project_scope, NEW.tags);
         END
       `);
 
@@ -147,10 +263,14 @@ export const initializeSchema = (
         CREATE TRIGGER IF NOT EXISTS workflows_fts_update 
         AFTER UPDATE ON workflows 
         BEGIN
-          INSERT OR REPLACE INTO workflows_fts(rowid, id, name, description, project_scope) 
-          VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''), NEW.project_scope);
+          INSERT OR REPLACE INTO workflows_fts(rowid, id, name, description, project_scope, tags) 
+          VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''), NEW.project_scope, NEW.tags);
         END
       `);
+
+      // initializeSchema 只在 schema 版本不符時執行：新建或遷移後重建的 FTS 表需從內容表重新索引
+      db.exec(`INSERT INTO scratchpads_fts(scratchpads_fts) VALUES('rebuild')`);
+      db.exec(`INSERT INTO workflows_fts(workflows_fts) VALUES('rebuild')`);
     } catch (error) {
       // FTS5 not available, fall back to basic search
       console.warn('FTS5 not available, falling back to LIKE search:', error);
@@ -170,6 +290,28 @@ export const initializeSchema = (
     INSERT OR REPLACE INTO schema_info (key, value) VALUES (?, ?)
   `);
   insertVersion.run('version', SCHEMA_VERSION.toString());
+
+  // Stable identity of this database file, used as the peer ID when syncing
+  db.exec(`
+    INSERT OR IGNORE INTO schema_info (key, value) VALUES ('database_id', lower(hex(randomblob(16))))
+  `);
+};
+
+/**
+ * Add a column unless it already exists
+ * 資料表尚未建立時（例如 v4 以前沒有 scratchpad_revisions）交給後續 CREATE TABLE
+ */
+const addColumnIfMissing = (
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void => {
+  const tableInfo = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (tableInfo.length > 0 && !tableInfo.some((info) => info.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`✅ Added ${column} column to ${table} table`);
+  }
 };
 
 /**
@@ -320,6 +462,44 @@ export const migrateSchema = (db: Database.Database): void => {
       }
     }
   }
+
+  // Migration to v7: Add monotonic version column for optimistic concurrency
+  if (currentVersion < 7) {
+    console.log('Migrating database schema to v7...');
+    try {
+      addColumnIfMissing(db, 'scratchpads', 'version', 'INTEGER NOT NULL DEFAULT 1');
+      addColumnIfMissing(db, 'scratchpad_revisions', 'scratchpad_version', 'INTEGER');
+    } catch (error) {
+      console.error('Failed to migrate schema to v7:', error);
+      throw error;
+    }
+  }
+
+  // Migration to v9: tags / metadata columns; FTS5 tables gain a tags column
+  if (currentVersion < 9) {
+    console.log('Migrating database schema to v9...');
+    try {
+      for (const table of ['workflows', 'scratchpads']) {
+        addColumnIfMissing(db, table, 'tags', "TEXT NOT NULL DEFAULT ''");
+        addColumnIfMissing(db, table, 'metadata', 'TEXT DEFAULT NULL');
+      }
+
+      // FTS5 虛擬表無法 ALTER：移除舊表與觸發器，由 initializeSchema 以新欄位重建並重新索引
+      for (const ftsTable of ['scratchpads_fts', 'workflows_fts']) {
+        const columns = db.prepare(`PRAGMA table_info(${ftsTable})`).all() as Array<{ name: string }>;
+        if (columns.length > 0 && !columns.some((info) => info.name === 'tags')) {
+          for (const action of ['insert', 'delete', 'update']) {
+            db.exec(`DROP TRIGGER IF EXISTS ${ftsTable}_${action}`);
+          }
+          db.exec(`DROP TABLE ${ftsTable}`);
+          console.log(`✅ Dropped ${ftsTable} (re-created with a tags column)`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to migrate schema to v9:', error);
+      throw error;
+    }
+  }
 };
 
 export const checkSchemaVersion = (db: Database.Database): boolean => {
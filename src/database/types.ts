@@ -1,6 +1,7 @@
 /**
  * Database schema and types for Scratchpad MCP Server
  */
+import type { BlockKind } from '../utils/BlockParser.js';
 
 export interface Workflow {
   id: string;
@@ -11,6 +12,8 @@ export interface Workflow {
   scratchpad_count: number;
   is_active: boolean;
   project_scope: string | null;
+  tags: string[]; // 正規化（小寫）並排序的標籤
+  metadata: EntityMetadata;
 }
 
 // Database representation of workflow (is_active as number 0/1)
@@ -23,6 +26,8 @@ export interface WorkflowDbRow {
   scratchpad_count: number;
   is_active: number; // SQLite stores boolean as 0/1
   project_scope: string | null;
+  tags?: string; // 空白分隔的標籤副本（schema v9 新增）
+  metadata?: string | null; // JSON object
 }
 
 export interface Scratchpad {
@@ -33,6 +38,157 @@ export interface Scratchpad {
   created_at: number;
   updated_at: number;
   size_bytes: number;
+  version: number; // 每次寫入遞增，用於樂觀並行控制
+  tags: string[];
+  metadata: EntityMetadata;
+}
+
+// Database representation of scratchpad (tags / metadata as stored text)
+export interface ScratchpadDbRow extends Omit<Scratchpad, 'tags' | 'metadata'> {
+  tags?: string;
+  metadata?: string | null;
+}
+
+/**
+ * Free-form key/value metadata of a workflow or scratchpad (stored as a JSON object)
+ */
+export type EntityMetadata = Record<string, unknown>;
+
+export type TaggableEntityType = 'workflow' | 'scratchpad';
+
+export type MetadataFilterValue = string | number | boolean;
+
+/**
+ * Tag / metadata filter shared by list and search operations
+ */
+export interface EntityFilter {
+  tags?: string[] | undefined; // 必須具備所有列出的標籤
+  metadata?: Record<string, MetadataFilterValue> | undefined; // 每個鍵的值都必須相等
+}
+
+export interface TagChanges {
+  add?: string[] | undefined;
+  remove?: string[] | undefined;
+  set?: string[] | undefined; // 取代全部標籤（先於 add / remove 套用）
+}
+
+export interface MetadataChanges {
+  set: Record<string, unknown>; // 合併更新；值為 null 表示刪除該鍵
+  replace?: boolean | undefined; // true 時以 set 取代整個 metadata
+}
+
+export interface ScratchpadRevision {
+  id: number;
+  scratchpad_id: string;
+  revision: number;
+  content: string;
+  size_bytes: number;
+  operation: string; // e.g. 'create', 'append', 'chop', 'update:replace_lines', 'restore:3'
+  scratchpad_version: number | null; // 寫入後的 scratchpad.version（舊資料為 null）
+  created_at: number;
+}
+
+export interface RevisionRetention {
+  max_revisions: number; // 保留的最大修訂數量（最少 2）
+  max_bytes: number; // 單一 scratchpad 修訂歷史的總位元組預算
+}
+
+export type TrashItemType = 'scratchpad' | 'workflow';
+
+export interface TrashEntry {
+  id: string;
+  item_type: TrashItemType;
+  item_id: string;
+  workflow_id: string; // 所屬 workflow（workflow 項目則為自身 ID）
+  title: string; // scratchpad title 或 workflow name
+  size_bytes: number;
+  deleted_at: number;
+}
+
+/**
+ * Scratchpad template saved in the database (see src/templates for directory / built-in templates)
+ */
+export interface StoredTemplate {
+  name: string;
+  description: string;
+  content: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SaveTemplateParams {
+  name: string;
+  content: string;
+  description?: string | undefined;
+}
+
+/**
+ * Workflow import (export-workflow archives, sync)
+ *
+ * 衝突政策：skip 保留既有資料、overwrite 以匯入資料取代、duplicate 以新 ID 另存一份
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'duplicate';
+
+export type ImportAction = 'created' | 'overwritten' | 'skipped' | 'duplicated';
+
+export interface WorkflowSnapshot {
+  workflow: Workflow;
+  scratchpads: Scratchpad[];
+}
+
+export interface ImportWorkflowOptions {
+  policy?: ImportConflictPolicy | undefined; // default: 'skip'
+  /** Explicit ID remapping (archive ID -> ID in this database) for the workflow and scratchpads */
+  id_map?: Record<string, string> | undefined;
+  /** Assign fresh IDs to every imported item not covered by id_map */
+  regenerate_ids?: boolean | undefined;
+  /** Override the imported workflow's project scope */
+  project_scope?: string | null | undefined;
+  /** Operation recorded in the revision history (default: 'import') */
+  operation?: string | undefined;
+}
+
+export interface ImportWorkflowResult {
+  workflow: Workflow;
+  workflow_action: ImportAction;
+  scratchpads: Array<{ source_id: string; id: string; title: string; action: ImportAction }>;
+  /** IDs that changed during import (archive ID -> new ID) */
+  id_map: Record<string, string>;
+}
+
+/**
+ * Change notification emitted after a successful write (used for MCP resource subscriptions)
+ */
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+export type DatabaseChange =
+  | { type: 'workflow'; action: ChangeAction; workflow_id: string }
+  | { type: 'scratchpad'; action: ChangeAction; workflow_id: string; scratchpad_id: string };
+
+export type DatabaseChangeListener = (change: DatabaseChange) => void;
+
+/**
+ * Stored embedding of a single scratchpad block (semantic-search index)
+ */
+export interface BlockEmbedding {
+  scratchpad_id: string;
+  block_index: number;
+  content_hash: string; // 嵌入文字的 sha256，用於增量更新
+  start_line: number; // 1-based
+  end_line: number;
+  embedding: Float32Array;
+}
+
+export interface BlockEmbeddingCandidate extends BlockEmbedding {
+  scratchpad_title: string;
+  workflow_id: string;
+  workflow_name: string;
+}
+
+export interface ListBlockEmbeddingsParams {
+  model: string; // provider:model
+  workflow_id?: string | undefined;
+  project_scope?: string | undefined;
 }
 
 export interface SearchResult {
@@ -46,8 +202,31 @@ export interface DatabaseConfig {
   filename: string;
   readonly?: boolean;
   timeout?: number;
+  /** Overrides for DEFAULT_DATABASE_LIMITS (see src/config for env / config file loading) */
+  limits?: Partial<DatabaseLimits>;
 }
 
+/**
+ * Size and count limits enforced on writes
+ *
+ * 超過限制時拋出 QuotaExceededError；縮小內容的寫入即使已超過配額仍允許
+ */
+export interface DatabaseLimits {
+  max_scratchpad_bytes: number;
+  max_scratchpads_per_workflow: number;
+  /**
+   * Total scratchpad bytes per project_scope; '*' applies to every scope without its own entry
+   * （未設定 project_scope 的 workflow 也視為一個獨立的 scope）
+   */
+  project_storage_quotas: Record<string, number>;
+}
+
+export const DEFAULT_DATABASE_LIMITS: DatabaseLimits = {
+  max_scratchpad_bytes: 1024 * 1024, // 1MB
+  max_scratchpads_per_workflow: 50,
+  project_storage_quotas: {},
+};
+
 /**
  * Type guard functions for runtime type validation
  * 執行時型別驗證守衛函數，確保資料庫查詢結果的型別安全
@@ -70,7 +249,9 @@ export function isScratchpad(obj: unknown): obj is Scratchpad {
     typeof candidate['content'] === 'string' &&
     typeof candidate['created_at'] === 'number' &&
     typeof candidate['updated_at'] === 'number' &&
-    typeof candidate['size_bytes'] === 'number'
+    typeof candidate['size_bytes'] === 'number' &&
+    // version 欄位於 schema v7 新增，舊資料列可能沒有
+    (candidate['version'] === undefined || typeof candidate['version'] === 'number')
   );
 }
 
@@ -167,18 +348,68 @@ export interface CreateWorkflowParams {
   project_scope?: string | undefined;
 }
 
+export interface UpdateWorkflowParams {
+  name?: string | undefined;
+  description?: string | null | undefined; // null 清除描述
+  project_scope?: string | null | undefined; // null 清除 project scope
+}
+
 export interface CreateScratchpadParams {
   workflow_id: string;
   title: string;
   content: string;
 }
 
+export interface CopyScratchpadParams {
+  id: string;
+  workflow_id: string; // target workflow（可與來源相同，用於複製一份）
+  title?: string | undefined; // default: source title
+}
+
+export type MergeOrder = 'created_at' | 'updated_at' | 'explicit';
+
+export interface MergeScratchpadsParams {
+  workflow_id: string;
+  scratchpad_ids: string[]; // 至少兩個，皆須屬於 workflow_id
+  title: string;
+  order?: MergeOrder | undefined; // default: 'created_at'（explicit 依 scratchpad_ids 順序）
+  delete_sources?: boolean | undefined; // default: false（刪除時移至垃圾桶）
+}
+
+/**
+ * Clone a workflow; scratchpad_ids / tags / metadata narrow the copied scratchpads (all by default)
+ */
+export interface CloneWorkflowParams extends EntityFilter {
+  workflow_id: string;
+  name?: string | undefined; // default: "<source name> (copy)"
+  description?: string | null | undefined; // default: source description
+  project_scope?: string | null | undefined; // default: source project_scope
+  scratchpad_ids?: string[] | undefined;
+  include_scratchpads?: boolean | undefined; // default: true
+}
+
 export interface AppendScratchpadParams {
   id: string;
   content: string;
+  /** Author recorded in the block header (e.g. the sub-agent name) */
+  author?: string | undefined;
+  kind?: BlockKind | undefined;
+  /** Block tags (normalized like scratchpad tags) */
+  tags?: string[] | undefined;
 }
 
-export interface ListScratchpadsParams {
+/**
+ * Optimistic concurrency guard for scratchpad writes
+ * 任一條件不符時寫入會以 ScratchpadConflictError 失敗
+ */
+export interface WriteGuard {
+  /** Write only if scratchpad.version still equals this value */
+  expected_version?: number | undefined;
+  /** Write only if scratchpad.updated_at (unix seconds) is not later than this value; best-effort, writes within the same second are not detected */
+  if_unmodified_since?: number | undefined;
+}
+
+export interface ListScratchpadsParams extends EntityFilter {
   workflow_id: string;
   limit?: number;
   offset?: number;
@@ -191,6 +422,43 @@ export interface SearchScratchpadsParams {
   useJieba?: boolean; // 可選：是否使用 jieba 結巴分詞搜尋
 }
 
+/**
+ * Cross-workflow scratchpad search (search-all-scratchpads)
+ */
+export interface SearchAllScratchpadsParams extends EntityFilter {
+  query: string;
+  project_scope?: string | undefined;
+  is_active?: boolean | undefined; // 只搜尋 active / inactive workflows
+  updated_after?: number | undefined; // Unix timestamp（含）
+  updated_before?: number | undefined; // Unix timestamp（含）
+  title_only?: boolean | undefined;
+  limit?: number;
+  offset?: number;
+  snippet_tokens?: number;
+  highlight_open?: string;
+  highlight_close?: string;
+}
+
+export interface ScratchpadSearchHit {
+  scratchpad: Scratchpad;
+  workflow: Workflow;
+  score: number; // 相關度（越高越相關；FTS5 為 -bm25）
+  title_highlight: string;
+  snippet: string;
+}
+
+export interface SearchAllScratchpadsPage {
+  hits: ScratchpadSearchHit[];
+  total: number;
+  search_method: 'fts5' | 'like';
+}
+
+export interface ListRevisionsParams {
+  scratchpad_id: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ChopScratchpadParams {
   id: string;
   lines?: number; // 可選：要刪除的行數，默認為 1
@@ -205,11 +473,20 @@ export interface ChopScratchpadParams {
  * Available edit modes for enhanced scratchpad updates
  * 可用的編輯模式列舉
  */
-export type EditMode = 'replace' | 'insert_at_line' | 'replace_lines' | 'append_section';
+export type EditMode =
+  | 'replace'
+  | 'insert_at_line'
+  | 'replace_lines'
+  | 'append_section'
+  | 'replace_section'
+  | 'delete_section'
+  | 'prepend_section'
+  | 'rename_section'
+  | 'find_replace';
 
 /**
  * Enhanced Update Scratchpad Arguments
- * 支援四種編輯模式的統一介面
+ * 支援行編輯與章節編輯模式的統一介面
  */
 export interface EnhancedUpdateScratchpadArgs {
   /** Scratchpad ID to edit */
@@ -229,14 +506,37 @@ export interface EnhancedUpdateScratchpadArgs {
   /** Line number for insert_at_line mode (1-based indexing) */
   line_number?: number;
 
-  /** Start line for replace_lines mode (1-based, inclusive) */
+  /** Start line for replace_lines mode, or of the search range for find_replace (1-based, inclusive) */
   start_line?: number;
 
-  /** End line for replace_lines mode (1-based, inclusive) */
+  /** End line for replace_lines mode, or of the search range for find_replace (1-based, inclusive) */
   end_line?: number;
 
-  /** Section marker for append_section mode (e.g., "## Features", "# TODO") */
+  /**
+   * Section marker for append_section mode (e.g., "## Features", "# TODO"), or the header of the
+   * section for the *_section modes ("## Status", "Status" or "## Status > ### Notes")
+   */
   section_marker?: string;
+
+  /** Literal text to find for find_replace mode (cannot be used with queryRegex) */
+  query?: string;
+
+  /** Regular expression to find for find_replace mode; content may use $1 / $<name> / $& */
+  queryRegex?: string;
+
+  /** Maximum number of occurrences to replace in find_replace mode (default: all) */
+  max_replacements?: number;
+
+  /** Preview find_replace as a unified diff without writing */
+  dry_run?: boolean;
+
+  // Optimistic concurrency (optional)
+
+  /** Fail with a version conflict unless the scratchpad is still at this version */
+  expected_version?: number;
+
+  /** Fail with a version conflict if the scratchpad was modified after this ISO timestamp */
+  if_unmodified_since?: string;
 }
 
 /**
@@ -253,6 +553,7 @@ export interface EnhancedUpdateScratchpadResult {
     created_at: string;
     updated_at: string;
     size_bytes: number;
+    version: number;
   };
 
   /** Human-readable operation message */
@@ -269,5 +570,15 @@ export interface EnhancedUpdateScratchpadResult {
       start_line: number;
       end_line: number;
     }; // For replace_lines mode
+    section?: {
+      header: string;
+      level: number;
+      start_line: number;
+      end_line: number;
+    }; // For section modes (range before the edit, nested subsections included)
+    replacements?: number; // For find_replace mode
+    changed_lines?: number[]; // For find_replace mode
+    dry_run?: boolean; // For find_replace mode - nothing was written
+    diff?: string; // For find_replace dry runs - unified diff of the change
   };
 }
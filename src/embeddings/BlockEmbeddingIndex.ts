@@ -0,0 +1,305 @@
+/**
+ * BlockEmbeddingIndex - block-level embedding index for semantic search
+ *
+ * 以 BlockParser 的 block 為單位建立向量索引（存於 block_embeddings 表）：
+ * - 透過 db.onChange 監聽寫入，背景增量更新（只嵌入內容 hash 改變的 blocks）
+ * - 搜尋前會先補齊搜尋範圍內尚未索引或過期的 scratchpads
+ */
+import { createHash } from 'node:crypto';
+import type { ScratchpadDatabase, BlockEmbedding, Scratchpad } from '../database/index.js';
+import { BlockParser } from '../utils/BlockParser.js';
+import { TokenCounter } from '../utils/TokenCounter.js';
+import type {
+  EmbeddingProvider,
+  IndexStats,
+  SemanticSearchHit,
+  SemanticSearchParams,
+} from './types.js';
+
+interface BlockSource {
+  block_index: number;
+  start_line: number;
+  end_line: number;
+  content: string;
+  /** Text sent to the provider (scratchpad title + block content) */
+  text: string;
+  content_hash: string;
+}
+
+const countLines = (text: string): number => text.split('\n').length;
+
+/**
+ * Cosine similarity of two vectors (0 when either is a zero vector)
+ */
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+export class BlockEmbeddingIndex {
+  // 單一 block 嵌入文字的 token 上限（超過時截斷，避免超出模型輸入長度）
+  private static readonly MAX_BLOCK_TOKENS = 2000;
+  private static readonly EMBED_BATCH_SIZE = 32;
+
+  private readonly pending = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly db: ScratchpadDatabase,
+    readonly provider: EmbeddingProvider
+  ) {}
+
+  /**
+   * Key stored in block_embeddings.model; vectors of different models never mix
+   */
+  get modelKey(): string {
+    return `${this.provider.name}:${this.provider.model}`;
+  }
+
+  /**
+   * Start incremental indexing from database write events
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.db.onChange((change) => {
+      // 刪除時向量由 ScratchpadDatabase 連同 scratchpad 一併移除，不需重建
+      if (change.type === 'scratchpad' && change.action !== 'deleted') {
+        this.schedule(change.scratchpad_id);
+      }
+    });
+  }
+
+  /**
+   * Stop listening and wait for queued work to finish
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    await this.whenIdle();
+  }
+
+  /**
+   * Resolve once all queued indexing work has finished
+   */
+  whenIdle(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Queue a scratchpad for re-indexing (duplicate requests are coalesced)
+   */
+  schedule(scratchpadId: string): void {
+    if (this.pending.has(scratchpadId)) {
+      return;
+    }
+    this.pending.add(scratchpadId);
+    this.queue = this.queue.then(async () => {
+      // 先移出 pending：索引期間的新寫入會再次排入佇列
+      this.pending.delete(scratchpadId);
+      try {
+        await this.indexScratchpad(scratchpadId);
+      } catch (error) {
+        console.warn(`⚠️ Failed to index scratchpad ${scratchpadId} for semantic search:`, error);
+      }
+    });
+  }
+
+  /**
+   * Bring the embeddings of one scratchpad up to date
+   */
+  async indexScratchpad(scratchpadId: string): Promise<IndexStats> {
+    const scratchpad = this.db.getScratchpadById(scratchpadId);
+    if (!scratchpad) {
+      return { scratchpads: 0, embedded: 0, reused: 0 };
+    }
+
+    const blocks = this.describeBlocks(scratchpad);
+    const stored = this.db.getBlockEmbeddings(scratchpadId, this.modelKey);
+    if (this.isUpToDate(blocks, stored)) {
+      return { scratchpads: 0, embedded: 0, reused: stored.length };
+    }
+
+    // 依內容 hash 重用既有向量（block 位移或行號改變時不需重新嵌入）
+    const vectors = new Map(stored.map((entry) => [entry.content_hash, entry.embedding]));
+    const missing = [
+      ...new Map(
+        blocks
+          .filter((block) => !vectors.has(block.content_hash))
+          .map((block) => [block.content_hash, block])
+      ).values(),
+    ];
+
+    for (let i = 0; i < missing.length; i += BlockEmbeddingIndex.EMBED_BATCH_SIZE) {
+      const batch = missing.slice(i, i + BlockEmbeddingIndex.EMBED_BATCH_SIZE);
+      const embeddings = await this.provider.embed(batch.map((block) => block.text));
+      batch.forEach((block, offset) => {
+        const embedding = embeddings[offset];
+        if (!embedding) {
+          throw new Error(
+            `${this.provider.label} returned ${embeddings.length} embeddings for ${batch.length} inputs`
+          );
+        }
+        vectors.set(block.content_hash, Float32Array.from(embedding));
+      });
+    }
+
+    this.db.replaceBlockEmbeddings(
+      scratchpadId,
+      this.modelKey,
+      blocks.map((block) => ({
+        scratchpad_id: scratchpadId,
+        block_index: block.block_index,
+        content_hash: block.content_hash,
+        start_line: block.start_line,
+        end_line: block.end_line,
+        embedding: vectors.get(block.content_hash) ?? new Float32Array(),
+      }))
+    );
+
+    return { scratchpads: 1, embedded: missing.length, reused: blocks.length - missing.length };
+  }
+
+  /**
+   * Index every scratchpad in the search scope that is missing or stale
+   */
+  async sync(
+    scope: { workflow_id?: string | undefined; project_scope?: string | undefined } = {}
+  ): Promise<IndexStats> {
+    const run = async (): Promise<IndexStats> => {
+      const totals: IndexStats = { scratchpads: 0, embedded: 0, reused: 0 };
+      const workflows = scope.workflow_id
+        ? [this.db.getWorkflowById(scope.workflow_id)].filter((workflow) => workflow !== null)
+        : this.db.getWorkflows(scope.project_scope);
+
+      for (const workflow of workflows) {
+        if (scope.project_scope !== undefined && workflow.project_scope !== scope.project_scope) {
+          continue;
+        }
+        for (const scratchpad of this.db.listAllScratchpads(workflow.id)) {
+          const stats = await this.indexScratchpad(scratchpad.id);
+          totals.scratchpads += stats.scratchpads;
+          totals.embedded += stats.embedded;
+          totals.reused += stats.reused;
+        }
+      }
+      return totals;
+    };
+
+    // 與背景索引共用佇列，避免同一 scratchpad 被並行嵌入
+    const result = this.queue.then(run);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  /**
+   * Rank indexed blocks by cosine similarity to the query
+   */
+  async search(
+    params: SemanticSearchParams
+  ): Promise<{ hits: SemanticSearchHit[]; indexed: IndexStats }> {
+    const indexed = await this.sync({
+      workflow_id: params.workflow_id,
+      project_scope: params.project_scope,
+    });
+
+    const [queryEmbedding] = await this.provider.embed([params.query]);
+    if (!queryEmbedding) {
+      throw new Error(`${this.provider.label} returned no embedding for the query`);
+    }
+
+    const ranked = this.db
+      .listBlockEmbeddings({
+        model: this.modelKey,
+        workflow_id: params.workflow_id,
+        project_scope: params.project_scope,
+      })
+      .filter((candidate) => candidate.embedding.length === queryEmbedding.length)
+      .map((candidate) => ({
+        candidate,
+        score: cosineSimilarity(queryEmbedding, candidate.embedding),
+      }))
+      .filter(({ score }) => score >= params.min_score)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, params.limit);
+
+    // 從目前內容取出命中 block 的文字（索引只存向量）
+    const blocksByScratchpad = new Map<string, BlockSource[]>();
+    const hits: SemanticSearchHit[] = [];
+    for (const { candidate, score } of ranked) {
+      let blocks = blocksByScratchpad.get(candidate.scratchpad_id);
+      if (!blocks) {
+        const scratchpad = this.db.getScratchpadById(candidate.scratchpad_id);
+        blocks = scratchpad ? this.describeBlocks(scratchpad) : [];
+        blocksByScratchpad.set(candidate.scratchpad_id, blocks);
+      }
+      const block = blocks.find((source) => source.block_index === candidate.block_index);
+      if (!block) {
+        continue;
+      }
+
+      hits.push({
+        scratchpad_id: candidate.scratchpad_id,
+        scratchpad_title: candidate.scratchpad_title,
+        workflow_id: candidate.workflow_id,
+        workflow_name: candidate.workflow_name,
+        block_index: block.block_index,
+        start_line: block.start_line,
+        end_line: block.end_line,
+        score,
+        content: block.content,
+      });
+    }
+
+    return { hits, indexed };
+  }
+
+  private describeBlocks(scratchpad: Scratchpad): BlockSource[] {
+    return BlockParser.parseBlocks(scratchpad.content)
+      .filter((block) => block.content.trim() !== '')
+      .map((block) => {
+        const startLine = countLines(scratchpad.content.slice(0, block.startPosition));
+        const body =
+          TokenCounter.split(block.content.trim(), BlockEmbeddingIndex.MAX_BLOCK_TOKENS)[0] ?? '';
+        const text = `${scratchpad.title}\n\n${body}`;
+        return {
+          block_index: block.index,
+          start_line: startLine,
+          end_line: startLine + countLines(block.content) - 1,
+          content: block.content,
+          text,
+          content_hash: createHash('sha256').update(text).digest('hex'),
+        };
+      });
+  }
+
+  private isUpToDate(blocks: BlockSource[], stored: BlockEmbedding[]): boolean {
+    return (
+      blocks.length === stored.length &&
+      blocks.every((block, i) => {
+        const entry = stored[i];
+        return (
+          entry !== undefined &&
+          entry.block_index === block.block_index &&
+          entry.content_hash === block.content_hash &&
+          entry.start_line === block.start_line &&
+          entry.end_line === block.end_line
+        );
+      })
+    );
+  }
+}
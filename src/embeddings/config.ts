@@ -0,0 +1,99 @@
+/**
+ * Embedding provider selection from environment variables
+ */
+import { EmbeddingConfigurationError } from './errors.js';
+import {
+  createOpenAIEmbeddingProvider,
+  createOpenAICompatibleEmbeddingProvider,
+} from './providers/openai.js';
+import { createTransformersEmbeddingProvider } from './providers/transformers.js';
+import { createStubEmbeddingProvider } from './providers/stub.js';
+import type { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderName } from './types.js';
+
+const PROVIDER_NAMES: readonly EmbeddingProviderName[] = [
+  'openai',
+  'openai-compatible',
+  'transformers',
+  'stub',
+];
+
+const isProviderName = (value: string): value is EmbeddingProviderName =>
+  (PROVIDER_NAMES as readonly string[]).includes(value);
+
+/**
+ * Resolve embedding provider settings from environment variables
+ *
+ * SCRATCHPAD_EMBEDDING_PROVIDER: openai | openai-compatible | transformers | stub
+ * SCRATCHPAD_EMBEDDING_MODEL / SCRATCHPAD_EMBEDDING_BASE_URL / SCRATCHPAD_EMBEDDING_API_KEY: provider overrides
+ * 未指定 provider 時：有 SCRATCHPAD_EMBEDDING_BASE_URL 則用 openai-compatible，否則回傳 null（停用語意搜尋）。
+ * 不會因為 OPENAI_API_KEY 存在就自動啟用，避免每次寫入都把內容送往外部服務
+ */
+export const resolveEmbeddingConfig = (env: NodeJS.ProcessEnv): EmbeddingProviderConfig | null => {
+  const explicit = env['SCRATCHPAD_EMBEDDING_PROVIDER']?.trim().toLowerCase();
+  const model = env['SCRATCHPAD_EMBEDDING_MODEL'] || undefined;
+  const baseUrl = env['SCRATCHPAD_EMBEDDING_BASE_URL'] || undefined;
+  const sharedKey = env['SCRATCHPAD_EMBEDDING_API_KEY'] || undefined;
+
+  let provider: EmbeddingProviderName;
+  if (explicit) {
+    if (!isProviderName(explicit)) {
+      throw new EmbeddingConfigurationError(
+        `Invalid SCRATCHPAD_EMBEDDING_PROVIDER: ${explicit} (expected one of: ${PROVIDER_NAMES.join(', ')})`
+      );
+    }
+    provider = explicit;
+  } else if (baseUrl) {
+    provider = 'openai-compatible';
+  } else {
+    return null;
+  }
+
+  const apiKey =
+    sharedKey ??
+    (provider === 'openai' || provider === 'openai-compatible' ? env['OPENAI_API_KEY'] : undefined);
+
+  return { provider, model, apiKey: apiKey || undefined, baseUrl };
+};
+
+/**
+ * Create an embedding provider instance, validating required settings
+ */
+export const createEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new EmbeddingConfigurationError(
+          'OPENAI_API_KEY (or SCRATCHPAD_EMBEDDING_API_KEY) is required for the OpenAI embedding provider'
+        );
+      }
+      return createOpenAIEmbeddingProvider({ apiKey: config.apiKey, model: config.model });
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new EmbeddingConfigurationError(
+          'SCRATCHPAD_EMBEDDING_BASE_URL is required for the openai-compatible embedding provider (e.g. http://localhost:11434/v1)'
+        );
+      }
+      return createOpenAICompatibleEmbeddingProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+      });
+
+    case 'transformers':
+      return createTransformersEmbeddingProvider({ model: config.model });
+
+    case 'stub':
+      return createStubEmbeddingProvider({ model: config.model });
+  }
+};
+
+/**
+ * Resolve and create the embedding provider configured in the environment (null when disabled)
+ */
+export const createEmbeddingProviderFromEnv = (
+  env: NodeJS.ProcessEnv = process.env
+): EmbeddingProvider | null => {
+  const config = resolveEmbeddingConfig(env);
+  return config ? createEmbeddingProvider(config) : null;
+};
@@ -0,0 +1,15 @@
+/**
+ * Embedding provider error types
+ */
+
+/**
+ * Semantic search unavailable: missing provider selection, API key, base URL or local model package
+ */
+export class EmbeddingConfigurationError extends Error {
+  readonly code = 'EMBEDDINGS_NOT_CONFIGURED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingConfigurationError';
+  }
+}
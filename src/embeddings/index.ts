@@ -0,0 +1,18 @@
+/**
+ * Embedding provider and semantic index module exports
+ */
+export * from './types.js';
+export * from './errors.js';
+export * from './config.js';
+export { BlockEmbeddingIndex, cosineSimilarity } from './BlockEmbeddingIndex.js';
+export {
+  createOpenAIEmbeddingProvider,
+  createOpenAICompatibleEmbeddingProvider,
+  OPENAI_EMBEDDING_DEFAULT_MODEL,
+  OPENAI_COMPATIBLE_EMBEDDING_DEFAULT_MODEL,
+} from './providers/openai.js';
+export {
+  createTransformersEmbeddingProvider,
+  TRANSFORMERS_EMBEDDING_DEFAULT_MODEL,
+} from './providers/transformers.js';
+export { createStubEmbeddingProvider, STUB_EMBEDDING_DEFAULT_MODEL } from './providers/stub.js';
@@ -0,0 +1,53 @@
+/**
+ * OpenAI / OpenAI-compatible embedding provider (/v1/embeddings)
+ *
+ * openai-compatible 適用於 Ollama、llama.cpp server、vLLM 等提供 /v1/embeddings 的本地端點
+ */
+import OpenAI from 'openai';
+import type { EmbeddingProvider } from '../types.js';
+
+export const OPENAI_EMBEDDING_DEFAULT_MODEL = 'text-embedding-3-small';
+export const OPENAI_COMPATIBLE_EMBEDDING_DEFAULT_MODEL = 'nomic-embed-text';
+
+const createEmbeddingsClientProvider = (
+  client: OpenAI,
+  name: EmbeddingProvider['name'],
+  label: string,
+  model: string
+): EmbeddingProvider => ({
+  name,
+  label,
+  model,
+  embed: async (texts: string[]): Promise<number[][]> => {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await client.embeddings.create({ model, input: texts });
+    // 依 index 排序，確保輸出順序與輸入一致
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  },
+});
+
+export const createOpenAIEmbeddingProvider = (options: {
+  apiKey: string;
+  model?: string | undefined;
+}): EmbeddingProvider =>
+  createEmbeddingsClientProvider(
+    new OpenAI({ apiKey: options.apiKey }),
+    'openai',
+    'OpenAI',
+    options.model ?? OPENAI_EMBEDDING_DEFAULT_MODEL
+  );
+
+export const createOpenAICompatibleEmbeddingProvider = (options: {
+  baseUrl: string;
+  apiKey?: string | undefined;
+  model?: string | undefined;
+}): EmbeddingProvider =>
+  createEmbeddingsClientProvider(
+    // 本地端點通常不驗證 key，但 SDK 要求非空值
+    new OpenAI({ baseURL: options.baseUrl, apiKey: options.apiKey ?? 'not-needed' }),
+    'openai-compatible',
+    `OpenAI-compatible endpoint (${options.baseUrl})`,
+    options.model ?? OPENAI_COMPATIBLE_EMBEDDING_DEFAULT_MODEL
+  );
@@ -0,0 +1,36 @@
+/**
+ * Deterministic stub embedding provider for tests and offline use
+ *
+ * 以 feature hashing 將詞彙映射到固定維度向量：不呼叫任何外部服務，
+ * 只能反映字面重疊（無語意理解），主要用於測試與離線環境
+ */
+import { createHash } from 'node:crypto';
+import type { EmbeddingProvider } from '../types.js';
+
+export const STUB_EMBEDDING_DEFAULT_MODEL = 'stub-hash-256';
+
+const STUB_DIMENSIONS = 256;
+
+// 中文逐字切分，其他語言以連續字母 / 數字為一個詞
+const TOKEN_PATTERN = /\p{Script=Han}|[\p{L}\p{N}]+/gu;
+
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(STUB_DIMENSIONS).fill(0);
+  for (const token of text.toLowerCase().match(TOKEN_PATTERN) ?? []) {
+    const digest = createHash('sha256').update(token).digest();
+    const index = digest.readUInt32BE(0) % STUB_DIMENSIONS;
+    vector[index] = (vector[index] ?? 0) + ((digest[4] ?? 0) & 1 ? 1 : -1);
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+};
+
+export const createStubEmbeddingProvider = (
+  options: { model?: string | undefined } = {}
+): EmbeddingProvider => ({
+  name: 'stub',
+  label: 'Stub',
+  model: options.model ?? STUB_EMBEDDING_DEFAULT_MODEL,
+  embed: async (texts: string[]): Promise<number[][]> => texts.map(embedText),
+});
@@ -0,0 +1,58 @@
+/**
+ * Local embedding provider using transformers.js (ONNX runtime)
+ *
+ * @huggingface/transformers 為選用套件，第一次嵌入時才動態載入；
+ * 模型會下載並快取在本機，之後不需要網路連線
+ */
+import { EmbeddingConfigurationError } from '../errors.js';
+import type { EmbeddingProvider } from '../types.js';
+
+export const TRANSFORMERS_EMBEDDING_DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+interface TransformersModule {
+  pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+}
+
+export const createTransformersEmbeddingProvider = (
+  options: { model?: string | undefined } = {}
+): EmbeddingProvider => {
+  const model = options.model ?? TRANSFORMERS_EMBEDDING_DEFAULT_MODEL;
+  let extractor: Promise<FeatureExtractor> | null = null;
+
+  const loadExtractor = async (): Promise<FeatureExtractor> => {
+    let transformers: TransformersModule;
+    try {
+      // 以變數指定套件名稱，未安裝時不影響編譯
+      transformers = (await import(TRANSFORMERS_PACKAGE)) as TransformersModule;
+    } catch {
+      throw new EmbeddingConfigurationError(
+        `The transformers embedding provider requires the optional ${TRANSFORMERS_PACKAGE} package (npm install ${TRANSFORMERS_PACKAGE})`
+      );
+    }
+    return transformers.pipeline('feature-extraction', model);
+  };
+
+  return {
+    name: 'transformers',
+    label: `Local transformers model (${model})`,
+    model,
+    embed: async (texts: string[]): Promise<number[][]> => {
+      if (texts.length === 0) {
+        return [];
+      }
+      extractor ??= loadExtractor().catch((error: unknown) => {
+        extractor = null; // 允許安裝套件後重試
+        throw error;
+      });
+      const output = await (await extractor)(texts, { pooling: 'mean', normalize: true });
+      return output.tolist();
+    },
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * Embedding provider type definitions
+ */
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'transformers' | 'stub';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  /** Human-readable label used in error messages, e.g. "OpenAI" */
+  readonly label: string;
+  readonly model: string;
+  /** Embed texts in order; one vector per input text */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  /** Overrides the provider's default model */
+  model?: string | undefined;
+  apiKey?: string | undefined;
+  baseUrl?: string | undefined;
+}
+
+export interface SemanticSearchParams {
+  query: string;
+  workflow_id?: string | undefined;
+  project_scope?: string | undefined;
+  limit: number;
+  min_score: number;
+}
+
+export interface SemanticSearchHit {
+  scratchpad_id: string;
+  scratchpad_title: string;
+  workflow_id: string;
+  workflow_name: string;
+  block_index: number;
+  start_line: number;
+  end_line: number;
+  /** Cosine similarity between query and block (-1 ~ 1) */
+  score: number;
+  /** Block content (without the block splitter) */
+  content: string;
+}
+
+export interface IndexStats {
+  scratchpads: number;
+  /** Blocks sent to the provider */
+  embedded: number;
+  /** Blocks whose stored vector was reused */
+  reused: number;
+}
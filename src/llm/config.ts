@@ -0,0 +1,106 @@
+/**
+ * LLM provider selection from environment variables
+ */
+import { LLMConfigurationError } from './errors.js';
+import { createOpenAIProvider } from './providers/openai.js';
+import { createOpenAICompatibleProvider } from './providers/openai-compatible.js';
+import { createAnthropicProvider } from './providers/anthropic.js';
+import { createStubProvider } from './providers/stub.js';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName } from './types.js';
+
+const PROVIDER_NAMES: readonly LLMProviderName[] = ['openai', 'openai-compatible', 'anthropic', 'stub'];
+
+const NOT_CONFIGURED_MESSAGE =
+  'No LLM provider configured: OPENAI_API_KEY environment variable is required for the default OpenAI provider. ' +
+  'Alternatively set SCRATCHPAD_LLM_PROVIDER to "openai-compatible" (with SCRATCHPAD_LLM_BASE_URL), ' +
+  '"anthropic" (with ANTHROPIC_API_KEY) or "stub".';
+
+const isProviderName = (value: string): value is LLMProviderName =>
+  (PROVIDER_NAMES as readonly string[]).includes(value);
+
+/**
+ * Resolve provider settings from environment variables
+ *
+ * SCRATCHPAD_LLM_PROVIDER: openai | openai-compatible | anthropic | stub
+ * SCRATCHPAD_LLM_MODEL / SCRATCHPAD_LLM_BASE_URL / SCRATCHPAD_LLM_API_KEY: provider overrides
+ * 未指定 provider 時：有 SCRATCHPAD_LLM_BASE_URL 則用 openai-compatible，否則沿用 OpenAI。
+ * Anthropic 需明確指定，避免其他工具設定的 ANTHROPIC_API_KEY 讓資料被送往非預期的服務
+ */
+export const resolveLLMConfig = (env: NodeJS.ProcessEnv): LLMProviderConfig => {
+  const explicit = env['SCRATCHPAD_LLM_PROVIDER']?.trim().toLowerCase();
+  const model = env['SCRATCHPAD_LLM_MODEL'] || undefined;
+  const baseUrl = env['SCRATCHPAD_LLM_BASE_URL'] || undefined;
+  const sharedKey = env['SCRATCHPAD_LLM_API_KEY'] || undefined;
+
+  let provider: LLMProviderName;
+  if (explicit) {
+    if (!isProviderName(explicit)) {
+      throw new LLMConfigurationError(
+        `Invalid SCRATCHPAD_LLM_PROVIDER: ${explicit} (expected one of: ${PROVIDER_NAMES.join(', ')})`
+      );
+    }
+    provider = explicit;
+  } else if (baseUrl) {
+    provider = 'openai-compatible';
+  } else if (env['OPENAI_API_KEY'] || sharedKey) {
+    provider = 'openai';
+  } else {
+    throw new LLMConfigurationError(NOT_CONFIGURED_MESSAGE);
+  }
+
+  const apiKey =
+    sharedKey ??
+    (provider === 'openai' || provider === 'openai-compatible'
+      ? env['OPENAI_API_KEY']
+      : provider === 'anthropic'
+        ? env['ANTHROPIC_API_KEY']
+        : undefined);
+
+  return {
+    provider,
+    model,
+    apiKey: apiKey || undefined,
+    baseUrl,
+    stubResponse: provider === 'stub' ? env['SCRATCHPAD_LLM_STUB_RESPONSE'] : undefined,
+  };
+};
+
+/**
+ * Create a provider instance, validating required settings
+ */
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new LLMConfigurationError('OPENAI_API_KEY environment variable is required for the OpenAI provider');
+      }
+      return createOpenAIProvider({ apiKey: config.apiKey, model: config.model });
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new LLMConfigurationError(
+          'SCRATCHPAD_LLM_BASE_URL is required for the openai-compatible provider (e.g. http://localhost:11434/v1)'
+        );
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+      });
+
+    case 'anthropic':
+      if (!config.apiKey) {
+        throw new LLMConfigurationError('ANTHROPIC_API_KEY environment variable is required for the Anthropic provider');
+      }
+      return createAnthropicProvider({ apiKey: config.apiKey, baseUrl: config.baseUrl, model: config.model });
+
+    case 'stub':
+      return createStubProvider({ model: config.model, response: config.stubResponse });
+  }
+};
+
+/**
+ * Resolve and create the provider configured in the environment
+ */
+export const createLLMProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): LLMProvider =>
+  createLLMProvider(resolveLLMConfig(env));
@@ -0,0 +1,15 @@
+/**
+ * LLM provider error types
+ */
+
+/**
+ * No usable LLM provider: missing provider selection, API key or base URL
+ */
+export class LLMConfigurationError extends Error {
+  readonly code = 'LLM_NOT_CONFIGURED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
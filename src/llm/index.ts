@@ -0,0 +1,13 @@
+/**
+ * LLM provider module exports
+ */
+export * from './types.js';
+export * from './errors.js';
+export * from './config.js';
+export { createOpenAIProvider, OPENAI_DEFAULT_MODEL } from './providers/openai.js';
+export {
+  createOpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_DEFAULT_MODEL,
+} from './providers/openai-compatible.js';
+export { createAnthropicProvider, ANTHROPIC_DEFAULT_MODEL } from './providers/anthropic.js';
+export { createStubProvider, STUB_DEFAULT_MODEL } from './providers/stub.js';
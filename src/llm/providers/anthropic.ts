@@ -0,0 +1,57 @@
+/**
+ * Anthropic provider (Messages API over fetch, no SDK dependency)
+ */
+import type { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../types.js';
+
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  error?: { type?: string; message?: string };
+}
+
+export const createAnthropicProvider = (options: {
+  apiKey: string;
+  baseUrl?: string | undefined;
+  model?: string | undefined;
+}): LLMProvider => {
+  const endpoint = `${(options.baseUrl ?? ANTHROPIC_DEFAULT_BASE_URL).replace(/\/+$/, '')}/v1/messages`;
+
+  return {
+    name: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: options.model ?? ANTHROPIC_DEFAULT_MODEL,
+    complete: async (request: LLMCompletionRequest): Promise<LLMCompletionResponse> => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': options.apiKey,
+          'anthropic-version': ANTHROPIC_API_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: ANTHROPIC_MAX_TOKENS,
+          system: request.instructions,
+          messages: [{ role: 'user', content: request.input }],
+        }),
+      });
+
+      const body = (await response.json().catch(() => ({}))) as AnthropicMessageResponse;
+      if (!response.ok) {
+        throw new Error(body.error?.message ?? `Anthropic API request failed with status ${response.status}`);
+      }
+
+      const text = (body.content ?? [])
+        .filter((block) => block.type === 'text' && block.text)
+        .map((block) => block.text)
+        .join('\n');
+
+      return { text: text || 'No response generated', model: body.model ?? request.model };
+    },
+  };
+};
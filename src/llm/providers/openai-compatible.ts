@@ -0,0 +1,38 @@
+/**
+ * OpenAI-compatible provider (Chat Completions API)
+ *
+ * 適用於 Ollama、llama.cpp server、vLLM 等提供 /v1/chat/completions 的本地端點
+ */
+import OpenAI from 'openai';
+import type { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../types.js';
+
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'llama3.1';
+
+export const createOpenAICompatibleProvider = (options: {
+  baseUrl: string;
+  apiKey?: string | undefined;
+  model?: string | undefined;
+}): LLMProvider => {
+  // 本地端點通常不驗證 key，但 SDK 要求非空值
+  const client = new OpenAI({ baseURL: options.baseUrl, apiKey: options.apiKey ?? 'not-needed' });
+
+  return {
+    name: 'openai-compatible',
+    label: `OpenAI-compatible endpoint (${options.baseUrl})`,
+    defaultModel: options.model ?? OPENAI_COMPATIBLE_DEFAULT_MODEL,
+    complete: async (request: LLMCompletionRequest): Promise<LLMCompletionResponse> => {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.instructions },
+          { role: 'user', content: request.input },
+        ],
+      });
+
+      return {
+        text: completion.choices[0]?.message.content || 'No response generated',
+        model: completion.model || request.model,
+      };
+    },
+  };
+};
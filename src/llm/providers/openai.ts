@@ -0,0 +1,39 @@
+/**
+ * OpenAI provider (Responses API)
+ */
+import OpenAI from 'openai';
+import type { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../types.js';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-5-nano';
+
+export const createOpenAIProvider = (options: { apiKey: string; model?: string | undefined }): LLMProvider => {
+  const client = new OpenAI({ apiKey: options.apiKey });
+
+  return {
+    name: 'openai',
+    label: 'OpenAI',
+    defaultModel: options.model ?? OPENAI_DEFAULT_MODEL,
+    complete: async (request: LLMCompletionRequest): Promise<LLMCompletionResponse> => {
+      const apiParams: any = {
+        model: request.model,
+        instructions: request.instructions,
+        input: request.input,
+      };
+
+      // reasoning 參數僅 GPT-5 系列支援
+      if (request.model.includes('gpt-5')) {
+        apiParams.reasoning = { effort: request.reasoningEffort ?? 'medium' };
+      }
+
+      // Native structured output; strict=false 以支援任意 JSON Schema（仍由呼叫端驗證）
+      if (request.jsonSchema) {
+        apiParams.text = {
+          format: { type: 'json_schema', name: 'extraction', schema: request.jsonSchema, strict: false },
+        };
+      }
+
+      const response = await client.responses.create(apiParams);
+      return { text: response.output_text || 'No response generated', model: request.model };
+    },
+  };
+};
@@ -0,0 +1,29 @@
+/**
+ * Deterministic stub provider for tests and offline use
+ *
+ * 不呼叫任何外部服務；相同輸入永遠產生相同輸出
+ */
+import { createHash } from 'node:crypto';
+import type { LLMProvider, LLMCompletionRequest, LLMCompletionResponse } from '../types.js';
+
+export const STUB_DEFAULT_MODEL = 'stub';
+
+export const createStubProvider = (options: {
+  model?: string | undefined;
+  response?: string | undefined;
+} = {}): LLMProvider => ({
+  name: 'stub',
+  label: 'Stub',
+  defaultModel: options.model ?? STUB_DEFAULT_MODEL,
+  complete: async (request: LLMCompletionRequest): Promise<LLMCompletionResponse> => {
+    if (options.response !== undefined) {
+      return { text: options.response, model: request.model };
+    }
+
+    const digest = createHash('sha256').update(request.instructions).update('\n').update(request.input).digest('hex');
+    return {
+      text: `[stub:${request.model}] ${request.input.length} chars of input, sha256 ${digest.slice(0, 16)}`,
+      model: request.model,
+    };
+  },
+});
@@ -0,0 +1,43 @@
+/**
+ * LLM provider type definitions
+ */
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'stub';
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+export interface LLMCompletionRequest {
+  model: string;
+  /** System-level instructions */
+  instructions: string;
+  /** User input (workflow context + extraction request) */
+  input: string;
+  /** Only honoured by providers that support reasoning models */
+  reasoningEffort?: ReasoningEffort | undefined;
+  /** Request JSON output matching this schema (native structured output where supported) */
+  jsonSchema?: Record<string, unknown> | undefined;
+}
+
+export interface LLMCompletionResponse {
+  text: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** Human-readable label used in error messages, e.g. "OpenAI" */
+  readonly label: string;
+  /** Model used when the caller does not specify one */
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  /** Overrides the provider's default model */
+  model?: string | undefined;
+  apiKey?: string | undefined;
+  baseUrl?: string | undefined;
+  /** Stub provider only: fixed response text */
+  stubResponse?: string | undefined;
+}
@@ -0,0 +1,144 @@
+/**
+ * JSON workflow archive: build from the database and validate before import
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { isScratchpad, isWorkflowDbRow } from '../database/types.js';
+import type { WorkflowSnapshot } from '../database/types.js';
+import {
+  WORKFLOW_ARCHIVE_FORMAT,
+  WORKFLOW_ARCHIVE_VERSION,
+  type WorkflowArchive,
+} from './types.js';
+
+/**
+ * Build an archive of a workflow with all of its scratchpads (oldest first)
+ */
+export const createWorkflowArchive = (
+  db: ScratchpadDatabase,
+  workflowId: string,
+  now: Date = new Date()
+): WorkflowArchive => {
+  const workflow = db.getWorkflowById(workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`);
+  }
+  // scratchpad_count 由匯入端重新計算，不寫入封存
+  const archivedWorkflow: WorkflowArchive['workflow'] = {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    created_at: workflow.created_at,
+    updated_at: workflow.updated_at,
+    is_active: workflow.is_active,
+    project_scope: workflow.project_scope,
+    tags: workflow.tags,
+    metadata: workflow.metadata,
+  };
+
+  const scratchpads = db
+    .listAllScratchpads(workflowId)
+    .sort((a, b) => a.created_at - b.created_at || a.title.localeCompare(b.title));
+
+  return {
+    format: WORKFLOW_ARCHIVE_FORMAT,
+    version: WORKFLOW_ARCHIVE_VERSION,
+    exported_at: now.toISOString(),
+    workflow: archivedWorkflow,
+    scratchpads,
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validate a parsed archive and convert it to a snapshot for ScratchpadDatabase.importWorkflow
+ *
+ * workflow 以 isWorkflowDbRow（is_active 轉為 0/1）、scratchpad 以 isScratchpad 驗證；
+ * 缺少的 version / tags / metadata 使用預設值，以便匯入手動編寫的檔案
+ *
+ * @throws Error 格式、版本或欄位不合法時（訊息指出第一個錯誤）
+ */
+export const parseWorkflowArchive = (input: unknown): WorkflowSnapshot => {
+  if (!isPlainObject(input)) {
+    throw new Error('Invalid archive: expected a JSON object');
+  }
+  if (input['format'] !== WORKFLOW_ARCHIVE_FORMAT) {
+    throw new Error(`Invalid archive: format must be "${WORKFLOW_ARCHIVE_FORMAT}"`);
+  }
+  const version = input['version'];
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid archive: version must be a positive integer');
+  }
+  if (version > WORKFLOW_ARCHIVE_VERSION) {
+    throw new Error(
+      `Unsupported archive version: ${version} (this server supports up to ${WORKFLOW_ARCHIVE_VERSION})`
+    );
+  }
+
+  const rawWorkflow = input['workflow'];
+  const rawScratchpads = input['scratchpads'];
+  if (!isPlainObject(rawWorkflow)) {
+    throw new Error('Invalid archive: workflow must be an object');
+  }
+  if (!Array.isArray(rawScratchpads)) {
+    throw new Error('Invalid archive: scratchpads must be an array');
+  }
+
+  const workflowRow: Record<string, unknown> = {
+    description: null,
+    project_scope: null,
+    is_active: true,
+    tags: [],
+    metadata: {},
+    ...rawWorkflow,
+    scratchpad_count: rawScratchpads.length,
+  };
+  if (typeof workflowRow['is_active'] !== 'boolean') {
+    throw new Error('Invalid archive: workflow.is_active must be a boolean');
+  }
+  if (
+    !isWorkflowDbRow({ ...workflowRow, is_active: workflowRow['is_active'] ? 1 : 0 }) ||
+    !isStringArray(workflowRow['tags']) ||
+    !isPlainObject(workflowRow['metadata'])
+  ) {
+    throw new Error('Invalid archive: workflow has missing or invalid fields');
+  }
+
+  const workflowId = workflowRow['id'] as string;
+  const seen = new Set<string>();
+  const scratchpads = rawScratchpads.map((raw: unknown, index) => {
+    const candidate: unknown = isPlainObject(raw)
+      ? {
+          version: 1,
+          tags: [],
+          metadata: {},
+          ...raw,
+          // workflow_id 一律以封存的 workflow 為準，size_bytes 匯入時重新計算
+          workflow_id: workflowId,
+          size_bytes:
+            typeof raw['content'] === 'string' ? Buffer.byteLength(raw['content'], 'utf8') : 0,
+        }
+      : raw;
+    if (
+      !isScratchpad(candidate) ||
+      !isStringArray(candidate.tags) ||
+      !isPlainObject(candidate.metadata)
+    ) {
+      throw new Error(`Invalid archive: scratchpads[${index}] has missing or invalid fields`);
+    }
+    if (seen.has(candidate.id)) {
+      throw new Error(`Invalid archive: duplicate scratchpad ID ${candidate.id}`);
+    }
+    seen.add(candidate.id);
+    return candidate;
+  });
+
+  return {
+    workflow: workflowRow as unknown as WorkflowSnapshot['workflow'],
+    scratchpads,
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Read and write workflow archives on disk (JSON file or Markdown bundle directory)
+ *
+ * 只供 CLI 使用：MCP tools 一律以 inline 方式傳遞封存，不接受 client 指定的伺服器路徑
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { fromMarkdownBundle, toMarkdownBundle } from './markdown.js';
+import type { BundleFile, ExportFormat, WorkflowArchive } from './types.js';
+
+/**
+ * Write an archive to disk
+ *
+ * json：寫入單一檔案；markdown：寫入目錄（不存在時建立，既有的同名檔案會被覆寫）
+ *
+ * @returns 寫入的檔案路徑（絕對路徑）
+ */
+export const writeWorkflowArchive = (
+  archive: WorkflowArchive,
+  format: ExportFormat,
+  outputPath: string
+): string[] => {
+  const target = path.resolve(outputPath);
+
+  if (format === 'json') {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, `${JSON.stringify(archive, null, 2)}\n`, 'utf8');
+    return [target];
+  }
+
+  return toMarkdownBundle(archive).map((file) => {
+    const filePath = path.join(target, ...file.path.split('/'));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, file.content, 'utf8');
+    return filePath;
+  });
+};
+
+const readBundleDirectory = (directory: string): BundleFile[] => {
+  const files: BundleFile[] = [];
+  const walk = (relative: string): void => {
+    for (const entry of fs.readdirSync(path.join(directory, relative), { withFileTypes: true })) {
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(child);
+      } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        files.push({ path: child, content: fs.readFileSync(path.join(directory, child), 'utf8') });
+      }
+    }
+  };
+  walk('');
+  return files;
+};
+
+/**
+ * Read an archive from a JSON file or a Markdown bundle directory (validated later by parseWorkflowArchive)
+ *
+ * @throws Error 路徑不存在、JSON 無法解析或 bundle 缺少 workflow.md 時
+ */
+export const readWorkflowArchive = (inputPath: string): unknown => {
+  const source = path.resolve(inputPath);
+  if (!fs.existsSync(source)) {
+    throw new Error(`Archive not found: ${source}`);
+  }
+
+  if (fs.statSync(source).isDirectory()) {
+    return fromMarkdownBundle(readBundleDirectory(source));
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(source, 'utf8')) as unknown;
+  } catch (error) {
+    throw new Error(
+      `Invalid archive: ${source} is not valid JSON (${error instanceof Error ? error.message : 'Unknown error'})`
+    );
+  }
+};
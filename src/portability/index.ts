@@ -0,0 +1,12 @@
+/**
+ * Workflow import/export module exports
+ */
+export * from './types.js';
+export { createWorkflowArchive, parseWorkflowArchive } from './archive.js';
+export {
+  toMarkdownBundle,
+  fromMarkdownBundle,
+  BUNDLE_WORKFLOW_FILE,
+  BUNDLE_SCRATCHPAD_DIR,
+} from './markdown.js';
+export { writeWorkflowArchive, readWorkflowArchive } from './files.js';
@@ -0,0 +1,147 @@
+/**
+ * Markdown bundle: a directory with workflow.md and one Markdown file per scratchpad
+ *
+ *   workflow.md                     front matter: format, version, id, name, description, scope, ...
+ *   scratchpads/001-<title>.md      front matter: id, title, timestamps, version, tags, metadata
+ *
+ * scratchpad 檔案的本文即為原始內容（不加任何字元），可直接 commit 到 git 並完整還原；
+ * 時間戳在 front matter 中以 ISO 字串呈現
+ */
+import { FrontMatter } from '../utils/FrontMatter.js';
+import { WORKFLOW_ARCHIVE_FORMAT, type BundleFile, type WorkflowArchive } from './types.js';
+
+export const BUNDLE_WORKFLOW_FILE = 'workflow.md';
+export const BUNDLE_SCRATCHPAD_DIR = 'scratchpads';
+
+const toIso = (unixTimestamp: number): string => new Date(unixTimestamp * 1000).toISOString();
+
+/**
+ * ISO 字串轉 Unix 秒；無法解析時保留原值，交給封存驗證回報錯誤
+ */
+const fromIso = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : Math.floor(parsed / 1000);
+};
+
+const slugify = (title: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+  return slug || 'scratchpad';
+};
+
+const decodeFields = (fields: Record<string, string>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, FrontMatter.decode(value)])
+  );
+
+/**
+ * Convert an archive to Markdown bundle files
+ */
+export const toMarkdownBundle = (archive: WorkflowArchive): BundleFile[] => {
+  const width = Math.max(3, String(archive.scratchpads.length).length);
+  const scratchpadFiles = archive.scratchpads.map((scratchpad, index) => ({
+    path: `${BUNDLE_SCRATCHPAD_DIR}/${String(index + 1).padStart(width, '0')}-${slugify(scratchpad.title)}.md`,
+    content: FrontMatter.stringify(
+      {
+        id: scratchpad.id,
+        title: scratchpad.title,
+        created_at: toIso(scratchpad.created_at),
+        updated_at: toIso(scratchpad.updated_at),
+        version: scratchpad.version,
+        tags: scratchpad.tags,
+        metadata: scratchpad.metadata,
+      },
+      scratchpad.content
+    ),
+  }));
+
+  const { workflow } = archive;
+  const index = [
+    `# ${workflow.name}`,
+    '',
+    ...(workflow.description ? [workflow.description, ''] : []),
+    ...archive.scratchpads.map(
+      (scratchpad, position) => `- [${scratchpad.title}](${scratchpadFiles[position]!.path})`
+    ),
+    '',
+  ].join('\n');
+
+  return [
+    {
+      path: BUNDLE_WORKFLOW_FILE,
+      content: FrontMatter.stringify(
+        {
+          format: archive.format,
+          version: archive.version,
+          exported_at: archive.exported_at,
+          id: workflow.id,
+          name: workflow.name,
+          description: workflow.description,
+          project_scope: workflow.project_scope,
+          is_active: workflow.is_active,
+          created_at: toIso(workflow.created_at),
+          updated_at: toIso(workflow.updated_at),
+          tags: workflow.tags,
+          metadata: workflow.metadata,
+        },
+        index
+      ),
+    },
+    ...scratchpadFiles,
+  ];
+};
+
+/**
+ * Rebuild an (unvalidated) archive object from Markdown bundle files
+ *
+ * 回傳值需再經 parseWorkflowArchive 驗證；workflow.md 本文（索引）會被忽略
+ */
+export const fromMarkdownBundle = (files: BundleFile[]): unknown => {
+  const workflowFile = files.find((file) => file.path === BUNDLE_WORKFLOW_FILE);
+  if (!workflowFile) {
+    throw new Error(`Invalid bundle: ${BUNDLE_WORKFLOW_FILE} not found`);
+  }
+
+  const header = decodeFields(FrontMatter.parse(workflowFile.content).fields);
+  if (header['format'] !== WORKFLOW_ARCHIVE_FORMAT) {
+    throw new Error(
+      `Invalid bundle: ${BUNDLE_WORKFLOW_FILE} has no "${WORKFLOW_ARCHIVE_FORMAT}" front matter`
+    );
+  }
+  const { format, version, exported_at, ...workflow } = header;
+
+  const scratchpads = files
+    .filter(
+      (file) => file.path.startsWith(`${BUNDLE_SCRATCHPAD_DIR}/`) && file.path.endsWith('.md')
+    )
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((file) => {
+      const { fields, body } = FrontMatter.parse(file.content);
+      const scratchpad = decodeFields(fields);
+      return {
+        ...scratchpad,
+        created_at: fromIso(scratchpad['created_at']),
+        updated_at: fromIso(scratchpad['updated_at']),
+        content: body,
+      };
+    });
+
+  return {
+    format,
+    version,
+    exported_at,
+    workflow: {
+      ...workflow,
+      created_at: fromIso(workflow['created_at']),
+      updated_at: fromIso(workflow['updated_at']),
+    },
+    scratchpads,
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Workflow archive types (export-workflow / import-workflow)
+ */
+import type { Scratchpad, Workflow } from '../database/types.js';
+
+export const WORKFLOW_ARCHIVE_FORMAT = 'scratchpad-mcp-workflow';
+
+/**
+ * 封存格式版本；欄位變更時遞增，匯入端拒絕比自己新的版本
+ */
+export const WORKFLOW_ARCHIVE_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown';
+
+/**
+ * Single-file JSON archive of one workflow（時間戳為 Unix 秒，與資料庫一致）
+ */
+export interface WorkflowArchive {
+  format: typeof WORKFLOW_ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string; // ISO string
+  workflow: Omit<Workflow, 'scratchpad_count'>;
+  scratchpads: Scratchpad[];
+}
+
+/**
+ * A file of a Markdown bundle (path relative to the bundle directory, '/' separated)
+ */
+export interface BundleFile {
+  path: string;
+  content: string;
+}
@@ -0,0 +1,246 @@
+/**
+ * MCP prompts for common sub-agent handoff patterns
+ *
+ * 將「讀取 workflow → tail 進度 → 追加結果」等固定指示包成 prompt，
+ * 並把目前的 outline 與最後幾個 blocks 直接嵌入訊息中。
+ */
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ScratchpadDatabase } from '../database/index.js';
+import {
+  getWorkflowTool,
+  getLatestActiveWorkflowTool,
+  getScratchpadOutlineTool,
+  tailScratchpadTool,
+} from '../tools/index.js';
+import type { GetWorkflowResult } from '../tools/index.js';
+
+const DEFAULT_TAIL_BLOCKS = 3;
+const MAX_TAIL_BLOCKS = 20;
+
+type PromptWorkflow = NonNullable<GetWorkflowResult['workflow']>;
+
+/**
+ * Parse the optional tail_blocks argument (prompt arguments are always strings)
+ */
+const parseTailBlocks = (value: string | undefined): number => {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_TAIL_BLOCKS;
+  }
+  const blocks = Number(value);
+  if (!Number.isInteger(blocks) || blocks < 1 || blocks > MAX_TAIL_BLOCKS) {
+    throw new Error(`tail_blocks must be an integer between 1 and ${MAX_TAIL_BLOCKS}`);
+  }
+  return blocks;
+};
+
+const loadWorkflow = async (db: ScratchpadDatabase, workflowId: string): Promise<PromptWorkflow> => {
+  const result = await getWorkflowTool(db)({ workflow_id: workflowId, include_scratchpads_summary: true });
+  if (!result.workflow) {
+    throw new Error(`Workflow not found: ${workflowId}`);
+  }
+  return result.workflow;
+};
+
+const describeWorkflow = (workflow: PromptWorkflow): string => {
+  const lines = [
+    `Workflow: "${workflow.name}" (id: ${workflow.id})`,
+    `Status: ${workflow.is_active ? 'active' : 'inactive'}${workflow.project_scope ? ` | scope: ${workflow.project_scope}` : ''}`,
+  ];
+  if (workflow.description) {
+    lines.push(`Description: ${workflow.description}`);
+  }
+
+  const scratchpads = workflow.scratchpads_summary ?? [];
+  lines.push('', `Scratchpads (${workflow.scratchpad_count}, most recently updated first):`);
+  if (scratchpads.length === 0) {
+    lines.push('- (none)');
+  }
+  for (const scratchpad of scratchpads) {
+    lines.push(`- "${scratchpad.title}" (id: ${scratchpad.id}, ${scratchpad.size_bytes} bytes, updated ${scratchpad.updated_at})`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Render outline + tail blocks of a scratchpad as Markdown context
+ */
+const renderScratchpadContext = async (
+  db: ScratchpadDatabase,
+  scratchpadId: string,
+  tailBlocks: number
+): Promise<string> => {
+  const { outline } = await getScratchpadOutlineTool(db)({ id: scratchpadId, include_line_numbers: true });
+  const tail = await tailScratchpadTool(db)({ id: scratchpadId, tail_size: { blocks: tailBlocks } });
+  if (!tail.scratchpad) {
+    throw new Error(`Scratchpad not found: ${scratchpadId}`);
+  }
+
+  const outlineText =
+    outline.headers.length === 0
+      ? '(no headers)'
+      : outline.headers
+          .map((header) => `${'  '.repeat(header.level - 1)}- ${header.text} (line ${header.line})`)
+          .join('\n');
+
+  return [
+    `### Scratchpad "${outline.title}" (id: ${outline.id})`,
+    '',
+    '#### Outline',
+    outlineText,
+    '',
+    `#### Last ${tailBlocks} block(s)`,
+    '````markdown',
+    tail.scratchpad.content,
+    '````',
+  ].join('\n');
+};
+
+const userMessage = (description: string, text: string): GetPromptResult => ({
+  description,
+  messages: [{ role: 'user', content: { type: 'text', text } }],
+});
+
+/**
+ * Register handoff prompts on a server
+ */
+export const registerScratchpadPrompts = (server: McpServer, db: ScratchpadDatabase): void => {
+  server.registerPrompt(
+    'handoff-summary',
+    {
+      title: 'Handoff summary',
+      description:
+        'Summarize the current state of a workflow for the next agent and append it to a scratchpad',
+      argsSchema: {
+        workflow_id: z.string().describe('Workflow to summarize'),
+        scratchpad_id: z
+          .string()
+          .optional()
+          .describe('Scratchpad to append the summary to (default: most recently updated scratchpad)'),
+        tail_blocks: z.string().optional().describe(`Number of recent blocks to embed (default: ${DEFAULT_TAIL_BLOCKS})`),
+      },
+    },
+    async (args) => {
+      const workflow = await loadWorkflow(db, args.workflow_id);
+      const targetId = args.scratchpad_id ?? workflow.scratchpads_summary?.[0]?.id;
+      if (!targetId) {
+        throw new Error(`Workflow has no scratchpads to summarize: ${workflow.id}`);
+      }
+      const target = db.getScratchpadById(targetId);
+      if (!target || target.workflow_id !== workflow.id) {
+        throw new Error(`Scratchpad ${targetId} does not belong to workflow ${workflow.id}`);
+      }
+
+      const context = await renderScratchpadContext(db, targetId, parseTailBlocks(args.tail_blocks));
+
+      return userMessage(
+        `Handoff summary for workflow "${workflow.name}"`,
+        [
+          'You are handing off work to another agent. Write a concise handoff summary based on the current workflow state below.',
+          '',
+          '## Current state',
+          describeWorkflow(workflow),
+          '',
+          context,
+          '',
+          '## Instructions',
+          '1. Read any other scratchpads listed above with `get-scratchpad` if the tail is not enough.',
+          '2. Write a summary with these sections: **Status**, **Done**, **Open questions**, **Next steps**.',
+          `3. Append it with \`append-scratchpad\` to scratchpad ${targetId}. Do not rewrite existing blocks.`,
+        ].join('\n')
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'resume-workflow',
+    {
+      title: 'Resume workflow',
+      description:
+        'Pick up a workflow where the previous agent stopped (defaults to the latest active workflow)',
+      argsSchema: {
+        workflow_id: z.string().optional().describe('Workflow to resume (default: latest active workflow)'),
+        project_scope: z.string().optional().describe('Project scope used to find the latest active workflow'),
+        tail_blocks: z.string().optional().describe(`Number of recent blocks to embed (default: ${DEFAULT_TAIL_BLOCKS})`),
+      },
+    },
+    async (args) => {
+      let workflow: PromptWorkflow;
+      if (args.workflow_id) {
+        workflow = await loadWorkflow(db, args.workflow_id);
+      } else {
+        const latest = await getLatestActiveWorkflowTool(db)({ project_scope: args.project_scope });
+        if (!latest.workflow) {
+          throw new Error(latest.message);
+        }
+        workflow = latest.workflow;
+      }
+
+      const latestScratchpad = workflow.scratchpads_summary?.[0];
+      const context = latestScratchpad
+        ? await renderScratchpadContext(db, latestScratchpad.id, parseTailBlocks(args.tail_blocks))
+        : '_This workflow has no scratchpads yet._';
+
+      return userMessage(
+        `Resume workflow "${workflow.name}"`,
+        [
+          'You are resuming a workflow started by another agent. Review the state below before doing anything else.',
+          '',
+          '## Current state',
+          describeWorkflow(workflow),
+          '',
+          context,
+          '',
+          '## Instructions',
+          '1. Identify what was last done and what remains from the outline and recent blocks.',
+          '2. Continue the work. Use `get-scratchpad` or `search-scratchpad-content` when you need more detail.',
+          latestScratchpad
+            ? `3. Record progress with \`append-scratchpad\` to scratchpad ${latestScratchpad.id} (or a more specific scratchpad in this workflow).`
+            : `3. Record progress by creating a scratchpad in workflow ${workflow.id} with \`create-scratchpad\`.`,
+        ].join('\n')
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'record-decision',
+    {
+      title: 'Record decision',
+      description: 'Append a decision record (context, decision, consequences) to a scratchpad',
+      argsSchema: {
+        scratchpad_id: z.string().describe('Scratchpad that holds the decision log'),
+        decision: z.string().describe('The decision that was made'),
+        rationale: z.string().optional().describe('Why the decision was made'),
+        tail_blocks: z.string().optional().describe(`Number of recent blocks to embed (default: ${DEFAULT_TAIL_BLOCKS})`),
+      },
+    },
+    async (args) => {
+      const scratchpad = db.getScratchpadById(args.scratchpad_id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.scratchpad_id}`);
+      }
+
+      const context = await renderScratchpadContext(db, scratchpad.id, parseTailBlocks(args.tail_blocks));
+
+      return userMessage(
+        `Record decision in "${scratchpad.title}"`,
+        [
+          'Record the following decision in the scratchpad decision log.',
+          '',
+          `Decision: ${args.decision}`,
+          ...(args.rationale ? [`Rationale: ${args.rationale}`] : []),
+          '',
+          '## Existing log',
+          context,
+          '',
+          '## Instructions',
+          '1. Check the outline and recent blocks above; if this decision supersedes an earlier one, reference it.',
+          '2. Write the record in this format:',
+          '   `## Decision: <short title>` followed by **Context**, **Decision**, **Consequences** and **Date**.',
+          `3. Append it with \`append-scratchpad\` to scratchpad ${scratchpad.id}.`,
+        ].join('\n')
+      );
+    }
+  );
+};
@@ -0,0 +1,4 @@
+/**
+ * MCP prompts module exports
+ */
+export * from './handoff-prompts.js';
@@ -0,0 +1,4 @@
+/**
+ * MCP resources module exports
+ */
+export * from './scratchpad-resources.js';
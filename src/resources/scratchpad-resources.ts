@@ -0,0 +1,241 @@
+/**
+ * MCP resources for workflows and scratchpads
+ *
+ * 將 workflow / scratchpad 以 resource 形式公開，支援 resources/subscribe：
+ * 資料庫有寫入時，對已訂閱的 URI 發送 notifications/resources/updated。
+ */
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ScratchpadDatabase, DatabaseChange } from '../database/index.js';
+import { getWorkflowTool, getScratchpadOutlineTool } from '../tools/index.js';
+import { BlockParser } from '../utils/BlockParser.js';
+
+const URI_SCHEME = 'scratchpad://';
+
+// resources/list 回傳數量上限，避免大型資料庫一次列出過多項目
+const MAX_LISTED_WORKFLOWS = 100;
+const MAX_LISTED_SCRATCHPADS = 200;
+
+/**
+ * Resource URI builders
+ */
+export const resourceUris = {
+  workflow: (workflowId: string): string => `${URI_SCHEME}workflow/${workflowId}`,
+  scratchpad: (scratchpadId: string): string => `${URI_SCHEME}scratchpad/${scratchpadId}`,
+  block: (scratchpadId: string, index: number | string): string =>
+    `${URI_SCHEME}scratchpad/${scratchpadId}/blocks/${index}`,
+  outline: (scratchpadId: string): string => `${URI_SCHEME}scratchpad/${scratchpadId}/outline`,
+};
+
+/**
+ * Read a single template variable (templates never expand to lists here)
+ */
+const readVariable = (variables: Variables, name: string): string => {
+  const value = variables[name];
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) {
+    throw new Error(`Missing resource URI variable: ${name}`);
+  }
+  return decodeURIComponent(resolved);
+};
+
+const jsonContents = (uri: URL, data: unknown): ReadResourceResult => ({
+  contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+});
+
+/**
+ * Check whether a subscribed URI is affected by a database change
+ */
+const isAffected = (subscribedUri: string, change: DatabaseChange): boolean => {
+  if (subscribedUri === resourceUris.workflow(change.workflow_id)) {
+    return true;
+  }
+  if (change.type === 'scratchpad') {
+    // scratchpad 本身與其 outline / blocks 子資源
+    const scratchpadUri = resourceUris.scratchpad(change.scratchpad_id);
+    return subscribedUri === scratchpadUri || subscribedUri.startsWith(`${scratchpadUri}/`);
+  }
+  return false;
+};
+
+/**
+ * Register workflow / scratchpad resources and subscription handling on a server
+ *
+ * 必須在 server.connect() 之前呼叫（需要註冊 subscribe capability）
+ */
+export const registerScratchpadResources = (server: McpServer, db: ScratchpadDatabase): void => {
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.registerResource(
+    'workflow',
+    new ResourceTemplate(resourceUris.workflow('{workflow_id}'), {
+      list: async () => ({
+        resources: db.getWorkflows().slice(0, MAX_LISTED_WORKFLOWS).map((workflow) => ({
+          uri: resourceUris.workflow(workflow.id),
+          name: workflow.name,
+          ...(workflow.description && { description: workflow.description }),
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Workflow',
+      description: 'Workflow metadata with a summary of its scratchpads',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const workflowId = readVariable(variables, 'workflow_id');
+      const result = await getWorkflowTool(db)({
+        workflow_id: workflowId,
+        include_scratchpads_summary: true,
+      });
+      if (!result.workflow) {
+        throw new Error(`Workflow not found: ${workflowId}`);
+      }
+      return jsonContents(uri, result.workflow);
+    }
+  );
+
+  server.registerResource(
+    'scratchpad',
+    new ResourceTemplate(resourceUris.scratchpad('{scratchpad_id}'), {
+      // 只列出 active workflow 的 scratchpads
+      list: async () => {
+        const resources: Resource[] = [];
+        for (const workflow of db.getWorkflows()) {
+          if (!workflow.is_active) {
+            continue;
+          }
+          const remaining = MAX_LISTED_SCRATCHPADS - resources.length;
+          if (remaining <= 0) {
+            break;
+          }
+          for (const scratchpad of db.listScratchpads({ workflow_id: workflow.id, limit: remaining })) {
+            resources.push({
+              uri: resourceUris.scratchpad(scratchpad.id),
+              name: scratchpad.title,
+              description: `Scratchpad in workflow "${workflow.name}"`,
+              mimeType: 'text/markdown',
+              size: scratchpad.size_bytes,
+            });
+          }
+        }
+        return { resources: resources.slice(0, MAX_LISTED_SCRATCHPADS) };
+      },
+    }),
+    {
+      title: 'Scratchpad',
+      description: 'Full scratchpad content as Markdown',
+      mimeType: 'text/markdown',
+    },
+    async (uri, variables) => {
+      const scratchpadId = readVariable(variables, 'scratchpad_id');
+      const scratchpad = db.getScratchpadById(scratchpadId);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${scratchpadId}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: scratchpad.content }],
+      };
+    }
+  );
+
+  server.registerResource(
+    'scratchpad-block',
+    new ResourceTemplate(resourceUris.block('{scratchpad_id}', '{block_index}'), {
+      list: undefined,
+    }),
+    {
+      title: 'Scratchpad block',
+      description:
+        'A single appended block of a scratchpad (0-based index; negative values count from the end, -1 = latest)',
+      mimeType: 'text/markdown',
+    },
+    async (uri, variables) => {
+      const scratchpadId = readVariable(variables, 'scratchpad_id');
+      const rawIndex = readVariable(variables, 'block_index');
+      const index = Number(rawIndex);
+      if (!Number.isInteger(index)) {
+        throw new Error(`Invalid block index: ${rawIndex}`);
+      }
+
+      const scratchpad = db.getScratchpadById(scratchpadId);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${scratchpadId}`);
+      }
+
+      const blocks = BlockParser.parseBlocks(scratchpad.content);
+      const block = blocks[index < 0 ? blocks.length + index : index];
+      if (!block) {
+        throw new Error(
+          `Block ${index} not found in scratchpad ${scratchpadId} (${blocks.length} block(s) available)`
+        );
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: block.content }],
+      };
+    }
+  );
+
+  server.registerResource(
+    'scratchpad-outline',
+    new ResourceTemplate(resourceUris.outline('{scratchpad_id}'), { list: undefined }),
+    {
+      title: 'Scratchpad outline',
+      description: 'Markdown header outline of a scratchpad',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const result = await getScratchpadOutlineTool(db)({
+        id: readVariable(variables, 'scratchpad_id'),
+      });
+      return jsonContents(uri, result.outline);
+    }
+  );
+
+  // 訂閱管理：每個 McpServer（session）各自維護訂閱集合
+  const subscriptions = new Set<string>();
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notifyFailure = (error: unknown): void => {
+    console.warn('Failed to send resource notification:', error);
+  };
+
+  const removeListener = db.onChange((change) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    for (const uri of subscriptions) {
+      if (isAffected(uri, change)) {
+        server.server.sendResourceUpdated({ uri }).catch(notifyFailure);
+      }
+    }
+
+    if (change.action !== 'updated') {
+      server.sendResourceListChanged();
+    }
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+};
@@ -19,9 +19,14 @@ import type {
   GetLatestActiveWorkflowArgs,
   GetWorkflowArgs,
   ExtractWorkflowInfoArgs,
+  BlockFilterArgs,
 } from './tools/index.js';
 
 import type { EnhancedUpdateScratchpadArgs, EditMode } from './database/types.js';
+import { QuotaExceededError, ScratchpadConflictError } from './database/index.js';
+import type { ResponseLimits } from './config/index.js';
+import { BLOCK_KINDS, BlockParser, type BlockKind } from './utils/BlockParser.js';
+import { ContentPattern } from './utils/ContentPattern.js';
 
 /**
  * Type guard and validator functions for MCP tool arguments
@@ -209,6 +214,8 @@ export function validateGetScratchpadArgs(args: unknown): GetScratchpadArgs {
     result.preview_mode = obj['preview_mode'];
   }
 
+  Object.assign(result, validateBlockFilterArgs(obj));
+
   return result;
 }
 
@@ -278,6 +285,26 @@ export function validateAppendScratchpadArgs(args: unknown): AppendScratchpadArg
     result.include_content = obj['include_content'];
   }
 
+  if (obj['author'] !== undefined) {
+    if (typeof obj['author'] !== 'string') {
+      throw new Error('Invalid arguments: author must be a string');
+    }
+    result.author = obj['author'];
+  }
+
+  if (obj['kind'] !== undefined) {
+    result.kind = validateBlockKind(obj['kind']);
+  }
+
+  if (obj['tags'] !== undefined) {
+    if (!Array.isArray(obj['tags']) || !obj['tags'].every((tag) => typeof tag === 'string')) {
+      throw new Error('Invalid arguments: tags must be an array of strings');
+    }
+    result.tags = obj['tags'];
+  }
+
+  Object.assign(result, validateWriteGuardArgs(obj));
+
   return result;
 }
 
@@ -489,13 +516,24 @@ export function handleToolError(
 ): { content: Array<{ type: 'text'; text: string }>; isError: true } {
   const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+  const content: Array<{ type: 'text'; text: string }> = [
+    {
+      type: 'text',
+      text: `Error in ${toolName}: ${errorMessage}`,
+    },
+  ];
+
+  // Version conflicts carry structured details (current version, diff hint) for retry logic;
+  // quota errors carry the limit and current usage
+  if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+    content.push({
+      type: 'text',
+      text: JSON.stringify(error.toJSON(), null, 2),
+    });
+  }
+
   return {
-    content: [
-      {
-        type: 'text',
-        text: `Error in ${toolName}: ${errorMessage}`,
-      },
-    ],
+    content,
     isError: true,
   };
 }
@@ -516,6 +554,46 @@ export function createToolResponse(result: unknown): {
   };
 }
 
+/**
+ * Replace a successful tool response that exceeds the configured response cap with a quota error
+ *
+ * 上限依 tools[toolName] → max_bytes 決定；錯誤回應不受限制
+ */
+export function limitToolResponse<
+  T extends { content: Array<{ type: string; text?: string }>; isError?: boolean },
+>(
+  response: T,
+  toolName: string,
+  limits: ResponseLimits
+): T | ReturnType<typeof handleToolError> {
+  const limit = limits.tools[toolName] ?? limits.max_bytes;
+  if (limit === null || response.isError) {
+    return response;
+  }
+
+  const sizeBytes = response.content.reduce(
+    (total, item) => total + Buffer.byteLength(item.text ?? '', 'utf8'),
+    0
+  );
+  if (sizeBytes <= limit) {
+    return response;
+  }
+  return handleToolError(
+    new QuotaExceededError(
+      `Response too large: ${sizeBytes} bytes (max: ${limit} bytes); narrow the request (e.g. preview_mode, line_range or a smaller limit)`,
+      {
+        quota: 'response_size',
+        unit: 'bytes',
+        limit,
+        current: sizeBytes,
+        attempted: sizeBytes,
+        tool: toolName,
+      }
+    ),
+    toolName
+  );
+}
+
 /**
  * Validate UpdateWorkflowStatusArgs
  */
@@ -740,6 +818,8 @@ export function validateTailScratchpadArgs(args: unknown): TailScratchpadArgs {
     result.full_content = obj['full_content'];
   }
 
+  Object.assign(result, validateBlockFilterArgs(obj));
+
   return result;
 }
 
@@ -779,6 +859,8 @@ export function validateChopScratchpadArgs(args: unknown): ChopScratchpadArgs {
     result.blocks = obj['blocks'];
   }
 
+  Object.assign(result, validateWriteGuardArgs(obj));
+
   return result;
 }
 
@@ -827,7 +909,7 @@ export function validateExtractWorkflowInfoArgs(args: unknown): ExtractWorkflowI
 
 /**
  * Enhanced Update Scratchpad Arguments Validator
- * 增強型編輯工具參數驗證器，支援四種模式的條件驗證
+ * 增強型編輯工具參數驗證器，依模式做條件驗證
  */
 export function validateEnhancedUpdateScratchpadArgs(args: unknown): EnhancedUpdateScratchpadArgs {
   if (!args || typeof args !== 'object') {
@@ -846,7 +928,17 @@ export function validateEnhancedUpdateScratchpadArgs(args: unknown): EnhancedUpd
   }
 
   // Validate edit mode
-  const validModes: EditMode[] = ['replace', 'insert_at_line', 'replace_lines', 'append_section'];
+  const validModes: EditMode[] = [
+    'replace',
+    'insert_at_line',
+    'replace_lines',
+    'append_section',
+    'replace_section',
+    'delete_section',
+    'prepend_section',
+    'rename_section',
+    'find_replace',
+  ];
   if (!validModes.includes(obj['mode'] as EditMode)) {
     throw new Error(
       `Invalid arguments: mode must be one of: ${validModes.join(', ')}. Got: ${obj['mode']}`
@@ -871,13 +963,14 @@ export function validateEnhancedUpdateScratchpadArgs(args: unknown): EnhancedUpd
     ...(obj['include_content'] !== undefined && {
       include_content: obj['include_content'] as boolean,
     }),
+    ...validateWriteGuardArgs(obj),
   };
 
   // Mode-specific conditional parameter validation
   switch (mode) {
     case 'replace':
       // No additional parameters required for replace mode
-      validateNoExtraParameters(obj, ['id', 'mode', 'content', 'include_content'], 'replace');
+      validateNoExtraParameters(obj, ['id', 'mode', 'content', 'include_content', ...WRITE_GUARD_PARAMS], 'replace');
       break;
 
     case 'insert_at_line':
@@ -892,7 +985,7 @@ export function validateEnhancedUpdateScratchpadArgs(args: unknown): EnhancedUpd
       result.line_number = obj['line_number'];
       validateNoExtraParameters(
         obj,
-        ['id', 'mode', 'content', 'include_content', 'line_number'],
+        ['id', 'mode', 'content', 'include_content', 'line_number', ...WRITE_GUARD_PARAMS],
         'insert_at_line'
       );
       break;
@@ -921,25 +1014,101 @@ export function validateEnhancedUpdateScratchpadArgs(args: unknown): EnhancedUpd
       result.end_line = obj['end_line'];
       validateNoExtraParameters(
         obj,
-        ['id', 'mode', 'content', 'include_content', 'start_line', 'end_line'],
+        ['id', 'mode', 'content', 'include_content', 'start_line', 'end_line', ...WRITE_GUARD_PARAMS],
         'replace_lines'
       );
       break;
 
     case 'append_section':
+    case 'replace_section':
+    case 'delete_section':
+    case 'prepend_section':
+    case 'rename_section':
       if (typeof obj['section_marker'] !== 'string' || obj['section_marker'].trim().length === 0) {
         throw new Error(
-          'Invalid arguments: section_marker is required for append_section mode and must be a non-empty string'
+          `Invalid arguments: section_marker is required for ${mode} mode and must be a non-empty string`
+        );
+      }
+      if (mode === 'rename_section' && (obj['content'].trim() === '' || obj['content'].includes('\n'))) {
+        throw new Error(
+          'Invalid arguments: content must be the new header text on a single line for rename_section mode'
         );
       }
       result.section_marker = obj['section_marker'].trim();
       validateNoExtraParameters(
         obj,
-        ['id', 'mode', 'content', 'include_content', 'section_marker'],
-        'append_section'
+        ['id', 'mode', 'content', 'include_content', 'section_marker', ...WRITE_GUARD_PARAMS],
+        mode
       );
       break;
 
+    case 'find_replace': {
+      for (const key of ['query', 'queryRegex'] as const) {
+        if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+          throw new Error(`Invalid arguments: ${key} must be a string`);
+        }
+      }
+      if (obj['query'] === '') {
+        throw new Error('Invalid arguments: query must be a non-empty string');
+      }
+      try {
+        ContentPattern.compile({
+          ...(obj['query'] !== undefined && { query: obj['query'] as string }),
+          ...(obj['queryRegex'] !== undefined && { queryRegex: obj['queryRegex'] as string }),
+        });
+      } catch (error) {
+        throw new Error(
+          `Invalid arguments: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      if (obj['query'] !== undefined) {
+        result.query = obj['query'] as string;
+      } else {
+        result.queryRegex = obj['queryRegex'] as string;
+      }
+
+      for (const key of ['start_line', 'end_line', 'max_replacements'] as const) {
+        const value = obj[key];
+        if (value !== undefined) {
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+            throw new Error(`Invalid arguments: ${key} must be a positive integer`);
+          }
+          result[key] = value;
+        }
+      }
+      if (
+        result.start_line !== undefined &&
+        result.end_line !== undefined &&
+        result.start_line > result.end_line
+      ) {
+        throw new Error('Invalid arguments: start_line must be <= end_line');
+      }
+      if (obj['dry_run'] !== undefined) {
+        if (typeof obj['dry_run'] !== 'boolean') {
+          throw new Error('Invalid arguments: dry_run must be a boolean if provided');
+        }
+        result.dry_run = obj['dry_run'];
+      }
+      validateNoExtraParameters(
+        obj,
+        [
+          'id',
+          'mode',
+          'content',
+          'include_content',
+          'query',
+          'queryRegex',
+          'start_line',
+          'end_line',
+          'max_replacements',
+          'dry_run',
+          ...WRITE_GUARD_PARAMS,
+        ],
+        'find_replace'
+      );
+      break;
+    }
+
     default:
       // This should never happen due to mode validation above, but TypeScript requires it
       throw new Error(`Internal error: unhandled edit mode: ${mode}`);
@@ -1081,6 +1250,8 @@ export function validateSearchScratchpadContentArgs(args: unknown): SearchScratc
     result.show_line_numbers = obj['show_line_numbers'];
   }
 
+  Object.assign(result, validateBlockFilterArgs(obj));
+
   return result;
 }
 
@@ -1137,6 +1308,68 @@ export function validateSearchWorkflowsArgs(args: unknown): SearchWorkflowsArgs
  * Helper function to validate that no unexpected parameters are provided
  * 輔助函數：驗證沒有提供未預期的參數
  */
+/**
+ * Optimistic concurrency parameters shared by append / chop / update
+ */
+const WRITE_GUARD_PARAMS = ['expected_version', 'if_unmodified_since'];
+
+function validateWriteGuardArgs(obj: Record<string, unknown>): {
+  expected_version?: number;
+  if_unmodified_since?: string;
+} {
+  const guard: { expected_version?: number; if_unmodified_since?: string } = {};
+
+  if (obj['expected_version'] !== undefined) {
+    if (
+      typeof obj['expected_version'] !== 'number' ||
+      !Number.isInteger(obj['expected_version']) ||
+      obj['expected_version'] < 1
+    ) {
+      throw new Error('Invalid arguments: expected_version must be a positive integer');
+    }
+    guard.expected_version = obj['expected_version'];
+  }
+
+  if (obj['if_unmodified_since'] !== undefined) {
+    if (
+      typeof obj['if_unmodified_since'] !== 'string' ||
+      Number.isNaN(Date.parse(obj['if_unmodified_since']))
+    ) {
+      throw new Error('Invalid arguments: if_unmodified_since must be an ISO 8601 timestamp string');
+    }
+    guard.if_unmodified_since = obj['if_unmodified_since'];
+  }
+
+  return guard;
+}
+
+function validateBlockKind(value: unknown): BlockKind {
+  if (!BlockParser.isBlockKind(value)) {
+    throw new Error(`Invalid arguments: kind must be one of ${BLOCK_KINDS.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Block filter parameters shared by get / tail / search-scratchpad-content
+ */
+function validateBlockFilterArgs(obj: Record<string, unknown>): BlockFilterArgs {
+  const filter: BlockFilterArgs = {};
+
+  if (obj['author'] !== undefined) {
+    if (typeof obj['author'] !== 'string') {
+      throw new Error('Invalid arguments: author must be a string');
+    }
+    filter.author = obj['author'];
+  }
+
+  if (obj['kind'] !== undefined) {
+    filter.kind = validateBlockKind(obj['kind']);
+  }
+
+  return filter;
+}
+
 function validateNoExtraParameters(
   obj: Record<string, unknown>,
   allowedParams: string[],
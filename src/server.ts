@@ -3,29 +3,74 @@
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  resolveTransportConfig,
+  startHttpTransport,
+  type HttpTransportHandle,
+} from './transports/http.js';
 import { z } from 'zod';
 import { ScratchpadDatabase } from './database/index.js';
+import { registerScratchpadResources } from './resources/index.js';
+import { registerScratchpadPrompts } from './prompts/index.js';
+import { BlockEmbeddingIndex, createEmbeddingProviderFromEnv } from './embeddings/index.js';
+import { createTemplateRegistryFromEnv, type TemplateRegistry } from './templates/index.js';
+import { loadConfigFromEnv, type ScratchpadConfig } from './config/index.js';
+import { isCliCommand, runCli } from './cli.js';
 import {
   createWorkflowTool,
   listWorkflowsTool,
   getLatestActiveWorkflowTool,
   getWorkflowTool,
   updateWorkflowStatusTool,
+  updateWorkflowTool,
+  deleteWorkflowTool,
+  cloneWorkflowTool,
+  exportWorkflowTool,
+  importWorkflowTool,
   createScratchpadTool,
   getScratchpadTool,
   getScratchpadOutlineTool,
   appendScratchpadTool,
   tailScratchpadTool,
   chopScratchpadTool,
+  getBlockTool,
+  replaceBlockTool,
+  deleteBlockTool,
+  moveBlockTool,
+  listTasksTool,
+  completeTaskTool,
+  addTaskTool,
   enhancedUpdateScratchpadTool,
   listScratchpadsTool,
   searchScratchpadContentTool,
   searchWorkflowsTool,
+  searchAllScratchpadsTool,
+  tagScratchpadTool,
+  tagWorkflowTool,
+  setWorkflowMetadataTool,
+  setScratchpadMetadataTool,
+  semanticSearchTool,
   extractWorkflowInfoTool,
+  listScratchpadRevisionsTool,
+  getScratchpadRevisionTool,
+  diffScratchpadRevisionsTool,
+  restoreScratchpadRevisionTool,
+  setRevisionRetentionTool,
+  deleteScratchpadTool,
+  renameScratchpadTool,
+  moveScratchpadTool,
+  copyScratchpadTool,
+  mergeScratchpadsTool,
+  listTrashTool,
+  restoreFromTrashTool,
+  emptyTrashTool,
+  listTemplatesTool,
+  saveTemplateTool,
 } from './tools/index.js';
 import {
   handleToolError,
   createToolResponse,
+  limitToolResponse,
   validateTailScratchpadArgs,
 } from './server-helpers.js';
 
@@ -41,30 +86,88 @@ function filterUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
 }
 
 class ScratchpadMCPServer {
-  private server: McpServer;
   private db: ScratchpadDatabase;
+  private config: ScratchpadConfig;
   private disabledTools: Set<string>;
+  private httpTransport: HttpTransportHandle | null = null;
+  private embeddingIndex: BlockEmbeddingIndex | undefined;
+  private templates: TemplateRegistry;
+  private shuttingDown = false;
 
   constructor() {
-    this.server = new McpServer(
-      {
-        name: 'scratchpad-mcp-v2',
-        version: '1.0.0',
-      }
-    );
+    // Limits and quotas (SCRATCHPAD_CONFIG_FILE + environment variables)
+    this.config = loadConfigFromEnv();
 
     // Initialize database
     const dbPath = process.env['SCRATCHPAD_DB_PATH'] || './scratchpad.db';
-    this.db = new ScratchpadDatabase({ filename: dbPath });
+    this.db = new ScratchpadDatabase({ filename: dbPath, limits: this.config.limits });
     
     // Parse disabled tools from environment variable
     this.disabledTools = this.parseDisabledTools();
 
-    this.setupToolHandlers();
+    // Template registry (database + SCRATCHPAD_TEMPLATES_DIR + built-ins)
+    this.templates = createTemplateRegistryFromEnv(this.db);
+
+    // Semantic search index (only when an embedding provider is configured)
+    this.embeddingIndex = this.createEmbeddingIndex();
 
     // Handle cleanup on exit
-    process.on('SIGINT', () => this.cleanup());
-    process.on('SIGTERM', () => this.cleanup());
+    process.on('SIGINT', () => void this.cleanup());
+    process.on('SIGTERM', () => void this.cleanup());
+  }
+
+  /**
+   * Create an McpServer with all tools registered
+   * stdio 模式只建立一個；HTTP 模式每個 session 各一個（共用同一個資料庫）
+   */
+  private createMcpServer(): McpServer {
+    const server = new McpServer(
+      {
+        name: 'scratchpad-mcp-v2',
+        version: '1.0.0',
+      }
+    );
+
+    this.applyResponseLimits(server);
+    this.setupToolHandlers(server);
+    registerScratchpadResources(server, this.db);
+    registerScratchpadPrompts(server, this.db);
+    return server;
+  }
+
+  /**
+   * Wrap registerTool so every tool response is checked against the configured response caps
+   */
+  private applyResponseLimits(server: McpServer): void {
+    const responses = this.config.responses;
+    if (responses.max_bytes === null && Object.keys(responses.tools).length === 0) {
+      return;
+    }
+    const registerTool = server.registerTool.bind(server) as (...args: any[]) => any;
+    server.registerTool = ((name: string, config: unknown, handler: (...args: any[]) => any) =>
+      registerTool(name, config, async (...args: any[]) =>
+        limitToolResponse(await handler(...args), name, responses)
+      )) as typeof server.registerTool;
+  }
+
+  /**
+   * Create the block embedding index and start incremental indexing from write events
+   */
+  private createEmbeddingIndex(): BlockEmbeddingIndex | undefined {
+    try {
+      const provider = createEmbeddingProviderFromEnv();
+      if (!provider) {
+        return undefined;
+      }
+      const index = new BlockEmbeddingIndex(this.db, provider);
+      index.start();
+      console.error(`Semantic search enabled (${provider.label}, model: ${provider.model})`);
+      return index;
+    } catch (error) {
+      // 設定錯誤時停用背景索引；semantic-search 呼叫時會回報相同錯誤
+      console.error('Semantic search disabled:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
   }
 
   private parseDisabledTools(): Set<string> {
@@ -77,9 +180,9 @@ class ScratchpadMCPServer {
     );
   }
 
-  private setupToolHandlers(): void {
+  private setupToolHandlers(server: McpServer): void {
     // Workflow management tools
-    this.server.registerTool('create-workflow', {
+    server.registerTool('create-workflow', {
       title: 'Create Workflow',
       description: 'Create a new workflow for organizing scratchpads',
       inputSchema: {
@@ -97,7 +200,7 @@ class ScratchpadMCPServer {
       }
     });
 
-    this.server.registerTool('list-workflows', {
+    server.registerTool('list-workflows', {
       title: 'List Workflows',
       description: 'List all available workflows',
       inputSchema: {
@@ -107,18 +210,20 @@ class ScratchpadMCPServer {
         preview_mode: z.boolean().optional().describe('Preview mode - truncate workflow descriptions for brevity'),
         max_content_chars: z.number().min(10).optional().describe('Maximum characters for workflow description content'),
         include_content: z.boolean().optional().describe('Whether to include workflow descriptions in response'),
+        tags: z.array(z.string()).optional().describe('Only workflows carrying all of these tags'),
+        metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only workflows whose metadata has these exact key/value pairs'),
       }
-    }, async ({ project_scope, limit, offset, preview_mode, max_content_chars, include_content }) => {
+    }, async ({ project_scope, limit, offset, preview_mode, max_content_chars, include_content, tags, metadata }) => {
       try {
         const listWorkflowsFn = listWorkflowsTool(this.db);
-        const result = await listWorkflowsFn(filterUndefined({ project_scope, limit, offset, preview_mode, max_content_chars, include_content }) as any);
+        const result = await listWorkflowsFn(filterUndefined({ project_scope, limit, offset, preview_mode, max_content_chars, include_content, tags, metadata }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'list-workflows');
       }
     });
 
-    this.server.registerTool('get-latest-active-workflow', {
+    server.registerTool('get-latest-active-workflow', {
       title: 'Get Latest Active Workflow',
       description: 'Get the most recently updated active workflow',
       inputSchema: {
@@ -134,7 +239,7 @@ class ScratchpadMCPServer {
       }
     });
 
-    this.server.registerTool('get-workflow', {
+    server.registerTool('get-workflow', {
       title: 'Get Workflow',
       description: 'Retrieve a workflow by its ID with optional scratchpads summary',
       inputSchema: {
@@ -151,7 +256,7 @@ class ScratchpadMCPServer {
       }
     });
 
-    this.server.registerTool('update-workflow-status', {
+    server.registerTool('update-workflow-status', {
       title: 'Update Workflow Status',
       description: 'Activate or deactivate a workflow. Only active workflows can have scratchpads created or modified.',
       inputSchema: {
@@ -168,27 +273,199 @@ class ScratchpadMCPServer {
       }
     });
 
+    server.registerTool('update-workflow', {
+      title: 'Update Workflow',
+      description: 'Update workflow name, description or project scope. Pass null to clear description or project_scope.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to update'),
+        name: z.string().min(1).optional().describe('New workflow name'),
+        description: z.string().nullable().optional().describe('New description (null clears it)'),
+        project_scope: z.string().nullable().optional().describe('New project scope (null clears it)'),
+      }
+    }, async ({ workflow_id, name, description, project_scope }) => {
+      try {
+        const updateWorkflowFn = updateWorkflowTool(this.db);
+        const result = await updateWorkflowFn(filterUndefined({ workflow_id, name, description, project_scope }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'update-workflow');
+      }
+    });
+
+    server.registerTool('tag-workflow', {
+      title: 'Tag Workflow',
+      description: 'Add, remove or replace tags on a workflow. Tags are lowercased, a leading "#" is dropped, and they are indexed for search (tag:blocked in search queries).',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to tag'),
+        add: z.array(z.string()).optional().describe('Tags to add'),
+        remove: z.array(z.string()).optional().describe('Tags to remove'),
+        set: z.array(z.string()).optional().describe('Replace all tags with this list (applied before add/remove)'),
+      }
+    }, async ({ workflow_id, add, remove, set }) => {
+      try {
+        const tagWorkflowFn = tagWorkflowTool(this.db);
+        const result = await tagWorkflowFn(filterUndefined({ workflow_id, add, remove, set }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'tag-workflow');
+      }
+    });
+
+    server.registerTool('set-workflow-metadata', {
+      title: 'Set Workflow Metadata',
+      description: 'Set key/value metadata on a workflow (e.g. status, owner, ticket). Keys are merged into the existing metadata; a null value deletes the key. Set replace=true to replace the whole object.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow'),
+        metadata: z.record(z.any()).describe('Keys to set (null deletes a key), e.g. {"status": "blocked", "owner": "alice"}'),
+        replace: z.boolean().optional().describe('Replace the whole metadata object instead of merging (default: false)'),
+      }
+    }, async ({ workflow_id, metadata, replace }) => {
+      try {
+        const setWorkflowMetadataFn = setWorkflowMetadataTool(this.db);
+        const result = await setWorkflowMetadataFn(filterUndefined({ workflow_id, metadata, replace }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'set-workflow-metadata');
+      }
+    });
+
+    server.registerTool('clone-workflow', {
+      title: 'Clone Workflow',
+      description: 'Fork a workflow into a new active workflow with copies of its scratchpads (tags and metadata included). Narrow the copied scratchpads with scratchpad_ids and/or tags / metadata filters, or set include_scratchpads=false for an empty clone.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to clone'),
+        name: z.string().min(1).optional().describe('Name of the new workflow (default: "<source name> (copy)")'),
+        description: z.string().nullable().optional().describe('Description of the new workflow (default: source description)'),
+        project_scope: z.string().nullable().optional().describe('Project scope of the new workflow (default: source project scope)'),
+        scratchpad_ids: z.array(z.string()).optional().describe('Only clone these scratchpads'),
+        include_scratchpads: z.boolean().optional().describe('Copy scratchpads (default: true)'),
+        tags: z.array(z.string()).optional().describe('Only clone scratchpads carrying all of these tags'),
+        metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only clone scratchpads whose metadata has these exact values'),
+      }
+    }, async ({ workflow_id, name, description, project_scope, scratchpad_ids, include_scratchpads, tags, metadata }) => {
+      try {
+        const cloneWorkflowFn = cloneWorkflowTool(this.db);
+        const result = await cloneWorkflowFn(filterUndefined({ workflow_id, name, description, project_scope, scratchpad_ids, include_scratchpads, tags, metadata }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'clone-workflow');
+      }
+    });
+
+    server.registerTool('export-workflow', {
+      title: 'Export Workflow',
+      description: 'Export a workflow with all its scratchpads. format=json produces a single versioned archive (importable with import-workflow); format=markdown produces workflow.md plus one Markdown file per scratchpad with front matter (ids, timestamps, scope). The export is always returned inline (archive or files); use the CLI to write it to disk.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to export'),
+        format: z.enum(['json', 'markdown']).optional().describe('Export format (default: json)'),
+      }
+    }, async ({ workflow_id, format }) => {
+      try {
+        const exportWorkflowFn = exportWorkflowTool(this.db);
+        const result = await exportWorkflowFn(filterUndefined({ workflow_id, format }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'export-workflow');
+      }
+    });
+
+    server.registerTool('import-workflow', {
+      title: 'Import Workflow',
+      description: 'Import a workflow exported by export-workflow. Pass either the JSON archive (archive) or the Markdown bundle files (files) inline; server-side paths are not accepted (use the CLI to import from disk). policy decides what happens when IDs already exist: skip (default, keep existing), overwrite (replace existing) or duplicate (import as new copies with fresh IDs). id_map / regenerate_ids remap IDs before conflicts are checked.',
+      inputSchema: {
+        archive: z.union([z.string(), z.record(z.any())]).optional().describe('JSON archive (object or JSON text) from export-workflow'),
+        files: z.array(z.object({ path: z.string(), content: z.string() })).optional().describe('Markdown bundle files ({ path, content }) from export-workflow with format markdown'),
+        policy: z.enum(['skip', 'overwrite', 'duplicate']).optional().describe('Conflict policy for existing IDs (default: skip)'),
+        id_map: z.record(z.string()).optional().describe('Explicit ID remapping: archive ID -> ID to use in this database'),
+        regenerate_ids: z.boolean().optional().describe('Assign fresh IDs to every item not covered by id_map (default: false)'),
+        project_scope: z.string().nullable().optional().describe('Override the project scope of the imported workflow'),
+      }
+    }, async ({ archive, files, policy, id_map, regenerate_ids, project_scope }) => {
+      try {
+        const importWorkflowFn = importWorkflowTool(this.db);
+        const result = await importWorkflowFn(filterUndefined({ archive, files, policy, id_map, regenerate_ids, project_scope }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'import-workflow');
+      }
+    });
+
+    server.registerTool('delete-workflow', {
+      title: 'Delete Workflow',
+      description: 'Delete a workflow and all its scratchpads. Moves to trash by default (recoverable via restore-from-trash); set permanent=true to delete immediately.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to delete'),
+        permanent: z.boolean().optional().describe('Skip the trash and delete permanently (default: false)'),
+      }
+    }, async ({ workflow_id, permanent }) => {
+      try {
+        const deleteWorkflowFn = deleteWorkflowTool(this.db);
+        const result = await deleteWorkflowFn(filterUndefined({ workflow_id, permanent }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'delete-workflow');
+      }
+    });
+
     // Scratchpad CRUD tools
-    this.server.registerTool('create-scratchpad', {
+    server.registerTool('create-scratchpad', {
       title: 'Create Scratchpad',
-      description: 'Create a new scratchpad in a workflow',
+      description: 'Create a new scratchpad in a workflow. Pass template (see list-templates) to start from a template; placeholders such as {{date}}, {{title}}, {{workflow.name}} are filled in automatically and custom ones come from template_vars. content is appended after the rendered template.',
       inputSchema: {
         workflow_id: z.string().describe('ID of the workflow to add the scratchpad to'),
         title: z.string().describe('Title of the scratchpad'),
-        content: z.string().describe('Content of the scratchpad'),
+        content: z.string().optional().describe('Content of the scratchpad (required unless template is given)'),
+        template: z.string().optional().describe('Name of the template to render as initial content'),
+        template_vars: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Values for custom template placeholders, e.g. {"owner": "alice"} for {{owner}}'),
         include_content: z.boolean().optional().describe('Whether to return full content in response (default: false, returns metadata only)'),
       }
-    }, async ({ workflow_id, title, content, include_content }) => {
+    }, async ({ workflow_id, title, content, template, template_vars, include_content }) => {
       try {
-        const createScratchpadFn = createScratchpadTool(this.db);
-        const result = await createScratchpadFn(filterUndefined({ workflow_id, title, content, include_content }) as any);
+        const createScratchpadFn = createScratchpadTool(this.db, this.templates);
+        const result = await createScratchpadFn(filterUndefined({ workflow_id, title, content, template, template_vars, include_content }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'create-scratchpad');
       }
     });
 
-    const getScratchpadToolInstance = this.server.registerTool('get-scratchpad', {
+    server.registerTool('list-templates', {
+      title: 'List Templates',
+      description: 'List scratchpad templates usable with create-scratchpad. Sources: database (save-template), directory (SCRATCHPAD_TEMPLATES_DIR) and builtin; a database template hides directory / builtin templates of the same name. variables lists the custom placeholders to pass in template_vars.',
+      inputSchema: {
+        source: z.enum(['database', 'directory', 'builtin']).optional().describe('Only list templates from this source'),
+        include_content: z.boolean().optional().describe('Include template content (default: false)'),
+      }
+    }, async ({ source, include_content }) => {
+      try {
+        const listTemplatesFn = listTemplatesTool(this.db, this.templates);
+        const result = await listTemplatesFn(filterUndefined({ source, include_content }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'list-templates');
+      }
+    });
+
+    server.registerTool('save-template', {
+      title: 'Save Template',
+      description: 'Save a scratchpad template to the database. Use {{name}} placeholders for custom variables; built-ins are {{date}}, {{time}}, {{datetime}} (UTC), {{title}}, {{workflow.id}}, {{workflow.name}}, {{workflow.description}}, {{workflow.project_scope}}. Replacing an existing template (any source) requires overwrite: true.',
+      inputSchema: {
+        name: z.string().describe('Template name (lowercase letters, digits, _ and -)'),
+        content: z.string().describe('Template content with {{placeholders}}'),
+        description: z.string().optional().describe('Short description shown by list-templates'),
+        overwrite: z.boolean().optional().describe('Replace an existing template with the same name (default: false)'),
+      }
+    }, async ({ name, content, description, overwrite }) => {
+      try {
+        const saveTemplateFn = saveTemplateTool(this.db, this.templates);
+        const result = await saveTemplateFn(filterUndefined({ name, content, description, overwrite }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'save-template');
+      }
+    });
+
+    const getScratchpadToolInstance = server.registerTool('get-scratchpad', {
       title: 'Get Scratchpad',
       description: 'Retrieve a scratchpad by its ID with optional range selection. Supports line_range (specific lines) and line_context (line + surrounding context or block). Content truncated to 2000 chars by default.',
       inputSchema: {
@@ -206,11 +483,13 @@ class ScratchpadMCPServer {
         preview_mode: z.boolean().optional().describe('Preview mode - returns ~200 chars with smart truncation. Takes precedence over max_content_chars.'),
         max_content_chars: z.number().min(10).optional().describe('Maximum characters limit (default: 2000). Only applies when include_content is not false.'),
         include_content: z.boolean().optional().describe('Whether to include content in response. false=metadata only (overrides other content options), true=include content.'),
+        author: z.string().optional().describe('Only return blocks written by this author (cannot be combined with line_range / line_context)'),
+        kind: z.enum(['note', 'decision', 'todo', 'result', 'error']).optional().describe('Only return blocks of this kind (cannot be combined with line_range / line_context)'),
       }
-    }, async ({ id, line_range, line_context, preview_mode, max_content_chars, include_content }) => {
+    }, async ({ id, line_range, line_context, preview_mode, max_content_chars, include_content, author, kind }) => {
       try {
         const getScratchpadFn = getScratchpadTool(this.db);
-        const result = await getScratchpadFn(filterUndefined({ id, line_range, line_context, preview_mode, max_content_chars, include_content }) as any);
+        const result = await getScratchpadFn(filterUndefined({ id, line_range, line_context, preview_mode, max_content_chars, include_content, author, kind }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'get-scratchpad');
@@ -222,7 +501,7 @@ class ScratchpadMCPServer {
       getScratchpadToolInstance.disable();
     }
 
-    const getScratchpadOutlineToolInstance = this.server.registerTool('get-scratchpad-outline', {
+    const getScratchpadOutlineToolInstance = server.registerTool('get-scratchpad-outline', {
       title: 'Get Scratchpad Outline',
       description: 'Parse and retrieve the markdown header structure of a scratchpad. Shows hierarchy with line numbers to help locate content sections.',
       inputSchema: {
@@ -246,27 +525,32 @@ class ScratchpadMCPServer {
       getScratchpadOutlineToolInstance.disable();
     }
 
-    this.server.registerTool('append-scratchpad', {
+    server.registerTool('append-scratchpad', {
       title: 'Append Scratchpad',
-      description: 'Append content to an existing scratchpad',
+      description: 'Append content to an existing scratchpad. Each append becomes a block whose header records a stable block ID, the timestamp and the optional author, kind and tags.',
       inputSchema: {
         id: z.string().describe('ID of the scratchpad to append to'),
         content: z.string().describe('Content to append to the scratchpad'),
+        author: z.string().optional().describe('Who wrote this block, e.g. the sub-agent name (recorded in the block header)'),
+        kind: z.enum(['note', 'decision', 'todo', 'result', 'error']).optional().describe('Kind of block: note, decision, todo, result or error'),
+        tags: z.array(z.string()).optional().describe('Tags recorded in the block header'),
         include_content: z.boolean().optional().describe('Whether to return full content in response (default: false, returns metadata only)'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
       }
-    }, async ({ id, content, include_content }) => {
+    }, async ({ id, content, author, kind, tags, include_content, expected_version, if_unmodified_since }) => {
       try {
         const appendScratchpadFn = appendScratchpadTool(this.db);
-        const result = await appendScratchpadFn(filterUndefined({ id, content, include_content }) as any);
+        const result = await appendScratchpadFn(filterUndefined({ id, content, author, kind, tags, include_content, expected_version, if_unmodified_since }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'append-scratchpad');
       }
     });
 
-    this.server.registerTool('tail-scratchpad', {
+    server.registerTool('tail-scratchpad', {
       title: 'Tail Scratchpad',
-      description: 'Get tail content from scratchpad (default: last 50 lines), or full content with full_content=true. Use include_content=false for metadata only.',
+      description: 'Get tail content from scratchpad (default: last 50 lines), or full content with full_content=true. Use include_content=false for metadata only. With tail_size.blocks the response also lists the returned blocks with their stable block IDs.',
       inputSchema: {
         id: z.string().describe('ID of the scratchpad to get tail from'),
         tail_size: z.object({
@@ -281,11 +565,13 @@ class ScratchpadMCPServer {
         }).optional().describe('Tail size specification - choose either lines OR chars OR blocks, not multiple'),
         include_content: z.boolean().optional().describe('Whether to include content in response (default: true)'),
         full_content: z.boolean().optional().describe('Whether to return full content instead of tail (overrides tail_size). Use this as alternative to get-scratchpad.'),
+        author: z.string().optional().describe('Only blocks written by this author (tail_size then applies to the matching blocks)'),
+        kind: z.enum(['note', 'decision', 'todo', 'result', 'error']).optional().describe('Only blocks of this kind'),
       }
-    }, async ({ id, tail_size, include_content, full_content }) => {
+    }, async ({ id, tail_size, include_content, full_content, author, kind }) => {
       try {
         const tailScratchpadFn = tailScratchpadTool(this.db);
-        const validatedArgs = validateTailScratchpadArgs({ id, tail_size, include_content, full_content });
+        const validatedArgs = validateTailScratchpadArgs({ id, tail_size, include_content, full_content, author, kind });
         const result = await tailScratchpadFn(validatedArgs);
         return createToolResponse(result);
       } catch (error) {
@@ -293,48 +579,197 @@ class ScratchpadMCPServer {
       }
     });
 
-    this.server.registerTool('chop-scratchpad', {
+    server.registerTool('chop-scratchpad', {
       title: 'Chop Scratchpad',
       description: 'Remove lines or blocks from the end of a scratchpad. Does not return content after completion.',
       inputSchema: {
         id: z.string().describe('ID of the scratchpad to chop content from'),
         lines: z.number().min(1).optional().describe('Number of lines to remove from the end (default: 1)'),
         blocks: z.number().min(1).optional().describe('Number of blocks to remove from the end'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
       }
-    }, async ({ id, lines, blocks }) => {
+    }, async ({ id, lines, blocks, expected_version, if_unmodified_since }) => {
       try {
         const chopScratchpadFn = chopScratchpadTool(this.db);
-        const result = await chopScratchpadFn(filterUndefined({ id, lines, blocks }) as any);
+        const result = await chopScratchpadFn(filterUndefined({ id, lines, blocks, expected_version, if_unmodified_since }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'chop-scratchpad');
       }
     });
 
-    this.server.registerTool('update-scratchpad', {
+    // Block tools: appended blocks carry a stable ID in their marker (returned by append-scratchpad / tail-scratchpad)
+    server.registerTool('get-block', {
+      title: 'Get Block',
+      description: 'Get one block of a scratchpad by its stable block ID (see block_id from append-scratchpad or blocks from tail-scratchpad). IDs stay valid when other blocks are chopped, deleted or moved.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        block_id: z.string().describe('Stable block ID'),
+      }
+    }, async ({ id, block_id }) => {
+      try {
+        const getBlockFn = getBlockTool(this.db);
+        const result = await getBlockFn({ id, block_id });
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'get-block');
+      }
+    });
+
+    server.registerTool('replace-block', {
+      title: 'Replace Block',
+      description: 'Replace the content of a block by its stable block ID. The block keeps its ID, author and timestamp.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        block_id: z.string().describe('Stable block ID'),
+        content: z.string().describe('New block content'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
+      }
+    }, async ({ id, block_id, content, expected_version, if_unmodified_since }) => {
+      try {
+        const replaceBlockFn = replaceBlockTool(this.db);
+        const result = await replaceBlockFn(filterUndefined({ id, block_id, content, expected_version, if_unmodified_since }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'replace-block');
+      }
+    });
+
+    server.registerTool('delete-block', {
+      title: 'Delete Block',
+      description: 'Delete a block (with its splitter) by its stable block ID.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        block_id: z.string().describe('Stable block ID'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
+      }
+    }, async ({ id, block_id, expected_version, if_unmodified_since }) => {
+      try {
+        const deleteBlockFn = deleteBlockTool(this.db);
+        const result = await deleteBlockFn(filterUndefined({ id, block_id, expected_version, if_unmodified_since }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'delete-block');
+      }
+    });
+
+    server.registerTool('move-block', {
+      title: 'Move Block',
+      description: 'Move a block by its stable block ID before or after another block, or to the start or end of the scratchpad. Specify exactly one of before_block_id, after_block_id or position.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        block_id: z.string().describe('Stable ID of the block to move'),
+        before_block_id: z.string().optional().describe('Move the block directly before this block'),
+        after_block_id: z.string().optional().describe('Move the block directly after this block'),
+        position: z.enum(['start', 'end']).optional().describe('Move the block to the start or end of the scratchpad'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
+      }
+    }, async ({ id, block_id, before_block_id, after_block_id, position, expected_version, if_unmodified_since }) => {
+      try {
+        const moveBlockFn = moveBlockTool(this.db);
+        const result = await moveBlockFn(filterUndefined({ id, block_id, before_block_id, after_block_id, position, expected_version, if_unmodified_since }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'move-block');
+      }
+    });
+
+    server.registerTool('list-tasks', {
+      title: 'List Tasks',
+      description: 'List GitHub-style checklist items ("- [ ]" / "- [x]") across the scratchpads of a workflow, with their line, section, block ID and a task_id, plus a progress summary per workflow and per scratchpad. Use summary_only=true for the progress summary alone.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow'),
+        scratchpad_id: z.string().optional().describe('Only list tasks of this scratchpad'),
+        status: z.enum(['open', 'completed', 'all']).optional().describe('Task status filter (default: all)'),
+        section: z.string().optional().describe('Only tasks under a markdown header containing this text (case-insensitive)'),
+        query: z.string().optional().describe('Only tasks whose text contains this text (case-insensitive)'),
+        summary_only: z.boolean().optional().describe('Return only the progress summary, without the task list'),
+      }
+    }, async ({ workflow_id, scratchpad_id, status, section, query, summary_only }) => {
+      try {
+        const listTasksFn = listTasksTool(this.db);
+        const result = await listTasksFn(filterUndefined({ workflow_id, scratchpad_id, status, section, query, summary_only }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'list-tasks');
+      }
+    });
+
+    server.registerTool('complete-task', {
+      title: 'Complete Task',
+      description: 'Check (or with completed=false, uncheck) the checklist item at a line of a scratchpad in place. Use the line from list-tasks; pass expected_text to make sure the line still holds the same task.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        line: z.number().int().min(1).describe('Line number of the task (1-based, see list-tasks)'),
+        completed: z.boolean().optional().describe('New checkbox state (default: true)'),
+        expected_text: z.string().optional().describe('Fail unless the task at this line has exactly this text'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
+      }
+    }, async ({ id, line, completed, expected_text, expected_version, if_unmodified_since }) => {
+      try {
+        const completeTaskFn = completeTaskTool(this.db);
+        const result = await completeTaskFn(filterUndefined({ id, line, completed, expected_text, expected_version, if_unmodified_since }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'complete-task');
+      }
+    });
+
+    server.registerTool('add-task', {
+      title: 'Add Task',
+      description: 'Add an open checklist item ("- [ ] text") to a scratchpad, directly after the last list item of the section whose header matches section_marker (resolved like the update-scratchpad section modes; fails when the section does not exist), or at the end of the content.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        text: z.string().describe('Task text (single line)'),
+        section_marker: z.string().optional().describe('Header of the section to add the task to: full header line ("## TODO"), header text ("TODO") or a nested path ("## Plan > ### TODO")'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
+      }
+    }, async ({ id, text, section_marker, expected_version, if_unmodified_since }) => {
+      try {
+        const addTaskFn = addTaskTool(this.db);
+        const result = await addTaskFn(filterUndefined({ id, text, section_marker, expected_version, if_unmodified_since }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'add-task');
+      }
+    });
+
+    server.registerTool('update-scratchpad', {
       title: 'Update Scratchpad',
-      description: 'Enhanced multi-mode scratchpad editing tool. Supports four editing modes: replace (complete replacement), insert_at_line (insert at specific line), replace_lines (replace line range), append_section (smart append after markdown section marker). Provides detailed operation feedback.',
+      description: 'Enhanced multi-mode scratchpad editing tool. Line modes: replace (complete replacement), insert_at_line (insert at specific line), replace_lines (replace line range), append_section (smart append after markdown section marker). Section modes address a whole markdown section by its header via section_marker, including nested subsections, without line numbers: replace_section (replace the body, keep the header), delete_section (remove header and body; content is ignored), prepend_section (insert right after the header), rename_section (content is the new header text, level kept). find_replace replaces matches of query (literal) or queryRegex (regex; content may use $1, $<name>, $&) line by line, optionally within start_line..end_line and up to max_replacements, without fetching the content first; dry_run=true returns a unified diff preview instead of writing. Provides detailed operation feedback.',
       inputSchema: {
         id: z.string().describe('ID of the scratchpad to edit'),
-        mode: z.enum(['replace', 'insert_at_line', 'replace_lines', 'append_section']).describe('Editing mode to use'),
-        content: z.string().describe('Content to insert, replace, or append'),
+        mode: z.enum(['replace', 'insert_at_line', 'replace_lines', 'append_section', 'replace_section', 'delete_section', 'prepend_section', 'rename_section', 'find_replace']).describe('Editing mode to use'),
+        content: z.string().describe('Content to insert, replace, or append (the replacement text for find_replace)'),
         include_content: z.boolean().optional().describe('Whether to include content in response (default: false)'),
         line_number: z.number().min(1).optional().describe('Line number for insert_at_line mode (1-based indexing)'),
-        start_line: z.number().min(1).optional().describe('Start line for replace_lines mode (1-based, inclusive)'),
-        end_line: z.number().min(1).optional().describe('End line for replace_lines mode (1-based, inclusive)'),
-        section_marker: z.string().optional().describe('Section marker for append_section mode (e.g., "## Features", "# TODO")'),
+        start_line: z.number().min(1).optional().describe('Start line for replace_lines mode, or of the search range for find_replace (1-based, inclusive)'),
+        end_line: z.number().min(1).optional().describe('End line for replace_lines mode, or of the search range for find_replace (1-based, inclusive)'),
+        section_marker: z.string().optional().describe('Section marker for append_section mode (e.g., "## Features", "# TODO"), or the section header for *_section modes: full header line ("## Status"), header text ("Status") or a nested path ("## Status > ### Notes")'),
+        query: z.string().optional().describe('Literal text to find for find_replace mode (cannot be used with queryRegex)'),
+        queryRegex: z.string().optional().describe('Regular expression to find for find_replace mode, matched per line (cannot be used with query)'),
+        max_replacements: z.number().int().min(1).optional().describe('Maximum number of occurrences to replace in find_replace mode (default: all)'),
+        dry_run: z.boolean().optional().describe('find_replace only: return a unified diff preview without writing'),
+        expected_version: z.number().int().min(1).optional().describe('Optimistic concurrency: fail with a version conflict unless the scratchpad is still at this version (see `version` in responses)'),
+        if_unmodified_since: z.string().optional().describe('Optimistic concurrency: fail with a version conflict if the scratchpad was modified after this ISO timestamp (best-effort, second granularity - prefer expected_version)'),
       }
-    }, async ({ id, mode, content, include_content, line_number, start_line, end_line, section_marker }) => {
+    }, async ({ id, mode, content, include_content, line_number, start_line, end_line, section_marker, query, queryRegex, max_replacements, dry_run, expected_version, if_unmodified_since }) => {
       try {
         const enhancedUpdateScratchpadFn = enhancedUpdateScratchpadTool(this.db);
-        const result = await enhancedUpdateScratchpadFn(filterUndefined({ id, mode, content, include_content, line_number, start_line, end_line, section_marker }) as any);
+        const result = await enhancedUpdateScratchpadFn(filterUndefined({ id, mode, content, include_content, line_number, start_line, end_line, section_marker, query, queryRegex, max_replacements, dry_run, expected_version, if_unmodified_since }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'update-scratchpad');
       }
     });
 
-    this.server.registerTool('list-scratchpads', {
+    server.registerTool('list-scratchpads', {
       title: 'List Scratchpads',
       description: 'List scratchpads in a workflow. Options: preview_mode (quick overview), max_content_chars (size limit), include_content=false (metadata only). Priority: include_content > preview_mode > max_content_chars.',
       inputSchema: {
@@ -344,18 +779,290 @@ class ScratchpadMCPServer {
         preview_mode: z.boolean().optional().describe('Preview mode - return truncated content for brevity'),
         max_content_chars: z.number().min(10).optional().describe('Maximum characters per scratchpad content'),
         include_content: z.boolean().optional().describe('Whether to include full content in response'),
+        tags: z.array(z.string()).optional().describe('Only scratchpads carrying all of these tags'),
+        metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only scratchpads whose metadata has these exact key/value pairs'),
       }
-    }, async ({ workflow_id, limit, offset, preview_mode, max_content_chars, include_content }) => {
+    }, async ({ workflow_id, limit, offset, preview_mode, max_content_chars, include_content, tags, metadata }) => {
       try {
         const listScratchpadsFn = listScratchpadsTool(this.db);
-        const result = await listScratchpadsFn(filterUndefined({ workflow_id, limit, offset, preview_mode, max_content_chars, include_content }) as any);
+        const result = await listScratchpadsFn(filterUndefined({ workflow_id, limit, offset, preview_mode, max_content_chars, include_content, tags, metadata }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'list-scratchpads');
       }
     });
 
-    this.server.registerTool('search-scratchpad-content', {
+    server.registerTool('tag-scratchpad', {
+      title: 'Tag Scratchpad',
+      description: 'Add, remove or replace tags on a scratchpad (e.g. "blocked", "needs-review"). Tags are lowercased, a leading "#" is dropped, and they are indexed for search (tag:blocked in search queries).',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad to tag'),
+        add: z.array(z.string()).optional().describe('Tags to add'),
+        remove: z.array(z.string()).optional().describe('Tags to remove'),
+        set: z.array(z.string()).optional().describe('Replace all tags with this list (applied before add/remove)'),
+      }
+    }, async ({ id, add, remove, set }) => {
+      try {
+        const tagScratchpadFn = tagScratchpadTool(this.db);
+        const result = await tagScratchpadFn(filterUndefined({ id, add, remove, set }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'tag-scratchpad');
+      }
+    });
+
+    server.registerTool('set-scratchpad-metadata', {
+      title: 'Set Scratchpad Metadata',
+      description: 'Set key/value metadata on a scratchpad. Keys are merged into the existing metadata; a null value deletes the key. Set replace=true to replace the whole object.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        metadata: z.record(z.any()).describe('Keys to set (null deletes a key), e.g. {"status": "blocked", "priority": 1}'),
+        replace: z.boolean().optional().describe('Replace the whole metadata object instead of merging (default: false)'),
+      }
+    }, async ({ id, metadata, replace }) => {
+      try {
+        const setScratchpadMetadataFn = setScratchpadMetadataTool(this.db);
+        const result = await setScratchpadMetadataFn(filterUndefined({ id, metadata, replace }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'set-scratchpad-metadata');
+      }
+    });
+
+    server.registerTool('rename-scratchpad', {
+      title: 'Rename Scratchpad',
+      description: 'Change the title of a scratchpad (search index is updated automatically)',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad to rename'),
+        title: z.string().min(1).describe('New title'),
+      }
+    }, async ({ id, title }) => {
+      try {
+        const renameScratchpadFn = renameScratchpadTool(this.db);
+        const result = await renameScratchpadFn({ id, title });
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'rename-scratchpad');
+      }
+    });
+
+    server.registerTool('move-scratchpad', {
+      title: 'Move Scratchpad',
+      description: 'Move a scratchpad to another active workflow. The scratchpad keeps its ID, content and revision history; both workflows\' scratchpad counts are updated.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad to move'),
+        workflow_id: z.string().describe('ID of the target workflow'),
+      }
+    }, async ({ id, workflow_id }) => {
+      try {
+        const moveScratchpadFn = moveScratchpadTool(this.db);
+        const result = await moveScratchpadFn({ id, workflow_id });
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'move-scratchpad');
+      }
+    });
+
+    server.registerTool('copy-scratchpad', {
+      title: 'Copy Scratchpad',
+      description: 'Copy a scratchpad (content, tags and metadata) into a workflow under a new ID. The target may be the source workflow; the copy starts a fresh revision history.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad to copy'),
+        workflow_id: z.string().describe('ID of the target workflow'),
+        title: z.string().min(1).optional().describe('Title of the copy (default: source title)'),
+        include_content: z.boolean().optional().describe('Whether to return full content in response (default: false)'),
+      }
+    }, async ({ id, workflow_id, title, include_content }) => {
+      try {
+        const copyScratchpadFn = copyScratchpadTool(this.db);
+        const result = await copyScratchpadFn(filterUndefined({ id, workflow_id, title, include_content }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'copy-scratchpad');
+      }
+    });
+
+    server.registerTool('merge-scratchpads', {
+      title: 'Merge Scratchpads',
+      description: 'Combine scratchpads of a workflow into a new scratchpad. Each source becomes one block headed by its title ("## <title>"), joined with the standard block splitter. Order by created_at (default), updated_at or the explicit scratchpad_ids order; delete_sources=true moves the sources to trash. Fails if the result exceeds the 1MB scratchpad limit.',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow containing the scratchpads'),
+        scratchpad_ids: z.array(z.string()).min(2).describe('IDs of the scratchpads to merge (at least two)'),
+        title: z.string().min(1).describe('Title of the merged scratchpad'),
+        order: z.enum(['created_at', 'updated_at', 'explicit']).optional().describe('Merge order (default: created_at; explicit = scratchpad_ids order)'),
+        delete_sources: z.boolean().optional().describe('Move the source scratchpads to trash after merging (default: false)'),
+        include_content: z.boolean().optional().describe('Whether to return full content in response (default: false)'),
+      }
+    }, async ({ workflow_id, scratchpad_ids, title, order, delete_sources, include_content }) => {
+      try {
+        const mergeScratchpadsFn = mergeScratchpadsTool(this.db);
+        const result = await mergeScratchpadsFn(filterUndefined({ workflow_id, scratchpad_ids, title, order, delete_sources, include_content }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'merge-scratchpads');
+      }
+    });
+
+    server.registerTool('delete-scratchpad', {
+      title: 'Delete Scratchpad',
+      description: 'Delete a scratchpad. Moves to trash by default (recoverable via restore-from-trash); set permanent=true to delete immediately.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad to delete'),
+        permanent: z.boolean().optional().describe('Skip the trash and delete permanently (default: false)'),
+      }
+    }, async ({ id, permanent }) => {
+      try {
+        const deleteScratchpadFn = deleteScratchpadTool(this.db);
+        const result = await deleteScratchpadFn(filterUndefined({ id, permanent }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'delete-scratchpad');
+      }
+    });
+
+    // Trash tools
+    server.registerTool('list-trash', {
+      title: 'List Trash',
+      description: 'List deleted scratchpads and workflows that can still be restored',
+      inputSchema: {
+        item_type: z.enum(['scratchpad', 'workflow']).optional().describe('Only list items of this type'),
+        workflow_id: z.string().optional().describe('Only list items belonging to this workflow'),
+      }
+    }, async ({ item_type, workflow_id }) => {
+      try {
+        const listTrashFn = listTrashTool(this.db);
+        const result = await listTrashFn(filterUndefined({ item_type, workflow_id }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'list-trash');
+      }
+    });
+
+    server.registerTool('restore-from-trash', {
+      title: 'Restore From Trash',
+      description: 'Restore a deleted scratchpad or workflow (with its scratchpads and revision history) using its original ID',
+      inputSchema: {
+        trash_id: z.string().describe('Trash entry ID returned by delete-scratchpad / delete-workflow / list-trash'),
+      }
+    }, async ({ trash_id }) => {
+      try {
+        const restoreFromTrashFn = restoreFromTrashTool(this.db);
+        const result = await restoreFromTrashFn({ trash_id });
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'restore-from-trash');
+      }
+    });
+
+    server.registerTool('empty-trash', {
+      title: 'Empty Trash',
+      description: 'Permanently purge trash entries. Without older_than_days, everything in the trash is purged.',
+      inputSchema: {
+        older_than_days: z.number().min(0).optional().describe('Only purge items deleted more than this many days ago'),
+      }
+    }, async ({ older_than_days }) => {
+      try {
+        const emptyTrashFn = emptyTrashTool(this.db);
+        const result = await emptyTrashFn(filterUndefined({ older_than_days }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'empty-trash');
+      }
+    });
+
+    // Revision history tools
+    server.registerTool('list-scratchpad-revisions', {
+      title: 'List Scratchpad Revisions',
+      description: 'List the revision history of a scratchpad (newest first). Every create/append/chop/update/restore records a content snapshot.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        limit: z.number().min(1).max(100).optional().describe('Maximum number of revisions to return (default: 20, max: 100)'),
+        offset: z.number().min(0).optional().describe('Number of revisions to skip (default: 0)'),
+      }
+    }, async ({ id, limit, offset }) => {
+      try {
+        const listScratchpadRevisionsFn = listScratchpadRevisionsTool(this.db);
+        const result = await listScratchpadRevisionsFn(filterUndefined({ id, limit, offset }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'list-scratchpad-revisions');
+      }
+    });
+
+    server.registerTool('get-scratchpad-revision', {
+      title: 'Get Scratchpad Revision',
+      description: 'Retrieve the content snapshot of a specific scratchpad revision',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        revision: z.number().int().min(1).describe('Revision number to retrieve'),
+        include_content: z.boolean().optional().describe('Whether to include revision content (default: true)'),
+      }
+    }, async ({ id, revision, include_content }) => {
+      try {
+        const getScratchpadRevisionFn = getScratchpadRevisionTool(this.db);
+        const result = await getScratchpadRevisionFn(filterUndefined({ id, revision, include_content }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'get-scratchpad-revision');
+      }
+    });
+
+    server.registerTool('diff-scratchpad-revisions', {
+      title: 'Diff Scratchpad Revisions',
+      description: 'Unified diff between two revisions of a scratchpad. to_revision defaults to the latest revision.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        from_revision: z.number().int().min(1).describe('Base revision number'),
+        to_revision: z.number().int().min(1).optional().describe('Target revision number (default: latest)'),
+        context_lines: z.number().int().min(0).max(50).optional().describe('Context lines around each change (default: 3)'),
+      }
+    }, async ({ id, from_revision, to_revision, context_lines }) => {
+      try {
+        const diffScratchpadRevisionsFn = diffScratchpadRevisionsTool(this.db);
+        const result = await diffScratchpadRevisionsFn(filterUndefined({ id, from_revision, to_revision, context_lines }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'diff-scratchpad-revisions');
+      }
+    });
+
+    server.registerTool('restore-scratchpad-revision', {
+      title: 'Restore Scratchpad Revision',
+      description: 'Restore scratchpad content from a previous revision. The restore itself is recorded as a new revision, so it can be undone.',
+      inputSchema: {
+        id: z.string().describe('ID of the scratchpad'),
+        revision: z.number().int().min(1).describe('Revision number to restore'),
+        include_content: z.boolean().optional().describe('Whether to return full content in response (default: false)'),
+      }
+    }, async ({ id, revision, include_content }) => {
+      try {
+        const restoreScratchpadRevisionFn = restoreScratchpadRevisionTool(this.db);
+        const result = await restoreScratchpadRevisionFn(filterUndefined({ id, revision, include_content }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'restore-scratchpad-revision');
+      }
+    });
+
+    server.registerTool('set-revision-retention', {
+      title: 'Set Revision Retention',
+      description: 'Configure how much revision history is kept per scratchpad in a workflow (default: 20 revisions within a 1MB budget)',
+      inputSchema: {
+        workflow_id: z.string().describe('ID of the workflow to configure'),
+        max_revisions: z.number().int().min(2).optional().describe('Maximum revisions kept per scratchpad (min: 2)'),
+        max_bytes: z.number().int().min(1).optional().describe('Total history size budget per scratchpad in bytes'),
+      }
+    }, async ({ workflow_id, max_revisions, max_bytes }) => {
+      try {
+        const setRevisionRetentionFn = setRevisionRetentionTool(this.db);
+        const result = await setRevisionRetentionFn(filterUndefined({ workflow_id, max_revisions, max_bytes }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'set-revision-retention');
+      }
+    });
+
+    server.registerTool('search-scratchpad-content', {
       title: 'Search Scratchpad Content',
       description: 'Search within a single scratchpad content using string or regex patterns. Similar to VS Code Ctrl+F or grep for a single file. Supports context-aware search results with line-based context.',
       inputSchema: {
@@ -371,50 +1078,123 @@ class ScratchpadMCPServer {
         max_context_matches: z.number().min(1).max(20).optional().describe('Maximum number of matches to show context for (default: 5, max: 20)'),
         merge_context: z.boolean().optional().describe('Whether to merge overlapping context ranges (default: true)'),
         show_line_numbers: z.boolean().optional().describe('Whether to show line numbers in context output'),
+        author: z.string().optional().describe('Only report matches inside blocks written by this author'),
+        kind: z.enum(['note', 'decision', 'todo', 'result', 'error']).optional().describe('Only report matches inside blocks of this kind'),
       }
-    }, async ({ id, query, queryRegex, preview_mode, max_content_chars, include_content, context_lines_before, context_lines_after, context_lines, max_context_matches, merge_context, show_line_numbers }) => {
+    }, async ({ id, query, queryRegex, preview_mode, max_content_chars, include_content, context_lines_before, context_lines_after, context_lines, max_context_matches, merge_context, show_line_numbers, author, kind }) => {
       try {
         const searchScratchpadContentFn = searchScratchpadContentTool(this.db);
-        const result = await searchScratchpadContentFn(filterUndefined({ id, query, queryRegex, preview_mode, max_content_chars, include_content, context_lines_before, context_lines_after, context_lines, max_context_matches, merge_context, show_line_numbers }) as any);
+        const result = await searchScratchpadContentFn(filterUndefined({ id, query, queryRegex, preview_mode, max_content_chars, include_content, context_lines_before, context_lines_after, context_lines, max_context_matches, merge_context, show_line_numbers, author, kind }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'search-scratchpad-content');
       }
     });
 
-    this.server.registerTool('search-workflows', {
+    server.registerTool('search-workflows', {
       title: 'Search Workflows',
-      description: 'Search workflows with weighted scoring based on scratchpads content. Uses the "search workflows first, then load scratchpads" strategy with 5/3/3/1 weighted scoring (workflows.name/description, scratchpads.title/content). Supports mixed English/Chinese queries with automatic language separation and 4-tier fallback (FTS5 → LIKE).\n\nFEATURES:\n• Weighted scoring: workflows.name (5pts), workflows.description (3pts), scratchpads.title (3pts), scratchpads.content (1pt)\n• Mixed language support: "React組件" → English: ["React"] + Chinese: ["組件"]\n• Project isolation: project_scope parameter for exact match filtering\n• Smart pagination: 5 items per page (default: page 1)\n• Comprehensive search: workflows + ALL scratchpads content under those workflows\n• Performance optimized: search workflows first, then load scratchpads for scoring\n\nUSAGE EXAMPLES:\n• Basic search: {"query": "authentication"}\n• Project-scoped: {"query": "user login", "project_scope": "myapp"}\n• Pagination: {"query": "React", "page": 2, "limit": 10}\n• Mixed language: {"query": "React組件開發", "useJieba": true}\n• English-only: {"query": "database connection pool"}',
+      description: 'Search workflows with weighted scoring based on scratchpads content. Uses the "search workflows first, then load scratchpads" strategy with 5/3/3/1 weighted scoring (workflows.name/description, scratchpads.title/content). Supports mixed English/Chinese queries with automatic language separation and 4-tier fallback (FTS5 → LIKE).\n\nFEATURES:\n• Weighted scoring: workflows.name (5pts), workflows.description (3pts), scratchpads.title (3pts), scratchpads.content (1pt)\n• Mixed language support: "React組件" → English: ["React"] + Chinese: ["組件"]\n• Project isolation: project_scope parameter for exact match filtering\n• Smart pagination: 5 items per page (default: page 1)\n• Comprehensive search: workflows + ALL scratchpads content under those workflows\n• Performance optimized: search workflows first, then load scratchpads for scoring\n\nUSAGE EXAMPLES:\n• Basic search: {"query": "authentication"}\n• Project-scoped: {"query": "user login", "project_scope": "myapp"}\n• Pagination: {"query": "React", "page": 2, "limit": 10}\n• Mixed language: {"query": "React組件開發", "useJieba": true}\n• English-only: {"query": "database connection pool"}\n• Hybrid ranking: {"query": "快取 cache", "ranking": "rrf", "weights": {"semantic": 2, "keyword": 0.5}}\n\nRRF MODE (ranking: "rrf"):\nReciprocal rank fusion of workflow FTS5 BM25, scratchpad BM25, the jieba path (when available), the legacy keyword score and semantic block similarity (when an embedding provider is configured). Each signal contributes weight / (rrf_k + rank); each result carries an explanation with per-signal rank, raw value and contribution.',
       inputSchema: {
-        query: z.string().describe('Search query string (supports mixed English/Chinese)'),
+        query: z
+          .string()
+          .describe(
+            'Search query string (supports mixed English/Chinese and the query syntax: "phrases", AND/OR/NOT, -exclude, prefix*, title:/workflow:/content:/scope:/tag:, updated:>YYYY-MM-DD)'
+          ),
         project_scope: z.string().optional().describe('Optional project scope for exact match filtering (isolates workflows by project)'),
         page: z.number().min(1).optional().describe('Page number for pagination (default: 1)'),
         limit: z.number().min(1).max(20).optional().describe('Items per page (default: 5, max: 20)'),
         useJieba: z.boolean().optional().describe('Force jieba Chinese tokenization (auto-detect by default)'),
+        ranking: z.enum(['weighted', 'rrf']).optional().describe('Ranking mode: "weighted" (5/3/3/1 keyword scoring, default) or "rrf" (reciprocal rank fusion with explanations)'),
+        weights: z.object({
+          workflow_fts: z.number().min(0).optional(),
+          scratchpad_bm25: z.number().min(0).optional(),
+          jieba: z.number().min(0).optional(),
+          keyword: z.number().min(0).optional(),
+          semantic: z.number().min(0).optional(),
+        }).optional().describe('RRF signal weights (default: 1 each; 0 disables a signal)'),
+        rrf_k: z.number().min(0).optional().describe('RRF constant k (default: 60); lower values favour top-ranked hits'),
+        tags: z.array(z.string()).optional().describe('Only workflows carrying all of these tags'),
+        metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only workflows whose metadata has these exact key/value pairs'),
       }
-    }, async ({ query, project_scope, page, limit, useJieba }) => {
+    }, async ({ query, project_scope, page, limit, useJieba, ranking, weights, rrf_k, tags, metadata }) => {
       try {
-        const searchWorkflowsFn = searchWorkflowsTool(this.db);
-        const result = await searchWorkflowsFn(filterUndefined({ query, project_scope, page, limit, useJieba }) as any);
+        const searchWorkflowsFn = searchWorkflowsTool(this.db, this.embeddingIndex);
+        const result = await searchWorkflowsFn(filterUndefined({ query, project_scope, page, limit, useJieba, ranking, weights, rrf_k, tags, metadata }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'search-workflows');
       }
     });
 
-    this.server.registerTool('extract-workflow-info', {
+    server.registerTool('search-all-scratchpads', {
+      title: 'Search All Scratchpads',
+      description: 'Full-text search across scratchpads in ALL workflows, ranked by BM25 (title matches weigh more than content). Returns highlighted titles and content snippets. Falls back to LIKE matching when FTS5 is unavailable.\n\nFILTERS:\n• project_scope: exact project match\n• is_active: only active (true) or inactive (false) workflows\n• updated_after / updated_before: ISO 8601 date range on scratchpad updated_at (inclusive)\n• title_only: match scratchpad titles only\n• tags / metadata: only scratchpads carrying all tags / exact metadata values\n\nQUERY SYNTAX:\n• "design doc": exact phrase; auth*: prefix match\n• AND (implicit between terms), OR, NOT / -term, parentheses for grouping\n• title:, content: limit a term to one column; workflow: matches workflow name or ID; scope: exact project; tag: exact tag (tag:proj* for a prefix)\n• updated:>2026-01-01 (also >=, <, <=, or a bare date for that day)\n\nUSAGE EXAMPLES:\n• Basic search: {"query": "retry policy"}\n• Recent active work: {"query": "migration", "is_active": true, "updated_after": "2024-01-01"}\n• Title lookup: {"query": "design notes", "title_only": true}\n• Query syntax: {"query": "title:\\"design doc\\" AND -deprecated scope:infra updated:>2026-01-01"}',
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            'Search terms (all terms must match). Supports "phrases", AND/OR/NOT, -exclude, (groups), prefix*, title:/content:/workflow:/scope:/tag: fields and updated:>YYYY-MM-DD'
+          ),
+        project_scope: z.string().optional().describe('Only search workflows with this project scope (exact match)'),
+        is_active: z.boolean().optional().describe('Only search active (true) or inactive (false) workflows'),
+        updated_after: z.string().optional().describe('Only scratchpads updated at or after this ISO 8601 date/time'),
+        updated_before: z.string().optional().describe('Only scratchpads updated at or before this ISO 8601 date/time'),
+        title_only: z.boolean().optional().describe('Match scratchpad titles only (default: false)'),
+        page: z.number().int().min(1).optional().describe('Page number for pagination (default: 1)'),
+        limit: z.number().int().min(1).max(50).optional().describe('Items per page (default: 10, max: 50)'),
+        snippet_tokens: z.number().int().min(1).max(64).optional().describe('Snippet length in tokens (default: 16, max: 64)'),
+        highlight_open: z.string().optional().describe('Marker inserted before each match (default: "**")'),
+        highlight_close: z.string().optional().describe('Marker inserted after each match (default: "**")'),
+        tags: z.array(z.string()).optional().describe('Only scratchpads carrying all of these tags'),
+        metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only scratchpads whose metadata has these exact key/value pairs'),
+      }
+    }, async ({ query, project_scope, is_active, updated_after, updated_before, title_only, page, limit, snippet_tokens, highlight_open, highlight_close, tags, metadata }) => {
+      try {
+        const searchAllScratchpadsFn = searchAllScratchpadsTool(this.db);
+        const result = await searchAllScratchpadsFn(filterUndefined({ query, project_scope, is_active, updated_after, updated_before, title_only, page, limit, snippet_tokens, highlight_open, highlight_close, tags, metadata }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'search-all-scratchpads');
+      }
+    });
+
+    server.registerTool('semantic-search', {
+      title: 'Semantic Search',
+      description: 'Search scratchpad blocks by meaning rather than exact words using an embedding index (e.g. "why did we drop Redis" finds "removed the cache layer"). Returns block-level hits with scratchpad ID, block index and line range anchors. Requires an embedding provider (SCRATCHPAD_EMBEDDING_PROVIDER: openai, openai-compatible, transformers or stub); blocks are indexed incrementally on every write.',
+      inputSchema: {
+        query: z.string().describe('Natural language query'),
+        workflow_id: z.string().optional().describe('Only search scratchpads in this workflow'),
+        project_scope: z.string().optional().describe('Only search workflows with this project scope (exact match)'),
+        limit: z.number().int().min(1).max(20).optional().describe('Maximum number of blocks to return (default: 5, max: 20)'),
+        min_score: z.number().min(-1).max(1).optional().describe('Minimum cosine similarity (default: 0)'),
+        max_content_chars: z.number().int().min(1).optional().describe('Truncate block content in results (default: 1000)'),
+      }
+    }, async ({ query, workflow_id, project_scope, limit, min_score, max_content_chars }) => {
+      try {
+        const semanticSearchFn = semanticSearchTool(this.db, this.embeddingIndex);
+        const result = await semanticSearchFn(filterUndefined({ query, workflow_id, project_scope, limit, min_score, max_content_chars }) as any);
+        return createToolResponse(result);
+      } catch (error) {
+        return handleToolError(error, 'semantic-search');
+      }
+    });
+
+    server.registerTool('extract-workflow-info', {
       title: 'Extract Workflow Info',
-      description: 'Extract specific information from a workflow using OpenAI model',
+      description: 'Extract specific information from a workflow using the configured LLM provider (OpenAI, OpenAI-compatible endpoint, Anthropic or stub)',
       inputSchema: {
         workflow_id: z.string().describe('ID of the workflow to extract information from'),
         extraction_prompt: z.string().describe('Specific prompt describing what information to extract'),
-        model: z.string().optional().describe('OpenAI model to use (default: gpt-5-nano)'),
+        model: z.string().optional().describe('Model to use (default: provider default, e.g. gpt-5-nano for OpenAI)'),
         reasoning_effort: z.enum(['minimal', 'low', 'medium', 'high']).optional().describe('Reasoning effort level for GPT-5 models (default: medium)'),
+        max_context_tokens: z.number().int().min(2000).optional().describe('Token budget per LLM request; larger workflows are chunked by block and summarized with map-reduce (default: 100000)'),
+        output_schema: z.record(z.any()).optional().describe('JSON Schema for structured output; the validated result is returned as extraction_json'),
+        max_retries: z.number().int().min(0).max(5).optional().describe('Retries when the output does not match output_schema (default: 2)'),
       }
-    }, async ({ workflow_id, extraction_prompt, model, reasoning_effort }) => {
+    }, async ({ workflow_id, extraction_prompt, model, reasoning_effort, max_context_tokens, output_schema, max_retries }) => {
       try {
         const extractWorkflowInfoFn = extractWorkflowInfoTool(this.db);
-        const result = await extractWorkflowInfoFn(filterUndefined({ workflow_id, extraction_prompt, model, reasoning_effort }) as any);
+        const result = await extractWorkflowInfoFn(filterUndefined({ workflow_id, extraction_prompt, model, reasoning_effort, max_context_tokens, output_schema, max_retries }) as any);
         return createToolResponse(result);
       } catch (error) {
         return handleToolError(error, 'extract-workflow-info');
@@ -422,21 +1202,59 @@ class ScratchpadMCPServer {
     });
   }
 
-  private cleanup(): void {
+  private async cleanup(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
     console.error('Shutting down Scratchpad MCP Server...');
+
+    // HTTP 模式：先關閉所有 session 與連線，避免關閉資料庫時仍有請求寫入
+    if (this.httpTransport) {
+      try {
+        await this.httpTransport.close();
+      } catch (error) {
+        console.error('Failed to close HTTP transport cleanly:', error);
+      }
+    }
+
+    // 停止背景索引，等進行中的嵌入寫回資料庫後才關閉
+    await this.embeddingIndex?.stop();
+
     this.db.close();
     process.exit(0);
   }
 
   async run(): Promise<void> {
+    const config = resolveTransportConfig(process.argv.slice(2), process.env);
+
+    if (config.mode === 'http') {
+      this.httpTransport = await startHttpTransport({
+        host: config.host,
+        port: config.port,
+        path: config.path,
+        createServer: () => this.createMcpServer(),
+      });
+      console.error(`Scratchpad MCP Server running on Streamable HTTP at ${this.httpTransport.url}`);
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createMcpServer().connect(transport);
     console.error('Scratchpad MCP Server running on stdio');
   }
 }
 
-// Start the server if this file is run directly
-if (import.meta.url === `file://${process.argv[1]}`) {
+// Start the server if this file is run directly (`scratchpad-mcp-v2 sync ...` etc. run the CLI instead)
+if (import.meta.url === `file://${process.argv[1]}` && isCliCommand(process.argv.slice(2))) {
+  runCli(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      console.error('CLI failed:', error);
+      process.exit(1);
+    });
+} else if (import.meta.url === `file://${process.argv[1]}`) {
   const server = new ScratchpadMCPServer();
   server.run().catch((error) => {
     console.error('Failed to start server:', error);
@@ -0,0 +1,6 @@
+/**
+ * Database sync module exports
+ */
+export * from './types.js';
+export { planSync, type PlanSyncOptions } from './plan.js';
+export { loadDatabaseState, syncDatabases } from './sync.js';
@@ -0,0 +1,264 @@
+/**
+ * Sync planning: compare two database states record by record and decide what to write where
+ *
+ * 規則：
+ * - 只存在一方：若另一方的垃圾桶在該項目最後修改之後刪除過它，刪除此方的副本；否則複製到另一方
+ * - 兩方都有但內容不同：自上次同步後只有一方修改時，該方勝出；兩方都修改（或從未同步過）時，
+ *   updated_at 較新者勝出（相同時依 version，再相同則 local 優先），落敗版本另存為 conflict copy
+ * - workflow 欄位（名稱、說明、狀態、範圍、標籤、metadata）同樣以 last-writer-wins 合併，不產生 conflict copy
+ */
+import { randomUUID } from 'crypto';
+import type { Scratchpad, Workflow } from '../database/types.js';
+import type { DatabaseState, SidePlan, SyncChange, SyncPlan, SyncSide } from './types.js';
+
+export interface PlanSyncOptions {
+  /** Unix timestamp of the previous sync (null on first sync) */
+  last_synced_at: number | null;
+  local_label: string;
+  remote_label: string;
+  now: Date;
+}
+
+const otherSide = (side: SyncSide): SyncSide => (side === 'local' ? 'remote' : 'local');
+
+/**
+ * 鍵排序後序列化，避免 metadata 鍵順序不同被視為修改
+ */
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  return `{${Object.keys(value)
+    .sort()
+    .map(
+      (key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+    )
+    .join(',')}}`;
+};
+
+const sameWorkflow = (a: Workflow, b: Workflow): boolean =>
+  a.name === b.name &&
+  a.description === b.description &&
+  a.is_active === b.is_active &&
+  a.project_scope === b.project_scope &&
+  a.tags.join(' ') === b.tags.join(' ') &&
+  stableStringify(a.metadata) === stableStringify(b.metadata);
+
+const sameScratchpad = (a: Scratchpad, b: Scratchpad): boolean =>
+  a.workflow_id === b.workflow_id &&
+  a.title === b.title &&
+  a.content === b.content &&
+  a.tags.join(' ') === b.tags.join(' ') &&
+  stableStringify(a.metadata) === stableStringify(b.metadata);
+
+/**
+ * Last-writer-wins: newer updated_at, then higher version, then local
+ */
+const newerSide = (
+  local: { updated_at: number; version?: number },
+  remote: { updated_at: number; version?: number }
+): SyncSide => {
+  if (local.updated_at !== remote.updated_at) {
+    return local.updated_at > remote.updated_at ? 'local' : 'remote';
+  }
+  return (remote.version ?? 0) > (local.version ?? 0) ? 'remote' : 'local';
+};
+
+const emptySidePlan = (): SidePlan => ({
+  delete_workflows: [],
+  delete_scratchpads: [],
+  upserts: new Map(),
+});
+
+const formatConflictTime = (date: Date): string =>
+  date.toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * Plan a two-way sync between two database states
+ */
+export const planSync = (
+  states: Record<SyncSide, DatabaseState>,
+  options: PlanSyncOptions
+): SyncPlan => {
+  const plans: Record<SyncSide, SidePlan> = { local: emptySidePlan(), remote: emptySidePlan() };
+  const changes: SyncChange[] = [];
+  const labels: Record<SyncSide, string> = {
+    local: options.local_label,
+    remote: options.remote_label,
+  };
+  // updated_at 只有秒級精度：與上次同步同一秒的修改也視為已修改，寧可多產生 conflict copy 也不遺漏
+  const changedSinceSync = (item: { updated_at: number }): boolean =>
+    options.last_synced_at === null || item.updated_at >= options.last_synced_at;
+  // 只有一方在上次同步後修改時該方勝出，否則比較新舊
+  const pickWinner = (
+    local: { updated_at: number; version?: number },
+    remote: { updated_at: number; version?: number }
+  ): SyncSide => {
+    if (changedSinceSync(local) !== changedSinceSync(remote)) {
+      return changedSinceSync(local) ? 'local' : 'remote';
+    }
+    return newerSide(local, remote);
+  };
+
+  // 同步後兩方共同的 workflow 欄位；被刪除的 workflow 不在其中
+  const merged = new Map<string, Workflow>();
+  const deletedWorkflows = new Set<string>();
+
+  const upsert = (side: SyncSide, workflowId: string, scratchpad?: Scratchpad): void => {
+    let entry = plans[side].upserts.get(workflowId);
+    if (!entry) {
+      entry = { workflow: merged.get(workflowId)!, scratchpads: [] };
+      plans[side].upserts.set(workflowId, entry);
+    }
+    if (scratchpad) {
+      entry.scratchpads.push(scratchpad);
+    }
+  };
+
+  const workflowIds = new Set([
+    ...states.local.workflows.keys(),
+    ...states.remote.workflows.keys(),
+  ]);
+  for (const id of workflowIds) {
+    const local = states.local.workflows.get(id);
+    const remote = states.remote.workflows.get(id);
+
+    if (local && remote) {
+      const winner = sameWorkflow(local, remote) ? 'local' : pickWinner(local, remote);
+      merged.set(id, winner === 'local' ? local : remote);
+      if (!sameWorkflow(local, remote)) {
+        const target = otherSide(winner);
+        upsert(target, id);
+        changes.push({
+          entity: 'workflow',
+          id,
+          title: merged.get(id)!.name,
+          workflow_id: id,
+          action: 'updated',
+          target,
+        });
+      }
+      continue;
+    }
+
+    const side: SyncSide = local ? 'local' : 'remote';
+    const workflow = (local ?? remote)!;
+    const deletedAt = states[otherSide(side)].trash.get(`workflow:${id}`);
+    if (deletedAt !== undefined && deletedAt >= workflow.updated_at) {
+      deletedWorkflows.add(id);
+      plans[side].delete_workflows.push(id);
+      changes.push({
+        entity: 'workflow',
+        id,
+        title: workflow.name,
+        workflow_id: id,
+        action: 'deleted',
+        target: side,
+      });
+      continue;
+    }
+
+    merged.set(id, workflow);
+    upsert(otherSide(side), id);
+    changes.push({
+      entity: 'workflow',
+      id,
+      title: workflow.name,
+      workflow_id: id,
+      action: 'created',
+      target: otherSide(side),
+    });
+  }
+
+  const scratchpadIds = new Set([
+    ...states.local.scratchpads.keys(),
+    ...states.remote.scratchpads.keys(),
+  ]);
+  for (const id of scratchpadIds) {
+    const local = states.local.scratchpads.get(id);
+    const remote = states.remote.scratchpads.get(id);
+
+    if (local && remote) {
+      if (sameScratchpad(local, remote)) {
+        continue;
+      }
+      const bothChanged = changedSinceSync(local) && changedSinceSync(remote);
+      const winner = pickWinner(local, remote);
+      const target = otherSide(winner);
+      const winning = winner === 'local' ? local : remote;
+      const losing = winner === 'local' ? remote : local;
+      if (!merged.has(winning.workflow_id)) {
+        continue; // 勝出版本所在的 workflow 正被刪除
+      }
+      upsert(target, winning.workflow_id, winning);
+
+      if (!bothChanged) {
+        changes.push({
+          entity: 'scratchpad',
+          id,
+          title: winning.title,
+          workflow_id: winning.workflow_id,
+          action: 'updated',
+          target,
+        });
+        continue;
+      }
+
+      // 落敗版本以新 ID 另存到兩方，內容與時間戳相同，下次同步視為一致
+      const conflictCopy: Scratchpad = {
+        ...losing,
+        id: randomUUID(),
+        workflow_id: winning.workflow_id,
+        title: `${losing.title} (conflicted copy, ${labels[target]} ${formatConflictTime(options.now)})`,
+        version: 1,
+        metadata: { ...losing.metadata, sync_conflict_of: id },
+      };
+      upsert('local', winning.workflow_id, conflictCopy);
+      upsert('remote', winning.workflow_id, conflictCopy);
+      changes.push({
+        entity: 'scratchpad',
+        id,
+        title: winning.title,
+        workflow_id: winning.workflow_id,
+        action: 'conflict',
+        target,
+        conflict_copy_id: conflictCopy.id,
+      });
+      continue;
+    }
+
+    const side: SyncSide = local ? 'local' : 'remote';
+    const scratchpad = (local ?? remote)!;
+    if (deletedWorkflows.has(scratchpad.workflow_id)) {
+      continue; // 隨 workflow 一併刪除
+    }
+    const deletedAt = states[otherSide(side)].trash.get(`scratchpad:${id}`);
+    if (deletedAt !== undefined && deletedAt >= scratchpad.updated_at) {
+      plans[side].delete_scratchpads.push(id);
+      changes.push({
+        entity: 'scratchpad',
+        id,
+        title: scratchpad.title,
+        workflow_id: scratchpad.workflow_id,
+        action: 'deleted',
+        target: side,
+      });
+      continue;
+    }
+
+    upsert(otherSide(side), scratchpad.workflow_id, scratchpad);
+    changes.push({
+      entity: 'scratchpad',
+      id,
+      title: scratchpad.title,
+      workflow_id: scratchpad.workflow_id,
+      action: 'created',
+      target: otherSide(side),
+    });
+  }
+
+  return { local: plans.local, remote: plans.remote, changes };
+};
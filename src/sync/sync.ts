@@ -0,0 +1,103 @@
+/**
+ * Two-way sync between two scratchpad databases (e.g. the local database and a copy in a cloud folder)
+ *
+ * 與複製整個資料庫檔案不同，逐筆合併兩方的 workflow 與 scratchpad，不會覆蓋另一台機器的並行修改。
+ * 寫入透過 importWorkflow（overwrite）與一般刪除流程完成，修訂歷史、FTS5 索引與變更通知皆照常更新。
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import type { Scratchpad } from '../database/types.js';
+import { planSync } from './plan.js';
+import type { DatabaseState, SidePlan, SyncOptions, SyncReport } from './types.js';
+
+/**
+ * Load all workflows, scratchpads and trash entries of a database
+ */
+export const loadDatabaseState = (db: ScratchpadDatabase): DatabaseState => {
+  const workflows = new Map(db.getWorkflows().map((workflow) => [workflow.id, workflow]));
+
+  const scratchpads = new Map<string, Scratchpad>();
+  for (const workflowId of workflows.keys()) {
+    for (const scratchpad of db.listAllScratchpads(workflowId)) {
+      scratchpads.set(scratchpad.id, scratchpad);
+    }
+  }
+
+  const trash = new Map<string, number>();
+  for (const entry of db.listTrash()) {
+    const key = `${entry.item_type}:${entry.item_id}`;
+    trash.set(key, Math.max(trash.get(key) ?? 0, entry.deleted_at));
+  }
+
+  return { workflows, scratchpads, trash };
+};
+
+/**
+ * 依序執行刪除與寫入；每個 workflow 的寫入是一個 transaction
+ */
+const applySidePlan = (db: ScratchpadDatabase, plan: SidePlan): void => {
+  for (const id of plan.delete_scratchpads) {
+    db.deleteScratchpad(id, { allow_inactive: true });
+  }
+  for (const id of plan.delete_workflows) {
+    db.deleteWorkflow(id);
+  }
+  for (const snapshot of plan.upserts.values()) {
+    db.importWorkflow(snapshot, { policy: 'overwrite', operation: 'sync' });
+  }
+};
+
+/**
+ * Merge two databases so both end up with the same workflows and scratchpads
+ *
+ * 兩方都記錄本次同步時間，下次同步據此判斷哪一方在期間修改過；
+ * 中途失敗時已完成的寫入會保留，但不記錄同步時間，重新執行即可完成剩餘部分
+ *
+ * @throws Error 兩個連線指向同一個資料庫，或寫入失敗時
+ */
+export const syncDatabases = (
+  local: ScratchpadDatabase,
+  remote: ScratchpadDatabase,
+  options: SyncOptions = {}
+): SyncReport => {
+  const localId = local.getDatabaseId();
+  const remoteId = remote.getDatabaseId();
+  if (localId === remoteId) {
+    throw new Error('Cannot sync a database with itself');
+  }
+
+  const now = options.now ?? new Date();
+  const syncedAt = Math.floor(now.getTime() / 1000);
+  const lastSyncedAt = local.getLastSyncedAt(remoteId) ?? remote.getLastSyncedAt(localId);
+
+  const plan = planSync(
+    { local: loadDatabaseState(local), remote: loadDatabaseState(remote) },
+    {
+      last_synced_at: lastSyncedAt,
+      local_label: options.local_label ?? 'local',
+      remote_label: options.remote_label ?? 'remote',
+      now,
+    }
+  );
+
+  const dryRun = options.dry_run ?? false;
+  if (!dryRun) {
+    applySidePlan(local, plan.local);
+    applySidePlan(remote, plan.remote);
+    local.recordSync(remoteId, syncedAt);
+    remote.recordSync(localId, syncedAt);
+  }
+
+  return {
+    local_id: localId,
+    remote_id: remoteId,
+    last_synced_at: lastSyncedAt,
+    synced_at: syncedAt,
+    dry_run: dryRun,
+    changes: plan.changes,
+    counts: {
+      to_local: plan.changes.filter((change) => change.target === 'local').length,
+      to_remote: plan.changes.filter((change) => change.target === 'remote').length,
+      conflicts: plan.changes.filter((change) => change.action === 'conflict').length,
+    },
+  };
+};
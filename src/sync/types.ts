@@ -0,0 +1,78 @@
+/**
+ * Database sync types
+ */
+import type { Scratchpad, Workflow } from '../database/types.js';
+
+/** Which of the two databases a change was written to */
+export type SyncSide = 'local' | 'remote';
+
+/**
+ * - created：對方沒有此項目，複製過去
+ * - updated：以較新的一方（last-writer-wins）覆寫較舊的一方
+ * - deleted：對方已將其移至垃圾桶，刪除此方的副本
+ * - conflict：兩方自上次同步後都有修改；較新者勝出，落敗版本另存為 conflict copy
+ */
+export type SyncAction = 'created' | 'updated' | 'deleted' | 'conflict';
+
+export interface SyncChange {
+  entity: 'workflow' | 'scratchpad';
+  id: string;
+  /** Workflow name or scratchpad title */
+  title: string;
+  workflow_id: string;
+  action: SyncAction;
+  /** Database that was written */
+  target: SyncSide;
+  /** ID of the conflict copy holding the losing version (conflict only) */
+  conflict_copy_id?: string;
+}
+
+export interface SyncOptions {
+  /** Plan and report without writing either database */
+  dry_run?: boolean;
+  /** Labels used in conflict copy titles (default: 'local' / 'remote') */
+  local_label?: string;
+  remote_label?: string;
+  now?: Date;
+}
+
+export interface SyncReport {
+  local_id: string;
+  remote_id: string;
+  /** Unix timestamp of the previous sync between the two databases (null on first sync) */
+  last_synced_at: number | null;
+  synced_at: number;
+  dry_run: boolean;
+  changes: SyncChange[];
+  counts: {
+    to_local: number;
+    to_remote: number;
+    conflicts: number;
+  };
+}
+
+/**
+ * Everything sync needs to know about one database
+ */
+export interface DatabaseState {
+  workflows: Map<string, Workflow>;
+  scratchpads: Map<string, Scratchpad>;
+  /** Latest deletion time per trashed item, keyed by `${item_type}:${item_id}` */
+  trash: Map<string, number>;
+}
+
+/**
+ * Writes to perform on one database
+ */
+export interface SidePlan {
+  delete_workflows: string[];
+  delete_scratchpads: string[];
+  /** Workflow ID -> workflow fields to write and scratchpads to create or overwrite */
+  upserts: Map<string, { workflow: Workflow; scratchpads: Scratchpad[] }>;
+}
+
+export interface SyncPlan {
+  local: SidePlan;
+  remote: SidePlan;
+  changes: SyncChange[];
+}
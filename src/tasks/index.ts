@@ -0,0 +1,11 @@
+/**
+ * Task tracking module exports
+ */
+export * from './types.js';
+export {
+  parseTasks,
+  parseTaskLine,
+  setTaskLineCompleted,
+  formatTaskLine,
+  summarizeTaskProgress,
+} from './parser.js';
@@ -0,0 +1,144 @@
+/**
+ * Checklist parsing: GitHub-style task list items in scratchpad content
+ *
+ * 支援 `-`、`*`、`+` 與有序清單（`1.`）開頭的 `[ ]` / `[x]` 項目；
+ * fenced code block（``` 或 ~~~）內的內容不視為任務
+ */
+import { BlockParser } from '../utils/BlockParser.js';
+import type { ParsedTask, Task, TaskCounts, TaskProgress } from './types.js';
+
+const TASK_PATTERN = /^(\s*)(?:[-*+]|\d+[.)]) \[([ xX])\](?: (.*))?$/;
+const HEADER_PATTERN = /^#{1,6}\s+\S/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * 以縮排計算巢狀深度（tab 視為 4 個空白，每 2 個空白一層）
+ */
+const depthOf = (indent: string): number => Math.floor(indent.replace(/\t/g, '    ').length / 2);
+
+/**
+ * 每一行所屬 block 的 ID（1-based 行號 → block ID）
+ */
+const blockIdsByLine = (content: string): Array<string | null> => {
+  const ids: Array<string | null> = [null];
+  for (const block of BlockParser.parseBlocks(content)) {
+    const startLine = content.slice(0, block.startPosition).split('\n').length;
+    const lineCount = block.content.split('\n').length;
+    for (let line = startLine; line < startLine + lineCount; line++) {
+      ids[line] = block.id ?? null;
+    }
+  }
+  return ids;
+};
+
+/**
+ * Parse the checkbox of a single line, or null when the line is not a task item
+ */
+export const parseTaskLine = (
+  line: string
+): { text: string; completed: boolean; depth: number } | null => {
+  const match = TASK_PATTERN.exec(line);
+  if (!match) {
+    return null;
+  }
+  return {
+    text: (match[3] ?? '').trim(),
+    completed: match[2] !== ' ',
+    depth: depthOf(match[1]!),
+  };
+};
+
+/**
+ * Flip the checkbox of a task line, keeping everything else on the line
+ *
+ * @throws Error 該行不是任務項目時
+ */
+export const setTaskLineCompleted = (line: string, completed: boolean): string => {
+  if (!parseTaskLine(line)) {
+    throw new Error(`Not a task line: ${JSON.stringify(line)}`);
+  }
+  return line.replace(/\[[ xX]\]/, completed ? '[x]' : '[ ]');
+};
+
+/**
+ * Format a new open task line
+ */
+export const formatTaskLine = (text: string): string => {
+  const trimmed = text.trim();
+  if (trimmed === '' || /[\r\n]/.test(trimmed)) {
+    throw new Error('Task text must be a single non-empty line');
+  }
+  return `- [ ] ${trimmed}`;
+};
+
+/**
+ * Parse all task items of a scratchpad content
+ */
+export const parseTasks = (content: string): ParsedTask[] => {
+  if (content === '') {
+    return [];
+  }
+
+  const lines = content.split('\n');
+  const blockIds = blockIdsByLine(content);
+  const tasks: ParsedTask[] = [];
+  let section: string | null = null;
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      // 只有相同的圍欄符號才會關閉 code block
+      fence = fence === null ? fenceMatch[1]! : fence === fenceMatch[1] ? null : fence;
+      return;
+    }
+    if (fence !== null) {
+      return;
+    }
+    if (HEADER_PATTERN.test(line)) {
+      section = line.trim();
+      return;
+    }
+
+    const task = parseTaskLine(line);
+    if (task) {
+      tasks.push({
+        line: index + 1,
+        ...task,
+        section,
+        block_id: blockIds[index + 1] ?? null,
+      });
+    }
+  });
+
+  return tasks;
+};
+
+const countTasks = (tasks: Array<{ completed: boolean }>): TaskCounts => {
+  const completed = tasks.filter((task) => task.completed).length;
+  return {
+    total: tasks.length,
+    completed,
+    open: tasks.length - completed,
+    percent_complete: tasks.length === 0 ? 0 : Math.round((completed / tasks.length) * 100),
+  };
+};
+
+/**
+ * Summarize progress over the tasks of a workflow, per scratchpad in order of first appearance
+ */
+export const summarizeTaskProgress = (tasks: Task[]): TaskProgress => {
+  const byScratchpad = new Map<string, Task[]>();
+  for (const task of tasks) {
+    byScratchpad.set(task.scratchpad_id, [...(byScratchpad.get(task.scratchpad_id) ?? []), task]);
+  }
+
+  return {
+    ...countTasks(tasks),
+    scratchpads: [...byScratchpad.values()].map((group) => ({
+      scratchpad_id: group[0]!.scratchpad_id,
+      scratchpad_title: group[0]!.scratchpad_title,
+      ...countTasks(group),
+    })),
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * Task tracking types
+ */
+
+/**
+ * A GitHub-style checkbox line (`- [ ] text` / `- [x] text`) found in scratchpad content
+ */
+export interface ParsedTask {
+  /** 1-based line number in the scratchpad content */
+  line: number;
+  text: string;
+  completed: boolean;
+  /** Nesting depth (0 = top-level item, based on leading indentation) */
+  depth: number;
+  /** Nearest markdown header above the task (e.g. "## Backlog"), null when there is none */
+  section: string | null;
+  /** Stable ID of the block containing the task (null for blocks without an ID) */
+  block_id: string | null;
+}
+
+/**
+ * Parsed task anchored to its scratchpad
+ */
+export interface Task extends ParsedTask {
+  /** `${scratchpad_id}:${line}`; changes when lines above the task are inserted or removed */
+  task_id: string;
+  scratchpad_id: string;
+  scratchpad_title: string;
+  workflow_id: string;
+}
+
+export interface TaskCounts {
+  total: number;
+  completed: number;
+  open: number;
+  /** Completed share in percent, rounded (0 when there are no tasks) */
+  percent_complete: number;
+}
+
+/**
+ * Per-workflow progress summary with a breakdown per scratchpad
+ */
+export interface TaskProgress extends TaskCounts {
+  scratchpads: Array<
+    TaskCounts & {
+      scratchpad_id: string;
+      scratchpad_title: string;
+    }
+  >;
+}
@@ -0,0 +1,206 @@
+/**
+ * TemplateRegistry - 合併資料庫、模板目錄與內建模板
+ *
+ * 目錄模板每次查詢時重新讀取，修改檔案後不需重啟伺服器。
+ * 檔案可用 front matter 提供描述：
+ *
+ *   ---
+ *   description: Plan / Findings / Decisions / TODO
+ *   ---
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ScratchpadDatabase, StoredTemplate } from '../database/index.js';
+import { FrontMatter } from '../utils/FrontMatter.js';
+import { BUILTIN_TEMPLATES } from './builtin.js';
+import { extractTemplateVariables, renderTemplate } from './render.js';
+import type {
+  ScratchpadTemplate,
+  SaveTemplateOptions,
+  TemplateContext,
+  TemplateRegistryOptions,
+  TemplateSource,
+} from './types.js';
+
+const TEMPLATE_FILE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+export class TemplateRegistry {
+  static readonly MAX_NAME_LENGTH = 64;
+  private static readonly NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+  constructor(
+    private readonly db: ScratchpadDatabase,
+    private readonly options: TemplateRegistryOptions = {}
+  ) {}
+
+  get directory(): string | undefined {
+    return this.options.directory;
+  }
+
+  /**
+   * 正規化模板名稱（去除空白、轉小寫）
+   *
+   * @throws Error 名稱為空、過長或含不允許的字元時
+   */
+  static normalizeName(name: string): string {
+    const normalized = name.trim().toLowerCase();
+    if (normalized.length === 0 || normalized.length > TemplateRegistry.MAX_NAME_LENGTH) {
+      throw new Error(
+        `Invalid template name: "${name}" (1-${TemplateRegistry.MAX_NAME_LENGTH} characters)`
+      );
+    }
+    if (!TemplateRegistry.NAME_PATTERN.test(normalized)) {
+      throw new Error(
+        `Invalid template name: "${name}" (use lowercase letters, digits, _ and -; start with a letter or digit)`
+      );
+    }
+    return normalized;
+  }
+
+  /**
+   * List all templates (sorted by name); higher-priority sources hide same-name templates
+   */
+  list(): ScratchpadTemplate[] {
+    const templates = new Map<string, ScratchpadTemplate>();
+    for (const template of [
+      ...this.loadBuiltin(),
+      ...this.loadDirectory(),
+      ...this.db.listTemplates().map((row) => this.fromStored(row)),
+    ]) {
+      templates.set(template.name, template);
+    }
+    return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a template by name (database > directory > builtin)
+   */
+  get(name: string): ScratchpadTemplate | null {
+    const normalized = TemplateRegistry.normalizeName(name);
+    const stored = this.db.getTemplate(normalized);
+    if (stored) {
+      return this.fromStored(stored);
+    }
+    return (
+      this.loadDirectory().find((template) => template.name === normalized) ??
+      this.loadBuiltin().find((template) => template.name === normalized) ??
+      null
+    );
+  }
+
+  /**
+   * Save a template to the database
+   *
+   * 同名模板（任何來源）已存在時需 overwrite；覆寫目錄或內建模板只會在資料庫新增一份優先的版本
+   */
+  save(options: SaveTemplateOptions): {
+    template: ScratchpadTemplate;
+    replaced: TemplateSource | null;
+  } {
+    const name = TemplateRegistry.normalizeName(options.name);
+    if (options.content.trim().length === 0) {
+      throw new Error('Template content cannot be empty');
+    }
+
+    const existing = this.get(name);
+    if (existing && !options.overwrite) {
+      throw new Error(
+        `Template already exists: ${name} (${existing.source}; set overwrite: true to replace it)`
+      );
+    }
+
+    const stored = this.db.saveTemplate({
+      name,
+      content: options.content,
+      description: options.description ?? existing?.description ?? '',
+    });
+    return { template: this.fromStored(stored), replaced: existing?.source ?? null };
+  }
+
+  /**
+   * Render a template by name
+   *
+   * @throws Error 模板不存在或缺少變數時
+   */
+  render(
+    name: string,
+    context: TemplateContext = {}
+  ): { template: ScratchpadTemplate; content: string } {
+    const template = this.get(name);
+    if (!template) {
+      const available = this.list().map((candidate) => candidate.name);
+      throw new Error(`Template not found: ${name} (available: ${available.join(', ') || 'none'})`);
+    }
+    return { template, content: renderTemplate(template.content, context) };
+  }
+
+  /**
+   * front matter 的描述可加引號（"..."）也可直接書寫
+   */
+  private static describe(raw: string | undefined): string {
+    if (raw === undefined) {
+      return '';
+    }
+    const decoded = FrontMatter.decode(raw);
+    return typeof decoded === 'string' ? decoded : raw;
+  }
+
+  private fromStored(row: StoredTemplate): ScratchpadTemplate {
+    return {
+      name: row.name,
+      description: row.description,
+      content: row.content,
+      source: 'database',
+      variables: extractTemplateVariables(row.content),
+      updated_at: row.updated_at,
+    };
+  }
+
+  private loadBuiltin(): ScratchpadTemplate[] {
+    return BUILTIN_TEMPLATES.map((template) => ({
+      ...template,
+      source: 'builtin' as const,
+      variables: extractTemplateVariables(template.content),
+    }));
+  }
+
+  /**
+   * 讀取模板目錄；目錄不存在時回傳空陣列，無法讀取或名稱不合法的檔案會略過
+   */
+  private loadDirectory(): ScratchpadTemplate[] {
+    const directory = this.options.directory;
+    if (!directory || !fs.existsSync(directory)) {
+      return [];
+    }
+
+    const templates: ScratchpadTemplate[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const extension = path.extname(entry.name).toLowerCase();
+      if (!entry.isFile() || !TEMPLATE_FILE_EXTENSIONS.includes(extension)) {
+        continue;
+      }
+
+      try {
+        const name = TemplateRegistry.normalizeName(
+          path.basename(entry.name, path.extname(entry.name))
+        );
+        const { fields, body } = FrontMatter.parse(
+          fs.readFileSync(path.join(directory, entry.name), 'utf8')
+        );
+        templates.push({
+          name,
+          description: TemplateRegistry.describe(fields['description']),
+          content: body,
+          source: 'directory',
+          variables: extractTemplateVariables(body),
+        });
+      } catch (error) {
+        console.error(
+          `Skipping template file ${entry.name}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    return templates;
+  }
+}
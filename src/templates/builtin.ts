@@ -0,0 +1,42 @@
+/**
+ * Built-in scratchpad templates (always available; a saved or directory template with the same name overrides them)
+ */
+
+export const BUILTIN_TEMPLATES: ReadonlyArray<{
+  name: string;
+  description: string;
+  content: string;
+}> = [
+  {
+    name: 'planning',
+    description: 'Plan / Findings / Decisions / TODO layout for a new task',
+    content: `# {{title}}
+
+> Workflow: {{workflow.name}} · Created: {{date}}
+
+## Plan
+
+## Findings
+
+## Decisions
+
+## TODO
+`,
+  },
+  {
+    name: 'handoff',
+    description: 'Context, current state and next steps for handing work to another agent',
+    content: `# {{title}}
+
+> Workflow: {{workflow.name}} · Handoff: {{datetime}}
+
+## Context
+
+## Current State
+
+## Open Questions
+
+## Next Steps
+`,
+  },
+];
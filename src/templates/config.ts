@@ -0,0 +1,19 @@
+/**
+ * Template registry setup from environment variables
+ */
+import * as path from 'path';
+import type { ScratchpadDatabase } from '../database/index.js';
+import { TemplateRegistry } from './TemplateRegistry.js';
+
+/**
+ * SCRATCHPAD_TEMPLATES_DIR: directory of template files（未設定時只有資料庫與內建模板）
+ */
+export const resolveTemplatesDirectory = (env: NodeJS.ProcessEnv): string | undefined => {
+  const directory = env['SCRATCHPAD_TEMPLATES_DIR']?.trim();
+  return directory ? path.resolve(directory) : undefined;
+};
+
+export const createTemplateRegistryFromEnv = (
+  db: ScratchpadDatabase,
+  env: NodeJS.ProcessEnv = process.env
+): TemplateRegistry => new TemplateRegistry(db, { directory: resolveTemplatesDirectory(env) });
@@ -0,0 +1,8 @@
+/**
+ * Scratchpad template module exports
+ */
+export * from './types.js';
+export * from './config.js';
+export { TemplateRegistry } from './TemplateRegistry.js';
+export { renderTemplate, extractTemplateVariables, BUILTIN_TEMPLATE_VARIABLES } from './render.js';
+export { BUILTIN_TEMPLATES } from './builtin.js';
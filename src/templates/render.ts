@@ -0,0 +1,83 @@
+/**
+ * Template placeholder substitution
+ *
+ * 語法：`{{name}}`（允許內側空白），名稱可含字母、數字、`_ - .`
+ * 內建變數：date / time / datetime（UTC）、title、workflow.id / workflow.name /
+ * workflow.description / workflow.project_scope；自訂變數可覆寫內建變數
+ */
+import type { TemplateContext } from './types.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export const BUILTIN_TEMPLATE_VARIABLES: readonly string[] = [
+  'date',
+  'time',
+  'datetime',
+  'title',
+  'workflow.id',
+  'workflow.name',
+  'workflow.description',
+  'workflow.project_scope',
+];
+
+const builtinValues = (context: TemplateContext): Map<string, string> => {
+  const now = context.now ?? new Date();
+  const iso = now.toISOString();
+  const values = new Map<string, string>([
+    ['date', iso.slice(0, 10)],
+    ['time', iso.slice(11, 16)],
+    ['datetime', `${iso.slice(0, 19)}Z`],
+  ]);
+
+  if (context.title !== undefined) {
+    values.set('title', context.title);
+  }
+  if (context.workflow) {
+    values.set('workflow.id', context.workflow.id);
+    values.set('workflow.name', context.workflow.name);
+    values.set('workflow.description', context.workflow.description ?? '');
+    values.set('workflow.project_scope', context.workflow.project_scope ?? '');
+  }
+  return values;
+};
+
+/**
+ * List custom placeholder names of a template (built-in variables excluded), in order of appearance
+ */
+export const extractTemplateVariables = (content: string): string[] => {
+  const names = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1]!;
+    if (!BUILTIN_TEMPLATE_VARIABLES.includes(name)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+};
+
+/**
+ * Substitute all placeholders of a template
+ *
+ * @throws Error 有未提供值的變數時（一次列出全部缺少的變數）
+ */
+export const renderTemplate = (content: string, context: TemplateContext = {}): string => {
+  const values = builtinValues(context);
+  for (const [name, value] of Object.entries(context.variables ?? {})) {
+    values.set(name, String(value));
+  }
+
+  const missing = new Set<string>();
+  const rendered = content.replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string) => {
+    const value = values.get(name);
+    if (value === undefined) {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  if (missing.size > 0) {
+    throw new Error(`Missing template variables: ${[...missing].join(', ')}`);
+  }
+  return rendered;
+};
@@ -0,0 +1,43 @@
+/**
+ * Scratchpad template types
+ */
+import type { Workflow } from '../database/types.js';
+
+/**
+ * 模板來源；同名時優先順序為 database > directory > builtin
+ */
+export type TemplateSource = 'database' | 'directory' | 'builtin';
+
+export interface ScratchpadTemplate {
+  name: string;
+  description: string;
+  content: string;
+  source: TemplateSource;
+  /** 自訂變數名稱（不含 {{date}}、{{workflow.name}} 等內建變數），依出現順序 */
+  variables: string[];
+  updated_at?: number; // Unix timestamp（僅 database 模板）
+}
+
+export type TemplateVariableValue = string | number | boolean;
+
+/**
+ * Values available to placeholders when rendering a template
+ */
+export interface TemplateContext {
+  title?: string | undefined;
+  workflow?: Pick<Workflow, 'id' | 'name' | 'description' | 'project_scope'> | undefined;
+  variables?: Record<string, TemplateVariableValue> | undefined;
+  now?: Date | undefined;
+}
+
+export interface TemplateRegistryOptions {
+  /** 模板目錄（*.md / *.markdown / *.txt，檔名即模板名稱） */
+  directory?: string | undefined;
+}
+
+export interface SaveTemplateOptions {
+  name: string;
+  content: string;
+  description?: string | undefined;
+  overwrite?: boolean | undefined;
+}
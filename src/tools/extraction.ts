@@ -1,9 +1,17 @@
 /**
- * GPT-5 Workflow Extraction Tool
- * Extracts specific information from workflows using OpenAI's GPT models
+ * Workflow Extraction Tool
+ * Extracts specific information from workflows using the configured LLM provider
  */
-import OpenAI from 'openai';
 import type { ScratchpadDatabase } from '../database/index.js';
+import {
+  createLLMProviderFromEnv,
+  LLMConfigurationError,
+  type LLMProvider,
+  type LLMCompletionRequest,
+} from '../llm/index.js';
+import { BlockParser } from '../utils/BlockParser.js';
+import { TokenCounter } from '../utils/TokenCounter.js';
+import { StructuredOutput, type StructuredOutputValidator } from '../utils/StructuredOutput.js';
 import type { Scratchpad } from '../database/types.js';
 import type { ToolHandler, ExtractWorkflowInfoArgs, ExtractWorkflowInfoResult } from './types.js';
 
@@ -14,6 +22,25 @@ const formatTimestamp = (unixTimestamp: number): string => {
   return new Date(unixTimestamp * 1000).toISOString();
 };
 
+/**
+ * Render the metadata header of a scratchpad section
+ */
+const renderScratchpadHeader = (scratchpad: Scratchpad, index: number, partLabel = ''): string => {
+  let header = `--- Scratchpad ${index + 1}: ${scratchpad.title}${partLabel} ---\n`;
+  header += `Created: ${formatTimestamp(scratchpad.created_at)}\n`;
+  header += `Last Updated: ${formatTimestamp(scratchpad.updated_at)}\n`;
+  header += `Size: ${scratchpad.size_bytes} bytes (append-based growth)\n`;
+
+  // Calculate time since creation to indicate append activity
+  const daysSinceCreation = Math.floor(
+    (scratchpad.updated_at - scratchpad.created_at) / (24 * 60 * 60)
+  );
+  if (daysSinceCreation > 0) {
+    header += `Active Duration: ${daysSinceCreation} day(s) of append activity\n`;
+  }
+  return header;
+};
+
 /**
  * Combine all scratchpad content into a structured context string optimized for append-based workflows
  */
@@ -28,19 +55,7 @@ const buildWorkflowContext = (scratchpads: Scratchpad[]): string => {
   let context = `Workflow contains ${scratchpads.length} scratchpad(s) arranged chronologically by last update:\n\n`;
 
   sortedScratchpads.forEach((scratchpad, index) => {
-    context += `--- Scratchpad ${index + 1}: ${scratchpad.title} ---\n`;
-    context += `Created: ${formatTimestamp(scratchpad.created_at)}\n`;
-    context += `Last Updated: ${formatTimestamp(scratchpad.updated_at)}\n`;
-    context += `Size: ${scratchpad.size_bytes} bytes (append-based growth)\n`;
-
-    // Calculate time since creation to indicate append activity
-    const daysSinceCreation = Math.floor(
-      (scratchpad.updated_at - scratchpad.created_at) / (24 * 60 * 60)
-    );
-    if (daysSinceCreation > 0) {
-      context += `Active Duration: ${daysSinceCreation} day(s) of append activity\n`;
-    }
-
+    context += renderScratchpadHeader(scratchpad, index);
     context += `\nContent (chronological append order, most recent at bottom):\n${scratchpad.content}\n\n`;
     context += `--- End of ${scratchpad.title} ---\n\n`;
   });
@@ -48,44 +63,22 @@ const buildWorkflowContext = (scratchpads: Scratchpad[]): string => {
   return context;
 };
 
-/**
- * Initialize OpenAI client with API key from environment
- */
-const getOpenAIClient = (): OpenAI => {
-  const apiKey = process.env['OPENAI_API_KEY'];
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
+// Default context budget; large enough for most workflows, small enough for common 128k windows
+const DEFAULT_MAX_CONTEXT_TOKENS = 100_000;
+const MIN_MAX_CONTEXT_TOKENS = 2_000;
+// 預留給 tokenizer 誤差與模型輸出的比例
+const BUDGET_SAFETY_RATIO = 0.1;
+const MAX_REDUCE_ROUNDS = 5;
+const DEFAULT_SCHEMA_RETRIES = 2;
+const MAX_SCHEMA_RETRIES = 5;
+// 重試時回饋給模型的前次輸出長度上限
+const RETRY_FEEDBACK_TOKENS = 2_000;
 
-  return new OpenAI({ apiKey });
-};
+const EXTRACTION_INSTRUCTIONS =
+  'You are an expert workflow analyzer specializing in development project analysis. Focus on extracting precise information from workflow scratchpads with comprehensive, evidence-based analysis.';
 
-/**
- * Extract workflow information using GPT model
- */
-export const extractWorkflowInfoTool = (
-  db: ScratchpadDatabase
-): ToolHandler<ExtractWorkflowInfoArgs, ExtractWorkflowInfoResult> => {
-  return async (args: ExtractWorkflowInfoArgs): Promise<ExtractWorkflowInfoResult> => {
-    try {
-      // Validate workflow exists
-      const workflow = db.getWorkflowById(args.workflow_id);
-      if (!workflow) {
-        throw new Error(`Workflow with ID ${args.workflow_id} not found`);
-      }
-
-      // Get all scratchpads for this workflow
-      const scratchpads = db.listScratchpads({ workflow_id: args.workflow_id });
-
-      // Build context from scratchpads
-      const workflowContext = buildWorkflowContext(scratchpads);
-
-      // Prepare OpenAI client and model
-      const client = getOpenAIClient();
-      const model = args.model || 'gpt-5-nano';
-
-      // Create append-aware extraction framework for Response API using GPT-5 best practices
-      const analysisFramework = `<analysis_framework>
+// Append-aware extraction framework using GPT-5 best practices
+const ANALYSIS_FRAMEWORK = `<analysis_framework>
 <core_objectives>
 - Extract precise information from append-based workflow scratchpads with zero hallucination
 - Provide comprehensive, evidence-based analysis emphasizing temporal evolution and latest status
@@ -110,18 +103,7 @@ export const extractWorkflowInfoTool = (
 </analysis_principles>
 </analysis_framework>`;
 
-      const inputText = `${analysisFramework}
-
-<workflow_analysis>
-<workflow_context>
-${workflowContext}
-</workflow_context>
-
-<extraction_request>
-${args.extraction_prompt}
-</extraction_request>
-
-<output_requirements>
+const OUTPUT_REQUIREMENTS = `<output_requirements>
 - Analyze the workflow content comprehensively with temporal awareness and extract the requested information
 - Base all analysis strictly on the provided scratchpad content above
 - Prioritize recent developments and current status over historical entries when relevant
@@ -134,46 +116,390 @@ ${args.extraction_prompt}
 - Structure your response with appropriate headings, bullet points, and clear organization
 - Support all findings with direct references to the scratchpad content and timestamps where available
 - Highlight significant status changes, decision evolutions, and implementation milestones
-</output_requirements>
+</output_requirements>`;
+
+const PARTIAL_NOTES_REQUIREMENTS = `<notes_requirements>
+- Extract only the information relevant to the extraction request, as concise notes
+- Keep scratchpad titles and timestamps for every finding; they are needed to merge the parts later
+- Preserve status markers (completed, in progress, blocked, planned) and note superseded decisions
+- If nothing relevant is present, reply exactly "No relevant information in this part"
+</notes_requirements>`;
+
+/**
+ * Structured output instructions for the final request
+ */
+const buildOutputFormat = (schema: Record<string, unknown>): string => `<output_format>
+Respond with a single JSON value that conforms to the JSON Schema below.
+Return only the JSON: no Markdown fences, headings or commentary.
+<json_schema>
+${JSON.stringify(schema, null, 2)}
+</json_schema>
+</output_format>`;
+
+/**
+ * Insert output format instructions at the end of a final-step input
+ */
+const withOutputFormat = (input: string, outputFormat: string): string =>
+  outputFormat
+    ? input.replace(/<\/workflow_analysis>$/, `${outputFormat}\n</workflow_analysis>`)
+    : input;
+
+/**
+ * Retry input: original request + previous attempt + validation errors
+ */
+const buildRetryInput = (
+  input: string,
+  previousAttempt: string,
+  errors: string[]
+): string => `${input}
+
+<previous_attempt>
+${TokenCounter.split(previousAttempt, RETRY_FEEDBACK_TOKENS)[0] ?? ''}
+</previous_attempt>
+
+<validation_errors>
+${errors.map((error) => `- ${error}`).join('\n')}
+</validation_errors>
+
+Your previous attempt did not match the JSON Schema. Return a corrected JSON value only.`;
+
+/**
+ * Single-request input: full workflow context + extraction request
+ */
+const buildExtractionInput = (
+  workflowContext: string,
+  extractionPrompt: string
+): string => `${ANALYSIS_FRAMEWORK}
+
+<workflow_analysis>
+<workflow_context>
+${workflowContext}
+</workflow_context>
+
+<extraction_request>
+${extractionPrompt}
+</extraction_request>
+
+${OUTPUT_REQUIREMENTS}
 </workflow_analysis>`;
 
-      // Use Response API with model-specific parameters and instructions
-      const apiParams: any = {
-        model: model,
-        instructions:
-          'You are an expert workflow analyzer specializing in development project analysis. Focus on extracting precise information from workflow scratchpads with comprehensive, evidence-based analysis.',
-        input: inputText,
-      };
+/**
+ * Map step input: one chunk of the workflow context
+ */
+const buildMapInput = (
+  chunk: string,
+  part: number,
+  totalParts: number,
+  extractionPrompt: string
+): string => `${ANALYSIS_FRAMEWORK}
+
+<workflow_analysis>
+<workflow_context part="${part} of ${totalParts}">
+This is part ${part} of ${totalParts} of a workflow that is too large for a single request.
+Parts are in chronological order (oldest first).
 
-      // Add model-specific parameters
-      if (model.includes('gpt-5')) {
-        // Use reasoning_effort parameter from args or default to 'medium'
-        const reasoningEffort = args.reasoning_effort || 'medium';
-        apiParams.reasoning = { effort: reasoningEffort };
+${chunk}
+</workflow_context>
+
+<extraction_request>
+${extractionPrompt}
+</extraction_request>
+
+${PARTIAL_NOTES_REQUIREMENTS}
+</workflow_analysis>`;
+
+/**
+ * Reduce step input: merge partial findings (final step produces the answer)
+ */
+const buildReduceInput = (
+  partials: string[],
+  extractionPrompt: string,
+  final: boolean
+): string => `${ANALYSIS_FRAMEWORK}
+
+<workflow_analysis>
+<partial_findings>
+The workflow was analyzed in ${partials.length} chronological part(s); later parts are more recent.
+
+${partials.map((partial, index) => `<part index="${index + 1}">\n${partial}\n</part>`).join('\n\n')}
+</partial_findings>
+
+<extraction_request>
+${extractionPrompt}
+</extraction_request>
+
+${final ? OUTPUT_REQUIREMENTS : PARTIAL_NOTES_REQUIREMENTS}
+</workflow_analysis>`;
+
+/**
+ * Resolve the context token budget (argument > SCRATCHPAD_EXTRACTION_MAX_TOKENS > default)
+ */
+const resolveTokenBudget = (maxContextTokens: number | undefined): number => {
+  const envValue = process.env['SCRATCHPAD_EXTRACTION_MAX_TOKENS'];
+  const budget = maxContextTokens ?? (envValue ? Number(envValue) : DEFAULT_MAX_CONTEXT_TOKENS);
+  if (!Number.isInteger(budget) || budget < MIN_MAX_CONTEXT_TOKENS) {
+    throw new Error(
+      `max_context_tokens must be an integer >= ${MIN_MAX_CONTEXT_TOKENS} (got ${maxContextTokens ?? envValue})`
+    );
+  }
+  return budget;
+};
+
+/**
+ * Split scratchpads into chunks of block-aligned context that fit within a token limit
+ *
+ * 以 BlockParser 的 block 為最小單位打包；單一 block 超過上限時再依行切分
+ */
+const chunkWorkflowContext = (scratchpads: Scratchpad[], maxTokens: number): string[] => {
+  const sortedScratchpads = [...scratchpads].sort((a, b) => a.updated_at - b.updated_at);
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  const flush = (): void => {
+    if (current) {
+      chunks.push(current);
+    }
+    current = '';
+    currentTokens = 0;
+  };
+
+  sortedScratchpads.forEach((scratchpad, index) => {
+    const blocks = BlockParser.parseBlocks(scratchpad.content);
+    blocks.forEach((block, blockIndex) => {
+      const header = renderScratchpadHeader(
+        scratchpad,
+        index,
+        blocks.length > 1 ? ` (block ${blockIndex + 1}/${blocks.length})` : ''
+      );
+      const footer = `\n--- End of ${scratchpad.title} block ${blockIndex + 1} ---\n\n`;
+      const wrapperTokens = TokenCounter.count(header + footer) + 1;
+
+      for (const piece of TokenCounter.split(
+        block.content,
+        Math.max(1, maxTokens - wrapperTokens)
+      )) {
+        const segment = `${header}\n${piece}${footer}`;
+        const segmentTokens = TokenCounter.count(segment);
+        if (currentTokens + segmentTokens > maxTokens) {
+          flush();
+        }
+        current += segment;
+        currentTokens += segmentTokens;
       }
+    });
+  });
+  flush();
 
-      const response = await client.responses.create(apiParams);
+  return chunks;
+};
 
-      const extractionResult = response.output_text || 'No response generated';
+/**
+ * Group texts into batches whose combined token count stays within a limit
+ */
+const batchByTokens = (texts: string[], maxTokens: number): string[][] => {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const text of texts) {
+    const tokens = TokenCounter.count(text);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+};
+
+/**
+ * Extract workflow information using an LLM
+ *
+ * provider 未指定時依環境變數解析（見 src/llm/config.ts），每次呼叫重新解析以反映設定變更。
+ * Context 超過 token 預算時改用 map-reduce：依 block 切分 → 各段摘錄 → 合併為最終結果
+ */
+export const extractWorkflowInfoTool = (
+  db: ScratchpadDatabase,
+  llmProvider?: LLMProvider
+): ToolHandler<ExtractWorkflowInfoArgs, ExtractWorkflowInfoResult> => {
+  return async (args: ExtractWorkflowInfoArgs): Promise<ExtractWorkflowInfoResult> => {
+    let provider: LLMProvider | undefined;
+    let model: string | undefined;
+    try {
+      // Validate workflow exists
+      const workflow = db.getWorkflowById(args.workflow_id);
+      if (!workflow) {
+        throw new Error(`Workflow with ID ${args.workflow_id} not found`);
+      }
+
+      const tokenBudget = resolveTokenBudget(args.max_context_tokens);
+
+      // Structured output: 先編譯 schema，不合法時在呼叫模型前就失敗
+      const maxRetries = args.max_retries ?? DEFAULT_SCHEMA_RETRIES;
+      if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_SCHEMA_RETRIES) {
+        throw new Error(`max_retries must be an integer between 0 and ${MAX_SCHEMA_RETRIES}`);
+      }
+      const validator: StructuredOutputValidator | undefined = args.output_schema
+        ? StructuredOutput.compile(args.output_schema)
+        : undefined;
+      const outputFormat = args.output_schema ? buildOutputFormat(args.output_schema) : '';
+
+      // Get all scratchpads for this workflow
+      const scratchpads = db.listScratchpads({ workflow_id: args.workflow_id });
+
+      // Resolve provider and model (per-provider default)
+      const activeProvider = llmProvider ?? createLLMProviderFromEnv();
+      const activeModel = args.model || activeProvider.defaultModel;
+      provider = activeProvider;
+      model = activeModel;
+
+      let tokensUsed = 0;
+      const complete = async (
+        input: string,
+        jsonSchema?: Record<string, unknown>
+      ): Promise<string> => {
+        const request: LLMCompletionRequest = {
+          model: activeModel,
+          instructions: EXTRACTION_INSTRUCTIONS,
+          input,
+          reasoningEffort: args.reasoning_effort,
+          jsonSchema,
+        };
+        const response = await activeProvider.complete(request);
+        tokensUsed +=
+          TokenCounter.count(request.instructions) +
+          TokenCounter.count(input) +
+          TokenCounter.count(response.text);
+        return response.text;
+      };
+
+      // Final step: free text, or JSON validated against output_schema with retries
+      let extractionJson: unknown;
+      let attempts = 0;
+      const finish = async (input: string): Promise<string> => {
+        if (!validator || !args.output_schema) {
+          return complete(input);
+        }
+
+        let attemptInput = input;
+        let lastErrors: string[] = [];
+        while (attempts <= maxRetries) {
+          attempts++;
+          const text = await complete(attemptInput, args.output_schema);
+          const result = validator(text);
+          if (result.valid) {
+            extractionJson = result.value;
+            return text;
+          }
+          lastErrors = result.errors;
+          attemptInput = buildRetryInput(input, text, result.errors);
+        }
+        throw new Error(
+          `Model output did not match output_schema after ${attempts} attempt(s): ${lastErrors.join('; ')}`
+        );
+      };
+
+      const contextBudget =
+        Math.floor(tokenBudget * (1 - BUDGET_SAFETY_RATIO)) -
+        TokenCounter.count(EXTRACTION_INSTRUCTIONS);
+
+      // Fast path: the whole workflow fits in one request
+      const singleInput = withOutputFormat(
+        buildExtractionInput(buildWorkflowContext(scratchpads), args.extraction_prompt),
+        outputFormat
+      );
+      let extractionResult: string;
+      let chunksProcessed: number;
+
+      if (TokenCounter.count(singleInput) <= contextBudget) {
+        extractionResult = await finish(singleInput);
+        chunksProcessed = 1;
+      } else {
+        // Map: 每個 chunk 可用的 token = 預算 - prompt 框架開銷
+        const mapOverhead = TokenCounter.count(buildMapInput('', 999, 999, args.extraction_prompt));
+        const chunkBudget = contextBudget - mapOverhead;
+        if (chunkBudget < MIN_MAX_CONTEXT_TOKENS / 4) {
+          throw new Error(
+            `max_context_tokens (${tokenBudget}) is too small for the extraction prompt; increase the budget or shorten the prompt`
+          );
+        }
+
+        const chunks = chunkWorkflowContext(scratchpads, chunkBudget);
+        let partials: string[] = [];
+        for (const [index, chunk] of chunks.entries()) {
+          partials.push(
+            await complete(buildMapInput(chunk, index + 1, chunks.length, args.extraction_prompt))
+          );
+        }
+        chunksProcessed = chunks.length;
+
+        // Reduce: partial findings 超過預算時分批合併，直到可一次產出最終結果
+        const reduceBudget =
+          contextBudget -
+          TokenCounter.count(
+            withOutputFormat(buildReduceInput([], args.extraction_prompt, true), outputFormat)
+          );
+        let rounds = 0;
+        while (
+          partials.reduce((sum, partial) => sum + TokenCounter.count(partial) + 8, 0) > reduceBudget
+        ) {
+          if (++rounds > MAX_REDUCE_ROUNDS) {
+            throw new Error(
+              `Partial findings still exceed the token budget after ${MAX_REDUCE_ROUNDS} reduce rounds; increase max_context_tokens or narrow the extraction prompt`
+            );
+          }
+          // 單一 partial 過大時先切半，確保每批至少可容納兩段而能逐輪收斂
+          const pieces = partials.flatMap((partial) =>
+            TokenCounter.split(partial, Math.floor(reduceBudget / 2))
+          );
+          const merged: string[] = [];
+          for (const batch of batchByTokens(pieces, reduceBudget)) {
+            merged.push(await complete(buildReduceInput(batch, args.extraction_prompt, false)));
+          }
+          partials = merged;
+        }
+
+        extractionResult = await finish(
+          withOutputFormat(buildReduceInput(partials, args.extraction_prompt, true), outputFormat)
+        );
+      }
 
       // Return structured result
+      const chunkMessage = chunksProcessed > 1 ? `, map-reduce over ${chunksProcessed} chunks` : '';
+      const schemaMessage = validator
+        ? `, JSON validated against output_schema in ${attempts} attempt(s)`
+        : '';
       return {
         workflow_id: args.workflow_id,
         extraction_result: extractionResult,
-        model_used: model,
+        model_used: activeModel,
+        provider: activeProvider.name,
         scratchpads_processed: scratchpads.length,
-        message: `Successfully extracted information from workflow ${args.workflow_id} using ${model} (processed ${scratchpads.length} scratchpad(s))`,
+        tokens_used: tokensUsed,
+        chunks_processed: chunksProcessed,
+        ...(validator && { extraction_json: extractionJson, validation_attempts: attempts }),
+        message: `Successfully extracted information from workflow ${args.workflow_id} using ${activeProvider.label} ${activeModel} (processed ${scratchpads.length} scratchpad(s), ${tokensUsed} tokens${chunkMessage}${schemaMessage})`,
       };
     } catch (error) {
+      if (error instanceof LLMConfigurationError) {
+        throw new Error(`Failed to extract workflow information: ${error.message}`);
+      }
       if (error instanceof Error) {
+        const label = provider?.label ?? 'LLM';
         if (error.message.includes('API key')) {
           throw new Error(
-            'OpenAI API configuration error: Please set OPENAI_API_KEY environment variable'
+            `${label} API configuration error: ${error.message}. Please check the API key for the ${provider?.name ?? 'configured'} provider.`
           );
         }
         if (error.message.includes('model')) {
           throw new Error(
-            `OpenAI model error: ${error.message}. Please check if the model '${args.model || 'gpt-5-nano'}' is available.`
+            `${label} model error: ${error.message}. Please check if the model '${model ?? args.model}' is available.`
           );
         }
         throw new Error(`Failed to extract workflow information: ${error.message}`);
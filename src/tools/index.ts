@@ -6,3 +6,10 @@ export * from './workflow.js';
 export * from './scratchpad.js';
 export * from './search.js';
 export * from './extraction.js';
+export * from './semantic.js';
+export * from './revisions.js';
+export * from './trash.js';
+export * from './metadata.js';
+export * from './templates.js';
+export * from './portability.js';
+export * from './tasks.js';
@@ -0,0 +1,233 @@
+/**
+ * Tag and metadata tools - label workflows and scratchpads and attach key/value metadata
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import type {
+  ToolHandler,
+  EntityFilterArgs,
+  TagScratchpadArgs,
+  TagScratchpadResult,
+  TagWorkflowArgs,
+  TagWorkflowResult,
+  SetWorkflowMetadataArgs,
+  SetWorkflowMetadataResult,
+  SetScratchpadMetadataArgs,
+  SetScratchpadMetadataResult,
+} from './types.js';
+
+/**
+ * Describe tag / metadata filters for tool messages (e.g. "tags: blocked, backend")
+ */
+export const describeEntityFilter = (args: EntityFilterArgs): string[] => {
+  const filters: string[] = [];
+  if (args.tags && args.tags.length > 0) {
+    filters.push(`tags: ${args.tags.join(', ')}`);
+  }
+  if (args.metadata && Object.keys(args.metadata).length > 0) {
+    filters.push(
+      `metadata: ${Object.entries(args.metadata)
+        .map(([key, value]) => `${key}=${String(value)}`)
+        .join(', ')}`
+    );
+  }
+  return filters;
+};
+
+const requireTagChanges = (args: { add?: string[]; remove?: string[]; set?: string[] }): void => {
+  if (args.add === undefined && args.remove === undefined && args.set === undefined) {
+    throw new Error('Provide at least one of add, remove or set');
+  }
+};
+
+const diffTags = (before: string[], after: string[]): { added: string[]; removed: string[] } => ({
+  added: after.filter((tag) => !before.includes(tag)),
+  removed: before.filter((tag) => !after.includes(tag)),
+});
+
+const describeTagChange = (
+  label: string,
+  added: string[],
+  removed: string[],
+  tags: string[]
+): string => {
+  if (added.length === 0 && removed.length === 0) {
+    return `Tags of ${label} unchanged (${tags.length > 0 ? tags.join(', ') : 'no tags'})`;
+  }
+  const parts: string[] = [];
+  if (added.length > 0) parts.push(`added ${added.join(', ')}`);
+  if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`);
+  return `Updated tags of ${label}: ${parts.join('; ')}`;
+};
+
+/**
+ * 區分 metadata 更新中設定與刪除的鍵（replace 模式下原有但未保留的鍵也算刪除）
+ */
+const diffMetadataKeys = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { updated_keys: string[]; removed_keys: string[] } => ({
+  updated_keys: Object.keys(after).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  ),
+  removed_keys: Object.keys(before).filter((key) => !(key in after)),
+});
+
+const assertMetadataObject = (metadata: unknown): void => {
+  if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new Error('metadata must be a JSON object');
+  }
+};
+
+/**
+ * Add, remove or replace the tags of a scratchpad
+ */
+export const tagScratchpadTool = (
+  db: ScratchpadDatabase
+): ToolHandler<TagScratchpadArgs, TagScratchpadResult> => {
+  return async (args: TagScratchpadArgs): Promise<TagScratchpadResult> => {
+    try {
+      requireTagChanges(args);
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const tags = db.setTags('scratchpad', args.id, {
+        add: args.add,
+        remove: args.remove,
+        set: args.set,
+      });
+      const { added, removed } = diffTags(scratchpad.tags, tags);
+
+      return {
+        scratchpad: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+          tags,
+        },
+        added,
+        removed,
+        message: describeTagChange(`scratchpad "${scratchpad.title}"`, added, removed, tags),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to tag scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Add, remove or replace the tags of a workflow
+ */
+export const tagWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<TagWorkflowArgs, TagWorkflowResult> => {
+  return async (args: TagWorkflowArgs): Promise<TagWorkflowResult> => {
+    try {
+      requireTagChanges(args);
+      const workflow = db.getWorkflowById(args.workflow_id);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${args.workflow_id}`);
+      }
+
+      const tags = db.setTags('workflow', args.workflow_id, {
+        add: args.add,
+        remove: args.remove,
+        set: args.set,
+      });
+      const { added, removed } = diffTags(workflow.tags, tags);
+
+      return {
+        workflow: {
+          id: workflow.id,
+          name: workflow.name,
+          tags,
+        },
+        added,
+        removed,
+        message: describeTagChange(`workflow "${workflow.name}"`, added, removed, tags),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to tag workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Merge or replace key/value metadata of a workflow
+ */
+export const setWorkflowMetadataTool = (
+  db: ScratchpadDatabase
+): ToolHandler<SetWorkflowMetadataArgs, SetWorkflowMetadataResult> => {
+  return async (args: SetWorkflowMetadataArgs): Promise<SetWorkflowMetadataResult> => {
+    try {
+      assertMetadataObject(args.metadata);
+      const workflow = db.getWorkflowById(args.workflow_id);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${args.workflow_id}`);
+      }
+
+      const metadata = db.setMetadata('workflow', args.workflow_id, {
+        set: args.metadata,
+        replace: args.replace,
+      });
+      const changes = diffMetadataKeys(workflow.metadata, metadata);
+
+      return {
+        workflow: {
+          id: workflow.id,
+          name: workflow.name,
+          metadata,
+        },
+        ...changes,
+        message: `Updated metadata of workflow "${workflow.name}": ${changes.updated_keys.length} set, ${changes.removed_keys.length} removed`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to set workflow metadata: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Merge or replace key/value metadata of a scratchpad
+ */
+export const setScratchpadMetadataTool = (
+  db: ScratchpadDatabase
+): ToolHandler<SetScratchpadMetadataArgs, SetScratchpadMetadataResult> => {
+  return async (args: SetScratchpadMetadataArgs): Promise<SetScratchpadMetadataResult> => {
+    try {
+      assertMetadataObject(args.metadata);
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const metadata = db.setMetadata('scratchpad', args.id, {
+        set: args.metadata,
+        replace: args.replace,
+      });
+      const changes = diffMetadataKeys(scratchpad.metadata, metadata);
+
+      return {
+        scratchpad: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+          metadata,
+        },
+        ...changes,
+        message: `Updated metadata of scratchpad "${scratchpad.title}": ${changes.updated_keys.length} set, ${changes.removed_keys.length} removed`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to set scratchpad metadata: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
@@ -0,0 +1,132 @@
+/**
+ * Import/export tools - move workflows between databases as JSON archives or Markdown bundles
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError } from '../database/index.js';
+import type { ImportAction } from '../database/types.js';
+import {
+  createWorkflowArchive,
+  fromMarkdownBundle,
+  parseWorkflowArchive,
+  toMarkdownBundle,
+} from '../portability/index.js';
+import type {
+  ToolHandler,
+  ExportWorkflowArgs,
+  ExportWorkflowResult,
+  ImportWorkflowArgs,
+  ImportWorkflowToolResult,
+} from './types.js';
+
+/**
+ * Export a workflow with all of its scratchpads (returned inline; writing files is left to the CLI)
+ */
+export const exportWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ExportWorkflowArgs, ExportWorkflowResult> => {
+  return async (args: ExportWorkflowArgs): Promise<ExportWorkflowResult> => {
+    try {
+      const format = args.format ?? 'json';
+      if (format !== 'json' && format !== 'markdown') {
+        throw new Error(`Invalid format: ${String(format)} (use json or markdown)`);
+      }
+
+      const archive = createWorkflowArchive(db, args.workflow_id);
+      const workflow = {
+        id: archive.workflow.id,
+        name: archive.workflow.name,
+        scratchpad_count: archive.scratchpads.length,
+      };
+      const label = `workflow "${workflow.name}" (${workflow.scratchpad_count} scratchpads)`;
+
+      if (format === 'json') {
+        return { workflow, format, archive, message: `Exported ${label} as a JSON archive` };
+      }
+
+      const files = toMarkdownBundle(archive);
+      return {
+        workflow,
+        format,
+        files,
+        message: `Exported ${label} as ${files.length} Markdown files`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to export workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Import an inline workflow archive (JSON archive or Markdown bundle files) into this database
+ */
+export const importWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ImportWorkflowArgs, ImportWorkflowToolResult> => {
+  return async (args: ImportWorkflowArgs): Promise<ImportWorkflowToolResult> => {
+    try {
+      if ((args.archive === undefined) === (args.files === undefined)) {
+        throw new Error('Provide exactly one of archive or files');
+      }
+
+      let snapshot;
+      if (args.files !== undefined) {
+        snapshot = parseWorkflowArchive(fromMarkdownBundle(args.files));
+      } else if (typeof args.archive === 'string') {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(args.archive);
+        } catch {
+          throw new Error('Invalid archive: not valid JSON');
+        }
+        snapshot = parseWorkflowArchive(parsed);
+      } else {
+        snapshot = parseWorkflowArchive(args.archive);
+      }
+
+      const result = db.importWorkflow(snapshot, {
+        policy: args.policy,
+        id_map: args.id_map,
+        regenerate_ids: args.regenerate_ids,
+        project_scope: args.project_scope,
+      });
+
+      const counts: Record<ImportAction, number> = {
+        created: 0,
+        overwritten: 0,
+        skipped: 0,
+        duplicated: 0,
+      };
+      for (const scratchpad of result.scratchpads) {
+        counts[scratchpad.action]++;
+      }
+      const summary = (Object.keys(counts) as ImportAction[])
+        .filter((action) => counts[action] > 0)
+        .map((action) => `${counts[action]} ${action}`)
+        .join(', ');
+
+      return {
+        workflow: {
+          id: result.workflow.id,
+          name: result.workflow.name,
+          scratchpad_count: result.workflow.scratchpad_count,
+          project_scope: result.workflow.project_scope,
+          action: result.workflow_action,
+        },
+        scratchpads: result.scratchpads,
+        counts,
+        id_map: result.id_map,
+        message: `Imported workflow "${result.workflow.name}" (${result.workflow_action}): ${summary || 'no scratchpads'}`,
+      };
+    } catch (error) {
+      // 配額錯誤保留結構化資訊（上限與目前用量），交由 handleToolError 輸出
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to import workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
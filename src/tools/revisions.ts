@@ -0,0 +1,241 @@
+/**
+ * Scratchpad revision history tools
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError } from '../database/index.js';
+import { UnifiedDiff } from '../utils/UnifiedDiff.js';
+import type {
+  ToolHandler,
+  ListScratchpadRevisionsArgs,
+  ListScratchpadRevisionsResult,
+  GetScratchpadRevisionArgs,
+  GetScratchpadRevisionResult,
+  DiffScratchpadRevisionsArgs,
+  DiffScratchpadRevisionsResult,
+  RestoreScratchpadRevisionArgs,
+  RestoreScratchpadRevisionResult,
+  SetRevisionRetentionArgs,
+  SetRevisionRetentionResult,
+} from './types.js';
+
+/**
+ * Convert Unix timestamp to local timezone ISO string
+ */
+const formatTimestamp = (unixTimestamp: number): string => {
+  return new Date(unixTimestamp * 1000).toISOString();
+};
+
+/**
+ * Get the latest revision number of a scratchpad (null when no history exists)
+ */
+const getLatestRevision = (db: ScratchpadDatabase, scratchpadId: string): number | null => {
+  const [latest] = db.listScratchpadRevisions({ scratchpad_id: scratchpadId, limit: 1 });
+  return latest?.revision ?? null;
+};
+
+/**
+ * List revisions of a scratchpad (newest first, metadata only)
+ */
+export const listScratchpadRevisionsTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ListScratchpadRevisionsArgs, ListScratchpadRevisionsResult> => {
+  return async (args: ListScratchpadRevisionsArgs): Promise<ListScratchpadRevisionsResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const limit = Math.min(args.limit ?? 20, 100);
+      const offset = args.offset ?? 0;
+
+      const revisions = db.listScratchpadRevisions({ scratchpad_id: args.id, limit, offset });
+      const totalRevisions = db.countScratchpadRevisions(args.id);
+      const retention = db.getRevisionRetention(scratchpad.workflow_id);
+
+      return {
+        scratchpad: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+        },
+        revisions: revisions.map((revision) => ({
+          revision: revision.revision,
+          operation: revision.operation,
+          size_bytes: revision.size_bytes,
+          created_at: formatTimestamp(revision.created_at),
+        })),
+        count: revisions.length,
+        total_revisions: totalRevisions,
+        has_more: offset + revisions.length < totalRevisions,
+        retention,
+        message: `Listed ${revisions.length} of ${totalRevisions} revision(s) for scratchpad "${scratchpad.title}" (retention: ${retention.max_revisions} revisions, ${retention.max_bytes} bytes)`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to list scratchpad revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Get a single revision snapshot
+ */
+export const getScratchpadRevisionTool = (
+  db: ScratchpadDatabase
+): ToolHandler<GetScratchpadRevisionArgs, GetScratchpadRevisionResult> => {
+  return async (args: GetScratchpadRevisionArgs): Promise<GetScratchpadRevisionResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const revision = db.getScratchpadRevision(args.id, args.revision);
+      if (!revision) {
+        return {
+          revision: null,
+          message: `Revision ${args.revision} not found for scratchpad "${scratchpad.title}" (it may have been pruned by retention settings)`,
+        };
+      }
+
+      const includeContent = args.include_content ?? true;
+
+      return {
+        revision: {
+          scratchpad_id: revision.scratchpad_id,
+          revision: revision.revision,
+          operation: revision.operation,
+          content: includeContent ? revision.content : '',
+          size_bytes: revision.size_bytes,
+          created_at: formatTimestamp(revision.created_at),
+        },
+        message: `Retrieved revision ${revision.revision} (${revision.operation}) of scratchpad "${scratchpad.title}" (${revision.size_bytes} bytes)${includeContent ? '' : ' - Content excluded (include_content=false)'}`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to get scratchpad revision: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Unified diff between two revisions of a scratchpad
+ */
+export const diffScratchpadRevisionsTool = (
+  db: ScratchpadDatabase
+): ToolHandler<DiffScratchpadRevisionsArgs, DiffScratchpadRevisionsResult> => {
+  return async (args: DiffScratchpadRevisionsArgs): Promise<DiffScratchpadRevisionsResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const toRevisionNumber = args.to_revision ?? getLatestRevision(db, args.id);
+      if (toRevisionNumber === null) {
+        throw new Error(`Scratchpad has no revision history: ${args.id}`);
+      }
+
+      const fromRevision = db.getScratchpadRevision(args.id, args.from_revision);
+      if (!fromRevision) {
+        throw new Error(`Revision ${args.from_revision} not found for scratchpad: ${args.id}`);
+      }
+      const toRevision = db.getScratchpadRevision(args.id, toRevisionNumber);
+      if (!toRevision) {
+        throw new Error(`Revision ${toRevisionNumber} not found for scratchpad: ${args.id}`);
+      }
+
+      const { patch, stats } = UnifiedDiff.createPatch(fromRevision.content, toRevision.content, {
+        context: args.context_lines ?? 3,
+        oldLabel: `revision ${fromRevision.revision} (${fromRevision.operation})`,
+        newLabel: `revision ${toRevision.revision} (${toRevision.operation})`,
+      });
+
+      const message =
+        patch === ''
+          ? `Revisions ${fromRevision.revision} and ${toRevision.revision} of scratchpad "${scratchpad.title}" are identical`
+          : `Diff of scratchpad "${scratchpad.title}" from revision ${fromRevision.revision} to ${toRevision.revision}: +${stats.additions} -${stats.deletions} lines in ${stats.hunks} hunk(s)`;
+
+      return {
+        scratchpad_id: args.id,
+        from_revision: fromRevision.revision,
+        to_revision: toRevision.revision,
+        diff: patch,
+        stats,
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to diff scratchpad revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Restore scratchpad content from a previous revision
+ */
+export const restoreScratchpadRevisionTool = (
+  db: ScratchpadDatabase
+): ToolHandler<RestoreScratchpadRevisionArgs, RestoreScratchpadRevisionResult> => {
+  return async (args: RestoreScratchpadRevisionArgs): Promise<RestoreScratchpadRevisionResult> => {
+    try {
+      const restored = db.restoreScratchpadRevision(args.id, args.revision);
+      const newRevision = getLatestRevision(db, args.id) ?? args.revision;
+
+      const includeContent = args.include_content ?? false;
+
+      return {
+        scratchpad: {
+          id: restored.id,
+          workflow_id: restored.workflow_id,
+          title: restored.title,
+          ...(includeContent && { content: restored.content }),
+          created_at: formatTimestamp(restored.created_at),
+          updated_at: formatTimestamp(restored.updated_at),
+          size_bytes: restored.size_bytes,
+        },
+        restored_from_revision: args.revision,
+        new_revision: newRevision,
+        message: `Restored scratchpad "${restored.title}" to revision ${args.revision} (saved as revision ${newRevision}, ${restored.size_bytes} bytes)`,
+      };
+    } catch (error) {
+      // 配額錯誤保留結構化資訊（上限與目前用量），交由 handleToolError 輸出
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to restore scratchpad revision: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Configure revision retention for a workflow
+ */
+export const setRevisionRetentionTool = (
+  db: ScratchpadDatabase
+): ToolHandler<SetRevisionRetentionArgs, SetRevisionRetentionResult> => {
+  return async (args: SetRevisionRetentionArgs): Promise<SetRevisionRetentionResult> => {
+    try {
+      const retention = db.setRevisionRetention(args.workflow_id, {
+        max_revisions: args.max_revisions,
+        max_bytes: args.max_bytes,
+      });
+
+      return {
+        workflow_id: args.workflow_id,
+        retention,
+        message: `Revision retention for workflow ${args.workflow_id} set to ${retention.max_revisions} revisions / ${retention.max_bytes} bytes per scratchpad`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to set revision retention: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
@@ -2,11 +2,17 @@
  * Scratchpad CRUD tools
  */
 import type { ScratchpadDatabase } from '../database/index.js';
-import { BlockParser } from '../utils/BlockParser.js';
+import { BlockParser, type BlockInfo, type BlockMoveTarget } from '../utils/BlockParser.js';
 import { validateRangeParameterConflict } from '../server-helpers.js';
+import { QuotaExceededError, ScratchpadConflictError } from '../database/index.js';
+import { describeEntityFilter } from './metadata.js';
+import { TemplateRegistry } from '../templates/index.js';
+import { ContentPattern } from '../utils/ContentPattern.js';
+import { UnifiedDiff } from '../utils/UnifiedDiff.js';
 import type {
   EnhancedUpdateScratchpadArgs,
   EnhancedUpdateScratchpadResult,
+  WriteGuard,
 } from '../database/types.js';
 import type {
   ToolHandler,
@@ -22,8 +28,26 @@ import type {
   TailScratchpadResult,
   ChopScratchpadArgs,
   ChopScratchpadResult,
+  BlockSummary,
+  GetBlockArgs,
+  GetBlockResult,
+  BlockWriteArgs,
+  ReplaceBlockArgs,
+  DeleteBlockArgs,
+  MoveBlockArgs,
+  BlockEditResult,
   ListScratchpadsArgs,
   ListScratchpadsResult,
+  DeleteScratchpadArgs,
+  DeleteScratchpadResult,
+  RenameScratchpadArgs,
+  RenameScratchpadResult,
+  MoveScratchpadArgs,
+  MoveScratchpadResult,
+  CopyScratchpadArgs,
+  CopyScratchpadResult,
+  MergeScratchpadsArgs,
+  MergeScratchpadsResult,
 } from './types.js';
 
 /**
@@ -33,6 +57,37 @@ const formatTimestamp = (unixTimestamp: number): string => {
   return new Date(unixTimestamp * 1000).toISOString();
 };
 
+/**
+ * Convert optimistic concurrency arguments into a database write guard
+ */
+export const toWriteGuard = (args: {
+  expected_version?: number | undefined;
+  if_unmodified_since?: string | undefined;
+}): WriteGuard => {
+  let ifUnmodifiedSince: number | undefined;
+  if (args.if_unmodified_since !== undefined) {
+    const parsed = Date.parse(args.if_unmodified_since);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid if_unmodified_since timestamp: ${args.if_unmodified_since}`);
+    }
+    ifUnmodifiedSince = Math.floor(parsed / 1000);
+  }
+
+  return { expected_version: args.expected_version, if_unmodified_since: ifUnmodifiedSince };
+};
+
+/**
+ * Block position and header attributes (without content)
+ */
+const summarizeBlock = (block: BlockInfo): BlockSummary => ({
+  id: block.id ?? null,
+  index: block.index,
+  ...(block.author !== undefined && { author: block.author }),
+  ...(block.kind !== undefined && { kind: block.kind }),
+  ...(block.tags !== undefined && { tags: block.tags }),
+  ...(block.timestamp !== undefined && { timestamp: block.timestamp }),
+});
+
 /**
  * Generate a preview summary from content
  */
@@ -111,16 +166,67 @@ const formatScratchpad = (
   return formatted;
 };
 
+/**
+ * Markdown header found in scratchpad content
+ */
+export interface MarkdownHeader {
+  level: number;
+  text: string;
+  line: number; // 1-based
+}
+
+/**
+ * Markdown section: the header line through the line before the next header of the same or a
+ * higher level (nested subsections included)
+ */
+export interface MarkdownSection extends MarkdownHeader {
+  header: string;
+  end_line: number; // 1-based, inclusive
+}
+
+const HEADER_LINE_PATTERN = /^(#{1,6})\s+(.*)$/;
+const FENCE_LINE_PATTERN = /^\s*(```|~~~)/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Parse markdown headers - shared by get-scratchpad-outline and the section edit modes
+ * fenced code block（``` 或 ~~~）內以 # 開頭的行（例如 shell 註解）不視為 header
+ */
+const parseMarkdownHeaders = (lines: string[]): MarkdownHeader[] => {
+  const headers: MarkdownHeader[] = [];
+  let fence: string | null = null;
+  lines.forEach((line, index) => {
+    const fenceMatch = FENCE_LINE_PATTERN.exec(line);
+    if (fenceMatch) {
+      // 只有相同的圍欄符號才會關閉 code block
+      fence = fence === null ? fenceMatch[1]! : fence === fenceMatch[1] ? null : fence;
+      return;
+    }
+    if (fence !== null) {
+      return;
+    }
+    // CRLF 內容的行尾會留下 \r
+    const match = HEADER_LINE_PATTERN.exec(line.replace(/\r$/, ''));
+    if (match) {
+      headers.push({ level: match[1]!.length, text: match[2]!.trim(), line: index + 1 });
+    }
+  });
+  return headers;
+};
+
 /**
  * LineEditor - Core editing engine for enhanced scratchpad updates
  *
- * Provides unified line-based editing algorithms for four modes:
+ * Provides unified line-based editing algorithms for these modes:
  * - replace: Complete content replacement
  * - insert_at_line: Insert content at specific line number
  * - replace_lines: Replace specific line range with new content
  * - append_section: Smart append after markdown section markers
+ * - replace_section / delete_section / prepend_section / rename_section: Edit a whole markdown
+ *   section addressed by its header
+ * - find_replace: Replace literal or regex matches, optionally limited to a line range
  */
-class LineEditor {
+export class LineEditor {
   /**
    * Apply editing operation based on mode and parameters
    */
@@ -177,6 +283,35 @@ class LineEditor {
         break;
       }
 
+      case 'replace_section':
+      case 'delete_section':
+      case 'prepend_section':
+      case 'rename_section': {
+        const section = LineEditor.resolveSection(lines, args.section_marker!);
+        const sectionResult = LineEditor.editSection(lines, section, args.mode, args.content);
+        newLines = sectionResult.lines;
+        operationDetails.lines_affected = sectionResult.linesAffected;
+        operationDetails.section = {
+          header: section.header,
+          level: section.level,
+          start_line: section.line,
+          end_line: section.end_line,
+        };
+        if (args.mode === 'prepend_section') {
+          operationDetails.insertion_point = section.line + 1;
+        }
+        break;
+      }
+
+      case 'find_replace': {
+        const result = LineEditor.findReplace(lines, args);
+        newLines = result.lines;
+        operationDetails.lines_affected = result.changedLines.length;
+        operationDetails.replacements = result.replacements;
+        operationDetails.changed_lines = result.changedLines;
+        break;
+      }
+
       default:
         throw new Error(`Unknown edit mode: ${(args as any).mode}`);
     }
@@ -233,6 +368,180 @@ class LineEditor {
     };
   }
 
+  /**
+   * Resolve a section by its full header line ("## Status") or header text ("Status")
+   * "## Status > ### Notes" 逐層限定在上一層章節範圍內尋找，用來區分同名的子章節
+   */
+  static resolveSection(lines: string[], sectionMarker: string): MarkdownSection {
+    const headers = parseMarkdownHeaders(lines);
+    let scope = { start: 1, end: lines.length };
+    let section: MarkdownSection | undefined;
+
+    for (const part of sectionMarker.split(' > ').map((marker) => marker.trim())) {
+      const inScope = headers.filter(
+        (header) => header.line >= scope.start && header.line <= scope.end
+      );
+      const exact = inScope.filter((header) => lines[header.line - 1]!.trim() === part);
+      const candidates =
+        exact.length > 0 ? exact : inScope.filter((header) => header.text === part);
+      if (candidates.length === 0) {
+        throw new Error(`Section not found: ${part}`);
+      }
+      if (candidates.length > 1) {
+        throw new Error(
+          `Section marker "${part}" matches ${candidates.length} headers (lines ${candidates
+            .map((header) => header.line)
+            .join(', ')}) - use the full header line or "Parent > Child"`
+        );
+      }
+
+      const header = candidates[0]!;
+      const next = headers.find(
+        (candidate) => candidate.line > header.line && candidate.level <= header.level
+      );
+      section = {
+        ...header,
+        header: lines[header.line - 1]!.trimEnd(),
+        end_line: next ? next.line - 1 : lines.length,
+      };
+      scope = { start: section.line + 1, end: section.end_line };
+    }
+
+    return section!;
+  }
+
+  /**
+   * Line (1-based) to insert a new list item at: right after the last list item of the section's
+   * own body (before its first subsection), including that item's indented continuation lines
+   * 沒有清單時接在最後一行非空白內容之後（或 header 之後）
+   */
+  static listInsertionPoint(lines: string[], sectionMarker: string): number {
+    const section = LineEditor.resolveSection(lines, sectionMarker);
+    const subsection = parseMarkdownHeaders(lines).find(
+      (header) => header.line > section.line && header.line <= section.end_line
+    );
+    const bodyEnd = subsection ? subsection.line - 1 : section.end_line;
+
+    let lastListLine: number | undefined;
+    let lastContentLine: number | undefined;
+    let fence: string | null = null;
+    for (let lineNumber = section.line + 1; lineNumber <= bodyEnd; lineNumber++) {
+      const line = lines[lineNumber - 1]!;
+      if (line.trim() !== '') {
+        lastContentLine = lineNumber;
+      }
+      const fenceMatch = FENCE_LINE_PATTERN.exec(line);
+      if (fenceMatch) {
+        fence = fence === null ? fenceMatch[1]! : fence === fenceMatch[1] ? null : fence;
+        continue;
+      }
+      if (fence !== null) {
+        continue;
+      }
+      const continuesItem = lastListLine === lineNumber - 1 && /^\s+\S/.test(line);
+      if (LIST_ITEM_PATTERN.test(line) || continuesItem) {
+        lastListLine = lineNumber;
+      }
+    }
+
+    return (lastListLine ?? lastContentLine ?? section.line) + 1;
+  }
+
+  /**
+   * Apply a section mode to a resolved section
+   */
+  private static editSection(
+    lines: string[],
+    section: MarkdownSection,
+    mode: 'replace_section' | 'delete_section' | 'prepend_section' | 'rename_section',
+    content: string
+  ): { lines: string[]; linesAffected: number } {
+    const contentLines = content === '' ? [] : content.split('\n');
+    const newLines = [...lines];
+
+    // 章節結尾的空白行視為與下一個章節的分隔，保留不動
+    let bodyEnd = section.end_line;
+    while (bodyEnd > section.line && lines[bodyEnd - 1]!.trim() === '') {
+      bodyEnd--;
+    }
+
+    switch (mode) {
+      case 'replace_section':
+        newLines.splice(section.line, bodyEnd - section.line, ...contentLines);
+        return { lines: newLines, linesAffected: contentLines.length };
+
+      case 'prepend_section':
+        newLines.splice(section.line, 0, ...contentLines);
+        return { lines: newLines, linesAffected: contentLines.length };
+
+      case 'rename_section': {
+        const title = content.trim();
+        if (title === '' || title.includes('\n')) {
+          throw new Error('rename_section content must be the new header text on a single line');
+        }
+        newLines[section.line - 1] = `${'#'.repeat(section.level)} ${title}`;
+        return { lines: newLines, linesAffected: 1 };
+      }
+
+      case 'delete_section': {
+        let start = section.line - 1;
+        // 刪除最後一個章節時一併移除前面留下的空白分隔行
+        if (section.end_line === lines.length) {
+          while (start > 0 && lines[start - 1]!.trim() === '') {
+            start--;
+          }
+        }
+        newLines.splice(start, section.end_line - start);
+        return { lines: newLines, linesAffected: section.end_line - start };
+      }
+    }
+  }
+
+  /**
+   * Replace matches line by line within start_line..end_line, up to max_replacements
+   * 比對規則與 search-scratchpad-content 相同（ContentPattern）；字串模式的取代內容不展開 `$`
+   */
+  private static findReplace(
+    lines: string[],
+    args: EnhancedUpdateScratchpadArgs
+  ): { lines: string[]; replacements: number; changedLines: number[] } {
+    if (args.query === '') {
+      throw new Error('query must not be empty');
+    }
+    const { regex, method } = ContentPattern.compile(args);
+    const limit = args.max_replacements ?? Infinity;
+    const startLine = Math.max(1, args.start_line ?? 1);
+    const endLine = Math.min(lines.length, args.end_line ?? lines.length);
+
+    const newLines = [...lines];
+    const changedLines: number[] = [];
+    let replacements = 0;
+
+    for (let lineNumber = startLine; lineNumber <= endLine && replacements < limit; lineNumber++) {
+      const line = lines[lineNumber - 1]!;
+      let result = '';
+      let cursor = 0;
+      for (const match of ContentPattern.matchLine(regex, line)) {
+        if (replacements >= limit) {
+          break;
+        }
+        const replacement =
+          method === 'regex' ? ContentPattern.expandReplacement(args.content, match) : args.content;
+        result += line.slice(cursor, match.index) + replacement;
+        cursor = match.index + match[0].length;
+        replacements++;
+      }
+      result += line.slice(cursor);
+
+      if (result !== line) {
+        newLines[lineNumber - 1] = result;
+        changedLines.push(lineNumber);
+      }
+    }
+
+    return { lines: newLines, replacements, changedLines };
+  }
+
   /**
    * Smart append after markdown section markers
    * Searches for section marker and intelligently determines insertion point
@@ -324,14 +633,39 @@ class LineEditor {
  * Create a new scratchpad
  */
 export const createScratchpadTool = (
-  db: ScratchpadDatabase
+  db: ScratchpadDatabase,
+  templates: TemplateRegistry = new TemplateRegistry(db)
 ): ToolHandler<CreateScratchpadArgs, CreateScratchpadResult> => {
   return async (args: CreateScratchpadArgs): Promise<CreateScratchpadResult> => {
     try {
+      let content = args.content;
+      let templateName: string | undefined;
+      if (args.template !== undefined) {
+        const workflow = db.getWorkflowById(args.workflow_id);
+        if (!workflow) {
+          throw new Error(`Workflow not found: ${args.workflow_id}`);
+        }
+        const rendered = templates.render(args.template, {
+          title: args.title,
+          workflow,
+          variables: args.template_vars,
+        });
+        templateName = rendered.template.name;
+        // 模板在前，額外提供的 content 接在後面
+        content = args.content
+          ? `${rendered.content.trimEnd()}\n\n${args.content}`
+          : rendered.content;
+      } else if (args.template_vars !== undefined) {
+        throw new Error('template_vars can only be used with template');
+      }
+      if (content === undefined) {
+        throw new Error('content is required unless a template is given');
+      }
+
       const scratchpad = db.createScratchpad({
         workflow_id: args.workflow_id,
         title: args.title,
-        content: args.content,
+        content,
       });
 
       // Smart content control: default to metadata only, full content only if explicitly requested
@@ -341,9 +675,13 @@ export const createScratchpadTool = (
         scratchpad: formatScratchpad(scratchpad, {
           include_content: includeContent,
         }),
-        message: `Created scratchpad "${scratchpad.title}" (${scratchpad.size_bytes} bytes) in workflow ${scratchpad.workflow_id}`,
+        ...(templateName !== undefined && { template: templateName }),
+        message: `Created scratchpad "${scratchpad.title}" (${scratchpad.size_bytes} bytes)${templateName !== undefined ? ` from template "${templateName}"` : ''} in workflow ${scratchpad.workflow_id}`,
       };
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
       throw new Error(
         `Failed to create scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -460,6 +798,12 @@ export const getScratchpadTool = (
         }
       }
 
+      // 5) block filter: author / kind 篩選後的內容不再對應原始行號，不與行號參數併用
+      const blockFilter = BlockParser.createFilter(args);
+      if (blockFilter && (args.line_range || args.line_context)) {
+        throw new Error('author / kind cannot be combined with line_range or line_context');
+      }
+
       const scratchpad = db.getScratchpadById(args.id);
 
       if (!scratchpad) {
@@ -469,6 +813,15 @@ export const getScratchpadTool = (
 
       let processedContent = scratchpad.content;
       let rangeMessage = '';
+      let matchedBlocks: BlockSummary[] | undefined;
+
+      if (blockFilter) {
+        processedContent = BlockParser.selectBlocks(scratchpad.content, blockFilter);
+        matchedBlocks = BlockParser.filterBlocks(scratchpad.content, blockFilter).map(
+          summarizeBlock
+        );
+        rangeMessage = `${matchedBlocks.length} block(s) with ${BlockParser.describeFilter(blockFilter)}`;
+      }
 
       // Apply line range or line context extraction (with dynamic bounds validation)
       if (args.line_range || args.line_context) {
@@ -641,7 +994,9 @@ export const getScratchpadTool = (
       }
 
       return {
-        scratchpad: formattedScratchpad,
+        scratchpad: matchedBlocks
+          ? { ...formattedScratchpad, blocks: matchedBlocks }
+          : formattedScratchpad,
         message,
       };
     } catch (error) {
@@ -708,12 +1063,19 @@ export const appendScratchpadTool = (
         throw new Error(`Unable to find scratchpad with ID: ${args.id}`);
       }
 
-      const updatedScratchpad = db.appendToScratchpad({
-        id: originalScratchpad.id, // Use the actual scratchpad ID, not args.id
-        content: args.content,
-      });
+      const updatedScratchpad = db.appendToScratchpad(
+        {
+          id: originalScratchpad.id, // Use the actual scratchpad ID, not args.id
+          content: args.content,
+          author: args.author,
+          kind: args.kind,
+          tags: args.tags,
+        },
+        toWriteGuard(args)
+      );
 
       const appendedBytes = updatedScratchpad.size_bytes - originalScratchpad.size_bytes;
+      const appendedBlock = BlockParser.parseBlocks(updatedScratchpad.content).pop();
 
       // Smart content control: default to metadata only, full content only if explicitly requested
       const includeContent = args.include_content ?? false;
@@ -724,8 +1086,13 @@ export const appendScratchpadTool = (
         }),
         message: `Appended ${appendedBytes} bytes to scratchpad "${updatedScratchpad.title}" (total: ${updatedScratchpad.size_bytes} bytes)`,
         appended_bytes: appendedBytes,
+        ...(appendedBlock?.id !== undefined && { block_id: appendedBlock.id }),
       };
     } catch (error) {
+      // 版本衝突與配額錯誤保留結構化資訊，交由 handleToolError 輸出
+      if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+        throw error;
+      }
       throw new Error(
         `Failed to append to scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -749,6 +1116,8 @@ export const listScratchpadsTool = (
         workflow_id: args.workflow_id,
         limit: limit + 1, // Get one extra to check if there are more
         offset,
+        tags: args.tags,
+        metadata: args.metadata,
       });
 
       const hasMore = scratchpads.length > limit;
@@ -774,6 +1143,8 @@ export const listScratchpadsTool = (
       const hasContentControl = formattedScratchpads.some((s) => s.content_control_applied);
 
       let message = `Listed ${resultScratchpads.length} scratchpads`;
+      const entityFilters = describeEntityFilter(args);
+      if (entityFilters.length > 0) message += ` matching ${entityFilters.join(', ')}`;
       if (hasMore) message += ` (${args.limit! + args.offset!} total, showing first ${args.limit})`;
       if (hasWarnings)
         message += ` - Some items have parameter conflicts (check parameter_warning)`;
@@ -808,7 +1179,14 @@ export const tailScratchpadTool = (
         return { scratchpad: null };
       }
 
-      const content = scratchpad.content;
+      // author / kind 篩選：只對符合的 blocks 取 tail，blocks 的 index 仍為原始位置
+      const blockFilter = BlockParser.createFilter(args);
+      const matchedBlocks = blockFilter
+        ? BlockParser.filterBlocks(scratchpad.content, blockFilter)
+        : undefined;
+      const content = blockFilter
+        ? BlockParser.selectBlocks(scratchpad.content, blockFilter)
+        : scratchpad.content;
       const totalLines = content.split('\n').length;
 
       // Handle full content mode (overrides tail_size)
@@ -817,6 +1195,7 @@ export const tailScratchpadTool = (
       let tailChars: number;
       let extractionMethod: string;
       let isFullContent = false;
+      let tailBlocks: BlockSummary[] | undefined;
 
       if (args.full_content) {
         // Full content mode - use formatScratchpad for output control
@@ -825,6 +1204,7 @@ export const tailScratchpadTool = (
         tailChars = content.length;
         extractionMethod = 'full content';
         isFullContent = true;
+        tailBlocks = matchedBlocks?.map(summarizeBlock);
       } else if (args.tail_size) {
         if (args.tail_size.chars !== undefined) {
           // Extract by character count
@@ -838,6 +1218,9 @@ export const tailScratchpadTool = (
           // Extract by block count using BlockParser
           const blocks = args.tail_size.blocks;
           tailContent = BlockParser.getBlockRange(content, blocks, true); // fromEnd = true
+          tailBlocks = (matchedBlocks ?? BlockParser.parseBlocks(content))
+            .slice(-blocks)
+            .map(summarizeBlock);
           tailChars = tailContent.length;
           tailLines = tailContent.split('\n').length;
           extractionMethod = `last ${blocks} block(s)`;
@@ -891,11 +1274,15 @@ export const tailScratchpadTool = (
         tail_lines: tailLines,
         tail_chars: tailChars,
         total_lines: totalLines,
+        ...(tailBlocks && { blocks: tailBlocks }),
       };
 
       // Generate clear informative message
       const actionType = isFullContent ? 'Retrieved full content from' : 'Retrieved tail from';
       let message = `${actionType} scratchpad "${scratchpad.title}" (${extractionMethod})`;
+      if (blockFilter && matchedBlocks) {
+        message += ` - ${matchedBlocks.length} block(s) with ${BlockParser.describeFilter(blockFilter)}`;
+      }
       message += ` - ${tailLines}/${totalLines} lines, ${tailChars} chars`;
 
       if (!includeContent) {
@@ -938,6 +1325,9 @@ export const chopScratchpadTool = (
         );
       }
 
+      const guard = toWriteGuard(args);
+      db.assertWriteGuard(scratchpad, guard);
+
       const content = scratchpad.content;
 
       // Handle empty content specially
@@ -950,6 +1340,7 @@ export const chopScratchpadTool = (
             created_at: formatTimestamp(scratchpad.created_at),
             updated_at: formatTimestamp(scratchpad.updated_at),
             size_bytes: scratchpad.size_bytes,
+            version: scratchpad.version,
           },
           message: `No lines to chop from empty scratchpad "${scratchpad.title}"`,
           chopped_lines: 0,
@@ -992,7 +1383,7 @@ export const chopScratchpadTool = (
       }
 
       // Update the scratchpad using the new public method
-      const updatedScratchpad = db.updateScratchpadContent(args.id, newContent);
+      const updatedScratchpad = db.updateScratchpadContent(args.id, newContent, 'chop', guard);
 
       return {
         scratchpad: {
@@ -1002,11 +1393,15 @@ export const chopScratchpadTool = (
           created_at: formatTimestamp(updatedScratchpad.created_at),
           updated_at: formatTimestamp(updatedScratchpad.updated_at),
           size_bytes: updatedScratchpad.size_bytes,
+          version: updatedScratchpad.version,
         },
         message: `${choppedMessage} (${updatedScratchpad.size_bytes} bytes)`,
         chopped_lines: choppedLines,
       };
     } catch (error) {
+      if (error instanceof ScratchpadConflictError) {
+        throw error;
+      }
       throw new Error(
         `Failed to chop scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -1014,9 +1409,339 @@ export const chopScratchpadTool = (
   };
 };
 
+/**
+ * Get a single block by its stable ID
+ */
+export const getBlockTool = (
+  db: ScratchpadDatabase
+): ToolHandler<GetBlockArgs, GetBlockResult> => {
+  return async (args: GetBlockArgs): Promise<GetBlockResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const blocks = BlockParser.parseBlocks(scratchpad.content);
+      const block = blocks.find((candidate) => candidate.id === args.block_id);
+      if (!block) {
+        throw new Error(`Block not found: ${args.block_id}`);
+      }
+      const startLine = scratchpad.content.slice(0, block.startPosition).split('\n').length;
+
+      return {
+        scratchpad: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+          version: scratchpad.version,
+        },
+        block: {
+          ...summarizeBlock(block),
+          content: block.content,
+          start_line: startLine,
+          end_line: startLine + block.content.split('\n').length - 1,
+        },
+        total_blocks: blocks.length,
+        message: `Retrieved block ${block.id} (${block.index + 1}/${blocks.length}) from scratchpad "${scratchpad.title}"`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to get block: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * 以 BlockParser 產生新內容後寫回（記錄修訂 block:<action>）
+ */
+const writeBlockEdit = (
+  db: ScratchpadDatabase,
+  args: BlockWriteArgs,
+  action: 'replace' | 'delete' | 'move',
+  edit: (content: string) => string
+): BlockEditResult => {
+  const scratchpad = db.getScratchpadById(args.id);
+  if (!scratchpad) {
+    throw new Error(`Scratchpad not found: ${args.id}`);
+  }
+  const guard = toWriteGuard(args);
+  db.assertWriteGuard(scratchpad, guard);
+
+  const updated = db.updateScratchpadContent(
+    args.id,
+    edit(scratchpad.content),
+    `block:${action}`,
+    guard
+  );
+  const blocks = BlockParser.parseBlocks(updated.content).map(summarizeBlock);
+  const verb = { replace: 'Replaced', delete: 'Deleted', move: 'Moved' }[action];
+
+  return {
+    scratchpad: {
+      id: updated.id,
+      workflow_id: updated.workflow_id,
+      title: updated.title,
+      updated_at: formatTimestamp(updated.updated_at),
+      size_bytes: updated.size_bytes,
+      version: updated.version,
+    },
+    block_id: args.block_id,
+    blocks,
+    message: `${verb} block ${args.block_id} in scratchpad "${updated.title}" (${blocks.length} block(s), ${updated.size_bytes} bytes)`,
+  };
+};
+
+/**
+ * Replace the content of a block, keeping its ID and header
+ */
+export const replaceBlockTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ReplaceBlockArgs, BlockEditResult> => {
+  return async (args: ReplaceBlockArgs): Promise<BlockEditResult> => {
+    try {
+      return writeBlockEdit(db, args, 'replace', (content) =>
+        BlockParser.replaceBlock(content, args.block_id, args.content)
+      );
+    } catch (error) {
+      if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to replace block: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Delete a block together with its splitter and header
+ */
+export const deleteBlockTool = (
+  db: ScratchpadDatabase
+): ToolHandler<DeleteBlockArgs, BlockEditResult> => {
+  return async (args: DeleteBlockArgs): Promise<BlockEditResult> => {
+    try {
+      return writeBlockEdit(db, args, 'delete', (content) =>
+        BlockParser.deleteBlock(content, args.block_id)
+      );
+    } catch (error) {
+      if (error instanceof ScratchpadConflictError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to delete block: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Move a block before / after another block or to the start / end of the scratchpad
+ */
+export const moveBlockTool = (
+  db: ScratchpadDatabase
+): ToolHandler<MoveBlockArgs, BlockEditResult> => {
+  return async (args: MoveBlockArgs): Promise<BlockEditResult> => {
+    try {
+      const targets: BlockMoveTarget[] = [
+        ...(args.before_block_id !== undefined ? [{ before: args.before_block_id }] : []),
+        ...(args.after_block_id !== undefined ? [{ after: args.after_block_id }] : []),
+        ...(args.position !== undefined ? [{ position: args.position }] : []),
+      ];
+      const [target] = targets;
+      if (!target || targets.length > 1) {
+        throw new Error('Specify exactly one of before_block_id, after_block_id or position');
+      }
+
+      return writeBlockEdit(db, args, 'move', (content) =>
+        BlockParser.moveBlock(content, args.block_id, target)
+      );
+    } catch (error) {
+      if (error instanceof ScratchpadConflictError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to move block: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Delete a scratchpad (moves to trash unless permanent=true)
+ */
+export const deleteScratchpadTool = (
+  db: ScratchpadDatabase
+): ToolHandler<DeleteScratchpadArgs, DeleteScratchpadResult> => {
+  return async (args: DeleteScratchpadArgs): Promise<DeleteScratchpadResult> => {
+    try {
+      const { scratchpad, trash_id } = db.deleteScratchpad(args.id, {
+        permanent: args.permanent ?? false,
+      });
+
+      const message = trash_id
+        ? `Moved scratchpad "${scratchpad.title}" to trash (trash ID: ${trash_id}); use restore-from-trash to recover it`
+        : `Permanently deleted scratchpad "${scratchpad.title}" (${scratchpad.size_bytes} bytes)`;
+
+      return {
+        deleted: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+          size_bytes: scratchpad.size_bytes,
+        },
+        trash_id,
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to delete scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Merge scratchpads of a workflow into a new scratchpad (one block per source, titled with the source title)
+ */
+export const mergeScratchpadsTool = (
+  db: ScratchpadDatabase
+): ToolHandler<MergeScratchpadsArgs, MergeScratchpadsResult> => {
+  return async (args: MergeScratchpadsArgs): Promise<MergeScratchpadsResult> => {
+    try {
+      const { scratchpad, sources, trash_ids } = db.mergeScratchpads({
+        workflow_id: args.workflow_id,
+        scratchpad_ids: args.scratchpad_ids,
+        title: args.title,
+        order: args.order,
+        delete_sources: args.delete_sources,
+      });
+
+      return {
+        scratchpad: formatScratchpad(scratchpad, { include_content: args.include_content ?? false }),
+        sources: sources.map((source, index) => ({
+          id: source.id,
+          title: source.title,
+          size_bytes: source.size_bytes,
+          ...(trash_ids[index] !== undefined && { trash_id: trash_ids[index] }),
+        })),
+        message: `Merged ${sources.length} scratchpads into "${scratchpad.title}" (${scratchpad.size_bytes} bytes)${args.delete_sources ? '; sources moved to trash' : ''}`,
+      };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to merge scratchpads: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Move a scratchpad to another workflow (ID, content and revision history are kept)
+ */
+export const moveScratchpadTool = (
+  db: ScratchpadDatabase
+): ToolHandler<MoveScratchpadArgs, MoveScratchpadResult> => {
+  return async (args: MoveScratchpadArgs): Promise<MoveScratchpadResult> => {
+    try {
+      const { scratchpad, from_workflow_id } = db.moveScratchpad(args.id, args.workflow_id);
+
+      return {
+        scratchpad: {
+          id: scratchpad.id,
+          workflow_id: scratchpad.workflow_id,
+          title: scratchpad.title,
+          updated_at: formatTimestamp(scratchpad.updated_at),
+          size_bytes: scratchpad.size_bytes,
+          version: scratchpad.version,
+        },
+        from_workflow_id,
+        message: `Moved scratchpad "${scratchpad.title}" from workflow ${from_workflow_id} to ${scratchpad.workflow_id}`,
+      };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to move scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Copy a scratchpad into a workflow under a new ID (tags and metadata included)
+ */
+export const copyScratchpadTool = (
+  db: ScratchpadDatabase
+): ToolHandler<CopyScratchpadArgs, CopyScratchpadResult> => {
+  return async (args: CopyScratchpadArgs): Promise<CopyScratchpadResult> => {
+    try {
+      const copy = db.copyScratchpad({
+        id: args.id,
+        workflow_id: args.workflow_id,
+        title: args.title,
+      });
+
+      return {
+        scratchpad: formatScratchpad(copy, { include_content: args.include_content ?? false }),
+        source_id: args.id,
+        message: `Copied scratchpad "${copy.title}" (${copy.size_bytes} bytes) to workflow ${copy.workflow_id} as ${copy.id}`,
+      };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to copy scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Rename a scratchpad
+ */
+export const renameScratchpadTool = (
+  db: ScratchpadDatabase
+): ToolHandler<RenameScratchpadArgs, RenameScratchpadResult> => {
+  return async (args: RenameScratchpadArgs): Promise<RenameScratchpadResult> => {
+    try {
+      const original = db.getScratchpadById(args.id);
+      if (!original) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+
+      const renamed = db.renameScratchpad(args.id, args.title);
+
+      return {
+        scratchpad: {
+          id: renamed.id,
+          workflow_id: renamed.workflow_id,
+          title: renamed.title,
+          created_at: formatTimestamp(renamed.created_at),
+          updated_at: formatTimestamp(renamed.updated_at),
+          size_bytes: renamed.size_bytes,
+        },
+        previous_title: original.title,
+        message: `Renamed scratchpad "${original.title}" to "${renamed.title}"`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to rename scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
 /**
  * Enhanced update scratchpad tool - Multi-mode editing support
- * Supports four editing modes: replace, insert_at_line, replace_lines, append_section
+ * Supports line modes (replace, insert_at_line, replace_lines, append_section), section modes
+ * (replace_section, delete_section, prepend_section, rename_section) and find_replace
  */
 export const enhancedUpdateScratchpadTool = (
   db: ScratchpadDatabase
@@ -1038,14 +1763,50 @@ export const enhancedUpdateScratchpadTool = (
         throw new Error('Cannot update scratchpad: workflow is not active');
       }
 
+      // 先檢查並行條件，避免以過期快照計算行號
+      const guard = toWriteGuard(args);
+      db.assertWriteGuard(originalScratchpad, guard);
+
       // Use LineEditor to process the edit
       const { newContent, operationDetails } = LineEditor.processEdit(
         originalScratchpad.content,
         args
       );
 
+      if (args.mode === 'find_replace') {
+        const pattern =
+          args.query !== undefined ? `"${args.query}"` : `pattern /${args.queryRegex}/`;
+        if (args.dry_run) {
+          const { patch } = UnifiedDiff.createPatch(originalScratchpad.content, newContent, {
+            oldLabel: `version ${originalScratchpad.version}`,
+            newLabel: 'find_replace preview',
+          });
+          return {
+            scratchpad: {
+              id: originalScratchpad.id,
+              workflow_id: originalScratchpad.workflow_id,
+              title: originalScratchpad.title,
+              created_at: formatTimestamp(originalScratchpad.created_at),
+              updated_at: formatTimestamp(originalScratchpad.updated_at),
+              size_bytes: originalScratchpad.size_bytes,
+              version: originalScratchpad.version,
+            },
+            message: `Dry run: would replace ${operationDetails.replacements} occurrence(s) of ${pattern} on ${operationDetails.lines_affected} line(s) in scratchpad "${originalScratchpad.title}" - nothing written`,
+            operation_details: { ...operationDetails, dry_run: true, diff: patch },
+          };
+        }
+        if (operationDetails.replacements === 0) {
+          throw new Error(`No matches for ${pattern} - nothing replaced`);
+        }
+      }
+
       // Update the scratchpad content using database method
-      const updatedScratchpad = db.updateScratchpadContent(args.id, newContent);
+      const updatedScratchpad = db.updateScratchpadContent(
+        args.id,
+        newContent,
+        `update:${args.mode}`,
+        guard
+      );
 
       // Generate human-readable message based on operation
       let message: string;
@@ -1062,6 +1823,21 @@ export const enhancedUpdateScratchpadTool = (
         case 'append_section':
           message = `Appended content to section "${args.section_marker}" at line ${operationDetails.insertion_point} in scratchpad "${updatedScratchpad.title}" (${operationDetails.lines_affected} lines added, ${updatedScratchpad.size_bytes} bytes)`;
           break;
+        case 'replace_section':
+          message = `Replaced section "${operationDetails.section.header}" (lines ${operationDetails.section.start_line}-${operationDetails.section.end_line}) in scratchpad "${updatedScratchpad.title}" (${operationDetails.lines_affected} lines written, ${updatedScratchpad.size_bytes} bytes)`;
+          break;
+        case 'delete_section':
+          message = `Deleted section "${operationDetails.section.header}" (lines ${operationDetails.section.start_line}-${operationDetails.section.end_line}) from scratchpad "${updatedScratchpad.title}" (${operationDetails.lines_affected} lines removed, ${updatedScratchpad.size_bytes} bytes)`;
+          break;
+        case 'prepend_section':
+          message = `Prepended content to section "${operationDetails.section.header}" at line ${operationDetails.insertion_point} in scratchpad "${updatedScratchpad.title}" (${operationDetails.lines_affected} lines added, ${updatedScratchpad.size_bytes} bytes)`;
+          break;
+        case 'rename_section':
+          message = `Renamed section "${operationDetails.section.header}" at line ${operationDetails.section.start_line} in scratchpad "${updatedScratchpad.title}"`;
+          break;
+        case 'find_replace':
+          message = `Replaced ${operationDetails.replacements} occurrence(s) on ${operationDetails.lines_affected} line(s) in scratchpad "${updatedScratchpad.title}" (${updatedScratchpad.size_bytes} bytes)`;
+          break;
         default:
           message = `Updated scratchpad "${updatedScratchpad.title}" using ${args.mode} mode (${updatedScratchpad.size_bytes} bytes)`;
       }
@@ -1083,11 +1859,15 @@ export const enhancedUpdateScratchpadTool = (
           created_at: formatTimestamp(updatedScratchpad.created_at),
           updated_at: formatTimestamp(updatedScratchpad.updated_at),
           size_bytes: updatedScratchpad.size_bytes,
+          version: updatedScratchpad.version,
         },
         message,
         operation_details: operationDetails,
       };
     } catch (error) {
+      if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+        throw error;
+      }
       throw new Error(
         `Failed to update scratchpad: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -1106,30 +1886,17 @@ export const getScratchpadOutlineTool = (db: ScratchpadDatabase): ToolHandler<Ge
         throw new Error(`Scratchpad not found: ${args.id}`);
       }
 
-      // Parse markdown headers using regex
-      const headerRegex = /^(#{1,6})\s+(.*)$/gm;
+      // Parse markdown headers
       const headers: { level: number; text: string; line: number; content_preview?: string }[] = [];
       const lines = scratchpad.content.split('\n');
-      
-      let match;
       let maxDepthFound = 0;
-      
-      // Reset regex lastIndex
-      headerRegex.lastIndex = 0;
-      
-      while ((match = headerRegex.exec(scratchpad.content)) !== null) {
-        const level = match[1]?.length ?? 0; // Number of # characters
-        const text = match[2]?.trim() ?? '';
-        
+
+      for (const { level, text, line: lineNumber } of parseMarkdownHeaders(lines)) {
         // Skip if exceeds max_depth
         if (args.max_depth && level > args.max_depth) {
           continue;
         }
         
-        // Find line number of this match
-        const beforeMatch = scratchpad.content.substring(0, match.index || 0);
-        const lineNumber = beforeMatch.split('\n').length;
-        
         // Generate content preview if requested
         let contentPreview: string | undefined;
         if (args.include_content_preview) {
@@ -2,6 +2,12 @@
  * Search tools
  */
 import type { ScratchpadDatabase } from '../database/index.js';
+import type { SearchResult } from '../database/types.js';
+import type { BlockEmbeddingIndex } from '../embeddings/index.js';
+import { BlockParser, type BlockFilter } from '../utils/BlockParser.js';
+import { ContentPattern } from '../utils/ContentPattern.js';
+import { SearchQueryParser } from '../utils/SearchQueryParser.js';
+import { describeEntityFilter } from './metadata.js';
 import type {
   ToolHandler,
   SearchScratchpadsArgs,
@@ -10,6 +16,10 @@ import type {
   SearchScratchpadContentResult,
   SearchWorkflowsArgs,
   SearchWorkflowsResult,
+  SearchAllScratchpadsArgs,
+  SearchAllScratchpadsResult,
+  WorkflowRankingSignal,
+  WorkflowRankingExplanation,
 } from './types.js';
 
 /**
@@ -19,6 +29,39 @@ const formatTimestamp = (unixTimestamp: number): string => {
   return new Date(unixTimestamp * 1000).toISOString();
 };
 
+/**
+ * 以 author / kind 篩選搜尋結果：內容縮減為符合的 blocks，且仍須包含任一查詢關鍵詞
+ */
+const restrictResultsToBlocks = (
+  results: SearchResult[],
+  query: string,
+  filter: BlockFilter
+): SearchResult[] => {
+  const keywords = SearchQueryParser.parse(query).keywords.map((keyword) =>
+    keyword.toLowerCase()
+  );
+  return results.flatMap((result) => {
+    const content = BlockParser.selectBlocks(result.scratchpad.content, filter);
+    const lowerContent = content.toLowerCase();
+    const matches =
+      keywords.length === 0
+        ? content !== ''
+        : keywords.some((keyword) => lowerContent.includes(keyword));
+    return matches
+      ? [
+          {
+            ...result,
+            scratchpad: {
+              ...result.scratchpad,
+              content,
+              size_bytes: Buffer.byteLength(content, 'utf8'),
+            },
+          },
+        ]
+      : [];
+  });
+};
+
 /**
  * Generate a preview summary from content
  */
@@ -235,13 +278,18 @@ export const searchScratchpadsTool = (
 
       // More conservative search limits to prevent context overflow
       const limit = Math.min(args.limit ?? 10, 20); // Reduced defaults for search
+      const blockFilter = BlockParser.createFilter(args);
 
-      const searchResults = db.searchScratchpads({
+      // 篩選 blocks 時先取較多候選，過濾後再截斷
+      const candidates = db.searchScratchpads({
         query: args.query,
         workflow_id: args.workflow_id ?? undefined,
-        limit,
+        limit: blockFilter ? 50 : limit,
         ...(args.useJieba !== undefined && { useJieba: args.useJieba }),
       });
+      const searchResults = blockFilter
+        ? restrictResultsToBlocks(candidates, args.query, blockFilter).slice(0, limit)
+        : candidates;
 
       // Extract search method from database stats
       const stats = db.getStats();
@@ -314,6 +362,9 @@ export const searchScratchpadsTool = (
       const contextWarnings = validationErrors.filter((error) => error.includes('conflicts'));
 
       let message = `Found ${results.length} results for "${args.query}" using ${searchMethod}`;
+      if (blockFilter) {
+        message += ` in blocks with ${BlockParser.describeFilter(blockFilter)}`;
+      }
       if (hasContextParams) {
         const contextMode =
           args.context_lines !== undefined
@@ -532,34 +583,15 @@ function searchStringInContent(content: string, query: string): Match[] {
  * Search for regex pattern in content
  */
 function searchRegexInContent(content: string, queryRegex: string): Match[] {
-  const matches: Match[] = [];
-  
-  try {
-    const regex = new RegExp(queryRegex, 'g');
-    const lines = content.split('\n');
-    
-    lines.forEach((line, lineIndex) => {
-      let match;
-      while ((match = regex.exec(line)) !== null) {
-        matches.push({
-          line_number: lineIndex + 1,
-          char_position: match.index,
-          match_text: match[0]
-        });
-        
-        // Prevent infinite loop on zero-width matches
-        if (match[0].length === 0) {
-          regex.lastIndex++;
-        }
-      }
-      // Reset regex for next line
-      regex.lastIndex = 0;
-    });
-  } catch (error) {
-    throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-  
-  return matches;
+  const regex = ContentPattern.compileRegex(queryRegex);
+
+  return content.split('\n').flatMap((line, lineIndex) =>
+    ContentPattern.matchLine(regex, line).map((match) => ({
+      line_number: lineIndex + 1,
+      char_position: match.index,
+      match_text: match[0],
+    }))
+  );
 }
 
 /**
@@ -570,16 +602,7 @@ export const searchScratchpadContentTool = (
 ): ToolHandler<SearchScratchpadContentArgs, SearchScratchpadContentResult> => {
   return async (args: SearchScratchpadContentArgs): Promise<SearchScratchpadContentResult> => {
     // Validate search parameters
-    const hasQuery = args.query !== undefined;
-    const hasQueryRegex = args.queryRegex !== undefined;
-    
-    if (!hasQuery && !hasQueryRegex) {
-      throw new Error('Either query or queryRegex must be provided');
-    }
-    
-    if (hasQuery && hasQueryRegex) {
-      throw new Error('Cannot specify both query and queryRegex - choose one');
-    }
+    const hasQuery = ContentPattern.resolveMethod(args) === 'string';
     
     // Get scratchpad
     const scratchpad = db.getScratchpadById(args.id);
@@ -597,6 +620,20 @@ export const searchScratchpadContentTool = (
     } else {
       matches = searchRegexInContent(scratchpad.content, args.queryRegex!);
     }
+
+    // author / kind 篩選：只保留落在符合 blocks 內的命中，行號仍對應完整內容
+    const blockFilter = BlockParser.createFilter(args);
+    if (blockFilter) {
+      const lineRanges = BlockParser.filterBlocks(scratchpad.content, blockFilter).map((block) => {
+        const startLine = scratchpad.content.slice(0, block.startPosition).split('\n').length;
+        return { startLine, endLine: startLine + block.content.split('\n').length - 1 };
+      });
+      matches = matches.filter((match) =>
+        lineRanges.some(
+          (range) => match.line_number >= range.startLine && match.line_number <= range.endLine
+        )
+      );
+    }
     
     // Generate snippets for each match
     const hasContextParams = 
@@ -645,17 +682,254 @@ export const searchScratchpadContentTool = (
       matches: matchesWithSnippets,
       total_matches: matches.length,
       search_method: searchMethod,
-      message: `Found ${matches.length} matches for ${searchMethod === 'string' ? `"${searchTerm}"` : `pattern /${searchTerm}/`} in scratchpad "${scratchpad.title}"`,
+      message: `Found ${matches.length} matches for ${searchMethod === 'string' ? `"${searchTerm}"` : `pattern /${searchTerm}/`} in scratchpad "${scratchpad.title}"${blockFilter ? ` (blocks with ${BlockParser.describeFilter(blockFilter)})` : ''}`,
     };
   };
 };
 
+const DEFAULT_RRF_K = 60;
+const RRF_CANDIDATE_LIMIT = 100;
+// searchAllScratchpads 每頁最多 50 筆；scratchpad_bm25 逐頁讀取，直到湊滿候選 workflows 或達到上限
+const RRF_SCRATCHPAD_PAGE_SIZE = 50;
+const RRF_SCRATCHPAD_HIT_LIMIT = 1000;
+
+const RANKING_SIGNALS: readonly WorkflowRankingSignal[] = [
+  'workflow_fts',
+  'scratchpad_bm25',
+  'jieba',
+  'keyword',
+  'semantic',
+];
+
+/**
+ * Workflows ranked by one signal (best first) with the raw signal value
+ */
+interface SignalRanking {
+  available: boolean;
+  ranked: Array<{ id: string; value: number }>;
+  note?: string;
+}
+
+/**
+ * Keep the first (best) entry per workflow
+ */
+const dedupeByWorkflow = (entries: Array<{ id: string; value: number }>): SignalRanking['ranked'] => {
+  const seen = new Set<string>();
+  return entries.filter((entry) => !seen.has(entry.id) && seen.add(entry.id));
+};
+
+/**
+ * Rank workflows by their best scratchpad BM25 hit
+ *
+ * 逐頁讀取 searchAllScratchpads（依 BM25 排序），每個 workflow 保留第一個（最佳）命中
+ */
+const rankWorkflowsByScratchpadBM25 = (
+  db: ScratchpadDatabase,
+  query: string,
+  projectScope: string | undefined
+): SignalRanking => {
+  const hits: Array<{ id: string; value: number }> = [];
+  let ranked: SignalRanking['ranked'] = [];
+  let total = 0;
+
+  while (ranked.length < RRF_CANDIDATE_LIMIT && hits.length < RRF_SCRATCHPAD_HIT_LIMIT) {
+    const page = db.searchAllScratchpads({
+      query,
+      project_scope: projectScope,
+      limit: RRF_SCRATCHPAD_PAGE_SIZE,
+      offset: hits.length,
+    });
+    total = page.total;
+    hits.push(...page.hits.map((hit) => ({ id: hit.workflow.id, value: hit.score })));
+    ranked = dedupeByWorkflow(hits);
+    if (page.hits.length < RRF_SCRATCHPAD_PAGE_SIZE || hits.length >= total) {
+      break;
+    }
+  }
+
+  return {
+    available: true,
+    ranked: ranked.slice(0, RRF_CANDIDATE_LIMIT),
+    note: `Best hit per workflow from ${hits.length} of ${total} matching scratchpad(s), read in pages of ${RRF_SCRATCHPAD_PAGE_SIZE} (up to ${RRF_SCRATCHPAD_HIT_LIMIT} hits / ${RRF_CANDIDATE_LIMIT} workflows)`,
+  };
+};
+
+/**
+ * Resolve per-call RRF weights (default 1 per signal; 0 disables a signal)
+ */
+const resolveRankingWeights = (
+  weights: SearchWorkflowsArgs['weights']
+): Record<WorkflowRankingSignal, number> => {
+  const resolved = {} as Record<WorkflowRankingSignal, number>;
+  for (const signal of RANKING_SIGNALS) {
+    const weight = weights?.[signal] ?? 1;
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid weight for ${signal}: must be a non-negative number`);
+    }
+    resolved[signal] = weight;
+  }
+  return resolved;
+};
+
+/**
+ * Rank workflows with reciprocal rank fusion over lexical, jieba, keyword and semantic signals
+ *
+ * score = Σ weight / (k + rank)；每個結果附上各訊號的排名與貢獻度，方便調整權重
+ */
+const rankWorkflowsWithRRF = async (
+  db: ScratchpadDatabase,
+  args: SearchWorkflowsArgs,
+  keywords: string[],
+  embeddingIndex: BlockEmbeddingIndex | undefined
+): Promise<SearchWorkflowsResult['results']> => {
+  const weights = resolveRankingWeights(args.weights);
+  const k = args.rrf_k ?? DEFAULT_RRF_K;
+  if (!Number.isFinite(k) || k < 0) {
+    throw new Error('Invalid rrf_k: must be a non-negative number');
+  }
+  const disabled: SignalRanking = { available: false, ranked: [] };
+  const signals = {} as Record<WorkflowRankingSignal, SignalRanking>;
+
+  signals.workflow_fts =
+    weights.workflow_fts > 0
+      ? {
+          available: true,
+          ranked: db
+            .searchWorkflows({
+              query: args.query,
+              ...(args.project_scope && { project_scope: args.project_scope }),
+              limit: RRF_CANDIDATE_LIMIT,
+            })
+            .map((workflow) => ({ id: workflow.id, value: workflow.rank })),
+        }
+      : disabled;
+
+  // 以拆分後的關鍵詞查詢，讓中英混合查詢（如 "React組件"）也能逐詞比對；使用查詢語法時保留原查詢
+  signals.scratchpad_bm25 =
+    weights.scratchpad_bm25 > 0
+      ? rankWorkflowsByScratchpadBM25(
+          db,
+          SearchQueryParser.parse(args.query).advanced ? args.query : keywords.join(' '),
+          args.project_scope
+        )
+      : disabled;
+
+  if (weights.jieba > 0) {
+    const jieba = db.searchWorkflowsJieba({
+      query: args.query,
+      project_scope: args.project_scope,
+      limit: RRF_CANDIDATE_LIMIT,
+    });
+    signals.jieba = {
+      available: jieba.available,
+      ranked: jieba.results.map((row) => ({ id: row.id, value: row.rank })),
+    };
+  } else {
+    signals.jieba = disabled;
+  }
+
+  if (weights.semantic > 0 && embeddingIndex) {
+    const { hits } = await embeddingIndex.search({
+      query: args.query,
+      project_scope: args.project_scope,
+      limit: RRF_CANDIDATE_LIMIT,
+      min_score: 0,
+    });
+    signals.semantic = {
+      available: true,
+      ranked: dedupeByWorkflow(hits.map((hit) => ({ id: hit.workflow_id, value: hit.score }))),
+    };
+  } else {
+    signals.semantic = disabled;
+  }
+
+  // 候選集合：任一訊號命中的 workflows；keyword 訊號只在候選集合內重新評分
+  const candidateIds = new Set(
+    (['workflow_fts', 'scratchpad_bm25', 'jieba', 'semantic'] as const).flatMap((signal) =>
+      signals[signal].ranked.map((entry) => entry.id)
+    )
+  );
+  const candidates = [...candidateIds]
+    .map((id) => db.getWorkflowById(id))
+    .filter((workflow) => workflow !== null)
+    .filter((workflow) => !args.project_scope || workflow.project_scope === args.project_scope)
+    .map((workflow) => ({
+      workflow,
+      scratchpads: db.listScratchpads({ workflow_id: workflow.id, limit: 100 }),
+    }));
+
+  signals.keyword =
+    weights.keyword > 0
+      ? {
+          available: true,
+          ranked: candidates
+            .map(({ workflow, scratchpads }) => ({
+              id: workflow.id,
+              value: calculateWorkflowScore(workflow, scratchpads, keywords),
+            }))
+            .filter((entry) => entry.value > 0)
+            .sort((a, b) => b.value - a.value),
+        }
+      : disabled;
+
+  const results = candidates.map(({ workflow, scratchpads }) => {
+    const explanation: WorkflowRankingExplanation = {
+      method: 'rrf',
+      k,
+      signals: {} as WorkflowRankingExplanation['signals'],
+    };
+    let score = 0;
+
+    for (const signal of RANKING_SIGNALS) {
+      const { available, ranked, note } = signals[signal];
+      const position = ranked.findIndex((entry) => entry.id === workflow.id);
+      const rank = position === -1 ? null : position + 1;
+      const contribution = rank === null ? 0 : weights[signal] / (k + rank);
+      score += contribution;
+      explanation.signals[signal] = {
+        available,
+        weight: weights[signal],
+        rank,
+        value: rank === null ? null : (ranked[position]?.value ?? null),
+        contribution,
+        ...(note !== undefined && { note }),
+      };
+    }
+
+    return {
+      workflow: {
+        id: workflow.id,
+        name: workflow.name,
+        description: workflow.description,
+        created_at: formatTimestamp(workflow.created_at),
+        updated_at: formatTimestamp(workflow.updated_at),
+        scratchpad_count: workflow.scratchpad_count,
+        is_active: workflow.is_active,
+        project_scope: workflow.project_scope,
+        tags: workflow.tags,
+        metadata: workflow.metadata,
+      },
+      score,
+      matching_scratchpads: scratchpads.length,
+      rank: explanation.signals.workflow_fts.value ?? 0,
+      explanation,
+      updatedAt: workflow.updated_at,
+    };
+  });
+
+  return results
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || b.updatedAt - a.updatedAt)
+    .map(({ updatedAt: _updatedAt, ...result }) => result);
+};
+
 /**
  * Search workflows with weighted scoring based on scratchpads content
  * 實作「先搜workflows再載入scratchpads的查詢策略」
  */
 export const searchWorkflowsTool = (
-  db: ScratchpadDatabase
+  db: ScratchpadDatabase,
+  embeddingIndex?: BlockEmbeddingIndex
 ): ToolHandler<SearchWorkflowsArgs, SearchWorkflowsResult> => {
   return async (args: SearchWorkflowsArgs): Promise<SearchWorkflowsResult> => {
     try {
@@ -664,11 +938,15 @@ export const searchWorkflowsTool = (
       const limit = Math.min(args.limit ?? 5, 20);
       const offset = (page - 1) * limit;
       
-      // 步驟 1: 分離英文和中文關鍵詞
-      const { english, chinese } = splitLanguageKeywords(args.query);
+      // 步驟 1: 分離英文和中文關鍵詞（查詢語法只取需命中的詞彙，略過運算子、欄位前綴與排除詞）
+      const parsedQuery = SearchQueryParser.parse(args.query);
+      const { english, chinese } = splitLanguageKeywords(
+        parsedQuery.advanced ? parsedQuery.keywords.join(' ') : args.query
+      );
       const allKeywords = [...english, ...chinese];
-      
-      if (allKeywords.length === 0) {
+
+      // 只有篩選條件的查詢（如 scope:infra updated:>2026-01-01）沒有關鍵詞但仍然有效
+      if (allKeywords.length === 0 && !(parsedQuery.advanced && parsedQuery.root)) {
         return {
           results: [],
           pagination: {
@@ -683,71 +961,93 @@ export const searchWorkflowsTool = (
         };
       }
 
-      // 步驟 2: 執行 workflows 搜尋（使用資料庫的四層降級機制）
-      const searchParams: {
-        query: string;
-        project_scope?: string;
-        limit?: number;
-      } = {
-        query: args.query,
-        limit: 100, // 先取較多結果，之後重新評分和分頁
-      };
-      
-      if (args.project_scope) {
-        searchParams.project_scope = args.project_scope;
-      }
-      
-      const workflowSearchResults = db.searchWorkflows(searchParams);
+      const ranking = args.ranking ?? 'weighted';
 
       // 提取搜尋方法
       const stats = db.getStats();
       const searchMethod = stats.hasFTS5 ? 'fts5' : 'like';
 
-      // 步驟 3: 對每個 workflow 載入 scratchpads 並計算權重分數
-      const scoredResults = workflowSearchResults.map((workflow) => {
-        // 載入該 workflow 的所有 scratchpads
-        const scratchpads = db.listScratchpads({
-          workflow_id: workflow.id,
-          limit: 100, // 獲取所有 scratchpads 用於評分
-        });
+      let scoredResults: SearchWorkflowsResult['results'];
+      if (ranking === 'rrf') {
+        // Reciprocal rank fusion：融合 FTS5 BM25、jieba、關鍵詞與語意分數
+        scoredResults = await rankWorkflowsWithRRF(db, args, allKeywords, embeddingIndex);
+      } else {
+        // 步驟 2: 執行 workflows 搜尋（使用資料庫的四層降級機制）
+        const searchParams: {
+          query: string;
+          project_scope?: string;
+          limit?: number;
+        } = {
+          query: args.query,
+          limit: 100, // 先取較多結果，之後重新評分和分頁
+        };
+      
+        if (args.project_scope) {
+          searchParams.project_scope = args.project_scope;
+        }
+      
+        const workflowSearchResults = db.searchWorkflows(searchParams);
+
+        // 步驟 3: 對每個 workflow 載入 scratchpads 並計算權重分數
+        scoredResults = workflowSearchResults.map((workflow) => {
+          // 載入該 workflow 的所有 scratchpads
+          const scratchpads = db.listScratchpads({
+            workflow_id: workflow.id,
+            limit: 100, // 獲取所有 scratchpads 用於評分
+          });
         
-        // 計算權重分數
-        const score = calculateWorkflowScore(
-          {
-            name: workflow.name,
-            description: workflow.description,
-          },
-          scratchpads.map((sp) => ({
-            title: sp.title,
-            content: sp.content,
-          })),
-          allKeywords
-        );
+          // 計算權重分數
+          const score = calculateWorkflowScore(
+            {
+              name: workflow.name,
+              description: workflow.description,
+            },
+            scratchpads.map((sp) => ({
+              title: sp.title,
+              content: sp.content,
+            })),
+            allKeywords
+          );
 
-        return {
-          workflow: {
-            id: workflow.id,
-            name: workflow.name,
-            description: workflow.description,
-            created_at: formatTimestamp(workflow.created_at),
-            updated_at: formatTimestamp(workflow.updated_at),
-            scratchpad_count: workflow.scratchpad_count,
-            is_active: workflow.is_active,
-            project_scope: workflow.project_scope,
-          },
-          score,
-          matching_scratchpads: scratchpads.length,
-          rank: workflow.rank,
-        };
-      });
+          return {
+            workflow: {
+              id: workflow.id,
+              name: workflow.name,
+              description: workflow.description,
+              created_at: formatTimestamp(workflow.created_at),
+              updated_at: formatTimestamp(workflow.updated_at),
+              scratchpad_count: workflow.scratchpad_count,
+              is_active: workflow.is_active,
+              project_scope: workflow.project_scope,
+              tags: workflow.tags,
+              metadata: workflow.metadata,
+            },
+            score,
+            matching_scratchpads: scratchpads.length,
+            rank: workflow.rank,
+          };
+        });
 
-      // 步驟 4: 按分數排序（高分在前），分數相同時按 rank 排序
-      scoredResults.sort((a, b) => {
-        if (b.score !== a.score) {
-          return b.score - a.score; // 分數高的在前
-        }
-        return a.rank - b.rank; // 分數相同時 rank 小的在前（更相關）
-      });
+        // 步驟 4: 按分數排序（高分在前），分數相同時按 rank 排序
+        scoredResults.sort((a, b) => {
+          if (b.score !== a.score) {
+            return b.score - a.score; // 分數高的在前
+          }
+          return a.rank - b.rank; // 分數相同時 rank 小的在前（更相關）
+        });
+      }
+
+      // 標籤 / metadata 篩選（兩種排序模式共用）
+      if (args.tags?.length || args.metadata) {
+        const matched = new Set(
+          db.filterEntityIds(
+            'workflow',
+            scoredResults.map((result) => result.workflow.id),
+            { tags: args.tags, metadata: args.metadata }
+          )
+        );
+        scoredResults = scoredResults.filter((result) => matched.has(result.workflow.id));
+      }
 
       // 步驟 5: 分頁處理
       const totalResults = scoredResults.length;
@@ -755,10 +1055,14 @@ export const searchWorkflowsTool = (
       const hasMore = offset + limit < totalResults;
 
       // 生成回應訊息
-      let message = `Found ${totalResults} workflows for "${args.query}" using ${searchMethod}`;
+      let message = `Found ${totalResults} workflows for "${args.query}" using ${ranking === 'rrf' ? `reciprocal rank fusion (${searchMethod})` : searchMethod}`;
       if (args.project_scope) {
         message += ` (project: ${args.project_scope})`;
       }
+      const entityFilters = describeEntityFilter(args);
+      if (entityFilters.length > 0) {
+        message += ` (${entityFilters.join(', ')})`;
+      }
       if (totalResults > limit) {
         message += ` - Showing page ${page} of ${Math.ceil(totalResults / limit)}`;
       }
@@ -782,6 +1086,7 @@ export const searchWorkflowsTool = (
         },
         query: args.query,
         search_method: searchMethod,
+        ranking,
         message,
       };
     } catch (error) {
@@ -791,3 +1096,114 @@ export const searchWorkflowsTool = (
     }
   };
 };
+
+/**
+ * Parse an optional ISO 8601 date/time filter into a Unix timestamp
+ */
+const parseDateFilter = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name} timestamp: ${value}`);
+  }
+  return Math.floor(parsed / 1000);
+};
+
+/**
+ * Search scratchpads across all workflows with BM25 ranking, filters and highlighted snippets
+ */
+export const searchAllScratchpadsTool = (
+  db: ScratchpadDatabase
+): ToolHandler<SearchAllScratchpadsArgs, SearchAllScratchpadsResult> => {
+  return async (args: SearchAllScratchpadsArgs): Promise<SearchAllScratchpadsResult> => {
+    try {
+      const page = Math.max(1, args.page ?? 1);
+      const limit = Math.min(Math.max(args.limit ?? 10, 1), 50);
+      const updatedAfter = parseDateFilter('updated_after', args.updated_after);
+      const updatedBefore = parseDateFilter('updated_before', args.updated_before);
+
+      const { hits, total, search_method } = db.searchAllScratchpads({
+        query: args.query,
+        project_scope: args.project_scope,
+        is_active: args.is_active,
+        updated_after: updatedAfter,
+        updated_before: updatedBefore,
+        title_only: args.title_only,
+        tags: args.tags,
+        metadata: args.metadata,
+        limit,
+        offset: (page - 1) * limit,
+        ...(args.snippet_tokens !== undefined && { snippet_tokens: args.snippet_tokens }),
+        ...(args.highlight_open !== undefined && { highlight_open: args.highlight_open }),
+        ...(args.highlight_close !== undefined && { highlight_close: args.highlight_close }),
+      });
+
+      // 描述套用的篩選條件
+      const filters: string[] = [];
+      if (args.project_scope) {
+        filters.push(`project: ${args.project_scope}`);
+      }
+      if (args.is_active !== undefined) {
+        filters.push(args.is_active ? 'active workflows' : 'inactive workflows');
+      }
+      if (args.updated_after) {
+        filters.push(`updated after ${args.updated_after}`);
+      }
+      if (args.updated_before) {
+        filters.push(`updated before ${args.updated_before}`);
+      }
+      if (args.title_only) {
+        filters.push('title only');
+      }
+      filters.push(...describeEntityFilter(args));
+
+      let message = `Found ${total} scratchpads for "${args.query}" using ${search_method}`;
+      if (filters.length > 0) {
+        message += ` (${filters.join(', ')})`;
+      }
+      if (total > limit) {
+        message += ` - Showing page ${page} of ${Math.ceil(total / limit)}`;
+      }
+
+      return {
+        results: hits.map((hit) => ({
+          scratchpad: {
+            id: hit.scratchpad.id,
+            workflow_id: hit.scratchpad.workflow_id,
+            title: hit.scratchpad.title,
+            title_highlight: hit.title_highlight,
+            snippet: hit.snippet,
+            created_at: formatTimestamp(hit.scratchpad.created_at),
+            updated_at: formatTimestamp(hit.scratchpad.updated_at),
+            size_bytes: hit.scratchpad.size_bytes,
+            version: hit.scratchpad.version,
+            tags: hit.scratchpad.tags,
+          },
+          workflow: {
+            id: hit.workflow.id,
+            name: hit.workflow.name,
+            project_scope: hit.workflow.project_scope,
+            is_active: hit.workflow.is_active,
+            tags: hit.workflow.tags,
+          },
+          score: hit.score,
+        })),
+        pagination: {
+          page,
+          per_page: limit,
+          total_results: total,
+          has_more: page * limit < total,
+        },
+        query: args.query,
+        search_method,
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to search all scratchpads: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
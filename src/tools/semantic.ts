@@ -0,0 +1,101 @@
+/**
+ * Semantic search tools
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import {
+  BlockEmbeddingIndex,
+  EmbeddingConfigurationError,
+  createEmbeddingProviderFromEnv,
+} from '../embeddings/index.js';
+import type { ToolHandler, SemanticSearchArgs, SemanticSearchResult } from './types.js';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+const DEFAULT_MAX_CONTENT_CHARS = 1000;
+
+const NOT_CONFIGURED_MESSAGE =
+  'Semantic search is not configured: set SCRATCHPAD_EMBEDDING_PROVIDER to "openai", "openai-compatible" ' +
+  '(with SCRATCHPAD_EMBEDDING_BASE_URL), "transformers" or "stub"';
+
+/**
+ * Search scratchpad blocks by meaning using the embedding index
+ *
+ * index 未指定時依環境變數建立（見 src/embeddings/config.ts）；搜尋前會補齊範圍內的索引
+ */
+export const semanticSearchTool = (
+  db: ScratchpadDatabase,
+  index?: BlockEmbeddingIndex
+): ToolHandler<SemanticSearchArgs, SemanticSearchResult> => {
+  return async (args: SemanticSearchArgs): Promise<SemanticSearchResult> => {
+    try {
+      if (args.query.trim() === '') {
+        throw new Error('query must not be empty');
+      }
+      if (args.workflow_id && !db.getWorkflowById(args.workflow_id)) {
+        throw new Error(`Workflow not found: ${args.workflow_id}`);
+      }
+
+      let searchIndex = index;
+      if (!searchIndex) {
+        const provider = createEmbeddingProviderFromEnv();
+        if (!provider) {
+          throw new EmbeddingConfigurationError(NOT_CONFIGURED_MESSAGE);
+        }
+        searchIndex = new BlockEmbeddingIndex(db, provider);
+      }
+
+      const limit = Math.min(Math.max(args.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+      const maxContentChars = args.max_content_chars ?? DEFAULT_MAX_CONTENT_CHARS;
+
+      const { hits, indexed } = await searchIndex.search({
+        query: args.query,
+        workflow_id: args.workflow_id,
+        project_scope: args.project_scope,
+        limit,
+        min_score: args.min_score ?? 0,
+      });
+
+      const results = hits.map((hit) => {
+        const truncated = hit.content.length > maxContentChars;
+        return {
+          scratchpad: {
+            id: hit.scratchpad_id,
+            title: hit.scratchpad_title,
+            workflow_id: hit.workflow_id,
+          },
+          workflow: {
+            id: hit.workflow_id,
+            name: hit.workflow_name,
+          },
+          block: {
+            index: hit.block_index,
+            start_line: hit.start_line,
+            end_line: hit.end_line,
+            content: truncated ? `${hit.content.slice(0, maxContentChars)}...` : hit.content,
+            ...(truncated && { content_truncated: true }),
+          },
+          score: hit.score,
+        };
+      });
+
+      let message = `Found ${results.length} semantically similar blocks for "${args.query}" using ${searchIndex.provider.label}`;
+      if (indexed.embedded > 0) {
+        message += ` (indexed ${indexed.embedded} new or changed blocks from ${indexed.scratchpads} scratchpads first)`;
+      }
+
+      return {
+        results,
+        count: results.length,
+        query: args.query,
+        provider: searchIndex.provider.name,
+        model: searchIndex.provider.model,
+        index_updates: { scratchpads: indexed.scratchpads, embedded: indexed.embedded },
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to run semantic search: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
@@ -0,0 +1,225 @@
+/**
+ * Task tools - list, complete and add GitHub-style checklist items across a workflow
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError, ScratchpadConflictError } from '../database/index.js';
+import type { Scratchpad } from '../database/types.js';
+import {
+  formatTaskLine,
+  parseTasks,
+  setTaskLineCompleted,
+  summarizeTaskProgress,
+  type Task,
+} from '../tasks/index.js';
+import { LineEditor, toWriteGuard } from './scratchpad.js';
+import type {
+  ToolHandler,
+  ListTasksArgs,
+  ListTasksResult,
+  CompleteTaskArgs,
+  AddTaskArgs,
+  TaskEditResult,
+} from './types.js';
+
+/**
+ * Convert Unix timestamp to local timezone ISO string
+ */
+const formatTimestamp = (unixTimestamp: number): string => {
+  return new Date(unixTimestamp * 1000).toISOString();
+};
+
+const tasksOf = (scratchpad: Scratchpad): Task[] =>
+  parseTasks(scratchpad.content).map((task) => ({
+    task_id: `${scratchpad.id}:${task.line}`,
+    scratchpad_id: scratchpad.id,
+    scratchpad_title: scratchpad.title,
+    workflow_id: scratchpad.workflow_id,
+    ...task,
+  }));
+
+const toEditResult = (scratchpad: Scratchpad, line: number, message: string): TaskEditResult => {
+  const tasks = tasksOf(scratchpad);
+  const task = tasks.find((candidate) => candidate.line === line);
+  if (!task) {
+    throw new Error(`No task at line ${line} after the edit`);
+  }
+  const { total, completed, open, percent_complete } = summarizeTaskProgress(tasks);
+
+  return {
+    scratchpad: {
+      id: scratchpad.id,
+      workflow_id: scratchpad.workflow_id,
+      title: scratchpad.title,
+      updated_at: formatTimestamp(scratchpad.updated_at),
+      size_bytes: scratchpad.size_bytes,
+      version: scratchpad.version,
+    },
+    task,
+    progress: { total, completed, open, percent_complete },
+    message,
+  };
+};
+
+/**
+ * List checklist tasks of a workflow with a progress summary
+ */
+export const listTasksTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ListTasksArgs, ListTasksResult> => {
+  return async (args: ListTasksArgs): Promise<ListTasksResult> => {
+    try {
+      const workflow = db.getWorkflowById(args.workflow_id);
+      if (!workflow) {
+        throw new Error(`Workflow not found: ${args.workflow_id}`);
+      }
+
+      let scratchpads = db.listAllScratchpads(workflow.id);
+      if (args.scratchpad_id !== undefined) {
+        scratchpads = scratchpads.filter((scratchpad) => scratchpad.id === args.scratchpad_id);
+        if (scratchpads.length === 0) {
+          throw new Error(`Scratchpad not found in workflow: ${args.scratchpad_id}`);
+        }
+      }
+
+      const allTasks = scratchpads.flatMap(tasksOf);
+      const status = args.status ?? 'all';
+      const section = args.section?.toLowerCase();
+      const query = args.query?.toLowerCase();
+      const tasks = allTasks.filter(
+        (task) =>
+          (status === 'all' || task.completed === (status === 'completed')) &&
+          (section === undefined || (task.section?.toLowerCase().includes(section) ?? false)) &&
+          (query === undefined || task.text.toLowerCase().includes(query))
+      );
+      const progress = summarizeTaskProgress(allTasks);
+
+      let message = `${progress.completed}/${progress.total} task(s) completed (${progress.percent_complete}%) in workflow "${workflow.name}"`;
+      if (!args.summary_only) {
+        message += ` - ${tasks.length} task(s) listed`;
+      }
+
+      return {
+        workflow: { id: workflow.id, name: workflow.name },
+        tasks: args.summary_only ? [] : tasks,
+        count: args.summary_only ? 0 : tasks.length,
+        progress,
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to list tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Check (or uncheck) a task in place
+ */
+export const completeTaskTool = (
+  db: ScratchpadDatabase
+): ToolHandler<CompleteTaskArgs, TaskEditResult> => {
+  return async (args: CompleteTaskArgs): Promise<TaskEditResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+      const guard = toWriteGuard(args);
+      db.assertWriteGuard(scratchpad, guard);
+
+      // 以 parseTasks 判斷，code block 內的 checkbox 不算任務
+      const line = scratchpad.content.split('\n')[args.line - 1];
+      const task = parseTasks(scratchpad.content).find((candidate) => candidate.line === args.line);
+      if (line === undefined || !task) {
+        throw new Error(`Line ${args.line} is not a task`);
+      }
+      if (args.expected_text !== undefined && task.text !== args.expected_text.trim()) {
+        throw new Error(
+          `Task at line ${args.line} does not match expected_text (found: ${JSON.stringify(task.text)})`
+        );
+      }
+
+      const completed = args.completed ?? true;
+      let updated = scratchpad;
+      if (task.completed !== completed) {
+        const { newContent } = LineEditor.processEdit(scratchpad.content, {
+          id: args.id,
+          mode: 'replace_lines',
+          content: setTaskLineCompleted(line, completed),
+          start_line: args.line,
+          end_line: args.line,
+        });
+        updated = db.updateScratchpadContent(
+          args.id,
+          newContent,
+          completed ? 'task:complete' : 'task:reopen',
+          guard
+        );
+      }
+
+      const verb = completed ? 'Completed' : 'Reopened';
+      return toEditResult(
+        updated,
+        args.line,
+        task.completed === completed
+          ? `Task at line ${args.line} was already ${completed ? 'completed' : 'open'}: ${task.text}`
+          : `${verb} task at line ${args.line} in scratchpad "${updated.title}": ${task.text}`
+      );
+    } catch (error) {
+      if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to complete task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Add an open task after the last list item of a section (or at the end of the scratchpad)
+ */
+export const addTaskTool = (db: ScratchpadDatabase): ToolHandler<AddTaskArgs, TaskEditResult> => {
+  return async (args: AddTaskArgs): Promise<TaskEditResult> => {
+    try {
+      const scratchpad = db.getScratchpadById(args.id);
+      if (!scratchpad) {
+        throw new Error(`Scratchpad not found: ${args.id}`);
+      }
+      const guard = toWriteGuard(args);
+      db.assertWriteGuard(scratchpad, guard);
+
+      const taskLine = formatTaskLine(args.text);
+      // 指定 section 時接在該章節最後一個清單項目之後；否則插入到內容最後（保留結尾的換行）
+      const lines = scratchpad.content === '' ? [] : scratchpad.content.split('\n');
+      const lineNumber = args.section_marker
+        ? LineEditor.listInsertionPoint(lines, args.section_marker)
+        : lines[lines.length - 1] === ''
+          ? lines.length
+          : lines.length + 1;
+      const { newContent, operationDetails } = LineEditor.processEdit(scratchpad.content, {
+        id: args.id,
+        mode: 'insert_at_line',
+        content: taskLine,
+        line_number: lineNumber,
+      });
+      const line = operationDetails.insertion_point as number;
+      const updated = db.updateScratchpadContent(args.id, newContent, 'task:add', guard);
+
+      return toEditResult(
+        updated,
+        line,
+        `Added task at line ${line} in scratchpad "${updated.title}"` +
+          (args.section_marker ? ` (section "${args.section_marker}")` : '')
+      );
+    } catch (error) {
+      if (error instanceof ScratchpadConflictError || error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to add task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
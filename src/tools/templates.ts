@@ -0,0 +1,101 @@
+/**
+ * Template tools - list and save scratchpad templates used by create-scratchpad
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError } from '../database/index.js';
+import { TemplateRegistry, type ScratchpadTemplate } from '../templates/index.js';
+import type {
+  ToolHandler,
+  TemplateSummary,
+  ListTemplatesArgs,
+  ListTemplatesResult,
+  SaveTemplateArgs,
+  SaveTemplateResult,
+} from './types.js';
+
+/**
+ * Convert Unix timestamp to local timezone ISO string
+ */
+const formatTimestamp = (unixTimestamp: number): string => {
+  return new Date(unixTimestamp * 1000).toISOString();
+};
+
+const summarizeTemplate = (
+  template: ScratchpadTemplate,
+  includeContent: boolean
+): TemplateSummary => ({
+  name: template.name,
+  description: template.description,
+  source: template.source,
+  variables: template.variables,
+  size_bytes: Buffer.byteLength(template.content, 'utf8'),
+  ...(template.updated_at !== undefined && { updated_at: formatTimestamp(template.updated_at) }),
+  ...(includeContent && { content: template.content }),
+});
+
+/**
+ * List available templates from the database, the templates directory and built-ins
+ */
+export const listTemplatesTool = (
+  db: ScratchpadDatabase,
+  templates: TemplateRegistry = new TemplateRegistry(db)
+): ToolHandler<ListTemplatesArgs, ListTemplatesResult> => {
+  return async (args: ListTemplatesArgs): Promise<ListTemplatesResult> => {
+    try {
+      const matched = templates
+        .list()
+        .filter((template) => args.source === undefined || template.source === args.source);
+
+      return {
+        templates: matched.map((template) =>
+          summarizeTemplate(template, args.include_content ?? false)
+        ),
+        count: matched.length,
+        message: `Found ${matched.length} template(s)${args.source ? ` from ${args.source}` : ''}`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to list templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Save a template to the database (overrides directory / built-in templates of the same name)
+ */
+export const saveTemplateTool = (
+  db: ScratchpadDatabase,
+  templates: TemplateRegistry = new TemplateRegistry(db)
+): ToolHandler<SaveTemplateArgs, SaveTemplateResult> => {
+  return async (args: SaveTemplateArgs): Promise<SaveTemplateResult> => {
+    try {
+      const { template, replaced } = templates.save({
+        name: args.name,
+        content: args.content,
+        description: args.description,
+        overwrite: args.overwrite,
+      });
+
+      const action = replaced === 'database' ? 'Replaced' : 'Saved';
+      const overrides =
+        replaced !== null && replaced !== 'database' ? ` (overrides the ${replaced} template)` : '';
+      const variables =
+        template.variables.length > 0 ? `; variables: ${template.variables.join(', ')}` : '';
+
+      return {
+        template: summarizeTemplate(template, false),
+        replaced,
+        message: `${action} template "${template.name}"${overrides}${variables}`,
+      };
+    } catch (error) {
+      // 配額錯誤保留結構化資訊（上限與目前用量），交由 handleToolError 輸出
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
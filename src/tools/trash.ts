@@ -0,0 +1,115 @@
+/**
+ * Trash tools - list, restore and purge soft-deleted scratchpads and workflows
+ */
+import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError } from '../database/index.js';
+import type {
+  ToolHandler,
+  ListTrashArgs,
+  ListTrashResult,
+  RestoreFromTrashArgs,
+  RestoreFromTrashResult,
+  EmptyTrashArgs,
+  EmptyTrashResult,
+} from './types.js';
+
+/**
+ * Convert Unix timestamp to local timezone ISO string
+ */
+const formatTimestamp = (unixTimestamp: number): string => {
+  return new Date(unixTimestamp * 1000).toISOString();
+};
+
+/**
+ * List trashed scratchpads and workflows (newest first)
+ */
+export const listTrashTool = (
+  db: ScratchpadDatabase
+): ToolHandler<ListTrashArgs, ListTrashResult> => {
+  return async (args: ListTrashArgs): Promise<ListTrashResult> => {
+    try {
+      const entries = db.listTrash({
+        item_type: args.item_type,
+        workflow_id: args.workflow_id,
+      });
+
+      return {
+        entries: entries.map((entry) => ({
+          trash_id: entry.id,
+          item_type: entry.item_type,
+          item_id: entry.item_id,
+          workflow_id: entry.workflow_id,
+          title: entry.title,
+          size_bytes: entry.size_bytes,
+          deleted_at: formatTimestamp(entry.deleted_at),
+        })),
+        count: entries.length,
+        message:
+          entries.length === 0 ? 'Trash is empty' : `Found ${entries.length} item(s) in trash`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to list trash: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Restore a trashed scratchpad or workflow with its original ID
+ */
+export const restoreFromTrashTool = (
+  db: ScratchpadDatabase
+): ToolHandler<RestoreFromTrashArgs, RestoreFromTrashResult> => {
+  return async (args: RestoreFromTrashArgs): Promise<RestoreFromTrashResult> => {
+    try {
+      const restored = db.restoreFromTrash(args.trash_id);
+
+      const message =
+        restored.item_type === 'workflow'
+          ? `Restored workflow ${restored.item_id} with ${restored.scratchpads_restored} scratchpad(s)`
+          : `Restored scratchpad ${restored.item_id}`;
+
+      return { ...restored, message };
+    } catch (error) {
+      // 配額錯誤保留結構化資訊（上限與目前用量），交由 handleToolError 輸出
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to restore from trash: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Permanently purge trash entries
+ */
+export const emptyTrashTool = (
+  db: ScratchpadDatabase
+): ToolHandler<EmptyTrashArgs, EmptyTrashResult> => {
+  return async (args: EmptyTrashArgs): Promise<EmptyTrashResult> => {
+    try {
+      if (args.older_than_days !== undefined && args.older_than_days < 0) {
+        throw new Error('older_than_days must be >= 0');
+      }
+
+      const olderThanSeconds =
+        args.older_than_days !== undefined ? Math.floor(args.older_than_days * 86400) : undefined;
+      const purged = db.emptyTrash(olderThanSeconds);
+
+      return {
+        purged,
+        message:
+          args.older_than_days !== undefined
+            ? `Permanently purged ${purged} trash item(s) older than ${args.older_than_days} day(s)`
+            : `Permanently purged ${purged} trash item(s)`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to empty trash: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
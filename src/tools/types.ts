@@ -37,6 +37,12 @@
  * //   - "task-context" (scratchpad-id-1)
  * //   - "progress-log" (scratchpad-id-2)
  */
+import type { LLMProviderName } from '../llm/types.js';
+import type { TemplateSource, TemplateVariableValue } from '../templates/types.js';
+import type { ImportAction, ImportConflictPolicy } from '../database/types.js';
+import type { BundleFile, ExportFormat, WorkflowArchive } from '../portability/types.js';
+import type { BlockKind } from '../utils/BlockParser.js';
+import type { Task, TaskCounts, TaskProgress } from '../tasks/types.js';
 
 export interface ToolHandler<TArgs = Record<string, unknown>, TResult = unknown> {
   (args: TArgs): Promise<TResult>;
@@ -97,6 +103,8 @@ export interface FormattedScratchpad {
   created_at: string;
   updated_at: string;
   size_bytes: number;
+  /** Monotonic version, pass as expected_version on writes for optimistic concurrency */
+  version: number;
   /** Indicates if content was truncated due to max_content_chars */
   content_truncated?: boolean;
   /** Original content size before truncation */
@@ -142,7 +150,15 @@ export interface CreateWorkflowResult {
   message: string;
 }
 
-export interface ListWorkflowsArgs extends Partial<OutputControlOptions> {
+/**
+ * Tag / metadata filters shared by list and search tools
+ */
+export interface EntityFilterArgs {
+  tags?: string[]; // Only items carrying all of these tags
+  metadata?: Record<string, string | number | boolean>; // Only items whose metadata has these exact values
+}
+
+export interface ListWorkflowsArgs extends Partial<OutputControlOptions>, EntityFilterArgs {
   project_scope?: string;
 }
 
@@ -156,6 +172,8 @@ export interface ListWorkflowsResult {
     scratchpad_count: number;
     is_active: boolean;
     project_scope: string | null;
+    tags: string[];
+    metadata: Record<string, unknown>;
     /** Enhanced Workflow: Summary of scratchpads in this workflow */
     scratchpads_summary?: ScratchpadSummary[];
   }>;
@@ -165,7 +183,12 @@ export interface ListWorkflowsResult {
 export interface CreateScratchpadArgs {
   workflow_id: string;
   title: string;
-  content: string;
+  /** Required unless template is given; appended after the rendered template otherwise */
+  content?: string;
+  /** Template name (see list-templates) rendered as the initial content */
+  template?: string;
+  /** Custom placeholder values for the template, e.g. { owner: "alice" } for {{owner}} */
+  template_vars?: Record<string, TemplateVariableValue>;
   /** Whether to return full content in response (default: false, returns metadata only) */
   include_content?: boolean;
 }
@@ -180,13 +203,16 @@ export interface CreateScratchpadResult {
     updated_at: string; // ISO string
     size_bytes: number;
   };
+  /** Name of the template the content was rendered from */
+  template?: string;
   message: string;
 }
 
 export interface GetScratchpadArgs
   extends Partial<
-    Pick<OutputControlOptions, 'max_content_chars' | 'include_content' | 'preview_mode'>
-  > {
+      Pick<OutputControlOptions, 'max_content_chars' | 'include_content' | 'preview_mode'>
+    >,
+    BlockFilterArgs {
   id: string;
   
   /** 指定行號範圍 */
@@ -218,6 +244,8 @@ export interface GetScratchpadResult {
     preview_summary?: string;
     parameter_warning?: string;
     content_control_applied?: string;
+    /** Matching blocks when filtered by author / kind */
+    blocks?: BlockSummary[];
   } | null;
   message?: string;
 }
@@ -235,8 +263,18 @@ export interface AppendScratchpadArgs {
    */
   id: string;
   content: string;
+  /** Who wrote the block (e.g. the sub-agent name), recorded in the block header */
+  author?: string;
+  /** Block kind recorded in the block header */
+  kind?: BlockKind;
+  /** Block tags recorded in the block header */
+  tags?: string[];
   /** Whether to return full content in response (default: false, returns metadata only) */
   include_content?: boolean;
+  /** Fail with a version conflict unless the scratchpad is still at this version */
+  expected_version?: number;
+  /** Fail with a version conflict if the scratchpad was modified after this ISO timestamp */
+  if_unmodified_since?: string;
 }
 
 export interface AppendScratchpadResult {
@@ -248,12 +286,15 @@ export interface AppendScratchpadResult {
     created_at: string; // ISO string
     updated_at: string; // ISO string
     size_bytes: number;
+    version: number;
   };
   message: string;
   appended_bytes: number;
+  /** Stable ID of the appended block (address it with get-block / replace-block / delete-block / move-block) */
+  block_id?: string;
 }
 
-export interface ListScratchpadsArgs extends Partial<OutputControlOptions> {
+export interface ListScratchpadsArgs extends Partial<OutputControlOptions>, EntityFilterArgs {
   workflow_id: string;
 }
 
@@ -266,6 +307,8 @@ export interface ListScratchpadsResult {
     created_at: string; // ISO string
     updated_at: string; // ISO string
     size_bytes: number;
+    tags: string[];
+    metadata: Record<string, unknown>;
     content_truncated?: boolean;
     original_size?: number;
     preview_summary?: string;
@@ -277,7 +320,7 @@ export interface ListScratchpadsResult {
   message?: string;
 }
 
-export interface SearchScratchpadsArgs extends Partial<OutputControlOptions> {
+export interface SearchScratchpadsArgs extends Partial<OutputControlOptions>, BlockFilterArgs {
   query: string;
   workflow_id: string;
   useJieba?: boolean; // Force jieba tokenization (auto-detect by default)
@@ -332,12 +375,41 @@ export interface SearchScratchpadsResult {
   message?: string;
 }
 
-export interface SearchWorkflowsArgs {
+/**
+ * Ranking signals fused by search-workflows in `rrf` mode
+ * - workflow_fts: FTS5 BM25 (or LIKE) over workflow name/description
+ * - scratchpad_bm25: FTS5 BM25 (or LIKE) over scratchpad title/content, best hit per workflow
+ * - jieba: jieba-tokenized workflow search (only when the jieba tokenizer is available)
+ * - keyword: legacy name×5 / description×3 / title×3 / content×1 keyword score
+ * - semantic: best block cosine similarity (only when an embedding provider is configured)
+ */
+export type WorkflowRankingSignal = 'workflow_fts' | 'scratchpad_bm25' | 'jieba' | 'keyword' | 'semantic';
+
+export interface WorkflowRankingExplanation {
+  method: 'rrf';
+  k: number; // RRF constant: contribution = weight / (k + rank)
+  signals: Record<
+    WorkflowRankingSignal,
+    {
+      available: boolean; // Whether the signal could run for this query
+      weight: number;
+      rank: number | null; // 1-based rank of this workflow within the signal (null = not matched)
+      value: number | null; // Raw signal value (BM25 / FTS rank, keyword score, cosine similarity)
+      contribution: number;
+      note?: string; // How the signal gathered its candidates (scratchpad_bm25)
+    }
+  >;
+}
+
+export interface SearchWorkflowsArgs extends EntityFilterArgs {
   query: string;
   project_scope?: string; // Optional project scope filter (exact match)
   page?: number; // Page number for pagination (default: 1)
   limit?: number; // Items per page (default: 5, max: 20)
   useJieba?: boolean; // Force jieba tokenization (auto-detect by default)
+  ranking?: 'weighted' | 'rrf'; // Ranking mode (default: weighted)
+  weights?: Partial<Record<WorkflowRankingSignal, number>>; // RRF signal weights (default: 1 each, 0 disables)
+  rrf_k?: number; // RRF constant (default: 60)
 }
 
 export interface SearchWorkflowsResult {
@@ -351,10 +423,62 @@ export interface SearchWorkflowsResult {
       scratchpad_count: number;
       is_active: boolean;
       project_scope: string | null;
+      tags: string[];
+      metadata: Record<string, unknown>;
     };
-    score: number; // Weighted scoring from scratchpads content
+    score: number; // Weighted scoring from scratchpads content (RRF score in rrf mode)
     matching_scratchpads: number; // Number of scratchpads with matches
     rank: number; // FTS5 rank score
+    explanation?: WorkflowRankingExplanation; // Signal breakdown (rrf mode only)
+  }>;
+  pagination: {
+    page: number;
+    per_page: number;
+    total_results: number;
+    has_more: boolean;
+  };
+  query: string;
+  search_method: 'fts5' | 'like';
+  ranking?: 'weighted' | 'rrf';
+  message?: string;
+}
+
+export interface SearchAllScratchpadsArgs extends EntityFilterArgs {
+  query: string;
+  project_scope?: string; // Optional project scope filter (exact match)
+  is_active?: boolean; // Only active (true) or inactive (false) workflows
+  updated_after?: string; // ISO 8601 date/time, inclusive
+  updated_before?: string; // ISO 8601 date/time, inclusive
+  title_only?: boolean; // Match titles only
+  page?: number; // Page number for pagination (default: 1)
+  limit?: number; // Items per page (default: 10, max: 50)
+  snippet_tokens?: number; // Snippet length in tokens (default: 16, max: 64)
+  highlight_open?: string; // Marker inserted before each match (default: "**")
+  highlight_close?: string; // Marker inserted after each match (default: "**")
+}
+
+export interface SearchAllScratchpadsResult {
+  results: Array<{
+    scratchpad: {
+      id: string;
+      workflow_id: string;
+      title: string;
+      title_highlight: string;
+      snippet: string;
+      created_at: string; // ISO string
+      updated_at: string; // ISO string
+      size_bytes: number;
+      version: number;
+      tags: string[];
+    };
+    workflow: {
+      id: string;
+      name: string;
+      project_scope: string | null;
+      is_active: boolean;
+      tags: string[];
+    };
+    score: number; // Relevance score (higher is better; -bm25 when using FTS5)
   }>;
   pagination: {
     page: number;
@@ -367,9 +491,49 @@ export interface SearchWorkflowsResult {
   message?: string;
 }
 
+export interface SemanticSearchArgs {
+  query: string;
+  workflow_id?: string; // Limit search to one workflow
+  project_scope?: string; // Limit search to workflows with this project scope
+  limit?: number; // Max hits (default: 5, max: 20)
+  min_score?: number; // Minimum cosine similarity (default: 0)
+  max_content_chars?: number; // Truncate block content in results (default: 1000)
+}
+
+export interface SemanticSearchResult {
+  results: Array<{
+    scratchpad: {
+      id: string;
+      title: string;
+      workflow_id: string;
+    };
+    workflow: {
+      id: string;
+      name: string;
+    };
+    block: {
+      index: number; // 0-based block index (same as tail-scratchpad / block resources)
+      start_line: number; // 1-based line anchor in the scratchpad
+      end_line: number;
+      content: string;
+      content_truncated?: boolean;
+    };
+    score: number; // Cosine similarity
+  }>;
+  count: number;
+  query: string;
+  provider: string;
+  model: string;
+  index_updates: {
+    scratchpads: number; // Scratchpads (re)indexed before searching
+    embedded: number; // Blocks embedded before searching
+  };
+  message: string;
+}
+
 // New tool types for is_active feature
 export interface GetLatestActiveWorkflowArgs {
-  project_scope: string;
+  project_scope?: string | undefined;
 }
 
 export interface GetLatestActiveWorkflowResult {
@@ -382,6 +546,8 @@ export interface GetLatestActiveWorkflowResult {
     scratchpad_count: number;
     is_active: boolean;
     project_scope: string | null;
+    tags: string[];
+    metadata: Record<string, unknown>;
     /** Enhanced Workflow: Summary of scratchpads in this workflow */
     scratchpads_summary?: ScratchpadSummary[];
   } | null;
@@ -403,6 +569,8 @@ export interface GetWorkflowResult {
     scratchpad_count: number;
     is_active: boolean;
     project_scope: string | null;
+    tags: string[];
+    metadata: Record<string, unknown>;
     /** Enhanced Workflow: Summary of scratchpads in this workflow */
     scratchpads_summary?: ScratchpadSummary[];
   } | null;
@@ -424,6 +592,8 @@ export interface UpdateWorkflowStatusResult {
     scratchpad_count: number;
     is_active: boolean;
     project_scope: string | null;
+    tags: string[];
+    metadata: Record<string, unknown>;
     /** Enhanced Workflow: Summary of scratchpads in this workflow */
     scratchpads_summary?: ScratchpadSummary[];
   };
@@ -438,7 +608,7 @@ type TailSizeChars = { chars: number; lines?: never; blocks?: never };
 type TailSizeBlocks = { blocks: number; lines?: never; chars?: never };
 
 // Public interface with discriminated union for type safety
-export interface TailScratchpadArgs {
+export interface TailScratchpadArgs extends BlockFilterArgs {
   id: string;
   /** Tail size specification - choose either lines OR chars OR blocks, not multiple */
   tail_size?: TailSizeLines | TailSizeChars | TailSizeBlocks;
@@ -458,6 +628,8 @@ export interface TailScratchpadArgsInternal {
   };
   include_content?: boolean;
   full_content?: boolean;
+  author?: string;
+  kind?: string;
 }
 
 export interface TailScratchpadResult {
@@ -482,6 +654,8 @@ export interface TailScratchpadResult {
     tail_chars?: number;
     /** Total lines in original content */
     total_lines?: number;
+    /** Returned blocks in order, with their stable IDs (tail_size.blocks only) */
+    blocks?: BlockSummary[];
   } | null;
   message?: string;
 }
@@ -490,15 +664,23 @@ export interface TailScratchpadResult {
 export interface ExtractWorkflowInfoArgs {
   workflow_id: string;
   extraction_prompt: string;
-  model?: string; // Default: "gpt-5-nano"
-  reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high'; // Default: "medium"
+  model?: string; // Default: provider default (OpenAI: "gpt-5-nano")
+  reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high'; // Default: "medium" (OpenAI GPT-5 only)
+  max_context_tokens?: number; // Token budget per request; larger workflows use map-reduce (default: 100000)
+  output_schema?: Record<string, unknown>; // JSON Schema; when set the model must return matching JSON
+  max_retries?: number; // Retries when output does not match output_schema (default: 2, max: 5)
 }
 
 export interface ExtractWorkflowInfoResult {
   workflow_id: string;
   extraction_result: string;
   model_used: string;
+  provider: LLMProviderName;
   scratchpads_processed: number;
+  tokens_used: number; // Input + output tokens across all LLM requests (tiktoken estimate)
+  chunks_processed: number; // 1 when the workflow fits in a single request
+  extraction_json?: unknown; // Parsed and validated JSON (only with output_schema)
+  validation_attempts?: number; // Model attempts needed to satisfy output_schema
   message?: string;
 }
 
@@ -507,6 +689,86 @@ export interface ChopScratchpadArgs {
   id: string;
   lines?: number; // Number of lines to remove from the end (default: 1)
   blocks?: number; // Number of blocks to remove from the end
+  expected_version?: number; // Optimistic concurrency: fail unless still at this version
+  if_unmodified_since?: string; // Optimistic concurrency: ISO timestamp
+}
+
+// Block tools: address appended blocks by their stable ID
+export interface BlockSummary {
+  /** Stable block ID (null for blocks written before block IDs or without a header) */
+  id: string | null;
+  /** Current position (0-based); changes when blocks are chopped, deleted or moved */
+  index: number;
+  author?: string;
+  kind?: BlockKind;
+  tags?: string[];
+  timestamp?: string;
+}
+
+/**
+ * Restrict a read or search to blocks whose header matches (blocks without a header never match)
+ */
+export interface BlockFilterArgs {
+  /** Only blocks written by this author */
+  author?: string;
+  /** Only blocks of this kind */
+  kind?: BlockKind;
+}
+
+export interface GetBlockArgs {
+  id: string; // scratchpad ID
+  block_id: string;
+}
+
+export interface GetBlockResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    version: number;
+  };
+  block: BlockSummary & {
+    content: string;
+    start_line: number; // 1-based, first line of the block content
+    end_line: number;
+  };
+  total_blocks: number;
+  message: string;
+}
+
+export interface BlockWriteArgs {
+  id: string; // scratchpad ID
+  block_id: string;
+  expected_version?: number; // Optimistic concurrency: fail unless still at this version
+  if_unmodified_since?: string; // Optimistic concurrency: ISO timestamp
+}
+
+export interface ReplaceBlockArgs extends BlockWriteArgs {
+  content: string;
+}
+
+export type DeleteBlockArgs = BlockWriteArgs;
+
+export interface MoveBlockArgs extends BlockWriteArgs {
+  /** Exactly one of before_block_id, after_block_id or position */
+  before_block_id?: string;
+  after_block_id?: string;
+  position?: 'start' | 'end';
+}
+
+export interface BlockEditResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    updated_at: string; // ISO string
+    size_bytes: number;
+    version: number;
+  };
+  block_id: string;
+  /** Block order after the edit */
+  blocks: BlockSummary[];
+  message: string;
 }
 
 export interface ChopScratchpadResult {
@@ -517,6 +779,7 @@ export interface ChopScratchpadResult {
     created_at: string; // ISO string
     updated_at: string; // ISO string
     size_bytes: number; // Updated size after chopping
+    version: number;
   };
   message: string;
   chopped_lines: number; // Actual number of lines removed
@@ -548,7 +811,9 @@ export interface GetScratchpadOutlineResult {
 }
 
 // Search Scratchpad Content tool types
-export interface SearchScratchpadContentArgs extends Partial<OutputControlOptions> {
+export interface SearchScratchpadContentArgs
+  extends Partial<OutputControlOptions>,
+    BlockFilterArgs {
   id: string;
   
   // Search parameters - exactly one must be provided
@@ -594,3 +859,530 @@ export interface SearchScratchpadContentResult {
   search_method: 'string' | 'regex';
   message: string;
 }
+
+// Scratchpad revision history tool types
+export interface ScratchpadRevisionSummary {
+  revision: number;
+  operation: string; // create / append / chop / update:<mode> / restore:<n> / task:<action> / baseline
+  size_bytes: number;
+  created_at: string; // ISO string
+}
+
+export interface ListScratchpadRevisionsArgs {
+  id: string;
+  limit?: number; // default: 20, max: 100
+  offset?: number; // default: 0
+}
+
+export interface ListScratchpadRevisionsResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+  };
+  revisions: ScratchpadRevisionSummary[];
+  count: number;
+  total_revisions: number;
+  has_more: boolean;
+  retention: {
+    max_revisions: number;
+    max_bytes: number;
+  };
+  message: string;
+}
+
+export interface GetScratchpadRevisionArgs {
+  id: string;
+  revision: number;
+  include_content?: boolean; // default: true
+}
+
+export interface GetScratchpadRevisionResult {
+  revision: {
+    scratchpad_id: string;
+    revision: number;
+    operation: string;
+    content: string;
+    size_bytes: number;
+    created_at: string; // ISO string
+  } | null;
+  message: string;
+}
+
+export interface DiffScratchpadRevisionsArgs {
+  id: string;
+  from_revision: number;
+  to_revision?: number; // default: latest revision
+  context_lines?: number; // default: 3
+}
+
+export interface DiffScratchpadRevisionsResult {
+  scratchpad_id: string;
+  from_revision: number;
+  to_revision: number;
+  diff: string; // unified diff, empty when identical
+  stats: {
+    additions: number;
+    deletions: number;
+    hunks: number;
+  };
+  message: string;
+}
+
+export interface RestoreScratchpadRevisionArgs {
+  id: string;
+  revision: number;
+  include_content?: boolean; // default: false
+}
+
+export interface RestoreScratchpadRevisionResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    content?: string; // Only included if include_content=true
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    size_bytes: number;
+  };
+  restored_from_revision: number;
+  new_revision: number;
+  message: string;
+}
+
+export interface SetRevisionRetentionArgs {
+  workflow_id: string;
+  max_revisions?: number; // >= 2
+  max_bytes?: number; // total history bytes per scratchpad
+}
+
+export interface SetRevisionRetentionResult {
+  workflow_id: string;
+  retention: {
+    max_revisions: number;
+    max_bytes: number;
+  };
+  message: string;
+}
+
+// Delete / rename / trash tool types
+export interface DeleteScratchpadArgs {
+  id: string;
+  permanent?: boolean; // default: false (move to trash)
+}
+
+export interface DeleteScratchpadResult {
+  deleted: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    size_bytes: number;
+  };
+  trash_id: string | null; // null when permanently deleted
+  message: string;
+}
+
+export interface RenameScratchpadArgs {
+  id: string;
+  title: string;
+}
+
+export interface RenameScratchpadResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    size_bytes: number;
+  };
+  previous_title: string;
+  message: string;
+}
+
+export interface MoveScratchpadArgs {
+  id: string;
+  workflow_id: string; // target workflow
+}
+
+export interface MoveScratchpadResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    updated_at: string; // ISO string
+    size_bytes: number;
+    version: number;
+  };
+  from_workflow_id: string;
+  message: string;
+}
+
+export interface CopyScratchpadArgs {
+  id: string;
+  workflow_id: string; // target workflow (may be the source workflow)
+  title?: string; // default: source title
+  include_content?: boolean; // default: false
+}
+
+export interface CopyScratchpadResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    content: string;
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    size_bytes: number;
+    tags: string[];
+  };
+  source_id: string;
+  message: string;
+}
+
+export interface MergeScratchpadsArgs {
+  workflow_id: string;
+  scratchpad_ids: string[]; // At least two scratchpads of the workflow
+  title: string; // Title of the merged scratchpad
+  order?: 'created_at' | 'updated_at' | 'explicit'; // default: 'created_at' (explicit = scratchpad_ids order)
+  delete_sources?: boolean; // default: false - sources are moved to trash when true
+  include_content?: boolean; // default: false
+}
+
+export interface MergeScratchpadsResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    content: string;
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    size_bytes: number;
+  };
+  /** Source scratchpads in merge order */
+  sources: Array<{ id: string; title: string; size_bytes: number; trash_id?: string }>;
+  message: string;
+}
+
+export interface TagScratchpadArgs {
+  id: string;
+  add?: string[];
+  remove?: string[];
+  set?: string[]; // Replace all tags (applied before add/remove)
+}
+
+export interface TagScratchpadResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    tags: string[];
+  };
+  added: string[];
+  removed: string[];
+  message: string;
+}
+
+export interface TagWorkflowArgs {
+  workflow_id: string;
+  add?: string[];
+  remove?: string[];
+  set?: string[]; // Replace all tags (applied before add/remove)
+}
+
+export interface TagWorkflowResult {
+  workflow: {
+    id: string;
+    name: string;
+    tags: string[];
+  };
+  added: string[];
+  removed: string[];
+  message: string;
+}
+
+export interface SetWorkflowMetadataArgs {
+  workflow_id: string;
+  metadata: Record<string, unknown>; // Keys to set; null deletes a key
+  replace?: boolean; // Replace the whole metadata object instead of merging (default: false)
+}
+
+export interface SetWorkflowMetadataResult {
+  workflow: {
+    id: string;
+    name: string;
+    metadata: Record<string, unknown>;
+  };
+  updated_keys: string[];
+  removed_keys: string[];
+  message: string;
+}
+
+export interface SetScratchpadMetadataArgs {
+  id: string;
+  metadata: Record<string, unknown>; // Keys to set; null deletes a key
+  replace?: boolean; // Replace the whole metadata object instead of merging (default: false)
+}
+
+export interface SetScratchpadMetadataResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    metadata: Record<string, unknown>;
+  };
+  updated_keys: string[];
+  removed_keys: string[];
+  message: string;
+}
+
+export interface DeleteWorkflowArgs {
+  workflow_id: string;
+  permanent?: boolean; // default: false (move to trash)
+}
+
+export interface DeleteWorkflowResult {
+  deleted: {
+    id: string;
+    name: string;
+    project_scope: string | null;
+  };
+  scratchpads_deleted: number;
+  trash_id: string | null; // null when permanently deleted
+  message: string;
+}
+
+export interface UpdateWorkflowArgs {
+  workflow_id: string;
+  name?: string;
+  description?: string | null; // null clears the description
+  project_scope?: string | null; // null clears the scope
+}
+
+export interface UpdateWorkflowResult {
+  workflow: {
+    id: string;
+    name: string;
+    description: string | null;
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    scratchpad_count: number;
+    is_active: boolean;
+    project_scope: string | null;
+  };
+  updated_fields: string[];
+  message: string;
+}
+
+export interface CloneWorkflowArgs extends EntityFilterArgs {
+  workflow_id: string;
+  name?: string; // default: "<source name> (copy)"
+  description?: string | null;
+  project_scope?: string | null;
+  scratchpad_ids?: string[]; // Only clone these scratchpads
+  include_scratchpads?: boolean; // default: true
+}
+
+export interface CloneWorkflowResult {
+  workflow: {
+    id: string;
+    name: string;
+    description: string | null;
+    created_at: string; // ISO string
+    updated_at: string; // ISO string
+    scratchpad_count: number;
+    is_active: boolean;
+    project_scope: string | null;
+    tags: string[];
+    metadata: Record<string, unknown>;
+  };
+  /** Cloned scratchpads with the ID of the scratchpad each was copied from */
+  scratchpads: Array<{ id: string; source_id: string; title: string; size_bytes: number }>;
+  source_workflow_id: string;
+  message: string;
+}
+
+export interface TrashEntrySummary {
+  trash_id: string;
+  item_type: 'scratchpad' | 'workflow';
+  item_id: string;
+  workflow_id: string;
+  title: string;
+  size_bytes: number;
+  deleted_at: string; // ISO string
+}
+
+export interface ListTrashArgs {
+  item_type?: 'scratchpad' | 'workflow';
+  workflow_id?: string;
+}
+
+export interface ListTrashResult {
+  entries: TrashEntrySummary[];
+  count: number;
+  message: string;
+}
+
+export interface RestoreFromTrashArgs {
+  trash_id: string;
+}
+
+export interface RestoreFromTrashResult {
+  item_type: 'scratchpad' | 'workflow';
+  item_id: string;
+  scratchpads_restored: number;
+  message: string;
+}
+
+export interface EmptyTrashArgs {
+  older_than_days?: number; // default: purge everything
+}
+
+export interface EmptyTrashResult {
+  purged: number;
+  message: string;
+}
+
+// Template tool types
+
+export interface TemplateSummary {
+  name: string;
+  description: string;
+  source: TemplateSource;
+  /** Custom placeholders to pass in template_vars (built-ins such as {{date}} excluded) */
+  variables: string[];
+  size_bytes: number;
+  updated_at?: string; // ISO string（僅 database 模板）
+  content?: string;
+}
+
+export interface ListTemplatesArgs {
+  source?: TemplateSource;
+  include_content?: boolean; // default: false
+}
+
+export interface ListTemplatesResult {
+  templates: TemplateSummary[];
+  count: number;
+  message: string;
+}
+
+export interface SaveTemplateArgs {
+  name: string;
+  content: string;
+  description?: string;
+  overwrite?: boolean; // default: false
+}
+
+export interface SaveTemplateResult {
+  template: TemplateSummary;
+  /** Source of the template that was replaced or overridden (null when newly created) */
+  replaced: TemplateSource | null;
+  message: string;
+}
+
+export interface ExportWorkflowArgs {
+  workflow_id: string;
+  format?: ExportFormat; // default: 'json'
+}
+
+export interface ExportWorkflowResult {
+  workflow: { id: string; name: string; scratchpad_count: number };
+  format: ExportFormat;
+  /** JSON archive (json format) */
+  archive?: WorkflowArchive;
+  /** Bundle files (markdown format) */
+  files?: BundleFile[];
+  message: string;
+}
+
+export interface ImportWorkflowArgs {
+  /** Archive object or its JSON text (from export-workflow with format json) */
+  archive?: unknown;
+  /** Markdown bundle files (from export-workflow with format markdown) */
+  files?: BundleFile[];
+  policy?: ImportConflictPolicy; // default: 'skip'
+  id_map?: Record<string, string>;
+  regenerate_ids?: boolean; // default: false
+  project_scope?: string | null;
+}
+
+export interface ImportWorkflowToolResult {
+  workflow: {
+    id: string;
+    name: string;
+    scratchpad_count: number;
+    project_scope: string | null;
+    action: ImportAction;
+  };
+  scratchpads: Array<{ source_id: string; id: string; title: string; action: ImportAction }>;
+  counts: Record<ImportAction, number>;
+  /** IDs that changed during import (archive ID -> new ID) */
+  id_map: Record<string, string>;
+  message: string;
+}
+
+// Task tracking tool types
+export type TaskStatusFilter = 'open' | 'completed' | 'all';
+
+export interface ListTasksArgs {
+  workflow_id: string;
+  /** Only tasks of this scratchpad */
+  scratchpad_id?: string;
+  status?: TaskStatusFilter; // default: 'all'
+  /** Only tasks under a header containing this text (case-insensitive) */
+  section?: string;
+  /** Only tasks whose text contains this text (case-insensitive) */
+  query?: string;
+  /** Return the progress summary without the task list */
+  summary_only?: boolean;
+}
+
+export interface ListTasksResult {
+  workflow: { id: string; name: string };
+  tasks: Task[];
+  count: number;
+  /** Progress over all tasks of the workflow (ignores status / section / query filters) */
+  progress: TaskProgress;
+  message: string;
+}
+
+/**
+ * Fields shared by task edits: target scratchpad and optimistic concurrency
+ */
+interface TaskWriteArgs {
+  /** Scratchpad ID */
+  id: string;
+  expected_version?: number;
+  if_unmodified_since?: string;
+}
+
+export interface CompleteTaskArgs extends TaskWriteArgs {
+  /** 1-based line of the task (see line / task_id from list-tasks) */
+  line: number;
+  /** false re-opens the task (default: true) */
+  completed?: boolean;
+  /** Fail unless the task at `line` still has this text (guards against shifted lines) */
+  expected_text?: string;
+}
+
+export interface AddTaskArgs extends TaskWriteArgs {
+  text: string;
+  /** Section to add the task to (e.g. "## TODO"); appended at the end when omitted or not found */
+  section_marker?: string;
+}
+
+export interface TaskEditResult {
+  scratchpad: {
+    id: string;
+    workflow_id: string;
+    title: string;
+    updated_at: string; // ISO string
+    size_bytes: number;
+    version: number;
+  };
+  task: Task;
+  /** Task counts of the scratchpad after the edit */
+  progress: TaskCounts;
+  message: string;
+}
@@ -2,6 +2,7 @@
  * Workflow management tools
  */
 import type { ScratchpadDatabase } from '../database/index.js';
+import { QuotaExceededError } from '../database/index.js';
 import type {
   ToolHandler,
   CreateWorkflowArgs,
@@ -14,7 +15,14 @@ import type {
   GetWorkflowResult,
   UpdateWorkflowStatusArgs,
   UpdateWorkflowStatusResult,
+  UpdateWorkflowArgs,
+  UpdateWorkflowResult,
+  DeleteWorkflowArgs,
+  DeleteWorkflowResult,
+  CloneWorkflowArgs,
+  CloneWorkflowResult,
 } from './types.js';
+import { describeEntityFilter } from './metadata.js';
 
 /**
  * Convert Unix timestamp to local timezone ISO string
@@ -99,7 +107,10 @@ export const listWorkflowsTool = (
       const limit = Math.min(args.limit ?? 20, 100); // Default 20, max 100
       const offset = args.offset ?? 0;
 
-      const allWorkflows = db.getWorkflows(args.project_scope);
+      const allWorkflows = db.getWorkflows(args.project_scope, {
+        tags: args.tags,
+        metadata: args.metadata,
+      });
 
       // Apply pagination
       const paginatedWorkflows = allWorkflows.slice(offset, offset + limit);
@@ -253,3 +264,119 @@ export const updateWorkflowStatusTool = (
     }
   };
 };
+
+/**
+ * Update workflow name, description or project scope
+ */
+export const updateWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<UpdateWorkflowArgs, UpdateWorkflowResult> => {
+  return async (args: UpdateWorkflowArgs): Promise<UpdateWorkflowResult> => {
+    try {
+      const updatedFields = (['name', 'description', 'project_scope'] as const).filter(
+        (field) => args[field] !== undefined
+      );
+      if (updatedFields.length === 0) {
+        throw new Error('At least one of name, description or project_scope must be provided');
+      }
+
+      const workflow = db.updateWorkflow(args.workflow_id, {
+        name: args.name,
+        description: args.description,
+        project_scope: args.project_scope,
+      });
+
+      return {
+        workflow: formatWorkflow(workflow, db, false),
+        updated_fields: [...updatedFields],
+        message: `Updated workflow "${workflow.name}" (${updatedFields.join(', ')})`,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to update workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Delete a workflow and all its scratchpads (moves to trash unless permanent=true)
+ */
+export const deleteWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<DeleteWorkflowArgs, DeleteWorkflowResult> => {
+  return async (args: DeleteWorkflowArgs): Promise<DeleteWorkflowResult> => {
+    try {
+      const { workflow, scratchpads_deleted, trash_id } = db.deleteWorkflow(args.workflow_id, {
+        permanent: args.permanent ?? false,
+      });
+
+      const message = trash_id
+        ? `Moved workflow "${workflow.name}" and ${scratchpads_deleted} scratchpad(s) to trash (trash ID: ${trash_id}); use restore-from-trash to recover it`
+        : `Permanently deleted workflow "${workflow.name}" and ${scratchpads_deleted} scratchpad(s)`;
+
+      return {
+        deleted: {
+          id: workflow.id,
+          name: workflow.name,
+          project_scope: workflow.project_scope,
+        },
+        scratchpads_deleted,
+        trash_id,
+        message,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to delete workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
+
+/**
+ * Clone a workflow with all or some of its scratchpads into a new active workflow
+ */
+export const cloneWorkflowTool = (
+  db: ScratchpadDatabase
+): ToolHandler<CloneWorkflowArgs, CloneWorkflowResult> => {
+  return async (args: CloneWorkflowArgs): Promise<CloneWorkflowResult> => {
+    try {
+      const source = db.getWorkflowById(args.workflow_id);
+      if (!source) {
+        throw new Error(`Workflow not found: ${args.workflow_id}`);
+      }
+
+      const { workflow, scratchpads } = db.cloneWorkflow({
+        workflow_id: args.workflow_id,
+        name: args.name,
+        description: args.description,
+        project_scope: args.project_scope,
+        scratchpad_ids: args.scratchpad_ids,
+        include_scratchpads: args.include_scratchpads,
+        tags: args.tags,
+        metadata: args.metadata,
+      });
+
+      const filters = describeEntityFilter(args);
+      return {
+        workflow: formatWorkflow(workflow, undefined, false),
+        scratchpads: scratchpads.map(({ scratchpad, source_id }) => ({
+          id: scratchpad.id,
+          source_id,
+          title: scratchpad.title,
+          size_bytes: scratchpad.size_bytes,
+        })),
+        source_workflow_id: source.id,
+        message: `Cloned workflow "${source.name}" as "${workflow.name}" with ${scratchpads.length} scratchpad(s)${filters.length > 0 ? ` (${filters.join('; ')})` : ''}`,
+      };
+    } catch (error) {
+      // 配額錯誤保留結構化資訊（上限與目前用量），交由 handleToolError 輸出
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to clone workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  };
+};
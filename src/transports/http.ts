@@ -0,0 +1,378 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * 每個 MCP session 擁有獨立的 McpServer + StreamableHTTPServerTransport，
+ * 共用同一個 ScratchpadDatabase，讓多個（遠端/容器化）agent 連到同一個 server process。
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+  path: string;
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Endpoint path for MCP requests (default: /mcp) */
+  path?: string;
+  /** Factory for a fresh McpServer per session (tools registered, sharing one database) */
+  createServer: () => McpServer;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /** Maximum concurrent sessions; the least recently used one is closed first (default: 100) */
+  maxSessions?: number;
+  /** Accepted Host headers (default: loopback names with the bound port when host is loopback) */
+  allowedHosts?: string[];
+  /** Accepted Origin headers; requests without Origin are allowed (default: http:// + allowedHosts) */
+  allowedOrigins?: string[];
+}
+
+export interface HttpTransportHandle {
+  /** Base URL of the MCP endpoint, e.g. http://127.0.0.1:3100/mcp */
+  url: string;
+  sessionCount: () => number;
+  /** Close all sessions and stop accepting connections */
+  close: () => Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastActivity: number;
+}
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3100;
+const DEFAULT_HTTP_PATH = '/mcp';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+// 閒置 session 的清理間隔上限
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+// scratchpad 上限 1MB，加上 JSON 跳脫與 envelope 預留空間
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+interface HeaderAllowlist {
+  hosts: string[];
+  origins: string[];
+}
+
+/**
+ * Resolve transport settings from CLI arguments and environment variables
+ *
+ * CLI: --transport <stdio|http> | --http, --port <n>, --host <addr>
+ * Env: SCRATCHPAD_TRANSPORT, SCRATCHPAD_HTTP_PORT, SCRATCHPAD_HTTP_HOST, SCRATCHPAD_HTTP_PATH
+ * CLI 參數優先於環境變數；未指定時維持 stdio
+ */
+export const resolveTransportConfig = (
+  argv: string[],
+  env: NodeJS.ProcessEnv
+): TransportConfig => {
+  const readFlag = (name: string): string | undefined => {
+    const index = argv.findIndex((arg) => arg === name || arg.startsWith(`${name}=`));
+    if (index === -1) {
+      return undefined;
+    }
+    const arg = argv[index]!;
+    return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : argv[index + 1];
+  };
+
+  const modeValue = argv.includes('--http')
+    ? 'http'
+    : (readFlag('--transport') ?? env['SCRATCHPAD_TRANSPORT'] ?? 'stdio');
+  if (modeValue !== 'stdio' && modeValue !== 'http') {
+    throw new Error(`Invalid transport: ${modeValue} (expected "stdio" or "http")`);
+  }
+
+  const portValue = readFlag('--port') ?? env['SCRATCHPAD_HTTP_PORT'];
+  const port = portValue !== undefined ? Number(portValue) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portValue}`);
+  }
+
+  const path = env['SCRATCHPAD_HTTP_PATH'] ?? DEFAULT_HTTP_PATH;
+
+  return {
+    mode: modeValue,
+    host: readFlag('--host') ?? env['SCRATCHPAD_HTTP_HOST'] ?? DEFAULT_HTTP_HOST,
+    port,
+    path: path.startsWith('/') ? path : `/${path}`,
+  };
+};
+
+/**
+ * Read and parse a JSON request body
+ */
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    total += buffer.length;
+    if (total > MAX_BODY_BYTES) {
+      throw new Error(`Request body too large (max: ${MAX_BODY_BYTES} bytes)`);
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.trim() === '' ? undefined : (JSON.parse(raw) as unknown);
+};
+
+/**
+ * Write a JSON-RPC error response (used before a transport owns the request)
+ */
+const sendJsonRpcError = (res: ServerResponse, status: number, code: number, message: string): void => {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+};
+
+/**
+ * Resolve the Host / Origin allowlist used against DNS rebinding
+ *
+ * 綁定 loopback 時預設只接受 loopback 名稱加上實際 port；綁定其他位址且未指定 allowedHosts 時不檢查
+ */
+const resolveHeaderAllowlist = (
+  options: HttpTransportOptions,
+  port: number
+): HeaderAllowlist | undefined => {
+  const hosts =
+    options.allowedHosts ??
+    (LOOPBACK_HOSTS.includes(options.host)
+      ? ['127.0.0.1', 'localhost', '[::1]'].map((name) => `${name}:${port}`)
+      : undefined);
+  if (!hosts) {
+    return undefined;
+  }
+  return { hosts, origins: options.allowedOrigins ?? hosts.map((host) => `http://${host}`) };
+};
+
+/**
+ * Start the Streamable HTTP transport
+ */
+export const startHttpTransport = async (
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> => {
+  const endpointPath = options.path ?? DEFAULT_HTTP_PATH;
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions = new Map<string, Session>();
+  // listen 之後才知道實際 port，因此在處理請求時才解析
+  const headerAllowlist = (): HeaderAllowlist | undefined =>
+    resolveHeaderAllowlist(options, (httpServer.address() as AddressInfo).port);
+
+  /**
+   * Remove a session and release its McpServer and transport
+   */
+  const evictSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await Promise.allSettled([session.transport.close(), session.server.close()]);
+  };
+
+  const evictIdleSessions = async (): Promise<void> => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    const idle = [...sessions].filter(([, session]) => session.lastActivity <= cutoff);
+    await Promise.all(idle.map(([sessionId]) => evictSession(sessionId)));
+  };
+
+  // 達到上限時先關閉最久未使用的 session，再建立新的
+  const makeRoomForSession = async (): Promise<void> => {
+    while (sessions.size >= maxSessions) {
+      const [oldestId] = [...sessions].reduce((oldest, entry) =>
+        entry[1].lastActivity < oldest[1].lastActivity ? entry : oldest
+      );
+      await evictSession(oldestId);
+    }
+  };
+
+  const getSessionId = (req: IncomingMessage): string | undefined => {
+    const header = req.headers['mcp-session-id'];
+    return Array.isArray(header) ? header[0] : header;
+  };
+
+  const handlePost = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32700,
+        `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return;
+    }
+
+    const sessionId = getSessionId(req);
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      existing.lastActivity = Date.now();
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // 新 session：建立專屬的 McpServer 與 transport
+    await makeRoomForSession();
+    const server = options.createServer();
+    const allowlist = headerAllowlist();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      // Origin 由 validateHeaders 檢查：SDK 會拒絕沒有 Origin 的請求（非瀏覽器 client 不會送）
+      ...(allowlist && { enableDnsRebindingProtection: true, allowedHosts: allowlist.hosts }),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { transport, server, lastActivity: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    const discard = async (): Promise<void> => {
+      await Promise.allSettled([transport.close(), server.close()]);
+    };
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await discard();
+      throw error;
+    }
+    // initialize 被 transport 拒絕時不會建立 session，避免留下孤立的 server / transport
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      await discard();
+    }
+  };
+
+  const handleSessionRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = getSessionId(req);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    session.lastActivity = Date.now();
+    await session.transport.handleRequest(req, res);
+  };
+
+  /**
+   * Reject foreign Host / Origin headers before any session is touched
+   */
+  const validateHeaders = (req: IncomingMessage): string | undefined => {
+    const allowlist = headerAllowlist();
+    if (!allowlist) {
+      return undefined;
+    }
+    const { host, origin } = req.headers;
+    if (!host || !allowlist.hosts.includes(host)) {
+      return `Invalid Host header: ${host}`;
+    }
+    if (origin !== undefined && !allowlist.origins.includes(origin)) {
+      return `Invalid Origin header: ${origin}`;
+    }
+    return undefined;
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    const headerError = validateHeaders(req);
+    if (headerError) {
+      sendJsonRpcError(res, 403, -32000, headerError);
+      return;
+    }
+
+    if (pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (pathname !== endpointPath) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Not found: ${pathname}` }));
+      return;
+    }
+
+    const handler =
+      req.method === 'POST'
+        ? handlePost
+        : req.method === 'GET' || req.method === 'DELETE'
+          ? handleSessionRequest
+          : undefined;
+
+    if (!handler) {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      return;
+    }
+
+    handler(req, res).catch((error: unknown) => {
+      console.error('Error handling MCP HTTP request:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweepTimer = setInterval(() => {
+    evictIdleSessions().catch((error: unknown) => {
+      console.error('Error closing idle MCP HTTP sessions:', error);
+    });
+  }, Math.min(idleTimeoutMs, SESSION_SWEEP_INTERVAL_MS));
+  sweepTimer.unref();
+
+  const address = httpServer.address() as AddressInfo;
+  const displayHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${displayHost}:${address.port}${endpointPath}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      // 先關閉所有 session（結束 SSE 串流），再停止 HTTP server
+      clearInterval(sweepTimer);
+      const active = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(
+        active.map(async ({ transport, server }) => {
+          await transport.close();
+          await server.close();
+        })
+      );
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+};
@@ -1,15 +1,27 @@
 /**
  * BlockParser - 處理 scratchpad content 的 block 解析和操作
  *
- * 支援新舊兩種 append splitter 格式：
+ * 支援三種 append splitter 格式：
+ * - 帶標頭：'\n\n---\n<!--- block start id=3f9a2c1e ts=2025-01-01T00:00:00Z --->\n'
  * - 新格式：'\n\n---\n<!--- block start --->\n'
  * - 舊格式：'\n\n---\n'
  *
  * Block 定義：
- * - 第一個 block：從開始到第一個分隔符
+ * - 第一個 block：從開始到第一個分隔符（內容開頭可有帶屬性的 block 標頭，例如首次 append）
  * - 其他 blocks：每個分隔符之後的內容直到下個分隔符
  * - 如果沒有分隔符，整個內容視為單一 block
+ *
+ * 帶 id 的 block 可以用 ID 定址（findBlock / replaceBlock / deleteBlock / moveBlock），
+ * 不受 chop 或插入造成的位置變動影響；標頭另可記錄 author、kind 與 tags，供 filterBlocks 篩選
  */
+import { randomUUID } from 'crypto';
+
+/**
+ * Kinds of appended blocks
+ */
+export const BLOCK_KINDS = ['note', 'decision', 'todo', 'result', 'error'] as const;
+
+export type BlockKind = (typeof BLOCK_KINDS)[number];
 
 export interface BlockInfo {
   content: string;
@@ -17,6 +29,49 @@ export interface BlockInfo {
   startPosition: number;
   endPosition: number;
   isFirstBlock: boolean;
+  /** Stable block ID from the block header (absent for legacy blocks) */
+  id?: string;
+  /** Author recorded in the block header */
+  author?: string;
+  /** Kind recorded in the block header (unknown kinds are ignored) */
+  kind?: BlockKind;
+  /** Tags recorded in the block header */
+  tags?: string[];
+  /** ISO timestamp recorded in the block header */
+  timestamp?: string;
+}
+
+/**
+ * Attributes written into a block header
+ */
+export interface BlockHeader {
+  id: string;
+  author?: string | undefined;
+  kind?: BlockKind | undefined;
+  tags?: string[] | undefined;
+  timestamp?: string | undefined;
+}
+
+/**
+ * Block filter; every specified field must match
+ */
+export interface BlockFilter {
+  author?: string | undefined;
+  kind?: BlockKind | undefined;
+}
+
+/**
+ * Where to move a block: before / after another block, or to the start / end of the content
+ */
+export type BlockMoveTarget =
+  | { before: string }
+  | { after: string }
+  | { position: 'start' | 'end' };
+
+interface Splitter {
+  position: number;
+  length: number;
+  attributes: Record<string, string>;
 }
 
 export class BlockParser {
@@ -26,6 +81,16 @@ export class BlockParser {
   // 舊格式分隔符 (向後兼容)
   private static readonly OLD_SPLITTER = '\n\n---\n';
 
+  // 帶屬性的 block 標記（屬性可省略，即新格式）
+  private static readonly HEADED_SPLITTER_PATTERN =
+    /\n\n---\n<!--- block start((?: [^\n]*?)?) --->\n/g;
+
+  // 內容開頭的 block 標頭（必須帶屬性，避免誤判一般內容）
+  private static readonly LEADING_HEADER_PATTERN = /^<!--- block start( [^\n]*?) --->\n/;
+
+  // key=value 或 key="JSON 字串"
+  private static readonly ATTRIBUTE_PATTERN = /(\w+)=("(?:[^"\\]|\\.)*"|[^\s"]+)/g;
+
   /**
    * 解析內容為多個 blocks
    *
@@ -52,73 +117,86 @@ export class BlockParser {
 
     const blocks: BlockInfo[] = [];
 
-    // 尋找所有分隔符位置（優先新格式，然後舊格式）
-    const newSplitterPositions = BlockParser.findAllSplitterPositions(
-      content,
-      BlockParser.NEW_SPLITTER
-    );
-    const oldSplitterPositions = BlockParser.findAllSplitterPositions(
-      content,
-      BlockParser.OLD_SPLITTER
-    );
-
-    // 合併並排序所有分隔符位置
-    const allSplitters = [
-      ...newSplitterPositions.map((pos) => ({ position: pos, splitter: BlockParser.NEW_SPLITTER })),
-      ...oldSplitterPositions.map((pos) => ({ position: pos, splitter: BlockParser.OLD_SPLITTER })),
-    ].sort((a, b) => a.position - b.position);
+    // 尋找所有分隔符位置（帶標記的格式與舊格式），同一位置保留較長的分隔符
+    const uniqueSplitters = BlockParser.removeDuplicatePositions([
+      ...BlockParser.findHeadedSplitters(content),
+      ...BlockParser.findAllSplitterPositions(content, BlockParser.OLD_SPLITTER).map(
+        (position) => ({ position, length: BlockParser.OLD_SPLITTER.length, attributes: {} })
+      ),
+    ]);
 
-    // 移除重複的位置（當舊格式包含在新格式中時）
-    const uniqueSplitters = BlockParser.removeDuplicatePositions(allSplitters);
+    const leading = BlockParser.LEADING_HEADER_PATTERN.exec(content);
+    const firstStart = leading ? leading[0].length : 0;
+    const firstAttributes = leading ? BlockParser.parseAttributes(leading[1]!) : {};
 
     if (uniqueSplitters.length === 0) {
       // 沒有分隔符，整個內容是單一 block
-      blocks.push({
-        content: content,
-        index: 0,
-        startPosition: 0,
-        endPosition: content.length,
-        isFirstBlock: true,
-      });
+      blocks.push(
+        BlockParser.withHeader(
+          {
+            content: content.substring(firstStart),
+            index: 0,
+            startPosition: firstStart,
+            endPosition: content.length,
+            isFirstBlock: true,
+          },
+          firstAttributes
+        )
+      );
       return blocks;
     }
 
     // 第一個 block：從開始到第一個分隔符
     const firstSplitter = uniqueSplitters[0]!;
-    blocks.push({
-      content: content.substring(0, firstSplitter.position),
-      index: 0,
-      startPosition: 0,
-      endPosition: firstSplitter.position,
-      isFirstBlock: true,
-    });
+    blocks.push(
+      BlockParser.withHeader(
+        {
+          content: content.substring(firstStart, firstSplitter.position),
+          index: 0,
+          startPosition: firstStart,
+          endPosition: firstSplitter.position,
+          isFirstBlock: true,
+        },
+        firstAttributes
+      )
+    );
 
     // 中間的 blocks
     for (let i = 0; i < uniqueSplitters.length - 1; i++) {
       const currentSplitter = uniqueSplitters[i]!;
       const nextSplitter = uniqueSplitters[i + 1]!;
-      const startPos = currentSplitter.position + currentSplitter.splitter.length;
-
-      blocks.push({
-        content: content.substring(startPos, nextSplitter.position),
-        index: i + 1,
-        startPosition: startPos,
-        endPosition: nextSplitter.position,
-        isFirstBlock: false,
-      });
+      const startPos = currentSplitter.position + currentSplitter.length;
+
+      blocks.push(
+        BlockParser.withHeader(
+          {
+            content: content.substring(startPos, nextSplitter.position),
+            index: i + 1,
+            startPosition: startPos,
+            endPosition: nextSplitter.position,
+            isFirstBlock: false,
+          },
+          currentSplitter.attributes
+        )
+      );
     }
 
     // 最後一個 block：從最後分隔符到結尾（包括空 block）
     const lastSplitter = uniqueSplitters[uniqueSplitters.length - 1]!;
-    const lastStartPos = lastSplitter.position + lastSplitter.splitter.length;
+    const lastStartPos = lastSplitter.position + lastSplitter.length;
     // 無論是否有內容都要建立最後一個 block（即使是空的）
-    blocks.push({
-      content: content.substring(lastStartPos),
-      index: uniqueSplitters.length,
-      startPosition: lastStartPos,
-      endPosition: content.length,
-      isFirstBlock: false,
-    });
+    blocks.push(
+      BlockParser.withHeader(
+        {
+          content: content.substring(lastStartPos),
+          index: uniqueSplitters.length,
+          startPosition: lastStartPos,
+          endPosition: content.length,
+          isFirstBlock: false,
+        },
+        lastSplitter.attributes
+      )
+    );
 
     return blocks;
   }
@@ -157,7 +235,7 @@ export class BlockParser {
     }
 
     // 重新組合選中的 blocks
-    return BlockParser.reconstructBlocksToString(content, selectedBlocks);
+    return BlockParser.reconstructBlocksToString(content, blocks, selectedBlocks);
   }
 
   /**
@@ -185,7 +263,7 @@ export class BlockParser {
     // 保留前面的 blocks
     const remainingBlocks = blocks.slice(0, blocks.length - blockCount);
 
-    return BlockParser.reconstructBlocksToString(content, remainingBlocks);
+    return BlockParser.reconstructBlocksToString(content, blocks, remainingBlocks);
   }
 
   /**
@@ -195,6 +273,179 @@ export class BlockParser {
     return BlockParser.parseBlocks(content).length;
   }
 
+  /**
+   * 以新格式分隔符串接多段內容（每段成為一個 block）
+   */
+  static joinBlocks(parts: string[]): string {
+    return parts.join(BlockParser.NEW_SPLITTER);
+  }
+
+  /**
+   * 產生 block 標頭，例如 '<!--- block start id=3f9a2c1e ts=2025-01-01T00:00:00Z --->'
+   */
+  static formatHeader(header: BlockHeader): string {
+    const attributes: Array<[string, string | undefined]> = [
+      ['id', header.id],
+      ['author', header.author],
+      ['kind', header.kind],
+      ['tags', header.tags?.length ? header.tags.join(',') : undefined],
+      ['ts', header.timestamp],
+    ];
+    const formatted = attributes
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([key, value]) => `${key}=${BlockParser.formatAttributeValue(value)}`);
+    return `<!--- block start ${formatted.join(' ')} --->`;
+  }
+
+  /**
+   * 帶標頭的 append 分隔符
+   */
+  static createSplitter(header: BlockHeader): string {
+    return `${BlockParser.OLD_SPLITTER}${BlockParser.formatHeader(header)}\n`;
+  }
+
+  /**
+   * 內容開頭的 block 標頭（首次 append 到空白 scratchpad 時使用）
+   */
+  static createLeadingHeader(header: BlockHeader): string {
+    return `${BlockParser.formatHeader(header)}\n`;
+  }
+
+  /**
+   * 產生內容中尚未使用的 block ID（8 位十六進位）
+   */
+  static generateBlockId(content: string): string {
+    const existing = new Set(BlockParser.parseBlocks(content).map((block) => block.id));
+    let id: string;
+    do {
+      id = randomUUID().replace(/-/g, '').slice(0, 8);
+    } while (existing.has(id));
+    return id;
+  }
+
+  /**
+   * 依 ID 尋找 block
+   */
+  static findBlock(content: string, id: string): BlockInfo | undefined {
+    return BlockParser.parseBlocks(content).find((block) => block.id === id);
+  }
+
+  /**
+   * 取代指定 block 的內容，保留其標頭（ID 不變）
+   *
+   * @throws Error 找不到 block 時
+   */
+  static replaceBlock(content: string, id: string, blockContent: string): string {
+    const block = BlockParser.requireBlock(BlockParser.parseBlocks(content), id);
+    return (
+      content.substring(0, block.startPosition) +
+      blockContent +
+      content.substring(block.endPosition)
+    );
+  }
+
+  /**
+   * 刪除指定 block（連同分隔符與標頭）
+   *
+   * @throws Error 找不到 block 時
+   */
+  static deleteBlock(content: string, id: string): string {
+    const blocks = BlockParser.parseBlocks(content);
+    const block = BlockParser.requireBlock(blocks, id);
+    const remaining = blocks.filter((candidate) => candidate !== block);
+    return BlockParser.reconstructBlocksToString(content, blocks, remaining, true);
+  }
+
+  /**
+   * 移動指定 block 到另一個 block 之前 / 之後，或內容的開頭 / 結尾
+   *
+   * @throws Error 找不到 block、或以自身為目標時
+   */
+  static moveBlock(content: string, id: string, target: BlockMoveTarget): string {
+    const blocks = BlockParser.parseBlocks(content);
+    const block = BlockParser.requireBlock(blocks, id);
+    const reordered = blocks.filter((candidate) => candidate !== block);
+
+    if ('position' in target) {
+      reordered.splice(target.position === 'start' ? 0 : reordered.length, 0, block);
+    } else {
+      const anchorId = 'before' in target ? target.before : target.after;
+      if (anchorId === id) {
+        throw new Error(`Cannot move block ${id} relative to itself`);
+      }
+      const anchor = BlockParser.requireBlock(blocks, anchorId);
+      const anchorIndex = reordered.indexOf(anchor);
+      reordered.splice('before' in target ? anchorIndex : anchorIndex + 1, 0, block);
+    }
+
+    return BlockParser.reconstructBlocksToString(content, blocks, reordered, true);
+  }
+
+  /**
+   * 是否為有效的 block kind
+   */
+  static isBlockKind(value: unknown): value is BlockKind {
+    return BLOCK_KINDS.includes(value as BlockKind);
+  }
+
+  /**
+   * 由工具參數建立篩選條件；未指定 author 與 kind 時回傳 undefined
+   *
+   * @throws Error kind 不是有效的 block kind 時
+   */
+  static createFilter(options: { author?: string; kind?: string }): BlockFilter | undefined {
+    const author = options.author?.trim() || undefined;
+    if (author === undefined && options.kind === undefined) {
+      return undefined;
+    }
+    if (options.kind !== undefined && !BlockParser.isBlockKind(options.kind)) {
+      throw new Error(`Invalid block kind: ${options.kind} (use ${BLOCK_KINDS.join(', ')})`);
+    }
+    return { author, kind: options.kind };
+  }
+
+  /**
+   * 描述篩選條件，例如 'author=planner kind=decision'
+   */
+  static describeFilter(filter: BlockFilter): string {
+    return [
+      ...(filter.author !== undefined ? [`author=${filter.author}`] : []),
+      ...(filter.kind !== undefined ? [`kind=${filter.kind}`] : []),
+    ].join(' ');
+  }
+
+  /**
+   * 篩選符合 author / kind 的 blocks（未帶標頭的 block 不符合任何條件）
+   */
+  static filterBlocks(content: string, filter: BlockFilter): BlockInfo[] {
+    return BlockParser.parseBlocks(content).filter((block) =>
+      BlockParser.matchesFilter(block, filter)
+    );
+  }
+
+  /**
+   * 只保留符合條件的 blocks，各自保留原本的分隔符與標頭
+   */
+  static selectBlocks(content: string, filter: BlockFilter): string {
+    const blocks = BlockParser.parseBlocks(content);
+    return BlockParser.reconstructBlocksToString(
+      content,
+      blocks,
+      blocks.filter((block) => BlockParser.matchesFilter(block, filter)),
+      true
+    );
+  }
+
+  /**
+   * 單一 block 是否符合篩選條件
+   */
+  static matchesFilter(block: BlockInfo, filter: BlockFilter): boolean {
+    return (
+      (filter.author === undefined || block.author === filter.author) &&
+      (filter.kind === undefined || block.kind === filter.kind)
+    );
+  }
+
   // === 私有輔助方法 ===
 
   /**
@@ -212,18 +463,78 @@ export class BlockParser {
     return positions;
   }
 
+  /**
+   * 尋找所有帶 block 標記的分隔符（含屬性）
+   */
+  private static findHeadedSplitters(content: string): Splitter[] {
+    return Array.from(content.matchAll(BlockParser.HEADED_SPLITTER_PATTERN), (match) => ({
+      position: match.index,
+      length: match[0].length,
+      attributes: BlockParser.parseAttributes(match[1] ?? ''),
+    }));
+  }
+
+  private static parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of raw.matchAll(BlockParser.ATTRIBUTE_PATTERN)) {
+      const value = match[2]!;
+      if (value.startsWith('"')) {
+        try {
+          attributes[match[1]!] = JSON.parse(value) as string;
+        } catch {
+          attributes[match[1]!] = value.slice(1, -1);
+        }
+      } else {
+        attributes[match[1]!] = value;
+      }
+    }
+    return attributes;
+  }
+
+  /**
+   * 含空白、引號或 '>' 的值以 JSON 字串表示（'>' 轉義，避免提前結束註解標記）
+   */
+  private static formatAttributeValue(value: string): string {
+    return /^[\w.:@+/-]+$/.test(value) ? value : JSON.stringify(value).replace(/>/g, '\\u003e');
+  }
+
+  private static withHeader(block: BlockInfo, attributes: Record<string, string>): BlockInfo {
+    if (attributes['id'] !== undefined) {
+      block.id = attributes['id'];
+    }
+    if (attributes['author'] !== undefined) {
+      block.author = attributes['author'];
+    }
+    if (BlockParser.isBlockKind(attributes['kind'])) {
+      block.kind = attributes['kind'];
+    }
+    if (attributes['tags'] !== undefined) {
+      block.tags = attributes['tags'].split(',').filter((tag) => tag !== '');
+    }
+    if (attributes['ts'] !== undefined) {
+      block.timestamp = attributes['ts'];
+    }
+    return block;
+  }
+
+  private static requireBlock(blocks: BlockInfo[], id: string): BlockInfo {
+    const block = blocks.find((candidate) => candidate.id === id);
+    if (!block) {
+      throw new Error(`Block not found: ${id}`);
+    }
+    return block;
+  }
+
   /**
    * 移除重複的分隔符位置（處理新舊格式重疊的情況）
    */
-  private static removeDuplicatePositions(
-    splitters: Array<{ position: number; splitter: string }>
-  ): Array<{ position: number; splitter: string }> {
-    const uniquePositions = new Map<number, { position: number; splitter: string }>();
+  private static removeDuplicatePositions(splitters: Splitter[]): Splitter[] {
+    const uniquePositions = new Map<number, Splitter>();
 
     // 優先保留較長的分隔符（新格式）
     for (const splitter of splitters) {
       const existing = uniquePositions.get(splitter.position);
-      if (!existing || splitter.splitter.length > existing.splitter.length) {
+      if (!existing || splitter.length > existing.length) {
         uniquePositions.set(splitter.position, splitter);
       }
     }
@@ -233,41 +544,44 @@ export class BlockParser {
 
   /**
    * 將選中的 blocks 重新組合成字串
+   *
+   * 每個 block 沿用原本的分隔符與標頭；原本的第一個 block 移到後面時改用新格式分隔符。
+   * 輸出的第一個 block 不帶分隔符，只有原本就在開頭（或 promoteHeader）時保留帶屬性的標頭
+   *
+   * @param allBlocks - originalContent 的完整解析結果（用來找出每個 block 前面的分隔符）
    */
-  private static reconstructBlocksToString(originalContent: string, blocks: BlockInfo[]): string {
-    if (blocks.length === 0) {
-      return '';
-    }
-
-    if (blocks.length === 1) {
-      return blocks[0]!.content;
-    }
-
-    // 分析原始內容中使用的分隔符類型
-    let result = blocks[0]!.content;
-
-    for (let i = 1; i < blocks.length; i++) {
-      // 檢查原始內容中這兩個 block 之間使用的分隔符
-      const prevBlock = blocks[i - 1]!;
-      const currentBlock = blocks[i]!;
-
-      const betweenContent = originalContent.substring(
-        prevBlock.endPosition,
-        currentBlock.startPosition
+  private static reconstructBlocksToString(
+    originalContent: string,
+    allBlocks: BlockInfo[],
+    blocks: BlockInfo[],
+    promoteHeader = false
+  ): string {
+    let result = '';
+
+    blocks.forEach((block, position) => {
+      const previous = block.isFirstBlock ? undefined : allBlocks[block.index - 1];
+      const splitter = originalContent.substring(
+        Math.min(previous?.endPosition ?? 0, block.startPosition),
+        block.startPosition
       );
-
-      // 如果能找到原始分隔符，使用原始分隔符；否則使用新格式
-      if (betweenContent.includes(BlockParser.NEW_SPLITTER)) {
-        result += BlockParser.NEW_SPLITTER;
-      } else if (betweenContent.includes(BlockParser.OLD_SPLITTER)) {
-        result += BlockParser.OLD_SPLITTER;
+      const header = splitter.startsWith(BlockParser.OLD_SPLITTER)
+        ? splitter.slice(BlockParser.OLD_SPLITTER.length)
+        : splitter;
+      const hasAttributes = BlockParser.LEADING_HEADER_PATTERN.test(header);
+
+      if (position === 0) {
+        if (hasAttributes && (promoteHeader || block.isFirstBlock)) {
+          result += header;
+        }
+      } else if (splitter.startsWith(BlockParser.OLD_SPLITTER)) {
+        result += splitter;
       } else {
-        // 預設使用新格式
-        result += BlockParser.NEW_SPLITTER;
+        // 原本的第一個 block：有標頭時補上分隔線，否則使用新格式
+        result += hasAttributes ? BlockParser.OLD_SPLITTER + header : BlockParser.NEW_SPLITTER;
       }
 
-      result += currentBlock.content;
-    }
+      result += block.content;
+    });
 
     return result;
   }
@@ -0,0 +1,113 @@
+/**
+ * ContentPattern - scratchpad 內容的字串 / 正規表達式比對
+ *
+ * search-scratchpad-content 與 update-scratchpad 的 find_replace 模式共用：
+ * - query（字串）與 queryRegex（正規表達式）必須恰好提供一個
+ * - 無效的正規表達式統一回報 `Invalid regular expression: ...`
+ * - 逐行比對，零寬度命中會推進 lastIndex 避免無限迴圈
+ */
+
+export type ContentPatternMethod = 'string' | 'regex';
+
+export interface ContentPatternArgs {
+  query?: string;
+  queryRegex?: string;
+}
+
+export class ContentPattern {
+  /**
+   * 檢查 query / queryRegex 恰好提供一個，回傳比對方式
+   *
+   * @throws Error 兩者皆未提供或同時提供時
+   */
+  static resolveMethod(args: ContentPatternArgs): ContentPatternMethod {
+    const hasQuery = args.query !== undefined;
+    const hasQueryRegex = args.queryRegex !== undefined;
+
+    if (!hasQuery && !hasQueryRegex) {
+      throw new Error('Either query or queryRegex must be provided');
+    }
+    if (hasQuery && hasQueryRegex) {
+      throw new Error('Cannot specify both query and queryRegex - choose one');
+    }
+    return hasQuery ? 'string' : 'regex';
+  }
+
+  /**
+   * 編譯全域比對用的正規表達式
+   *
+   * @throws Error 正規表達式無效時
+   */
+  static compileRegex(queryRegex: string): RegExp {
+    try {
+      return new RegExp(queryRegex, 'g');
+    } catch (error) {
+      throw new Error(
+        `Invalid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * 依 query / queryRegex 編譯正規表達式（字串會先跳脫）
+   */
+  static compile(args: ContentPatternArgs): { regex: RegExp; method: ContentPatternMethod } {
+    const method = ContentPattern.resolveMethod(args);
+    const source = method === 'string' ? ContentPattern.escape(args.query!) : args.queryRegex!;
+    return { regex: ContentPattern.compileRegex(source), method };
+  }
+
+  /**
+   * 列出單行內所有命中（regex 需帶 g 旗標）
+   */
+  static matchLine(regex: RegExp, line: string): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    regex.lastIndex = 0;
+
+    let match;
+    while ((match = regex.exec(line)) !== null) {
+      matches.push(match);
+      // Prevent infinite loop on zero-width matches
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+    regex.lastIndex = 0;
+
+    return matches;
+  }
+
+  /**
+   * 展開取代字串中的 `$&`、`$1`…`$99`、`$<name>` 與 `$$`（語意同 String.prototype.replace）
+   */
+  static expandReplacement(replacement: string, match: RegExpExecArray): string {
+    return replacement.replace(
+      /\$(\$|&|<([^>]*)>|\d{1,2})/g,
+      (token, ref: string, name?: string) => {
+        if (ref === '$') {
+          return '$';
+        }
+        if (ref === '&') {
+          return match[0];
+        }
+        if (name !== undefined) {
+          return match.groups ? (match.groups[name] ?? '') : token;
+        }
+        // 兩位數群組不存在時退回一位數群組加上字面數字
+        const group = Number(ref);
+        if (group >= 1 && group < match.length) {
+          return match[group] ?? '';
+        }
+        const single = Number(ref[0]);
+        if (ref.length === 2 && single >= 1 && single < match.length) {
+          return (match[single] ?? '') + ref[1];
+        }
+        return token;
+      }
+    );
+  }
+
+  static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
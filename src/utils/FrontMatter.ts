@@ -0,0 +1,51 @@
+/**
+ * FrontMatter - Markdown 檔案開頭 `---` 區塊的讀寫
+ *
+ * 寫入時每個值以 JSON 編碼（JSON 是合法的 YAML flow 語法，字串、陣列、物件都能原樣還原）；
+ * 讀取時只支援單行 `key: value`，decode 會把 JSON 值還原，無法解析時視為一般字串（手寫的未加引號值）
+ */
+
+export class FrontMatter {
+  private static readonly PATTERN = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+  /**
+   * Split a document into raw front matter fields and body
+   */
+  static parse(raw: string): { fields: Record<string, string>; body: string } {
+    const text = raw.replace(/\r\n/g, '\n');
+    const match = FrontMatter.PATTERN.exec(text);
+    if (!match) {
+      return { fields: {}, body: text };
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of match[1]!.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+    return { fields, body: text.slice(match[0].length) };
+  }
+
+  /**
+   * Decode a raw field value written by stringify (or a plain hand-written string)
+   */
+  static decode(value: string): unknown {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Build a document from front matter fields and body（undefined 欄位略過）
+   */
+  static stringify(fields: Record<string, unknown>, body: string): string {
+    const lines = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    return `---\n${lines.join('\n')}\n---\n${body}`;
+  }
+}
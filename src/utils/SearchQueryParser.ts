@@ -0,0 +1,326 @@
+/**
+ * SearchQueryParser - 解析搜尋工具共用的查詢語法
+ *
+ * 支援語法：
+ * - 詞彙與片語：`cache`、`"design doc"`
+ * - 布林運算：`AND`、`OR`、`NOT`（需大寫）、`-term`、括號分組；相鄰詞彙預設為 AND
+ * - 欄位前綴：`title:`、`content:`、`workflow:`、`scope:`、`tag:`
+ * - 前綴萬用字元：`auth*`、`"design do"*`
+ * - 日期篩選：`updated:>2026-01-01`（支援 >、>=、<、<=，省略運算子表示當天）
+ *
+ * 解析結果為 AST，由 database/SearchQueryCompiler 編譯為 FTS5 MATCH 與 SQL 條件
+ */
+
+export type SearchQueryField = 'title' | 'content' | 'workflow' | 'scope' | 'tag';
+
+export type SearchQueryComparator = '>' | '>=' | '<' | '<=';
+
+export type SearchQueryNode =
+  | {
+      type: 'text';
+      field: SearchQueryField | null; // null 表示未指定欄位
+      value: string;
+      phrase: boolean;
+      prefix: boolean;
+    }
+  | { type: 'updated'; comparator: SearchQueryComparator; value: number } // Unix timestamp
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode };
+
+export interface ParsedSearchQuery {
+  root: SearchQueryNode | null; // 空查詢為 null
+  /** True when the query uses any syntax beyond plain space-separated words */
+  advanced: boolean;
+  /** Text values that must match (excluding negated terms), for scoring and highlighting */
+  keywords: string[];
+}
+
+/**
+ * Invalid search query syntax (unbalanced parentheses, dangling operators, bad dates)
+ */
+export class SearchQuerySyntaxError extends Error {
+  readonly code = 'INVALID_SEARCH_QUERY';
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`Invalid search query at position ${position}: ${message}`);
+    this.name = 'SearchQuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'lparen'; negate: boolean; position: number }
+  | { kind: 'rparen'; position: number }
+  | { kind: 'operator'; operator: 'AND' | 'OR' | 'NOT'; position: number }
+  | { kind: 'term'; node: SearchQueryNode; negate: boolean; plain: boolean; position: number };
+
+const FIELD_PATTERN = /^(title|content|workflow|scope|tag|updated):/i;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SECONDS_PER_DAY = 86400;
+
+export class SearchQueryParser {
+  /**
+   * 解析查詢字串
+   *
+   * @throws SearchQuerySyntaxError 語法錯誤時
+   */
+  static parse(query: string): ParsedSearchQuery {
+    const tokens = SearchQueryParser.tokenize(query);
+    const state = { tokens, index: 0 };
+
+    let root: SearchQueryNode | null = null;
+    if (tokens.length > 0) {
+      root = SearchQueryParser.parseOr(state);
+      const stray = tokens[state.index];
+      if (stray) {
+        throw new SearchQuerySyntaxError(
+          `unexpected ${stray.kind === 'rparen' ? "')'" : 'token'}`,
+          stray.position
+        );
+      }
+    }
+
+    return {
+      root,
+      advanced: tokens.some((token) => token.kind !== 'term' || !token.plain),
+      keywords: root ? SearchQueryParser.collectKeywords(root) : [],
+    };
+  }
+
+  /**
+   * 收集必須命中的文字（略過 NOT 之下的詞彙與 scope / tag 篩選）
+   */
+  static collectKeywords(node: SearchQueryNode): string[] {
+    switch (node.type) {
+      case 'text':
+        return node.field === 'scope' || node.field === 'tag' ? [] : [node.value];
+      case 'and':
+      case 'or':
+        return node.children.flatMap((child) => SearchQueryParser.collectKeywords(child));
+      default:
+        return [];
+    }
+  }
+
+  private static tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i]!;
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      const position = i;
+      if (char === ')') {
+        tokens.push({ kind: 'rparen', position });
+        i++;
+        continue;
+      }
+
+      // 前置 '-' 表示排除（單獨的 '-' 視為一般詞彙）
+      let negate = false;
+      const next = query[i + 1];
+      if (char === '-' && next !== undefined && !/[\s)]/.test(next)) {
+        negate = true;
+        i++;
+      }
+
+      if (query[i] === '(') {
+        tokens.push({ kind: 'lparen', negate, position });
+        i++;
+        continue;
+      }
+
+      let field: SearchQueryField | 'updated' | null = null;
+      const fieldMatch = FIELD_PATTERN.exec(query.slice(i));
+      if (fieldMatch) {
+        field = fieldMatch[1]!.toLowerCase() as SearchQueryField | 'updated';
+        i += fieldMatch[0].length;
+        if (i >= query.length || /[\s()]/.test(query[i]!)) {
+          throw new SearchQuerySyntaxError(`missing value for ${field}:`, position);
+        }
+      }
+
+      let value: string;
+      let phrase = false;
+      let prefix = false;
+      if (query[i] === '"') {
+        // 未閉合的引號延伸到查詢結尾
+        const end = query.indexOf('"', i + 1);
+        value = query.slice(i + 1, end === -1 ? query.length : end);
+        i = end === -1 ? query.length : end + 1;
+        phrase = true;
+        if (query[i] === '*') {
+          prefix = true;
+          i++;
+        }
+      } else {
+        const start = i;
+        while (i < query.length && !/[\s()"]/.test(query[i]!)) {
+          i++;
+        }
+        value = query.slice(start, i);
+
+        if (field === null && !negate && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+          tokens.push({ kind: 'operator', operator: value, position });
+          continue;
+        }
+        if (field !== 'updated' && value.length > 1 && value.endsWith('*')) {
+          value = value.replace(/\*+$/, '');
+          prefix = true;
+          if (value.length === 0) {
+            throw new SearchQuerySyntaxError('wildcard needs at least one character', position);
+          }
+        }
+      }
+
+      if (field === 'updated') {
+        tokens.push({
+          kind: 'term',
+          node: SearchQueryParser.parseUpdated(value, position),
+          negate,
+          plain: false,
+          position,
+        });
+        continue;
+      }
+
+      // 空片語（""）不構成條件
+      if (value.trim().length === 0) {
+        continue;
+      }
+
+      tokens.push({
+        kind: 'term',
+        node: { type: 'text', field, value, phrase, prefix },
+        negate,
+        plain: !negate && field === null && !phrase && !prefix,
+        position,
+      });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 解析 updated: 篩選值；純日期以 UTC 整天為單位（>2026-01-01 表示 1/2 起）
+   */
+  private static parseUpdated(raw: string, position: number): SearchQueryNode {
+    const match = /^(>=|<=|>|<|=)?(.+)$/.exec(raw);
+    const comparator = match?.[1] ?? '=';
+    const dateText = match?.[2] ?? '';
+    const parsed = Date.parse(dateText);
+    if (Number.isNaN(parsed)) {
+      throw new SearchQuerySyntaxError(`invalid date for updated: "${dateText}"`, position);
+    }
+
+    const value = Math.floor(parsed / 1000);
+    if (!DATE_ONLY_PATTERN.test(dateText)) {
+      return comparator === '='
+        ? {
+            type: 'and',
+            children: [
+              { type: 'updated', comparator: '>=', value },
+              { type: 'updated', comparator: '<=', value },
+            ],
+          }
+        : { type: 'updated', comparator: comparator as SearchQueryComparator, value };
+    }
+
+    const nextDay = value + SECONDS_PER_DAY;
+    switch (comparator) {
+      case '>':
+        return { type: 'updated', comparator: '>=', value: nextDay };
+      case '>=':
+        return { type: 'updated', comparator: '>=', value };
+      case '<':
+        return { type: 'updated', comparator: '<', value };
+      case '<=':
+        return { type: 'updated', comparator: '<', value: nextDay };
+      default:
+        return {
+          type: 'and',
+          children: [
+            { type: 'updated', comparator: '>=', value },
+            { type: 'updated', comparator: '<', value: nextDay },
+          ],
+        };
+    }
+  }
+
+  private static parseOr(state: { tokens: Token[]; index: number }): SearchQueryNode {
+    const children = [SearchQueryParser.parseAnd(state)];
+    for (;;) {
+      const token = state.tokens[state.index];
+      if (token?.kind !== 'operator' || token.operator !== 'OR') {
+        break;
+      }
+      state.index++;
+      children.push(SearchQueryParser.parseAnd(state));
+    }
+    return children.length === 1 ? children[0]! : { type: 'or', children };
+  }
+
+  private static parseAnd(state: { tokens: Token[]; index: number }): SearchQueryNode {
+    const children = [SearchQueryParser.parseUnary(state)];
+    for (;;) {
+      const token = state.tokens[state.index];
+      if (token?.kind === 'operator' && token.operator === 'AND') {
+        state.index++;
+        children.push(SearchQueryParser.parseUnary(state));
+      } else if (
+        token?.kind === 'term' ||
+        token?.kind === 'lparen' ||
+        (token?.kind === 'operator' && token.operator === 'NOT')
+      ) {
+        // 相鄰詞彙隱含 AND
+        children.push(SearchQueryParser.parseUnary(state));
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0]! : { type: 'and', children };
+  }
+
+  private static parseUnary(state: { tokens: Token[]; index: number }): SearchQueryNode {
+    const token = state.tokens[state.index];
+    if (token?.kind === 'operator' && token.operator === 'NOT') {
+      state.index++;
+      return { type: 'not', child: SearchQueryParser.parseUnary(state) };
+    }
+    return SearchQueryParser.parsePrimary(state);
+  }
+
+  private static parsePrimary(state: { tokens: Token[]; index: number }): SearchQueryNode {
+    const token = state.tokens[state.index];
+    if (!token) {
+      const last = state.tokens[state.tokens.length - 1];
+      throw new SearchQuerySyntaxError('expected a term after operator', last?.position ?? 0);
+    }
+
+    if (token.kind === 'term') {
+      state.index++;
+      return token.negate ? { type: 'not', child: token.node } : token.node;
+    }
+
+    if (token.kind === 'lparen') {
+      state.index++;
+      const inner = SearchQueryParser.parseOr(state);
+      if (state.tokens[state.index]?.kind !== 'rparen') {
+        throw new SearchQuerySyntaxError("missing ')'", token.position);
+      }
+      state.index++;
+      return token.negate ? { type: 'not', child: inner } : inner;
+    }
+
+    throw new SearchQuerySyntaxError(
+      token.kind === 'rparen' ? "unexpected ')'" : `unexpected operator ${token.operator}`,
+      token.position
+    );
+  }
+}
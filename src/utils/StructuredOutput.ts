@@ -0,0 +1,88 @@
+/**
+ * StructuredOutput - JSON Schema validation for LLM responses
+ *
+ * 解析模型回傳的 JSON（容忍 ```json 圍欄與前後說明文字），並以 ajv 依 JSON Schema 驗證
+ */
+import Ajv from 'ajv';
+
+export interface StructuredOutputResult {
+  valid: boolean;
+  value?: unknown;
+  /** Human-readable problems, fed back to the model on retry */
+  errors: string[];
+}
+
+export type StructuredOutputValidator = (text: string) => StructuredOutputResult;
+
+export class StructuredOutput {
+  private static readonly FENCE_REGEX = /```(?:json)?\s*\n([\s\S]*?)\n?```/i;
+
+  /**
+   * Compile a JSON Schema into a validator for raw model output
+   *
+   * @param schema - JSON Schema（draft-07 / draft-06 / draft-04）
+   * @throws Error 當 schema 本身不合法時
+   */
+  static compile(schema: Record<string, unknown>): StructuredOutputValidator {
+    const ajv = new Ajv({ allErrors: true });
+    let validate: ReturnType<typeof ajv.compile>;
+    try {
+      validate = ajv.compile(schema);
+    } catch (error) {
+      throw new Error(
+        `Invalid output_schema: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return (text: string): StructuredOutputResult => {
+      const parsed = StructuredOutput.parseJson(text);
+      if (!parsed.ok) {
+        return { valid: false, errors: [parsed.error] };
+      }
+
+      if (!validate(parsed.value)) {
+        return {
+          valid: false,
+          value: parsed.value,
+          errors: (validate.errors ?? []).map(
+            (error) => `${error.dataPath || '(root)'} ${error.message ?? 'is invalid'}`
+          ),
+        };
+      }
+      return { valid: true, value: parsed.value, errors: [] };
+    };
+  }
+
+  /**
+   * Parse JSON from model output
+   *
+   * 依序嘗試：整段文字 → ``` 圍欄內容 → 第一個 { / [ 到最後一個 } / ]
+   */
+  static parseJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+    const candidates = [text.trim()];
+
+    const fenced = StructuredOutput.FENCE_REGEX.exec(text);
+    if (fenced?.[1]) {
+      candidates.push(fenced[1].trim());
+    }
+
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+
+    let lastError = 'Response is empty';
+    for (const candidate of candidates) {
+      if (!candidate) {
+        continue;
+      }
+      try {
+        return { ok: true, value: JSON.parse(candidate) as unknown };
+      } catch (error) {
+        lastError = `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    return { ok: false, error: lastError };
+  }
+}
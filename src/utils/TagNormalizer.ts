@@ -0,0 +1,69 @@
+/**
+ * TagNormalizer - workflow / scratchpad 標籤與 metadata 鍵的正規化與驗證
+ *
+ * 標籤規則：
+ * - 去除前後空白與開頭的 '#'，轉為小寫
+ * - 以字母或數字開頭，其後可含字母、數字與 `_ - . : /`（不含空白，資料庫以空白分隔儲存）
+ * - 長度上限 MAX_TAG_LENGTH
+ */
+
+export class TagNormalizer {
+  static readonly MAX_TAG_LENGTH = 50;
+  static readonly MAX_TAGS = 20; // 每個 workflow / scratchpad 的標籤上限
+  static readonly MAX_METADATA_KEY_LENGTH = 100;
+  static readonly MAX_METADATA_BYTES = 16 * 1024; // metadata JSON 的大小上限
+
+  private static readonly TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}_\-.:/]*$/u;
+
+  /**
+   * 正規化單一標籤
+   *
+   * @throws Error 標籤為空、過長或含不允許的字元時
+   */
+  static normalize(tag: string): string {
+    const normalized = tag.trim().replace(/^#+/, '').toLowerCase();
+    if (normalized.length === 0) {
+      throw new Error('Tag cannot be empty');
+    }
+    if (normalized.length > TagNormalizer.MAX_TAG_LENGTH) {
+      throw new Error(
+        `Tag too long: "${normalized}" (max: ${TagNormalizer.MAX_TAG_LENGTH} characters)`
+      );
+    }
+    if (!TagNormalizer.TAG_PATTERN.test(normalized)) {
+      throw new Error(`Invalid tag: "${tag}" (use letters, digits and _ - . : / without spaces)`);
+    }
+    return normalized;
+  }
+
+  /**
+   * 正規化多個標籤並去除重複，依字母排序
+   */
+  static normalizeAll(tags: string[]): string[] {
+    return [...new Set(tags.map((tag) => TagNormalizer.normalize(tag)))].sort();
+  }
+
+  /**
+   * 驗證 metadata 鍵（用於 JSON path `$."key"`，不可含引號或反斜線）
+   *
+   * @throws Error 鍵不合法時
+   */
+  static assertMetadataKey(key: string): void {
+    if (key.length === 0 || key.length > TagNormalizer.MAX_METADATA_KEY_LENGTH) {
+      throw new Error(
+        `Invalid metadata key: "${key}" (1-${TagNormalizer.MAX_METADATA_KEY_LENGTH} characters)`
+      );
+    }
+    if (/["\\]/.test(key)) {
+      throw new Error(`Invalid metadata key: "${key}" (quotes and backslashes are not allowed)`);
+    }
+  }
+
+  /**
+   * SQLite JSON path of a top-level metadata key
+   */
+  static metadataPath(key: string): string {
+    TagNormalizer.assertMetadataKey(key);
+    return `$."${key}"`;
+  }
+}
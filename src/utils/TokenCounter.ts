@@ -0,0 +1,115 @@
+/**
+ * TokenCounter - tiktoken based token counting
+ *
+ * 使用 cl100k_base 編碼估算 token 數；編碼器無法初始化時（例如 wasm 載入失敗）
+ * 退回以字元數 / 4 粗估，確保 token 預算計算不會讓工具失敗
+ */
+import { get_encoding, type Tiktoken } from 'tiktoken';
+
+export class TokenCounter {
+  private static readonly ENCODING = 'cl100k_base';
+  private static readonly FALLBACK_CHARS_PER_TOKEN = 4;
+
+  /** Encoder instance, or false when tiktoken is unavailable */
+  private static encoder: Tiktoken | false | null = null;
+
+  private static getEncoder(): Tiktoken | false {
+    if (TokenCounter.encoder === null) {
+      try {
+        TokenCounter.encoder = get_encoding(TokenCounter.ENCODING);
+      } catch (error) {
+        console.warn('⚠️ 無法初始化 tiktoken 編碼器，改用字元數估算 token：', error);
+        TokenCounter.encoder = false;
+      }
+    }
+    return TokenCounter.encoder;
+  }
+
+  /**
+   * Count tokens of a text
+   *
+   * @param text - 任意文字（特殊 token 字串視為一般文字）
+   * @returns token 數量
+   */
+  static count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    const encoder = TokenCounter.getEncoder();
+    if (!encoder) {
+      return Math.ceil(text.length / TokenCounter.FALLBACK_CHARS_PER_TOKEN);
+    }
+    return encoder.encode(text, [], []).length;
+  }
+
+  /**
+   * Split text into pieces that each fit within a token limit
+   *
+   * 優先以行為單位切分；單一行超過上限時再依字元切分
+   *
+   * @param text - 要切分的文字
+   * @param maxTokens - 每段最大 token 數
+   * @returns 切分後的文字片段（順序不變）
+   */
+  static split(text: string, maxTokens: number): string[] {
+    if (TokenCounter.count(text) <= maxTokens) {
+      return [text];
+    }
+
+    const pieces: string[] = [];
+    let current = '';
+    let currentTokens = 0;
+
+    const flush = (): void => {
+      if (current) {
+        pieces.push(current);
+      }
+      current = '';
+      currentTokens = 0;
+    };
+
+    for (const line of text.split('\n')) {
+      const segment = current ? `\n${line}` : line;
+      const segmentTokens = TokenCounter.count(segment);
+
+      if (segmentTokens > maxTokens) {
+        flush();
+        pieces.push(...TokenCounter.splitByChars(line, maxTokens));
+        continue;
+      }
+      if (currentTokens + segmentTokens > maxTokens) {
+        flush();
+        current = line;
+        currentTokens = TokenCounter.count(line);
+        continue;
+      }
+      current += segment;
+      currentTokens += segmentTokens;
+    }
+    flush();
+
+    return pieces;
+  }
+
+  private static splitByChars(text: string, maxTokens: number): string[] {
+    const pieces: string[] = [];
+    // 以 token 密度估算每段字元數，再逐步縮小直到符合上限
+    let size = Math.max(
+      1,
+      Math.floor((text.length * maxTokens) / Math.max(1, TokenCounter.count(text)))
+    );
+    let offset = 0;
+
+    while (offset < text.length) {
+      let piece = text.slice(offset, offset + size);
+      while (piece.length > 1 && TokenCounter.count(piece) > maxTokens) {
+        size = Math.max(1, Math.floor(size * 0.9));
+        piece = text.slice(offset, offset + size);
+      }
+      pieces.push(piece);
+      offset += piece.length;
+    }
+
+    return pieces;
+  }
+}
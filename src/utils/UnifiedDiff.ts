@@ -0,0 +1,313 @@
+/**
+ * UnifiedDiff - 行級差異比對與 unified diff 輸出
+ *
+ * 使用 Myers O(ND) 演算法計算最短編輯路徑，輸出格式與 `diff -u` 相容：
+ * - '--- a' / '+++ b' 檔頭
+ * - '@@ -l,s +l,s @@' hunk 標頭
+ * - ' ' 上下文、'-' 刪除、'+' 新增
+ *
+ * 差異過大時（編輯距離超過 MAX_EDIT_DISTANCE）降級為整段替換，避免記憶體爆量。
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+  /** 在舊內容中的行號 (1-based)，insert 時為 undefined */
+  oldLine?: number;
+  /** 在新內容中的行號 (1-based)，delete 時為 undefined */
+  newLine?: number;
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+  hunks: number;
+}
+
+export interface UnifiedDiffOptions {
+  /** 每個 hunk 前後的上下文行數（預設 3） */
+  context?: number;
+  /** 舊版本標籤（預設 'a'） */
+  oldLabel?: string;
+  /** 新版本標籤（預設 'b'） */
+  newLabel?: string;
+}
+
+export class UnifiedDiff {
+  // 超過此編輯距離時不再追蹤 Myers 路徑，改為整段替換
+  private static readonly MAX_EDIT_DISTANCE = 5000;
+
+  /**
+   * 計算兩段內容的行級差異
+   */
+  static diffLines(oldContent: string, newContent: string): DiffLine[] {
+    const a = UnifiedDiff.splitLines(oldContent);
+    const b = UnifiedDiff.splitLines(newContent);
+
+    // 先剝除共同前綴與後綴，縮小 Myers 搜尋空間
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+      result.push({ type: 'equal', text: a[i]!, oldLine: i + 1, newLine: i + 1 });
+    }
+
+    for (const op of UnifiedDiff.myers(middleA, middleB)) {
+      if (op.type === 'equal') {
+        result.push({
+          type: 'equal',
+          text: middleA[op.oldIndex!]!,
+          oldLine: prefix + op.oldIndex! + 1,
+          newLine: prefix + op.newIndex! + 1,
+        });
+      } else if (op.type === 'delete') {
+        result.push({ type: 'delete', text: middleA[op.oldIndex!]!, oldLine: prefix + op.oldIndex! + 1 });
+      } else {
+        result.push({ type: 'insert', text: middleB[op.newIndex!]!, newLine: prefix + op.newIndex! + 1 });
+      }
+    }
+
+    for (let i = 0; i < suffix; i++) {
+      const oldIndex = a.length - suffix + i;
+      const newIndex = b.length - suffix + i;
+      result.push({ type: 'equal', text: a[oldIndex]!, oldLine: oldIndex + 1, newLine: newIndex + 1 });
+    }
+
+    return result;
+  }
+
+  /**
+   * 產生 unified diff 文字；內容相同時回傳空字串
+   */
+  static createPatch(
+    oldContent: string,
+    newContent: string,
+    options: UnifiedDiffOptions = {}
+  ): { patch: string; stats: DiffStats } {
+    const context = options.context ?? 3;
+    const lines = UnifiedDiff.diffLines(oldContent, newContent);
+
+    const additions = lines.filter((line) => line.type === 'insert').length;
+    const deletions = lines.filter((line) => line.type === 'delete').length;
+
+    if (additions === 0 && deletions === 0) {
+      return { patch: '', stats: { additions: 0, deletions: 0, hunks: 0 } };
+    }
+
+    const hunks = UnifiedDiff.groupHunks(lines, context);
+    let patch = `--- ${options.oldLabel ?? 'a'}\n+++ ${options.newLabel ?? 'b'}\n`;
+
+    for (const hunk of hunks) {
+      const hunkLines = lines.slice(hunk.start, hunk.end);
+      const oldCount = hunkLines.filter((line) => line.type !== 'insert').length;
+      const newCount = hunkLines.filter((line) => line.type !== 'delete').length;
+      const oldStart = UnifiedDiff.firstLineNumber(lines, hunk.start, 'oldLine', oldCount);
+      const newStart = UnifiedDiff.firstLineNumber(lines, hunk.start, 'newLine', newCount);
+
+      patch += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+      for (const line of hunkLines) {
+        const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+        patch += `${marker}${line.text}\n`;
+      }
+    }
+
+    return {
+      patch: patch.trimEnd(),
+      stats: { additions, deletions, hunks: hunks.length },
+    };
+  }
+
+  // === 私有輔助方法 ===
+
+  /**
+   * 拆分行；空內容視為零行（與 LineEditor 一致）
+   */
+  private static splitLines(content: string): string[] {
+    return content === '' ? [] : content.split('\n');
+  }
+
+  /**
+   * Myers 最短編輯路徑，回傳依序的 equal/delete/insert 操作
+   */
+  private static myers(
+    a: string[],
+    b: string[]
+  ): Array<{ type: DiffLine['type']; oldIndex?: number; newIndex?: number }> {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+
+    if (max === 0) {
+      return [];
+    }
+
+    // 差異過大：直接輸出整段刪除 + 整段新增
+    if (max > UnifiedDiff.MAX_EDIT_DISTANCE * 2 && n > 0 && m > 0) {
+      return UnifiedDiff.replaceAll(n, m);
+    }
+
+    const offset = max;
+    const v = new Int32Array(2 * max + 2);
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max; d++) {
+      if (d > UnifiedDiff.MAX_EDIT_DISTANCE) {
+        return UnifiedDiff.replaceAll(n, m);
+      }
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x: number;
+        if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+          x = v[offset + k + 1]!;
+        } else {
+          x = v[offset + k - 1]! + 1;
+        }
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+      if (found) {
+        break;
+      }
+    }
+
+    // 回溯編輯路徑
+    const ops: Array<{ type: DiffLine['type']; oldIndex?: number; newIndex?: number }> = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const vd = trace[d]!;
+      const k = x - y;
+      let prevK: number;
+      if (k === -d || (k !== d && vd[offset + k - 1]! < vd[offset + k + 1]!)) {
+        prevK = k + 1;
+      } else {
+        prevK = k - 1;
+      }
+      const prevX = vd[offset + prevK]!;
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        x--;
+        y--;
+        ops.push({ type: 'equal', oldIndex: x, newIndex: y });
+      }
+
+      if (d > 0) {
+        if (x === prevX) {
+          y--;
+          ops.push({ type: 'insert', newIndex: y });
+        } else {
+          x--;
+          ops.push({ type: 'delete', oldIndex: x });
+        }
+      }
+    }
+
+    return ops.reverse();
+  }
+
+  private static replaceAll(
+    n: number,
+    m: number
+  ): Array<{ type: DiffLine['type']; oldIndex?: number; newIndex?: number }> {
+    const ops: Array<{ type: DiffLine['type']; oldIndex?: number; newIndex?: number }> = [];
+    for (let i = 0; i < n; i++) {
+      ops.push({ type: 'delete', oldIndex: i });
+    }
+    for (let j = 0; j < m; j++) {
+      ops.push({ type: 'insert', newIndex: j });
+    }
+    return ops;
+  }
+
+  /**
+   * 依上下文行數將變更合併成 hunks（[start, end) 索引範圍）
+   */
+  private static groupHunks(
+    lines: DiffLine[],
+    context: number
+  ): Array<{ start: number; end: number }> {
+    const hunks: Array<{ start: number; end: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i]!.type === 'equal') {
+        continue;
+      }
+
+      const start = Math.max(0, i - context);
+      let end = i + 1;
+      // 延伸直到連續 2*context 行未變更
+      let j = i + 1;
+      while (j < lines.length) {
+        if (lines[j]!.type !== 'equal') {
+          end = j + 1;
+          j++;
+          continue;
+        }
+        if (j - end >= context * 2) {
+          break;
+        }
+        j++;
+      }
+      end = Math.min(lines.length, end + context);
+
+      const last = hunks[hunks.length - 1];
+      if (last && start <= last.end) {
+        last.end = end;
+      } else {
+        hunks.push({ start, end });
+      }
+      i = end - 1;
+    }
+
+    return hunks;
+  }
+
+  /**
+   * 取得 hunk 起始行號；依 diff -u 慣例，空範圍時行號為前一行
+   */
+  private static firstLineNumber(
+    lines: DiffLine[],
+    startIndex: number,
+    key: 'oldLine' | 'newLine',
+    count: number
+  ): number {
+    for (let i = startIndex; i < lines.length; i++) {
+      const lineNumber = lines[i]![key];
+      if (lineNumber !== undefined) {
+        return count === 0 ? lineNumber - 1 : lineNumber;
+      }
+    }
+    // hunk 位於結尾且該側沒有任何行
+    for (let i = startIndex - 1; i >= 0; i--) {
+      const lineNumber = lines[i]![key];
+      if (lineNumber !== undefined) {
+        return lineNumber;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Block ID Tests
+ *
+ * Tests stable block IDs written by append (header parsing, legacy markers) and the
+ * block-targeted get-block / replace-block / delete-block / move-block tools.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase, ScratchpadConflictError } from '../src/database/index.js';
+import { BlockParser } from '../src/utils/BlockParser.js';
+import {
+  appendScratchpadTool,
+  createScratchpadTool,
+  createWorkflowTool,
+  deleteBlockTool,
+  getBlockTool,
+  listScratchpadRevisionsTool,
+  moveBlockTool,
+  replaceBlockTool,
+  tailScratchpadTool,
+} from '../src/tools/index.js';
+
+const bodies = (content: string): string[] =>
+  BlockParser.parseBlocks(content).map((block) => block.content);
+
+describe('BlockParser block headers', () => {
+  it('parses ids, authors and timestamps from block headers', () => {
+    const content =
+      '<!--- block start id=aaaa1111 ts=2025-01-01T00:00:00Z --->\nfirst' +
+      '\n\n---\n<!--- block start id=bbbb2222 author="agent one" ts=2025-01-02T00:00:00Z --->\nsecond';
+
+    const blocks = BlockParser.parseBlocks(content);
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({
+      id: 'aaaa1111',
+      timestamp: '2025-01-01T00:00:00Z',
+      content: 'first',
+      isFirstBlock: true,
+    });
+    expect(blocks[1]).toMatchObject({
+      id: 'bbbb2222',
+      author: 'agent one',
+      timestamp: '2025-01-02T00:00:00Z',
+      content: 'second',
+    });
+  });
+
+  it('keeps legacy markers parseable without ids', () => {
+    const content = 'intro\n\n---\n<!--- block start --->\nnew format\n\n---\nold format';
+
+    const blocks = BlockParser.parseBlocks(content);
+    expect(blocks.map((block) => block.content)).toEqual(['intro', 'new format', 'old format']);
+    expect(blocks.every((block) => block.id === undefined)).toBe(true);
+  });
+
+  it('does not treat a bare marker at the start of the content as a header', () => {
+    const blocks = BlockParser.parseBlocks('<!--- block start --->\ntext');
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]!.content).toBe('<!--- block start --->\ntext');
+  });
+
+  it('round-trips header values that need quoting', () => {
+    const header = BlockParser.formatHeader({ id: 'cccc3333', author: 'a "quoted" --> name' });
+    expect(header.indexOf('-->')).toBe(header.length - '-->'.length);
+
+    const [block] = BlockParser.parseBlocks(`${header}\nbody`);
+    expect(block).toMatchObject({ id: 'cccc3333', author: 'a "quoted" --> name', content: 'body' });
+  });
+
+  it('generates ids that are unique within the content', () => {
+    const content = `${BlockParser.createLeadingHeader({ id: 'dddd4444' })}body`;
+    const id = BlockParser.generateBlockId(content);
+    expect(id).toMatch(/^[0-9a-f]{8}$/);
+    expect(id).not.toBe('dddd4444');
+  });
+});
+
+describe('Block tools', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+
+  const createScratchpad = async (content: string): Promise<string> => {
+    const result = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Blocks',
+      content,
+    });
+    return result.scratchpad.id;
+  };
+
+  const append = async (id: string, content: string): Promise<string> => {
+    const result = await appendScratchpadTool(db)({ id, content });
+    expect(result.block_id).toMatch(/^[0-9a-f]{8}$/);
+    return result.block_id!;
+  };
+
+  const contentOf = (id: string): string => db.getScratchpadById(id)!.content;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Block workflow' });
+    workflowId = workflow.workflow.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('writes a block header with id and timestamp on append', async () => {
+    const id = await createScratchpad('intro');
+    const blockId = await append(id, 'first note');
+
+    expect(contentOf(id)).toMatch(
+      new RegExp(
+        `^intro\\n\\n---\\n<!--- block start id=${blockId} ts=\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}Z --->\\nfirst note$`
+      )
+    );
+  });
+
+  it('starts empty content with a leading header on the first append', async () => {
+    const id = await createScratchpad('');
+    const first = await append(id, 'first');
+    const second = await append(id, 'second');
+
+    expect(contentOf(id).startsWith(`<!--- block start id=${first} `)).toBe(true);
+    const blocks = BlockParser.parseBlocks(contentOf(id));
+    expect(blocks.map((block) => [block.id, block.content])).toEqual([
+      [first, 'first'],
+      [second, 'second'],
+    ]);
+  });
+
+  it('gets a block by id with line numbers', async () => {
+    const id = await createScratchpad('intro');
+    const blockId = await append(id, 'line one\nline two');
+    await append(id, 'later');
+
+    const result = await getBlockTool(db)({ id, block_id: blockId });
+    expect(result.block).toMatchObject({
+      id: blockId,
+      index: 1,
+      content: 'line one\nline two',
+      start_line: 5,
+      end_line: 6,
+    });
+    expect(result.total_blocks).toBe(3);
+    expect(contentOf(id).split('\n').slice(4, 6)).toEqual(['line one', 'line two']);
+  });
+
+  it('fails for unknown block ids', async () => {
+    const id = await createScratchpad('intro');
+    await append(id, 'note');
+
+    await expect(getBlockTool(db)({ id, block_id: 'ffffffff' })).rejects.toThrow(
+      'Block not found: ffffffff'
+    );
+    await expect(deleteBlockTool(db)({ id, block_id: 'ffffffff' })).rejects.toThrow(
+      'Block not found: ffffffff'
+    );
+  });
+
+  it('replaces a block body and keeps its id', async () => {
+    const id = await createScratchpad('intro');
+    const a = await append(id, 'a');
+    const b = await append(id, 'b');
+
+    const result = await replaceBlockTool(db)({ id, block_id: a, content: 'a (revised)' });
+    expect(result.blocks.map((block) => block.id)).toEqual([null, a, b]);
+    expect(bodies(contentOf(id))).toEqual(['intro', 'a (revised)', 'b']);
+    expect(result.scratchpad.version).toBe(4);
+
+    const revisions = await listScratchpadRevisionsTool(db)({ id });
+    expect(revisions.revisions[0]!.operation).toBe('block:replace');
+  });
+
+  it('deletes a block with its header', async () => {
+    const id = await createScratchpad('intro');
+    const a = await append(id, 'a');
+    const b = await append(id, 'b');
+
+    await deleteBlockTool(db)({ id, block_id: a });
+    expect(contentOf(id)).not.toContain(a);
+    expect(BlockParser.parseBlocks(contentOf(id)).map((block) => block.id)).toEqual([undefined, b]);
+    expect(bodies(contentOf(id))).toEqual(['intro', 'b']);
+  });
+
+  it('keeps the next header when the leading block is deleted', async () => {
+    const id = await createScratchpad('');
+    const a = await append(id, 'a');
+    const b = await append(id, 'b');
+
+    await deleteBlockTool(db)({ id, block_id: a });
+    expect(contentOf(id)).toMatch(new RegExp(`^<!--- block start id=${b} `));
+    expect(BlockParser.findBlock(contentOf(id), b)!.content).toBe('b');
+  });
+
+  it('moves blocks before, after and to either end', async () => {
+    const id = await createScratchpad('intro');
+    const a = await append(id, 'a');
+    const b = await append(id, 'b');
+    const c = await append(id, 'c');
+
+    await moveBlockTool(db)({ id, block_id: c, before_block_id: a });
+    expect(bodies(contentOf(id))).toEqual(['intro', 'c', 'a', 'b']);
+
+    await moveBlockTool(db)({ id, block_id: c, after_block_id: b });
+    expect(bodies(contentOf(id))).toEqual(['intro', 'a', 'b', 'c']);
+
+    await moveBlockTool(db)({ id, block_id: b, position: 'start' });
+    expect(bodies(contentOf(id))).toEqual(['b', 'intro', 'a', 'c']);
+    expect(contentOf(id)).toMatch(new RegExp(`^<!--- block start id=${b} `));
+
+    await moveBlockTool(db)({ id, block_id: b, position: 'end' });
+    expect(bodies(contentOf(id))).toEqual(['intro', 'a', 'c', 'b']);
+    expect(BlockParser.parseBlocks(contentOf(id)).map((block) => block.id)).toEqual([
+      undefined,
+      a,
+      c,
+      b,
+    ]);
+  });
+
+  it('requires exactly one move target', async () => {
+    const id = await createScratchpad('intro');
+    const a = await append(id, 'a');
+    const b = await append(id, 'b');
+
+    await expect(moveBlockTool(db)({ id, block_id: a })).rejects.toThrow(
+      'Specify exactly one of before_block_id, after_block_id or position'
+    );
+    await expect(
+      moveBlockTool(db)({ id, block_id: a, before_block_id: b, position: 'end' })
+    ).rejects.toThrow('Specify exactly one');
+    await expect(moveBlockTool(db)({ id, block_id: a, after_block_id: a })).rejects.toThrow(
+      `Cannot move block ${a} relative to itself`
+    );
+  });
+
+  it('rejects block edits on a stale version', async () => {
+    const id = await createScratchpad('intro');
+    const a = await append(id, 'a');
+
+    await expect(
+      replaceBlockTool(db)({ id, block_id: a, content: 'x', expected_version: 1 })
+    ).rejects.toBeInstanceOf(ScratchpadConflictError);
+    expect(bodies(contentOf(id))).toEqual(['intro', 'a']);
+  });
+
+  it('returns block ids from tail-scratchpad in block mode', async () => {
+    const id = await createScratchpad('intro');
+    await append(id, 'a');
+    const b = await append(id, 'b');
+    const c = await append(id, 'c');
+
+    const result = await tailScratchpadTool(db)({ id, tail_size: { blocks: 2 } });
+    expect(result.scratchpad.blocks?.map((block) => [block.id, block.index])).toEqual([
+      [b, 2],
+      [c, 3],
+    ]);
+    expect(result.scratchpad.blocks![0]!.timestamp).toMatch(/Z$/);
+  });
+});
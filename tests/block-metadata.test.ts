@@ -0,0 +1,247 @@
+/**
+ * Block Metadata Tests
+ *
+ * Tests author / kind / tags recorded in block headers on append, and filtering blocks by
+ * author or kind in tail-scratchpad, get-scratchpad and search.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { BlockParser } from '../src/utils/BlockParser.js';
+import {
+  appendScratchpadTool,
+  createScratchpadTool,
+  createWorkflowTool,
+  getScratchpadTool,
+  searchScratchpadContentTool,
+  searchScratchpadsTool,
+  tailScratchpadTool,
+} from '../src/tools/index.js';
+import { validateAppendScratchpadArgs, validateTailScratchpadArgs } from '../src/server-helpers.js';
+
+describe('BlockParser block metadata', () => {
+  it('round-trips author, kind and tags through the header', () => {
+    const header = BlockParser.formatHeader({
+      id: 'aaaa1111',
+      author: 'planner',
+      kind: 'decision',
+      tags: ['api', 'v2'],
+      timestamp: '2025-01-01T00:00:00Z',
+    });
+    expect(header).toBe(
+      '<!--- block start id=aaaa1111 author=planner kind=decision tags="api,v2" ts=2025-01-01T00:00:00Z --->'
+    );
+
+    const [block] = BlockParser.parseBlocks(`intro\n\n---\n${header}\nbody`).slice(1);
+    expect(block).toMatchObject({
+      id: 'aaaa1111',
+      author: 'planner',
+      kind: 'decision',
+      tags: ['api', 'v2'],
+      content: 'body',
+    });
+  });
+
+  it('ignores unknown kinds when parsing', () => {
+    const [block] = BlockParser.parseBlocks('<!--- block start id=bbbb2222 kind=rumor --->\nx');
+    expect(block!.id).toBe('bbbb2222');
+    expect(block!.kind).toBeUndefined();
+  });
+
+  it('validates filters', () => {
+    expect(BlockParser.createFilter({})).toBeUndefined();
+    expect(BlockParser.createFilter({ author: '  ' })).toBeUndefined();
+    expect(BlockParser.createFilter({ author: ' coder ', kind: 'todo' })).toEqual({
+      author: 'coder',
+      kind: 'todo',
+    });
+    expect(() => BlockParser.createFilter({ kind: 'rumor' })).toThrow('Invalid block kind: rumor');
+  });
+});
+
+describe('Block metadata tools', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  const append = async (
+    content: string,
+    options: { author?: string; kind?: 'note' | 'decision' | 'todo' | 'result' | 'error' } = {}
+  ): Promise<string> => {
+    const result = await appendScratchpadTool(db)({ id: scratchpadId, content, ...options });
+    return result.block_id!;
+  };
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Agents' });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Shared log',
+      content: 'Shared log for the cache migration',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('stores author, kind and normalized tags in the block header', async () => {
+    const result = await appendScratchpadTool(db)({
+      id: scratchpadId,
+      content: 'Use Redis for the session cache',
+      author: ' planner ',
+      kind: 'decision',
+      tags: ['#Cache', 'infra'],
+    });
+
+    const block = BlockParser.findBlock(
+      db.getScratchpadById(scratchpadId)!.content,
+      result.block_id!
+    );
+    expect(block).toMatchObject({
+      author: 'planner',
+      kind: 'decision',
+      tags: ['cache', 'infra'],
+      content: 'Use Redis for the session cache',
+    });
+    expect(block!.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+  });
+
+  it('rejects invalid kinds, tags and authors on append', async () => {
+    await expect(
+      appendScratchpadTool(db)({ id: scratchpadId, content: 'x', kind: 'rumor' as never })
+    ).rejects.toThrow('Invalid block kind: rumor');
+    await expect(
+      appendScratchpadTool(db)({ id: scratchpadId, content: 'x', tags: ['has space'] })
+    ).rejects.toThrow('Invalid tag');
+    await expect(
+      appendScratchpadTool(db)({ id: scratchpadId, content: 'x', author: 'two\nlines' })
+    ).rejects.toThrow('Invalid block author');
+    expect(db.getScratchpadById(scratchpadId)!.version).toBe(1);
+  });
+
+  it('filters tail-scratchpad blocks by author', async () => {
+    const first = await append('plan step 1', { author: 'planner', kind: 'todo' });
+    await append('implemented step 1', { author: 'coder', kind: 'result' });
+    const second = await append('plan step 2', { author: 'planner', kind: 'todo' });
+    await append('tests pass', { author: 'coder', kind: 'result' });
+
+    const result = await tailScratchpadTool(db)({
+      id: scratchpadId,
+      tail_size: { blocks: 5 },
+      author: 'planner',
+    });
+
+    expect(result.scratchpad!.blocks!.map((block) => [block.id, block.index])).toEqual([
+      [first, 1],
+      [second, 3],
+    ]);
+    expect(BlockParser.parseBlocks(result.scratchpad!.content).map((b) => b.content)).toEqual([
+      'plan step 1',
+      'plan step 2',
+    ]);
+    expect(result.message).toContain('2 block(s) with author=planner');
+  });
+
+  it('applies tail_size to the matching blocks only', async () => {
+    await append('old result', { author: 'coder', kind: 'result' });
+    await append('a note', { author: 'coder', kind: 'note' });
+    const latest = await append('new result', { author: 'coder', kind: 'result' });
+
+    const result = await tailScratchpadTool(db)({
+      id: scratchpadId,
+      tail_size: { blocks: 1 },
+      kind: 'result',
+    });
+    expect(result.scratchpad!.content).toBe('new result');
+    expect(result.scratchpad!.blocks!.map((block) => block.id)).toEqual([latest]);
+  });
+
+  it('filters get-scratchpad content by kind', async () => {
+    await append('investigate eviction', { kind: 'todo' });
+    const decision = await append('keep LRU eviction', { author: 'planner', kind: 'decision' });
+
+    const result = await getScratchpadTool(db)({ id: scratchpadId, kind: 'decision' });
+    expect(result.scratchpad!.content).toContain('keep LRU eviction');
+    expect(result.scratchpad!.content).not.toContain('investigate eviction');
+    expect(result.scratchpad!.content).not.toContain('Shared log');
+    expect(result.scratchpad!.blocks).toEqual([
+      expect.objectContaining({ id: decision, author: 'planner', kind: 'decision' }),
+    ]);
+
+    const empty = await getScratchpadTool(db)({ id: scratchpadId, author: 'nobody' });
+    expect(empty.scratchpad!.content).toBe('');
+    expect(empty.scratchpad!.blocks).toEqual([]);
+  });
+
+  it('rejects block filters combined with line ranges in get-scratchpad', async () => {
+    await expect(
+      getScratchpadTool(db)({ id: scratchpadId, kind: 'todo', line_range: { start: 1 } })
+    ).rejects.toThrow('author / kind cannot be combined with line_range or line_context');
+  });
+
+  it('restricts search-scratchpad-content matches to matching blocks', async () => {
+    await append('cache warmup is slow', { author: 'coder', kind: 'note' });
+    await append('cache warmup fixed', { author: 'reviewer', kind: 'result' });
+
+    const all = await searchScratchpadContentTool(db)({ id: scratchpadId, query: 'cache' });
+    expect(all.total_matches).toBe(3);
+
+    const filtered = await searchScratchpadContentTool(db)({
+      id: scratchpadId,
+      query: 'cache',
+      author: 'reviewer',
+    });
+    expect(filtered.total_matches).toBe(1);
+    const lines = db.getScratchpadById(scratchpadId)!.content.split('\n');
+    expect(lines[filtered.matches[0]!.line_number - 1]).toBe('cache warmup fixed');
+  });
+
+  it('filters search-scratchpads results by block author', async () => {
+    const other = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Other log',
+      content: 'unrelated',
+    });
+    await append('redis latency spike', { author: 'coder' });
+    await appendScratchpadTool(db)({
+      id: other.scratchpad.id,
+      content: 'redis latency normal',
+      author: 'reviewer',
+    });
+
+    const result = await searchScratchpadsTool(db)({
+      workflow_id: workflowId,
+      query: 'redis',
+      author: 'reviewer',
+    });
+    expect(result.results.map((entry) => entry.scratchpad.id)).toEqual([other.scratchpad.id]);
+    expect(result.results[0]!.scratchpad.content).toContain('redis latency normal');
+    expect(result.results[0]!.scratchpad.content).not.toContain('unrelated');
+  });
+
+  it('validates block metadata and filter arguments', () => {
+    expect(
+      validateAppendScratchpadArgs({
+        id: 'x',
+        content: 'y',
+        author: 'a',
+        kind: 'todo',
+        tags: ['t'],
+      })
+    ).toEqual({ id: 'x', content: 'y', author: 'a', kind: 'todo', tags: ['t'] });
+    expect(() => validateAppendScratchpadArgs({ id: 'x', content: 'y', kind: 'rumor' })).toThrow(
+      'kind must be one of note, decision, todo, result, error'
+    );
+    expect(() => validateAppendScratchpadArgs({ id: 'x', content: 'y', tags: 'a' })).toThrow(
+      'tags must be an array of strings'
+    );
+    expect(validateTailScratchpadArgs({ id: 'x', author: 'a', kind: 'error' })).toEqual({
+      id: 'x',
+      author: 'a',
+      kind: 'error',
+    });
+  });
+});
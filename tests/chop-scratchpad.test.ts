@@ -206,6 +206,7 @@ describe('Chop-Scratchpad Tool Tests', () => {
         created_at: expect.any(String),
         updated_at: expect.any(String),
         size_bytes: expect.any(Number),
+        version: 2,
       });
       expect(result.scratchpad).not.toHaveProperty('content');
     });
@@ -0,0 +1,259 @@
+/**
+ * Clone / Move / Copy Tests
+ *
+ * Tests clone-workflow, move-scratchpad and copy-scratchpad: scratchpad counts and timestamps
+ * of both workflows, limits, inactive workflows, revision history and FTS5 index sync.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  cloneWorkflowTool,
+  copyScratchpadTool,
+  createScratchpadTool,
+  createWorkflowTool,
+  listScratchpadRevisionsTool,
+  moveScratchpadTool,
+  searchAllScratchpadsTool,
+  tagScratchpadTool,
+  tagWorkflowTool,
+  setScratchpadMetadataTool,
+  updateWorkflowStatusTool,
+} from '../src/tools/index.js';
+import { createDatabase } from './helpers/database.js';
+
+/**
+ * 把 workflow 的 updated_at 調回過去，檢查寫入後確實更新
+ */
+const backdateWorkflow = (db: ScratchpadDatabase, workflowId: string): void => {
+  (db as any).db.prepare('UPDATE workflows SET updated_at = 1000 WHERE id = ?').run(workflowId);
+};
+
+describe.each([
+  ['FTS5', true],
+  ['LIKE', false],
+])('clone, move and copy (%s)', (_mode, withFTS5) => {
+  let db: ScratchpadDatabase;
+  let sourceId: string;
+  let targetId: string;
+  let notesId: string;
+  let logId: string;
+
+  beforeEach(async () => {
+    db = createDatabase(withFTS5);
+    sourceId = (await createWorkflowTool(db)({ name: 'Source', project_scope: 'alpha' })).workflow
+      .id;
+    targetId = (await createWorkflowTool(db)({ name: 'Target', project_scope: 'beta' })).workflow
+      .id;
+    notesId = (
+      await createScratchpadTool(db)({
+        workflow_id: sourceId,
+        title: 'Notes',
+        content: 'zebra findings',
+      })
+    ).scratchpad.id;
+    logId = (
+      await createScratchpadTool(db)({ workflow_id: sourceId, title: 'Log', content: 'daily log' })
+    ).scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('move-scratchpad', () => {
+    it('moves the scratchpad and updates both workflows', async () => {
+      backdateWorkflow(db, sourceId);
+      backdateWorkflow(db, targetId);
+      const before = db.getScratchpadById(notesId)!;
+
+      const result = await moveScratchpadTool(db)({ id: notesId, workflow_id: targetId });
+
+      expect(result.from_workflow_id).toBe(sourceId);
+      expect(result.scratchpad).toMatchObject({ id: notesId, workflow_id: targetId });
+      expect(result.scratchpad.version).toBe(before.version + 1);
+
+      const source = db.getWorkflowById(sourceId)!;
+      const target = db.getWorkflowById(targetId)!;
+      expect(source.scratchpad_count).toBe(1);
+      expect(target.scratchpad_count).toBe(1);
+      expect(source.updated_at).toBeGreaterThan(1000);
+      expect(target.updated_at).toBeGreaterThan(1000);
+      expect(db.listScratchpads({ workflow_id: targetId }).map((s) => s.id)).toEqual([notesId]);
+
+      // 修訂歷史隨 scratchpad 一起移動
+      const revisions = await listScratchpadRevisionsTool(db)({ id: notesId });
+      expect(revisions.total_revisions).toBe(1);
+    });
+
+    it('keeps the search index in sync', async () => {
+      await moveScratchpadTool(db)({ id: notesId, workflow_id: targetId });
+
+      expect(db.searchScratchpads({ query: 'zebra', workflow_id: targetId })).toHaveLength(1);
+      expect(db.searchScratchpads({ query: 'zebra', workflow_id: sourceId })).toHaveLength(0);
+
+      const search = await searchAllScratchpadsTool(db)({ query: 'zebra', project_scope: 'beta' });
+      expect(search.results.map((hit) => hit.scratchpad.id)).toEqual([notesId]);
+    });
+
+    it('rejects moves into the same, an inactive or a full workflow', async () => {
+      await expect(moveScratchpadTool(db)({ id: notesId, workflow_id: sourceId })).rejects.toThrow(
+        `Scratchpad is already in workflow: ${sourceId}`
+      );
+      await expect(moveScratchpadTool(db)({ id: notesId, workflow_id: 'missing' })).rejects.toThrow(
+        'Workflow not found: missing'
+      );
+
+      await updateWorkflowStatusTool(db)({ workflow_id: targetId, is_active: false });
+      await expect(moveScratchpadTool(db)({ id: notesId, workflow_id: targetId })).rejects.toThrow(
+        `Cannot move scratchpad: workflow is not active: ${targetId}`
+      );
+
+      const fullId = (await createWorkflowTool(db)({ name: 'Full' })).workflow.id;
+      for (let i = 0; i < 50; i++) {
+        db.createScratchpad({ workflow_id: fullId, title: `Pad ${i}`, content: 'x' });
+      }
+      await expect(moveScratchpadTool(db)({ id: notesId, workflow_id: fullId })).rejects.toThrow(
+        'Too many scratchpads in workflow: 50 (max: 50)'
+      );
+
+      expect(db.getScratchpadById(notesId)!.workflow_id).toBe(sourceId);
+      expect(db.getWorkflowById(sourceId)!.scratchpad_count).toBe(2);
+    });
+  });
+
+  describe('copy-scratchpad', () => {
+    it('copies content, tags and metadata under a new ID', async () => {
+      await tagScratchpadTool(db)({ id: notesId, add: ['research'] });
+      await setScratchpadMetadataTool(db)({ id: notesId, metadata: { owner: 'alice' } });
+      backdateWorkflow(db, targetId);
+
+      const result = await copyScratchpadTool(db)({
+        id: notesId,
+        workflow_id: targetId,
+        include_content: true,
+      });
+
+      expect(result.source_id).toBe(notesId);
+      expect(result.scratchpad.id).not.toBe(notesId);
+      expect(result.scratchpad).toMatchObject({
+        workflow_id: targetId,
+        title: 'Notes',
+        content: 'zebra findings',
+        tags: ['research'],
+      });
+
+      const copy = db.getScratchpadById(result.scratchpad.id)!;
+      expect(copy.metadata).toEqual({ owner: 'alice' });
+      expect(copy.version).toBe(1);
+      expect(db.getWorkflowById(targetId)!.scratchpad_count).toBe(1);
+      expect(db.getWorkflowById(targetId)!.updated_at).toBeGreaterThan(1000);
+      expect(db.getWorkflowById(sourceId)!.scratchpad_count).toBe(2);
+
+      const revisions = await listScratchpadRevisionsTool(db)({ id: copy.id });
+      expect(revisions.revisions.map((revision) => revision.operation)).toEqual([
+        `copy:${notesId}`,
+      ]);
+
+      const search = await searchAllScratchpadsTool(db)({ query: 'zebra', tags: ['research'] });
+      expect(search.results.map((hit) => hit.scratchpad.id).sort()).toEqual(
+        [notesId, copy.id].sort()
+      );
+    });
+
+    it('duplicates within the same workflow with a new title', async () => {
+      const result = await copyScratchpadTool(db)({
+        id: notesId,
+        workflow_id: sourceId,
+        title: 'Notes v2',
+      });
+
+      expect(result.scratchpad.title).toBe('Notes v2');
+      expect(result.scratchpad.content).toBe('');
+      expect(db.getWorkflowById(sourceId)!.scratchpad_count).toBe(3);
+      await expect(
+        copyScratchpadTool(db)({ id: notesId, workflow_id: sourceId, title: ' ' })
+      ).rejects.toThrow('Scratchpad title cannot be empty');
+    });
+  });
+
+  describe('clone-workflow', () => {
+    it('clones the workflow with all scratchpads', async () => {
+      await tagWorkflowTool(db)({ workflow_id: sourceId, add: ['release'] });
+
+      const result = await cloneWorkflowTool(db)({ workflow_id: sourceId });
+
+      expect(result.source_workflow_id).toBe(sourceId);
+      expect(result.workflow).toMatchObject({
+        name: 'Source (copy)',
+        project_scope: 'alpha',
+        scratchpad_count: 2,
+        is_active: true,
+        tags: ['release'],
+      });
+      expect(result.scratchpads.map((copy) => copy.source_id).sort()).toEqual(
+        [notesId, logId].sort()
+      );
+      expect(result.message).toBe(
+        'Cloned workflow "Source" as "Source (copy)" with 2 scratchpad(s)'
+      );
+
+      const cloned = db.getWorkflowById(result.workflow.id)!;
+      expect(cloned.scratchpad_count).toBe(2);
+      expect(
+        db
+          .listScratchpads({ workflow_id: cloned.id })
+          .map((s) => s.title)
+          .sort()
+      ).toEqual(['Log', 'Notes']);
+      expect(db.getWorkflowById(sourceId)!.scratchpad_count).toBe(2);
+      expect(db.searchScratchpads({ query: 'zebra', workflow_id: cloned.id })).toHaveLength(1);
+    });
+
+    it('filters scratchpads and overrides name and project scope', async () => {
+      await tagScratchpadTool(db)({ id: logId, add: ['keep'] });
+
+      const byIds = await cloneWorkflowTool(db)({
+        workflow_id: sourceId,
+        name: 'Experiment',
+        project_scope: 'gamma',
+        scratchpad_ids: [notesId],
+      });
+      expect(byIds.workflow).toMatchObject({ name: 'Experiment', project_scope: 'gamma' });
+      expect(byIds.scratchpads.map((copy) => copy.source_id)).toEqual([notesId]);
+
+      const search = await searchAllScratchpadsTool(db)({ query: 'zebra', project_scope: 'gamma' });
+      expect(search.results.map((hit) => hit.scratchpad.id)).toEqual([byIds.scratchpads[0]!.id]);
+
+      const byTag = await cloneWorkflowTool(db)({ workflow_id: sourceId, tags: ['keep'] });
+      expect(byTag.scratchpads.map((copy) => copy.source_id)).toEqual([logId]);
+      expect(byTag.message).toContain('(tags: keep)');
+
+      const empty = await cloneWorkflowTool(db)({
+        workflow_id: sourceId,
+        include_scratchpads: false,
+      });
+      expect(empty.workflow.scratchpad_count).toBe(0);
+      expect(empty.scratchpads).toEqual([]);
+    });
+
+    it('rejects scratchpad IDs from other workflows', async () => {
+      const otherId = (
+        await createScratchpadTool(db)({ workflow_id: targetId, title: 'Other', content: 'x' })
+      ).scratchpad.id;
+
+      await expect(
+        cloneWorkflowTool(db)({ workflow_id: sourceId, scratchpad_ids: [notesId, otherId] })
+      ).rejects.toThrow(`Scratchpads not found in workflow ${sourceId}: ${otherId}`);
+      expect(db.getWorkflows()).toHaveLength(2);
+    });
+
+    it('clones an inactive workflow into an active one', async () => {
+      await updateWorkflowStatusTool(db)({ workflow_id: sourceId, is_active: false });
+
+      const result = await cloneWorkflowTool(db)({ workflow_id: sourceId, description: null });
+      expect(result.workflow.is_active).toBe(true);
+      expect(result.workflow.description).toBeNull();
+      expect(result.scratchpads).toHaveLength(2);
+    });
+  });
+});
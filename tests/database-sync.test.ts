@@ -0,0 +1,328 @@
+/**
+ * Database Sync Tests
+ *
+ * Tests src/sync on temporary database files: two-way copy, last-writer-wins with conflict copies,
+ * deletion propagation through the trash, dry runs and the `sync` CLI subcommand.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { syncDatabases } from '../src/sync/index.js';
+import { isCliCommand, runCli, type CliIO } from '../src/cli.js';
+import { searchAllScratchpadsTool } from '../src/tools/index.js';
+import { createDatabase } from './helpers/database.js';
+
+/**
+ * 直接設定 updated_at，模擬在不同時間點的修改
+ */
+const setScratchpadUpdatedAt = (db: ScratchpadDatabase, id: string, updatedAt: number): void => {
+  (db as any).db.prepare('UPDATE scratchpads SET updated_at = ? WHERE id = ?').run(updatedAt, id);
+};
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/** Sync time in the past so that edits made during the test count as "after the last sync" */
+const past = (): Date => new Date((nowSeconds() - 100) * 1000);
+
+describe('database sync', () => {
+  let tempDir: string;
+  let local: ScratchpadDatabase;
+  let remote: ScratchpadDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-sync-'));
+    local = createDatabase(false, path.join(tempDir, 'local.db'));
+    remote = createDatabase(false, path.join(tempDir, 'remote.db'));
+  });
+
+  afterEach(() => {
+    local.close();
+    remote.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('copies workflows and scratchpads in both directions on first sync', () => {
+    const localWorkflow = local.createWorkflow({ name: 'Local work', project_scope: 'app' });
+    const localPad = local.createScratchpad({
+      workflow_id: localWorkflow.id,
+      title: 'Local notes',
+      content: 'from laptop',
+    });
+    local.setTags('scratchpad', localPad.id, { add: ['laptop'] });
+    const remoteWorkflow = remote.createWorkflow({ name: 'Remote work' });
+    const remotePad = remote.createScratchpad({
+      workflow_id: remoteWorkflow.id,
+      title: 'Remote notes',
+      content: 'from desktop',
+    });
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.last_synced_at).toBeNull();
+    expect(report.counts).toEqual({ to_local: 2, to_remote: 2, conflicts: 0 });
+    expect(report.changes).toContainEqual(
+      expect.objectContaining({
+        entity: 'scratchpad',
+        id: localPad.id,
+        action: 'created',
+        target: 'remote',
+      })
+    );
+    expect(remote.getScratchpadById(localPad.id)).toMatchObject({
+      content: 'from laptop',
+      tags: ['laptop'],
+      created_at: localPad.created_at,
+    });
+    expect(remote.getWorkflowById(localWorkflow.id)).toMatchObject({
+      project_scope: 'app',
+      scratchpad_count: 1,
+    });
+    expect(local.getScratchpadById(remotePad.id)!.content).toBe('from desktop');
+    expect(local.listScratchpadRevisions({ scratchpad_id: remotePad.id })[0]!.operation).toBe(
+      'sync'
+    );
+
+    const again = syncDatabases(local, remote);
+    expect(again.last_synced_at).toBe(report.synced_at);
+    expect(again.changes).toEqual([]);
+  });
+
+  it('pulls edits made on one side since the last sync', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const pad = local.createScratchpad({ workflow_id: workflow.id, title: 'Plan', content: 'v1' });
+    // 早於同步時間建立，同步後未在本地修改
+    setScratchpadUpdatedAt(local, pad.id, nowSeconds() - 200);
+    syncDatabases(local, remote);
+
+    remote.updateScratchpadContent(pad.id, 'v2 from remote');
+    remote.updateWorkflow(workflow.id, { name: 'Shared (renamed)' });
+    setScratchpadUpdatedAt(remote, pad.id, nowSeconds() + 60);
+    (remote as any).db
+      .prepare('UPDATE workflows SET updated_at = ? WHERE id = ?')
+      .run(nowSeconds() + 60, workflow.id);
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.counts).toEqual({ to_local: 2, to_remote: 0, conflicts: 0 });
+    expect(local.getScratchpadById(pad.id)!.content).toBe('v2 from remote');
+    expect(local.getWorkflowById(workflow.id)!.name).toBe('Shared (renamed)');
+    expect(local.listScratchpads({ workflow_id: workflow.id })).toHaveLength(1);
+  });
+
+  it('keeps the newer edit and saves the other as a conflict copy on both sides', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const pad = local.createScratchpad({ workflow_id: workflow.id, title: 'Plan', content: 'v1' });
+    syncDatabases(local, remote, { now: past() });
+
+    local.updateScratchpadContent(pad.id, 'local edit');
+    remote.updateScratchpadContent(pad.id, 'remote edit');
+    setScratchpadUpdatedAt(local, pad.id, nowSeconds() - 10);
+
+    const report = syncDatabases(local, remote, { local_label: 'laptop' });
+
+    expect(report.counts.conflicts).toBe(1);
+    const conflict = report.changes.find((change) => change.action === 'conflict')!;
+    expect(conflict).toMatchObject({ id: pad.id, target: 'local' });
+    expect(local.getScratchpadById(pad.id)!.content).toBe('remote edit');
+
+    for (const db of [local, remote]) {
+      const copy = db.getScratchpadById(conflict.conflict_copy_id!)!;
+      expect(copy.content).toBe('local edit');
+      expect(copy.title).toMatch(
+        /^Plan \(conflicted copy, laptop \d{4}-\d{2}-\d{2} \d{2}:\d{2}\)$/
+      );
+      expect(copy.metadata).toEqual({ sync_conflict_of: pad.id });
+      expect(db.getWorkflowById(workflow.id)!.scratchpad_count).toBe(2);
+    }
+
+    expect(syncDatabases(local, remote).changes).toEqual([]);
+  });
+
+  it('treats edits in the same second as the last sync as concurrent', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const pad = local.createScratchpad({ workflow_id: workflow.id, title: 'Plan', content: 'v1' });
+    const synced = syncDatabases(local, remote);
+
+    local.updateScratchpadContent(pad.id, 'local edit');
+    remote.updateScratchpadContent(pad.id, 'remote edit');
+    setScratchpadUpdatedAt(local, pad.id, synced.synced_at);
+    setScratchpadUpdatedAt(remote, pad.id, synced.synced_at);
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.counts.conflicts).toBe(1);
+    // updated_at 與 version 都相同時 local 勝出
+    const conflict = report.changes.find((change) => change.action === 'conflict')!;
+    expect(remote.getScratchpadById(pad.id)!.content).toBe('local edit');
+    expect(remote.getScratchpadById(conflict.conflict_copy_id!)!.content).toBe('remote edit');
+  });
+
+  it('treats differing content as a conflict on first sync', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const pad = local.createScratchpad({ workflow_id: workflow.id, title: 'Plan', content: 'v1' });
+    syncDatabases(local, remote, { dry_run: true });
+    remote.importWorkflow({ workflow, scratchpads: [{ ...pad, content: 'diverged' }] });
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.counts.conflicts).toBe(1);
+    expect(local.getScratchpadById(pad.id)!.content).toBe(
+      remote.getScratchpadById(pad.id)!.content
+    );
+  });
+
+  it('propagates deletions through the trash', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const keep = local.createScratchpad({ workflow_id: workflow.id, title: 'Keep', content: 'a' });
+    const drop = local.createScratchpad({ workflow_id: workflow.id, title: 'Drop', content: 'b' });
+    const other = local.createWorkflow({ name: 'Obsolete' });
+    local.createScratchpad({ workflow_id: other.id, title: 'Old', content: 'c' });
+    syncDatabases(local, remote, { now: past() });
+
+    local.deleteScratchpad(drop.id);
+    remote.deleteWorkflow(other.id);
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          entity: 'scratchpad',
+          id: drop.id,
+          action: 'deleted',
+          target: 'remote',
+        }),
+        expect.objectContaining({
+          entity: 'workflow',
+          id: other.id,
+          action: 'deleted',
+          target: 'local',
+        }),
+      ])
+    );
+    expect(remote.getScratchpadById(drop.id)).toBeNull();
+    expect(remote.getScratchpadById(keep.id)).not.toBeNull();
+    expect(local.getWorkflowById(other.id)).toBeNull();
+    // 刪除以垃圾桶方式進行，仍可還原
+    expect(remote.listTrash({ item_type: 'scratchpad' }).map((entry) => entry.item_id)).toContain(
+      drop.id
+    );
+    expect(syncDatabases(local, remote).changes).toEqual([]);
+  });
+
+  it('restores an item that was edited after the other side deleted it', () => {
+    const workflow = local.createWorkflow({ name: 'Shared' });
+    const pad = local.createScratchpad({ workflow_id: workflow.id, title: 'Plan', content: 'v1' });
+    syncDatabases(local, remote, { now: past() });
+
+    local.deleteScratchpad(pad.id);
+    remote.updateScratchpadContent(pad.id, 'still needed');
+    setScratchpadUpdatedAt(remote, pad.id, nowSeconds() + 60);
+
+    const report = syncDatabases(local, remote);
+
+    expect(report.changes).toEqual([
+      expect.objectContaining({ id: pad.id, action: 'created', target: 'local' }),
+    ]);
+    expect(local.getScratchpadById(pad.id)!.content).toBe('still needed');
+  });
+
+  it('reports without writing on dry run', () => {
+    const workflow = local.createWorkflow({ name: 'Local only' });
+    local.createScratchpad({ workflow_id: workflow.id, title: 'Notes', content: 'x' });
+
+    const report = syncDatabases(local, remote, { dry_run: true });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.counts.to_remote).toBe(2);
+    expect(remote.getWorkflows()).toEqual([]);
+    expect(local.getLastSyncedAt(remote.getDatabaseId())).toBeNull();
+  });
+
+  it('refuses to sync a database with itself', () => {
+    const same = createDatabase(false, path.join(tempDir, 'local.db'));
+    try {
+      expect(() => syncDatabases(local, same)).toThrow('Cannot sync a database with itself');
+    } finally {
+      same.close();
+    }
+  });
+
+  it('keeps the FTS5 index in sync', async () => {
+    const ftsLocal = createDatabase(true, path.join(tempDir, 'fts-local.db'));
+    const ftsRemote = createDatabase(true, path.join(tempDir, 'fts-remote.db'));
+    try {
+      const workflow = ftsRemote.createWorkflow({ name: 'Research' });
+      const pad = ftsRemote.createScratchpad({
+        workflow_id: workflow.id,
+        title: 'Findings',
+        content: 'quantization benchmark results',
+      });
+
+      syncDatabases(ftsLocal, ftsRemote);
+
+      const search = await searchAllScratchpadsTool(ftsLocal)({ query: 'quantization' });
+      expect(search.results.map((result) => result.scratchpad.id)).toEqual([pad.id]);
+    } finally {
+      ftsLocal.close();
+      ftsRemote.close();
+    }
+  });
+});
+
+describe('sync CLI', () => {
+  let tempDir: string;
+  let output: string[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-sync-cli-'));
+    output = [];
+    io = {
+      stdout: (line) => output.push(line),
+      stderr: (line) => output.push(line),
+      env: { SCRATCHPAD_DB_PATH: path.join(tempDir, 'local.db') },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('syncs into a new remote database and prints a report', async () => {
+    const db = createDatabase(false, path.join(tempDir, 'local.db'));
+    const workflow = db.createWorkflow({ name: 'CLI' });
+    db.close();
+    const remotePath = path.join(tempDir, 'cloud', 'remote.db');
+    fs.mkdirSync(path.dirname(remotePath));
+
+    expect(await runCli(['sync', remotePath, '--dry-run'], io)).toBe(0);
+    expect(output[0]).toBe(
+      'Would sync: 0 change(s) to local, 1 to remote, 0 conflict(s) (first sync)'
+    );
+
+    output = [];
+    expect(await runCli(['sync', remotePath, '--json'], io)).toBe(0);
+    const report = JSON.parse(output.join('\n'));
+    expect(report.changes).toEqual([
+      expect.objectContaining({ entity: 'workflow', id: workflow.id, target: 'remote' }),
+    ]);
+
+    const remote = new ScratchpadDatabase({ filename: remotePath });
+    try {
+      expect(remote.getWorkflowById(workflow.id)!.name).toBe('CLI');
+    } finally {
+      remote.close();
+    }
+  });
+
+  it('is recognized as a server subcommand', async () => {
+    expect(isCliCommand(['sync', 'remote.db'])).toBe(true);
+    expect(isCliCommand(['--http'])).toBe(false);
+    expect(isCliCommand([])).toBe(false);
+    expect(await runCli(['sync'], io)).toBe(1);
+    expect(output.at(-1)).toContain('sync requires the path of the remote database');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Delete / Rename / Update Workflow / Trash Tests
+ *
+ * Tests soft delete into trash, permanent delete, restore with original IDs,
+ * rename and workflow metadata updates keeping the FTS index and counts in sync.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+  listScratchpadRevisionsTool,
+  deleteScratchpadTool,
+  renameScratchpadTool,
+  deleteWorkflowTool,
+  updateWorkflowTool,
+  listTrashTool,
+  restoreFromTrashTool,
+  emptyTrashTool,
+} from '../src/tools/index.js';
+
+describe('Delete, Rename and Trash', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({
+      name: 'Trash Workflow',
+      description: 'Original description',
+      project_scope: 'proj-a',
+    });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Draft Notes',
+      content: 'Initial content about caching',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('delete-scratchpad', () => {
+    it('should move the scratchpad to trash and decrement the workflow count', async () => {
+      const result = await deleteScratchpadTool(db)({ id: scratchpadId });
+
+      expect(result.trash_id).toBeTruthy();
+      expect(db.getScratchpadById(scratchpadId)).toBeNull();
+      expect(db.getWorkflowById(workflowId)?.scratchpad_count).toBe(0);
+      expect(db.searchScratchpads({ query: 'caching' })).toHaveLength(0);
+
+      const trash = await listTrashTool(db)({});
+      expect(trash.count).toBe(1);
+      expect(trash.entries[0]).toMatchObject({
+        trash_id: result.trash_id,
+        item_type: 'scratchpad',
+        item_id: scratchpadId,
+        title: 'Draft Notes',
+      });
+    });
+
+    it('should skip the trash when permanent=true', async () => {
+      const result = await deleteScratchpadTool(db)({ id: scratchpadId, permanent: true });
+
+      expect(result.trash_id).toBeNull();
+      expect((await listTrashTool(db)({})).count).toBe(0);
+    });
+
+    it('should refuse to delete from an inactive workflow', async () => {
+      db.setWorkflowActiveStatus(workflowId, false);
+      await expect(deleteScratchpadTool(db)({ id: scratchpadId })).rejects.toThrow(
+        'workflow is not active'
+      );
+    });
+
+    it('should restore the scratchpad with its original ID and revision history', async () => {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'More details' });
+      const original = db.getScratchpadById(scratchpadId)!;
+      const { trash_id } = await deleteScratchpadTool(db)({ id: scratchpadId });
+
+      const restored = await restoreFromTrashTool(db)({ trash_id: trash_id! });
+
+      expect(restored.item_type).toBe('scratchpad');
+      expect(db.getScratchpadById(scratchpadId)).toEqual(original);
+      expect(db.getWorkflowById(workflowId)?.scratchpad_count).toBe(1);
+      expect(db.searchScratchpads({ query: 'caching' })).toHaveLength(1);
+
+      const revisions = await listScratchpadRevisionsTool(db)({ id: scratchpadId });
+      expect(revisions.total_revisions).toBe(2);
+      expect((await listTrashTool(db)({})).count).toBe(0);
+    });
+  });
+
+  describe('rename-scratchpad', () => {
+    it('should rename and update the search index', async () => {
+      const result = await renameScratchpadTool(db)({ id: scratchpadId, title: 'Final Design' });
+
+      expect(result.previous_title).toBe('Draft Notes');
+      expect(result.scratchpad.title).toBe('Final Design');
+      expect(db.searchScratchpads({ query: 'Final' })).toHaveLength(1);
+      expect(db.searchScratchpads({ query: 'Draft' })).toHaveLength(0);
+    });
+
+    it('should reject empty titles', async () => {
+      await expect(renameScratchpadTool(db)({ id: scratchpadId, title: '  ' })).rejects.toThrow(
+        'title cannot be empty'
+      );
+    });
+  });
+
+  describe('update-workflow', () => {
+    it('should update only the provided fields and clear with null', async () => {
+      const result = await updateWorkflowTool(db)({
+        workflow_id: workflowId,
+        name: 'Renamed Workflow',
+        project_scope: null,
+      });
+
+      expect(result.updated_fields).toEqual(['name', 'project_scope']);
+      expect(result.workflow.name).toBe('Renamed Workflow');
+      expect(result.workflow.description).toBe('Original description');
+      expect(result.workflow.project_scope).toBeNull();
+    });
+
+    it('should require at least one field', async () => {
+      await expect(updateWorkflowTool(db)({ workflow_id: workflowId })).rejects.toThrow(
+        'At least one of name, description or project_scope'
+      );
+    });
+  });
+
+  describe('delete-workflow', () => {
+    it('should delete the workflow with all scratchpads and restore them together', async () => {
+      await createScratchpadTool(db)({
+        workflow_id: workflowId,
+        title: 'Second',
+        content: 'Second pad',
+      });
+
+      const deleted = await deleteWorkflowTool(db)({ workflow_id: workflowId });
+      expect(deleted.scratchpads_deleted).toBe(2);
+      expect(db.getWorkflowById(workflowId)).toBeNull();
+      expect(db.getScratchpadById(scratchpadId)).toBeNull();
+
+      const restored = await restoreFromTrashTool(db)({ trash_id: deleted.trash_id! });
+      expect(restored.scratchpads_restored).toBe(2);
+
+      const workflow = db.getWorkflowById(workflowId);
+      expect(workflow?.name).toBe('Trash Workflow');
+      expect(workflow?.scratchpad_count).toBe(2);
+      expect(db.getScratchpadById(scratchpadId)?.title).toBe('Draft Notes');
+    });
+
+    it('should not restore a scratchpad whose workflow is gone', async () => {
+      const { trash_id } = await deleteScratchpadTool(db)({ id: scratchpadId });
+      await deleteWorkflowTool(db)({ workflow_id: workflowId, permanent: true });
+
+      await expect(restoreFromTrashTool(db)({ trash_id: trash_id! })).rejects.toThrow(
+        'no longer exists'
+      );
+    });
+  });
+
+  describe('empty-trash', () => {
+    it('should purge everything or only old entries', async () => {
+      await deleteScratchpadTool(db)({ id: scratchpadId });
+
+      expect((await emptyTrashTool(db)({ older_than_days: 1 })).purged).toBe(0);
+      expect((await emptyTrashTool(db)({})).purged).toBe(1);
+      expect((await listTrashTool(db)({})).count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Extraction Token Budget Tests
+ *
+ * Tests token counting, block-aligned chunking and map-reduce summarisation
+ * in extract-workflow-info when a workflow exceeds the context budget.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { extractWorkflowInfoTool } from '../src/tools/extraction.js';
+import type { LLMProvider, LLMCompletionRequest } from '../src/llm/index.js';
+import { TokenCounter } from '../src/utils/TokenCounter.js';
+
+/**
+ * Provider that records every request and answers map / reduce steps differently
+ */
+const createRecordingProvider = () => {
+  const requests: LLMCompletionRequest[] = [];
+  const provider: LLMProvider = {
+    name: 'stub',
+    label: 'Recording',
+    defaultModel: 'recording-model',
+    complete: async (request) => {
+      requests.push(request);
+      if (request.input.includes('<partial_findings>')) {
+        const final = request.input.includes('<output_requirements>');
+        return { text: final ? 'FINAL ANSWER' : `merged notes ${requests.length}`, model: request.model };
+      }
+      const part = /part="(\d+) of (\d+)"/.exec(request.input);
+      return { text: part ? `notes for part ${part[1]}` : 'single answer', model: request.model };
+    },
+  };
+  return { provider, requests };
+};
+
+describe('TokenCounter', () => {
+  it('should count tokens with tiktoken', () => {
+    expect(TokenCounter.count('')).toBe(0);
+    expect(TokenCounter.count('hello world')).toBe(2);
+    // 特殊 token 字串視為一般文字，不應拋出錯誤
+    expect(TokenCounter.count('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('should split text into pieces within the token limit', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `line ${i} with some words`).join('\n');
+    const pieces = TokenCounter.split(text, 100);
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join('\n')).toBe(text);
+    for (const piece of pieces) {
+      expect(TokenCounter.count(piece)).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should split a single oversized line by characters', () => {
+    const line = 'word '.repeat(500);
+    const pieces = TokenCounter.split(line, 50);
+
+    expect(pieces.join('')).toBe(line);
+    for (const piece of pieces) {
+      expect(TokenCounter.count(piece)).toBeLessThanOrEqual(50);
+    }
+  });
+});
+
+describe('extractWorkflowInfoTool token budget', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+
+  beforeEach(() => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    workflowId = db.createWorkflow({ name: 'large-workflow' }).id;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete process.env['SCRATCHPAD_EXTRACTION_MAX_TOKENS'];
+  });
+
+  const addLargeScratchpad = (title: string, blocks: number) => {
+    const scratchpad = db.createScratchpad({
+      workflow_id: workflowId,
+      title,
+      content: `# ${title}\n\n${'Initial analysis of the module. '.repeat(40)}`,
+    });
+    for (let i = 0; i < blocks; i++) {
+      db.appendToScratchpad({
+        id: scratchpad.id,
+        content: `## ${title} entry ${i}\n\n${`Finding ${i} about the module behaviour. `.repeat(40)}`,
+      });
+    }
+  };
+
+  it('should send a single request when the workflow fits the budget', async () => {
+    db.createScratchpad({ workflow_id: workflowId, title: 'small', content: 'Short note' });
+    const { provider, requests } = createRecordingProvider();
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'Summarize',
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(result.chunks_processed).toBe(1);
+    expect(result.extraction_result).toBe('single answer');
+    expect(result.tokens_used).toBe(
+      TokenCounter.count(requests[0]!.instructions) +
+        TokenCounter.count(requests[0]!.input) +
+        TokenCounter.count('single answer')
+    );
+  });
+
+  it('should chunk by blocks and run map-reduce when over budget', async () => {
+    addLargeScratchpad('alpha', 12);
+    addLargeScratchpad('beta', 12);
+    const { provider, requests } = createRecordingProvider();
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List all findings',
+      max_context_tokens: 3000,
+    });
+
+    expect(result.chunks_processed).toBeGreaterThan(1);
+    expect(result.extraction_result).toBe('FINAL ANSWER');
+    expect(result.message).toContain(`map-reduce over ${result.chunks_processed} chunks`);
+
+    const mapRequests = requests.filter((request) => request.input.includes('<workflow_context part='));
+    expect(mapRequests).toHaveLength(result.chunks_processed);
+    for (const request of requests) {
+      expect(TokenCounter.count(request.instructions) + TokenCounter.count(request.input)).toBeLessThanOrEqual(3000);
+    }
+
+    // 每個 block 都完整地出現在某個 chunk 中（block 不被切開）
+    const mapped = mapRequests.map((request) => request.input).join('\n');
+    expect(mapped).toContain('## alpha entry 11');
+    expect(mapped).toContain('## beta entry 0');
+
+    const finalRequest = requests[requests.length - 1]!;
+    expect(finalRequest.input).toContain('notes for part 1');
+    expect(finalRequest.input).toContain(`notes for part ${result.chunks_processed}`);
+
+    expect(result.tokens_used).toBeGreaterThan(TokenCounter.count(mapped));
+  });
+
+  it('should merge partial findings in rounds when they exceed the budget', async () => {
+    addLargeScratchpad('alpha', 20);
+    const { provider, requests } = createRecordingProvider();
+    const verbose: LLMProvider = {
+      ...provider,
+      complete: async (request) => {
+        const response = await provider.complete(request);
+        // map 步驟回傳冗長筆記，迫使 reduce 分批合併
+        return response.text.startsWith('notes for part')
+          ? { ...response, text: `${response.text}: ${'detail '.repeat(700)}` }
+          : response;
+      },
+    };
+
+    const result = await extractWorkflowInfoTool(db, verbose)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List all findings',
+      max_context_tokens: 3000,
+    });
+
+    const intermediate = requests.filter(
+      (request) =>
+        request.input.includes('<partial_findings>') && !request.input.includes('<output_requirements>')
+    );
+    expect(intermediate.length).toBeGreaterThan(0);
+    expect(result.extraction_result).toBe('FINAL ANSWER');
+    expect(requests[requests.length - 1]!.input).toContain('merged notes');
+  });
+
+  it('should read the budget from SCRATCHPAD_EXTRACTION_MAX_TOKENS', async () => {
+    addLargeScratchpad('alpha', 12);
+    process.env['SCRATCHPAD_EXTRACTION_MAX_TOKENS'] = '3000';
+    const { provider } = createRecordingProvider();
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List all findings',
+    });
+
+    expect(result.chunks_processed).toBeGreaterThan(1);
+  });
+
+  it('should reject budgets below the minimum', async () => {
+    const { provider } = createRecordingProvider();
+    await expect(
+      extractWorkflowInfoTool(db, provider)({
+        workflow_id: workflowId,
+        extraction_prompt: 'x',
+        max_context_tokens: 100,
+      })
+    ).rejects.toThrow('max_context_tokens must be an integer >= 2000');
+  });
+});
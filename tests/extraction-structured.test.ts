@@ -0,0 +1,168 @@
+/**
+ * Structured Extraction Tests
+ *
+ * Tests output_schema JSON extraction: schema instructions, JSON parsing,
+ * validation, retries with feedback and error reporting.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { extractWorkflowInfoTool } from '../src/tools/extraction.js';
+import type { LLMProvider, LLMCompletionRequest } from '../src/llm/index.js';
+import { StructuredOutput } from '../src/utils/StructuredOutput.js';
+
+const TODO_SCHEMA = {
+  type: 'object',
+  required: ['todos'],
+  properties: {
+    todos: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['task', 'done'],
+        properties: { task: { type: 'string' }, done: { type: 'boolean' } },
+      },
+    },
+  },
+};
+
+/**
+ * Provider that replies with a scripted sequence of responses
+ */
+const createScriptedProvider = (responses: string[]) => {
+  const requests: LLMCompletionRequest[] = [];
+  const provider: LLMProvider = {
+    name: 'stub',
+    label: 'Scripted',
+    defaultModel: 'scripted',
+    complete: async (request) => {
+      requests.push(request);
+      return { text: responses[Math.min(requests.length - 1, responses.length - 1)]!, model: request.model };
+    },
+  };
+  return { provider, requests };
+};
+
+describe('StructuredOutput', () => {
+  it('should parse plain, fenced and surrounded JSON', () => {
+    expect(StructuredOutput.parseJson('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+    expect(StructuredOutput.parseJson('```json\n{"a":2}\n```')).toEqual({ ok: true, value: { a: 2 } });
+    expect(StructuredOutput.parseJson('Here you go: [1, 2] hope it helps')).toEqual({
+      ok: true,
+      value: [1, 2],
+    });
+    expect(StructuredOutput.parseJson('no json here').ok).toBe(false);
+  });
+
+  it('should report schema violations with paths', () => {
+    const validate = StructuredOutput.compile(TODO_SCHEMA);
+    const result = validate('{"todos":[{"task":"x","done":"no"}]}');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['.todos[0].done should be boolean']);
+  });
+
+  it('should reject invalid schemas', () => {
+    expect(() => StructuredOutput.compile({ type: 'not-a-type' })).toThrow('Invalid output_schema');
+  });
+});
+
+describe('extractWorkflowInfoTool output_schema', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+
+  beforeEach(() => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    workflowId = db.createWorkflow({ name: 'todo-workflow' }).id;
+    db.createScratchpad({
+      workflow_id: workflowId,
+      title: 'tasks',
+      content: '- [x] Write schema\n- [ ] Add migration',
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should return validated JSON as extraction_json', async () => {
+    const json = '{"todos":[{"task":"Write schema","done":true},{"task":"Add migration","done":false}]}';
+    const { provider, requests } = createScriptedProvider([json]);
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List the TODOs',
+      output_schema: TODO_SCHEMA,
+    });
+
+    expect(result.extraction_json).toEqual({
+      todos: [
+        { task: 'Write schema', done: true },
+        { task: 'Add migration', done: false },
+      ],
+    });
+    expect(result.extraction_result).toBe(json);
+    expect(result.validation_attempts).toBe(1);
+    expect(requests[0]!.jsonSchema).toEqual(TODO_SCHEMA);
+    expect(requests[0]!.input).toContain('<output_format>');
+    expect(requests[0]!.input).toContain('"required": [\n    "todos"\n  ]');
+  });
+
+  it('should retry with validation feedback', async () => {
+    const { provider, requests } = createScriptedProvider([
+      'Sure! The TODOs are: Add migration',
+      '{"todos":[{"task":"Add migration"}]}',
+      '{"todos":[{"task":"Add migration","done":false}]}',
+    ]);
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List the TODOs',
+      output_schema: TODO_SCHEMA,
+    });
+
+    expect(result.validation_attempts).toBe(3);
+    expect(result.extraction_json).toEqual({ todos: [{ task: 'Add migration', done: false }] });
+    expect(requests[1]!.input).toContain('Response is not valid JSON');
+    expect(requests[2]!.input).toContain(".todos[0] should have required property 'done'");
+    expect(result.message).toContain('validated against output_schema in 3 attempt(s)');
+  });
+
+  it('should fail after exhausting retries', async () => {
+    const { provider, requests } = createScriptedProvider(['{"todos":"none"}']);
+
+    await expect(
+      extractWorkflowInfoTool(db, provider)({
+        workflow_id: workflowId,
+        extraction_prompt: 'List the TODOs',
+        output_schema: TODO_SCHEMA,
+        max_retries: 1,
+      })
+    ).rejects.toThrow('Model output did not match output_schema after 2 attempt(s): .todos should be array');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should reject invalid schemas before calling the model', async () => {
+    const { provider, requests } = createScriptedProvider(['{}']);
+
+    await expect(
+      extractWorkflowInfoTool(db, provider)({
+        workflow_id: workflowId,
+        extraction_prompt: 'List the TODOs',
+        output_schema: { type: 'nope' },
+      })
+    ).rejects.toThrow('Invalid output_schema');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should not include extraction_json without output_schema', async () => {
+    const { provider } = createScriptedProvider(['free text']);
+
+    const result = await extractWorkflowInfoTool(db, provider)({
+      workflow_id: workflowId,
+      extraction_prompt: 'List the TODOs',
+    });
+
+    expect(result).not.toHaveProperty('extraction_json');
+    expect(result.extraction_result).toBe('free text');
+  });
+});
@@ -419,7 +419,10 @@ Phase 3: Export functionality
         workflow_id: workflow.id,
         extraction_result: mockResponse,
         model_used: 'gpt-5-nano',
+        provider: 'openai',
         scratchpads_processed: 2,
+        tokens_used: expect.any(Number),
+        chunks_processed: 1,
         message: expect.stringContaining('Successfully extracted information from workflow'),
       });
     });
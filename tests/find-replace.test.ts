@@ -0,0 +1,206 @@
+/**
+ * Find & Replace Tests
+ *
+ * Tests the find_replace mode of update-scratchpad: literal and regex patterns, capture groups,
+ * occurrence limits, line ranges and dry runs, plus the shared ContentPattern helper.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { ContentPattern } from '../src/utils/ContentPattern.js';
+import {
+  createScratchpadTool,
+  createWorkflowTool,
+  enhancedUpdateScratchpadTool,
+  listScratchpadRevisionsTool,
+  LineEditor,
+} from '../src/tools/index.js';
+import { validateEnhancedUpdateScratchpadArgs } from '../src/server-helpers.js';
+
+const NOTES = [
+  'status: todo (owner: alice)',
+  'status: todo (owner: bob)',
+  'price: $5 + $5',
+  'status: done (owner: carol)',
+].join('\n');
+
+const findReplace = (
+  args: Partial<Parameters<typeof LineEditor.processEdit>[1]> & { content: string }
+) => LineEditor.processEdit(NOTES, { id: 'x', mode: 'find_replace', ...args });
+
+describe('ContentPattern', () => {
+  it('expands capture groups like String.prototype.replace', () => {
+    const match = /(?<key>\w+): (\w+)/.exec('status: todo')!;
+
+    expect(ContentPattern.expandReplacement('$2 <- $1 / $<key> / [$&] / $$1', match)).toBe(
+      'todo <- status / status / [status: todo] / $1'
+    );
+    expect(ContentPattern.expandReplacement('$3 $10', match)).toBe('$3 status0');
+  });
+
+  it('rejects missing, conflicting and invalid patterns', () => {
+    expect(() => ContentPattern.compile({})).toThrow('Either query or queryRegex must be provided');
+    expect(() => ContentPattern.compile({ query: 'a', queryRegex: 'a' })).toThrow(
+      'Cannot specify both query and queryRegex'
+    );
+    expect(() => ContentPattern.compile({ queryRegex: '(' })).toThrow('Invalid regular expression');
+    expect(ContentPattern.compile({ query: 'a.b' }).regex.test('axb')).toBe(false);
+  });
+
+  it('steps over zero-width matches', () => {
+    expect(ContentPattern.matchLine(/x*/g, 'ab').map((match) => match.index)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('LineEditor find_replace', () => {
+  it('replaces literal text without expanding $ patterns', () => {
+    const { newContent, operationDetails } = findReplace({ query: '$5', content: '$$6' });
+
+    expect(newContent.split('\n')[2]).toBe('price: $$6 + $$6');
+    expect(operationDetails).toMatchObject({
+      replacements: 2,
+      changed_lines: [3],
+      lines_affected: 1,
+    });
+  });
+
+  it('replaces regex matches with capture groups', () => {
+    const { newContent } = findReplace({
+      queryRegex: '^status: (\\w+) \\(owner: (?<owner>\\w+)\\)$',
+      content: '[$1] @$<owner>',
+    });
+
+    expect(newContent).toBe(
+      ['[todo] @alice', '[todo] @bob', 'price: $5 + $5', '[done] @carol'].join('\n')
+    );
+  });
+
+  it('honours the occurrence limit and the line range', () => {
+    const limited = findReplace({ query: 'todo', content: 'doing', max_replacements: 1 });
+    expect(limited.newContent.split('\n').slice(0, 2)).toEqual([
+      'status: doing (owner: alice)',
+      'status: todo (owner: bob)',
+    ]);
+    expect(limited.operationDetails.replacements).toBe(1);
+
+    const ranged = findReplace({ query: 'status', content: 'state', start_line: 2, end_line: 3 });
+    expect(ranged.operationDetails.changed_lines).toEqual([2]);
+    expect(ranged.newContent.split('\n')[0]).toBe('status: todo (owner: alice)');
+  });
+
+  it('rejects an empty literal query', () => {
+    expect(() => findReplace({ query: '', content: 'x' })).toThrow('query must not be empty');
+  });
+});
+
+describe('update-scratchpad find_replace', () => {
+  let db: ScratchpadDatabase;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Tracker' });
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflow.workflow.id,
+      title: 'Status',
+      content: NOTES,
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('previews a dry run as a unified diff without writing', async () => {
+    const result = await enhancedUpdateScratchpadTool(db)({
+      id: scratchpadId,
+      mode: 'find_replace',
+      queryRegex: 'todo',
+      content: 'done',
+      dry_run: true,
+    });
+
+    expect(result.message).toContain('Dry run: would replace 2 occurrence(s) of pattern /todo/');
+    expect(result.operation_details.dry_run).toBe(true);
+    expect(result.operation_details.diff).toContain('-status: todo (owner: alice)');
+    expect(result.operation_details.diff).toContain('+status: done (owner: bob)');
+    expect(result.scratchpad.version).toBe(1);
+    expect(db.getScratchpadById(scratchpadId)!.content).toBe(NOTES);
+  });
+
+  it('writes the replacement as a revision', async () => {
+    const result = await enhancedUpdateScratchpadTool(db)({
+      id: scratchpadId,
+      mode: 'find_replace',
+      query: 'owner: ',
+      content: '@',
+      expected_version: 1,
+    });
+
+    expect(result.message).toContain('Replaced 3 occurrence(s) on 3 line(s)');
+    expect(result.scratchpad.version).toBe(2);
+    expect(db.getScratchpadById(scratchpadId)!.content.split('\n')[0]).toBe(
+      'status: todo (@alice)'
+    );
+
+    const revisions = await listScratchpadRevisionsTool(db)({ id: scratchpadId });
+    expect(revisions.revisions[0]!.operation).toBe('update:find_replace');
+  });
+
+  it('fails without writing when nothing matches', async () => {
+    await expect(
+      enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'find_replace',
+        query: 'blocked',
+        content: 'x',
+      })
+    ).rejects.toThrow('Failed to update scratchpad: No matches for "blocked" - nothing replaced');
+    expect(db.getScratchpadById(scratchpadId)!.version).toBe(1);
+  });
+
+  it('validates find_replace arguments', () => {
+    expect(
+      validateEnhancedUpdateScratchpadArgs({
+        id: 'a',
+        mode: 'find_replace',
+        content: 'b',
+        queryRegex: '(a)',
+        max_replacements: 2,
+        start_line: 1,
+        end_line: 4,
+        dry_run: true,
+      })
+    ).toEqual({
+      id: 'a',
+      mode: 'find_replace',
+      content: 'b',
+      queryRegex: '(a)',
+      max_replacements: 2,
+      start_line: 1,
+      end_line: 4,
+      dry_run: true,
+    });
+
+    const invalid = (extra: Record<string, unknown>) => () =>
+      validateEnhancedUpdateScratchpadArgs({
+        id: 'a',
+        mode: 'find_replace',
+        content: 'b',
+        ...extra,
+      });
+    expect(invalid({})).toThrow('Either query or queryRegex must be provided');
+    expect(invalid({ query: 'a', queryRegex: 'a' })).toThrow('Cannot specify both');
+    expect(invalid({ queryRegex: '[' })).toThrow('Invalid regular expression');
+    expect(invalid({ query: '' })).toThrow('query must be a non-empty string');
+    expect(invalid({ query: 'a', max_replacements: 0 })).toThrow(
+      'max_replacements must be a positive integer'
+    );
+    expect(invalid({ query: 'a', start_line: 3, end_line: 2 })).toThrow(
+      'start_line must be <= end_line'
+    );
+    expect(invalid({ query: 'a', section_marker: '## A' })).toThrow(
+      'unexpected parameters: section_marker'
+    );
+  });
+});
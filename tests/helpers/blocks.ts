@@ -0,0 +1,17 @@
+/**
+ * Shared block marker helpers for tests
+ */
+
+/**
+ * append 產生的 block 標記：8 碼 block ID、可選的 author / kind / tags，最後是 UTC 秒級時間戳
+ */
+export const BLOCK_MARKER_PATTERN =
+  /<!--- block start id=[0-9a-f]{8}(?: [^\n]*?)? ts=\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z --->/;
+
+/**
+ * Replace block markers with a bare `<!--- block start --->` so appended content can be compared exactly
+ *
+ * 只還原符合 BLOCK_MARKER_PATTERN 的標記；格式不符的標記保留原樣，讓內容比對失敗
+ */
+export const stripBlockIds = (content: string): string =>
+  content.replace(new RegExp(BLOCK_MARKER_PATTERN.source, 'g'), '<!--- block start --->');
@@ -0,0 +1,22 @@
+/**
+ * Shared database fixtures for tests
+ */
+import { ScratchpadDatabase } from '../../src/database/index.js';
+
+/**
+ * Open a test database, optionally with the FTS5 tables
+ *
+ * schema 只在非 test 環境建立 FTS5 表，建立時暫時切換 NODE_ENV
+ */
+export const createDatabase = (withFTS5 = false, filename = ':memory:'): ScratchpadDatabase => {
+  if (!withFTS5) {
+    return new ScratchpadDatabase({ filename });
+  }
+  const originalEnv = process.env['NODE_ENV'];
+  process.env['NODE_ENV'] = 'development';
+  try {
+    return new ScratchpadDatabase({ filename });
+  } finally {
+    process.env['NODE_ENV'] = originalEnv;
+  }
+};
@@ -0,0 +1,342 @@
+/**
+ * Streamable HTTP Transport Tests
+ *
+ * Tests transport config resolution, per-session McpServer instances sharing
+ * one database, session validation and graceful shutdown.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { request } from 'node:http';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { createWorkflowTool, listWorkflowsTool } from '../src/tools/index.js';
+import { createToolResponse } from '../src/server-helpers.js';
+import {
+  resolveTransportConfig,
+  startHttpTransport,
+  type HttpTransportHandle,
+} from '../src/transports/http.js';
+
+describe('resolveTransportConfig', () => {
+  it('should default to stdio', () => {
+    expect(resolveTransportConfig([], {})).toEqual({
+      mode: 'stdio',
+      host: '127.0.0.1',
+      port: 3100,
+      path: '/mcp',
+    });
+  });
+
+  it('should read environment variables', () => {
+    const config = resolveTransportConfig([], {
+      SCRATCHPAD_TRANSPORT: 'http',
+      SCRATCHPAD_HTTP_PORT: '8080',
+      SCRATCHPAD_HTTP_HOST: '0.0.0.0',
+      SCRATCHPAD_HTTP_PATH: 'rpc',
+    });
+    expect(config).toEqual({ mode: 'http', host: '0.0.0.0', port: 8080, path: '/rpc' });
+  });
+
+  it('should let CLI flags override environment variables', () => {
+    const config = resolveTransportConfig(['--http', '--port=9000', '--host', 'localhost'], {
+      SCRATCHPAD_TRANSPORT: 'stdio',
+      SCRATCHPAD_HTTP_PORT: '8080',
+    });
+    expect(config).toMatchObject({ mode: 'http', host: 'localhost', port: 9000 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => resolveTransportConfig(['--transport', 'ws'], {})).toThrow('Invalid transport');
+    expect(() => resolveTransportConfig([], { SCRATCHPAD_HTTP_PORT: 'abc' })).toThrow(
+      'Invalid HTTP port'
+    );
+  });
+});
+
+describe('Streamable HTTP transport', () => {
+  let db: ScratchpadDatabase;
+  let handle: HttpTransportHandle;
+  let serversCreated: number;
+  const clients: Client[] = [];
+
+  const connectClient = async (): Promise<Client> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(handle.url)));
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    serversCreated = 0;
+
+    handle = await startHttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        serversCreated++;
+        const server = new McpServer({ name: 'scratchpad-mcp-v2-test', version: '1.0.0' });
+        server.registerTool(
+          'create-workflow',
+          { inputSchema: { name: z.string() } },
+          async ({ name }) => createToolResponse(await createWorkflowTool(db)({ name }))
+        );
+        server.registerTool('list-workflows', { inputSchema: {} }, async () =>
+          createToolResponse(await listWorkflowsTool(db)({}))
+        );
+        return server;
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+    await handle.close();
+    db.close();
+  });
+
+  it('should create one server per session sharing the same database', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(serversCreated).toBe(2);
+    expect(handle.sessionCount()).toBe(2);
+
+    await first.callTool({ name: 'create-workflow', arguments: { name: 'Shared' } });
+    const result = await second.callTool({ name: 'list-workflows', arguments: {} });
+
+    const content = result.content as Array<{ type: string; text: string }>;
+    const parsed = JSON.parse(content[0]!.text) as { count: number };
+    expect(parsed.count).toBe(1);
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+    expect(response.status).toBe(400);
+
+    const unknown = await fetch(handle.url, {
+      method: 'GET',
+      headers: { 'mcp-session-id': 'does-not-exist' },
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should expose a health endpoint', async () => {
+    await connectClient();
+    const response = await fetch(new URL('/health', handle.url));
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 1 });
+  });
+
+  it('should close all sessions on shutdown', async () => {
+    await connectClient();
+    await handle.close();
+
+    expect(handle.sessionCount()).toBe(0);
+    await expect(fetch(handle.url)).rejects.toThrow();
+  });
+});
+
+describe('Streamable HTTP transport session cleanup', () => {
+  const initializeBody = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'raw-client', version: '1.0.0' },
+    },
+  });
+
+  const postInitialize = (url: string, headers: Record<string, string> = {}): Promise<Response> =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: initializeBody,
+    });
+
+  const countingServer = (counter: { closed: number }) => (): McpServer => {
+    const server = new McpServer({ name: 'counting', version: '1.0.0' });
+    const close = server.close.bind(server);
+    server.close = async () => {
+      counter.closed++;
+      await close();
+    };
+    return server;
+  };
+
+  it('should close idle sessions after the idle timeout', async () => {
+    const counter = { closed: 0 };
+    const handle = await startHttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: countingServer(counter),
+      sessionIdleTimeoutMs: 50,
+    });
+
+    try {
+      const response = await postInitialize(handle.url);
+      expect(response.status).toBe(200);
+      expect(handle.sessionCount()).toBe(1);
+
+      await vi.waitFor(() => expect(handle.sessionCount()).toBe(0), { timeout: 2000 });
+      expect(counter.closed).toBe(1);
+
+      const stale = await fetch(handle.url, {
+        method: 'GET',
+        headers: { 'mcp-session-id': response.headers.get('mcp-session-id')! },
+      });
+      expect(stale.status).toBe(404);
+    } finally {
+      await handle.close();
+    }
+  });
+
+  it('should close the least recently used session when the cap is reached', async () => {
+    const counter = { closed: 0 };
+    const handle = await startHttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: countingServer(counter),
+      maxSessions: 2,
+    });
+
+    try {
+      const first = (await postInitialize(handle.url)).headers.get('mcp-session-id')!;
+      const second = (await postInitialize(handle.url)).headers.get('mcp-session-id')!;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      // 使用第一個 session，讓第二個成為最久未使用
+      const ping = await fetch(handle.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'mcp-session-id': first,
+          'mcp-protocol-version': '2025-03-26',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+      });
+      expect(ping.status).toBe(200);
+      await ping.text();
+
+      const third = await postInitialize(handle.url);
+      expect(third.status).toBe(200);
+      expect(handle.sessionCount()).toBe(2);
+      expect(counter.closed).toBe(1);
+
+      const evicted = await fetch(handle.url, {
+        method: 'GET',
+        headers: { 'mcp-session-id': second },
+      });
+      expect(evicted.status).toBe(404);
+    } finally {
+      await handle.close();
+    }
+  });
+
+  it('should close the server when session setup fails', async () => {
+    let closed = 0;
+    const handle = await startHttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        const server = new McpServer({ name: 'failing', version: '1.0.0' });
+        server.connect = () => Promise.reject(new Error('connect failed'));
+        const close = server.close.bind(server);
+        server.close = async () => {
+          closed++;
+          await close();
+        };
+        return server;
+      },
+    });
+
+    try {
+      const response = await postInitialize(handle.url);
+      expect(response.status).toBe(500);
+      expect(handle.sessionCount()).toBe(0);
+      expect(closed).toBe(1);
+    } finally {
+      await handle.close();
+    }
+  });
+});
+
+describe('Streamable HTTP transport DNS rebinding protection', () => {
+  let handle: HttpTransportHandle;
+  let sessionsCreated: number;
+
+  beforeEach(async () => {
+    sessionsCreated = 0;
+    handle = await startHttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        sessionsCreated++;
+        return new McpServer({ name: 'guarded', version: '1.0.0' });
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  const postInitialize = (headers: Record<string, string>): Promise<number> =>
+    new Promise((resolve, reject) => {
+      const req = request(
+        handle.url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }
+      );
+      req.on('error', reject);
+      req.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-03-26',
+            capabilities: {},
+            clientInfo: { name: 'raw-client', version: '1.0.0' },
+          },
+        })
+      );
+    });
+
+  it('should reject a foreign Host header', async () => {
+    expect(await postInitialize({ Host: 'attacker.example:80' })).toBe(403);
+    expect(sessionsCreated).toBe(0);
+  });
+
+  it('should reject a foreign Origin but allow a missing or local one', async () => {
+    const port = new URL(handle.url).port;
+
+    expect(await postInitialize({ Origin: 'http://attacker.example' })).toBe(403);
+    expect(sessionsCreated).toBe(0);
+
+    expect(await postInitialize({})).toBe(200);
+    expect(await postInitialize({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+    expect(handle.sessionCount()).toBe(2);
+  });
+});
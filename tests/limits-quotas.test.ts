@@ -0,0 +1,355 @@
+/**
+ * Limits & Quotas Tests
+ *
+ * Tests the config layer (config file + environment variables), configurable per-scratchpad and
+ * per-workflow limits, per-project_scope storage quotas, structured QuotaExceededError details
+ * and tool response-size caps.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ScratchpadDatabase,
+  QuotaExceededError,
+  DEFAULT_DATABASE_LIMITS,
+  type DatabaseLimits,
+} from '../src/database/index.js';
+import {
+  ConfigurationError,
+  loadConfigFromEnv,
+  parseByteSize,
+  resolveConfig,
+} from '../src/config/index.js';
+import {
+  appendScratchpadTool,
+  createScratchpadTool,
+  createWorkflowTool,
+  moveScratchpadTool,
+  exportWorkflowTool,
+  importWorkflowTool,
+} from '../src/tools/index.js';
+import { createToolResponse, handleToolError, limitToolResponse } from '../src/server-helpers.js';
+
+const createDatabase = (limits: Partial<DatabaseLimits> = {}): ScratchpadDatabase =>
+  new ScratchpadDatabase({ filename: ':memory:', limits });
+
+const catchError = async (run: () => Promise<unknown> | unknown): Promise<unknown> => {
+  try {
+    await run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+};
+
+describe('config', () => {
+  it('parses byte sizes with units', () => {
+    expect(parseByteSize(2048, 'size')).toBe(2048);
+    expect(parseByteSize('512KB', 'size')).toBe(512 * 1024);
+    expect(parseByteSize('1.5 mb', 'size')).toBe(1.5 * 1024 * 1024);
+    expect(parseByteSize('10b', 'size')).toBe(10);
+    expect(() => parseByteSize('12 parsecs', 'size')).toThrow(ConfigurationError);
+    expect(() => parseByteSize(0, 'size')).toThrow('Invalid size');
+    expect(() => parseByteSize(-5, 'size')).toThrow(ConfigurationError);
+  });
+
+  it('uses the defaults without a config file or environment variables', () => {
+    const config = resolveConfig({});
+    expect(config.limits).toEqual(DEFAULT_DATABASE_LIMITS);
+    expect(config.responses).toEqual({ max_bytes: null, tools: {} });
+  });
+
+  it('reads the config file and lets environment variables override it', () => {
+    const config = resolveConfig(
+      {
+        SCRATCHPAD_MAX_SCRATCHPADS_PER_WORKFLOW: '500',
+        SCRATCHPAD_PROJECT_QUOTA: '10MB',
+      },
+      {
+        limits: {
+          max_scratchpad_size: '2MB',
+          max_scratchpads_per_workflow: 200,
+          project_quotas: { '*': '1MB', research: '50MB' },
+        },
+        responses: { max_size: '1MB', tools: { 'get-scratchpad': '256KB' } },
+      }
+    );
+
+    expect(config.limits).toEqual({
+      max_scratchpad_bytes: 2 * 1024 * 1024,
+      max_scratchpads_per_workflow: 500,
+      project_storage_quotas: { '*': 10 * 1024 * 1024, research: 50 * 1024 * 1024 },
+    });
+    expect(config.responses).toEqual({
+      max_bytes: 1024 * 1024,
+      tools: { 'get-scratchpad': 256 * 1024 },
+    });
+  });
+
+  it('rejects unknown keys and invalid values', () => {
+    expect(() => resolveConfig({}, { limit: {} })).toThrow('Unknown key in config: limit');
+    expect(() => resolveConfig({}, { limits: { max_scratchpads: 10 } })).toThrow(
+      'Unknown key in limits: max_scratchpads'
+    );
+    expect(() => resolveConfig({}, { limits: { max_scratchpads_per_workflow: 2.5 } })).toThrow(
+      'Invalid limits.max_scratchpads_per_workflow'
+    );
+    expect(() => resolveConfig({ SCRATCHPAD_MAX_RESPONSE_SIZE: 'lots' })).toThrow(
+      'Invalid SCRATCHPAD_MAX_RESPONSE_SIZE'
+    );
+  });
+
+  describe('SCRATCHPAD_CONFIG_FILE', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('loads the file named by the environment', () => {
+      const filePath = path.join(tempDir, 'config.json');
+      fs.writeFileSync(filePath, JSON.stringify({ limits: { max_scratchpad_size: '4KB' } }));
+
+      const config = loadConfigFromEnv({ SCRATCHPAD_CONFIG_FILE: filePath });
+      expect(config.limits.max_scratchpad_bytes).toBe(4096);
+    });
+
+    it('reports unreadable and malformed files', () => {
+      const filePath = path.join(tempDir, 'broken.json');
+      fs.writeFileSync(filePath, '{ limits: ');
+
+      expect(() => loadConfigFromEnv({ SCRATCHPAD_CONFIG_FILE: filePath })).toThrow(
+        /Invalid JSON in config file/
+      );
+      expect(() =>
+        loadConfigFromEnv({ SCRATCHPAD_CONFIG_FILE: path.join(tempDir, 'missing.json') })
+      ).toThrow(/Cannot read config file/);
+    });
+  });
+});
+
+describe('database limits', () => {
+  let db: ScratchpadDatabase;
+
+  afterEach(() => {
+    db?.close();
+  });
+
+  it('allows more scratchpads per workflow when configured', async () => {
+    db = createDatabase({ max_scratchpads_per_workflow: 60 });
+    const workflowId = (await createWorkflowTool(db)({ name: 'Research' })).workflow.id;
+
+    for (let i = 0; i < 60; i++) {
+      db.createScratchpad({ workflow_id: workflowId, title: `Note ${i}`, content: `note ${i}` });
+    }
+
+    const error = await catchError(() =>
+      createScratchpadTool(db)({ workflow_id: workflowId, title: 'One more', content: 'x' })
+    );
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).message).toBe(
+      'Too many scratchpads in workflow: 60 (max: 60)'
+    );
+    expect((error as QuotaExceededError).details).toEqual({
+      quota: 'workflow_scratchpads',
+      unit: 'scratchpads',
+      limit: 60,
+      current: 60,
+      attempted: 61,
+      workflow_id: workflowId,
+    });
+  });
+
+  it('exports every scratchpad of a workflow above the listing page size', async () => {
+    db = createDatabase({ max_scratchpads_per_workflow: 150 });
+    const workflowId = (await createWorkflowTool(db)({ name: 'Large' })).workflow.id;
+    for (let i = 0; i < 120; i++) {
+      db.createScratchpad({ workflow_id: workflowId, title: `Note ${i}`, content: `note ${i}` });
+    }
+
+    const exported = await exportWorkflowTool(db)({ workflow_id: workflowId, format: 'json' });
+    expect(exported.archive?.scratchpads).toHaveLength(120);
+
+    const clone = db.cloneWorkflow({ workflow_id: workflowId });
+    expect(clone.scratchpads).toHaveLength(120);
+    expect(clone.scratchpads[0]?.scratchpad.title).toBe('Note 0');
+  });
+
+  it('uses the configured scratchpad size limit and allows shrinking oversized content', async () => {
+    db = createDatabase({ max_scratchpad_bytes: 100 });
+    const workflowId = (await createWorkflowTool(db)({ name: 'Small' })).workflow.id;
+    const scratchpad = db.createScratchpad({
+      workflow_id: workflowId,
+      title: 'Note',
+      content: 'a'.repeat(80),
+    });
+
+    const error = await catchError(() =>
+      appendScratchpadTool(db)({ id: scratchpad.id, content: 'b'.repeat(40) })
+    );
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).details).toMatchObject({
+      quota: 'scratchpad_size',
+      limit: 100,
+      current: 80,
+      scratchpad_id: scratchpad.id,
+    });
+
+    expect(() => db.updateScratchpadContent(scratchpad.id, 'c'.repeat(101))).toThrow(
+      'Scratchpad content too large: 101 bytes (max: 100 bytes)'
+    );
+
+    // 限制調降後，既有的超大內容仍可縮小，但不能再變大
+    (db as any).limits.max_scratchpad_bytes = 50;
+    expect(db.updateScratchpadContent(scratchpad.id, 'c'.repeat(70)).size_bytes).toBe(70);
+    expect(() => db.updateScratchpadContent(scratchpad.id, 'c'.repeat(75))).toThrow(
+      QuotaExceededError
+    );
+  });
+});
+
+describe('project storage quotas', () => {
+  let db: ScratchpadDatabase;
+  let researchId: string;
+  let otherId: string;
+
+  beforeEach(async () => {
+    db = createDatabase({ project_storage_quotas: { research: 100, '*': 1000 } });
+    researchId = (await createWorkflowTool(db)({ name: 'Research', project_scope: 'research' }))
+      .workflow.id;
+    otherId = (await createWorkflowTool(db)({ name: 'Other', project_scope: 'other' })).workflow.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('rejects writes beyond the scope quota with current usage in the error', async () => {
+    db.createScratchpad({ workflow_id: researchId, title: 'A', content: 'a'.repeat(60) });
+    // 另一個 workflow 在同一 scope 也計入用量
+    const secondId = (await createWorkflowTool(db)({ name: 'More', project_scope: 'research' }))
+      .workflow.id;
+    db.createScratchpad({ workflow_id: secondId, title: 'B', content: 'b'.repeat(30) });
+
+    const error = await catchError(() =>
+      createScratchpadTool(db)({ workflow_id: researchId, title: 'C', content: 'c'.repeat(20) })
+    );
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).message).toBe(
+      'Project storage quota exceeded for project scope "research": 110 bytes (max: 100 bytes)'
+    );
+    expect((error as QuotaExceededError).toJSON()).toEqual({
+      error: 'QUOTA_EXCEEDED',
+      message:
+        'Project storage quota exceeded for project scope "research": 110 bytes (max: 100 bytes)',
+      quota: 'project_storage',
+      unit: 'bytes',
+      limit: 100,
+      current: 90,
+      attempted: 110,
+      project_scope: 'research',
+      workflow_id: researchId,
+    });
+
+    expect(db.getProjectStorageUsage('research')).toBe(90);
+    expect(db.getProjectStorageQuota('research')).toBe(100);
+    expect(db.getProjectStorageQuota('other')).toBe(1000);
+  });
+
+  it('checks the target scope when moving scratchpads between projects', async () => {
+    const scratchpad = db.createScratchpad({
+      workflow_id: otherId,
+      title: 'Large',
+      content: 'x'.repeat(150),
+    });
+
+    await expect(
+      moveScratchpadTool(db)({ id: scratchpad.id, workflow_id: researchId })
+    ).rejects.toThrow(QuotaExceededError);
+    expect(db.getScratchpadById(scratchpad.id)?.workflow_id).toBe(otherId);
+  });
+
+  it('rolls back imports that would exceed the quota', async () => {
+    db.createScratchpad({ workflow_id: researchId, title: 'A', content: 'a'.repeat(60) });
+    db.createScratchpad({ workflow_id: otherId, title: 'B', content: 'b'.repeat(50) });
+    const { archive } = await exportWorkflowTool(db)({ workflow_id: otherId, format: 'json' });
+
+    const error = await catchError(() =>
+      importWorkflowTool(db)({
+        archive,
+        regenerate_ids: true,
+        project_scope: 'research',
+      })
+    );
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).details).toMatchObject({
+      quota: 'project_storage',
+      current: 60,
+      attempted: 110,
+    });
+    expect(db.getWorkflows('research')).toHaveLength(1);
+    expect(db.getProjectStorageUsage('research')).toBe(60);
+  });
+
+  it('always allows writes that free space', () => {
+    const scratchpad = db.createScratchpad({
+      workflow_id: researchId,
+      title: 'A',
+      content: 'a'.repeat(90),
+    });
+
+    // 配額調降到目前用量以下
+    (db as any).limits.project_storage_quotas['research'] = 50;
+    expect(db.updateScratchpadContent(scratchpad.id, 'a'.repeat(60)).size_bytes).toBe(60);
+    expect(() => db.updateScratchpadContent(scratchpad.id, 'a'.repeat(61))).toThrow(
+      'Project storage quota exceeded for project scope "research": 61 bytes (max: 50 bytes)'
+    );
+    db.deleteScratchpad(scratchpad.id);
+    expect(db.getProjectStorageUsage('research')).toBe(0);
+  });
+});
+
+describe('response size caps', () => {
+  const limits = { max_bytes: 200, tools: { 'list-workflows': 50 } };
+
+  it('passes responses within the cap through unchanged', () => {
+    const response = createToolResponse({ ok: true });
+    expect(limitToolResponse(response, 'get-scratchpad', limits)).toBe(response);
+    expect(limitToolResponse(response, 'get-scratchpad', { max_bytes: null, tools: {} })).toBe(
+      response
+    );
+  });
+
+  it('replaces oversized responses with a structured quota error', () => {
+    const response = createToolResponse({ content: 'x'.repeat(300) });
+    const limited = limitToolResponse(response, 'get-scratchpad', limits);
+
+    expect(limited.isError).toBe(true);
+    expect(limited.content[0]?.text).toMatch(
+      /^Error in get-scratchpad: Response too large: \d+ bytes \(max: 200 bytes\)/
+    );
+    const details = JSON.parse(limited.content[1]?.text ?? '{}');
+    expect(details).toMatchObject({
+      error: 'QUOTA_EXCEEDED',
+      quota: 'response_size',
+      unit: 'bytes',
+      limit: 200,
+      tool: 'get-scratchpad',
+    });
+    expect(details.current).toBeGreaterThan(200);
+  });
+
+  it('applies per-tool caps before the default and leaves errors alone', () => {
+    const response = createToolResponse({ workflows: ['a', 'b', 'c', 'd', 'e'] });
+    expect(limitToolResponse(response, 'get-workflow', limits)).toBe(response);
+    expect(limitToolResponse(response, 'list-workflows', limits).isError).toBe(true);
+
+    const error = handleToolError(new Error('x'.repeat(500)), 'list-workflows');
+    expect(limitToolResponse(error, 'list-workflows', limits)).toBe(error);
+  });
+});
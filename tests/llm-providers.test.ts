@@ -0,0 +1,234 @@
+/**
+ * LLM Provider Tests
+ *
+ * Tests provider selection from environment variables, per-provider model
+ * defaults, configuration errors and each provider's request mapping.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { extractWorkflowInfoTool } from '../src/tools/extraction.js';
+import {
+  resolveLLMConfig,
+  createLLMProvider,
+  createStubProvider,
+  LLMConfigurationError,
+} from '../src/llm/index.js';
+
+const mockChatCreate = vi.fn();
+const mockOpenAIConstructor = vi.fn();
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation((options: unknown) => {
+    mockOpenAIConstructor(options);
+    return { chat: { completions: { create: mockChatCreate } }, responses: { create: vi.fn() } };
+  }),
+}));
+
+describe('resolveLLMConfig', () => {
+  it('should fail with a clear error when nothing is configured', () => {
+    expect(() => resolveLLMConfig({})).toThrow(LLMConfigurationError);
+    expect(() => resolveLLMConfig({})).toThrow('No LLM provider configured');
+  });
+
+  it('should auto-detect an OpenAI-compatible base URL, then OpenAI', () => {
+    expect(resolveLLMConfig({ SCRATCHPAD_LLM_BASE_URL: 'http://localhost:11434/v1' }).provider).toBe(
+      'openai-compatible'
+    );
+    expect(resolveLLMConfig({ OPENAI_API_KEY: 'sk', ANTHROPIC_API_KEY: 'ak' })).toMatchObject({
+      provider: 'openai',
+      apiKey: 'sk',
+    });
+  });
+
+  it('should require Anthropic to be selected explicitly', () => {
+    expect(() => resolveLLMConfig({ ANTHROPIC_API_KEY: 'ak' })).toThrow('No LLM provider configured');
+    expect(
+      resolveLLMConfig({ SCRATCHPAD_LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'ak' })
+    ).toMatchObject({ provider: 'anthropic', apiKey: 'ak' });
+  });
+
+  it('should honour an explicit provider and overrides', () => {
+    expect(
+      resolveLLMConfig({
+        SCRATCHPAD_LLM_PROVIDER: 'Anthropic',
+        SCRATCHPAD_LLM_MODEL: 'claude-sonnet-4-0',
+        SCRATCHPAD_LLM_API_KEY: 'shared',
+        OPENAI_API_KEY: 'sk',
+      })
+    ).toMatchObject({ provider: 'anthropic', model: 'claude-sonnet-4-0', apiKey: 'shared' });
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => resolveLLMConfig({ SCRATCHPAD_LLM_PROVIDER: 'bard' })).toThrow(
+      'Invalid SCRATCHPAD_LLM_PROVIDER: bard'
+    );
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('should apply per-provider model defaults', () => {
+    expect(createLLMProvider({ provider: 'openai', apiKey: 'sk' }).defaultModel).toBe('gpt-5-nano');
+    expect(createLLMProvider({ provider: 'anthropic', apiKey: 'ak' }).defaultModel).toBe(
+      'claude-3-5-haiku-latest'
+    );
+    expect(
+      createLLMProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:8080/v1' }).defaultModel
+    ).toBe('llama3.1');
+    expect(createLLMProvider({ provider: 'stub' }).defaultModel).toBe('stub');
+    expect(createLLMProvider({ provider: 'stub', model: 'custom' }).defaultModel).toBe('custom');
+  });
+
+  it('should require provider-specific settings', () => {
+    expect(() => createLLMProvider({ provider: 'openai' })).toThrow('OPENAI_API_KEY');
+    expect(() => createLLMProvider({ provider: 'anthropic' })).toThrow('ANTHROPIC_API_KEY');
+    expect(() => createLLMProvider({ provider: 'openai-compatible' })).toThrow('SCRATCHPAD_LLM_BASE_URL');
+  });
+});
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('stub: should be deterministic and support a fixed response', async () => {
+    const stub = createStubProvider();
+    const request = { model: 'stub', instructions: 'sys', input: 'hello' };
+
+    const first = await stub.complete(request);
+    const second = await stub.complete(request);
+    expect(first.text).toBe(second.text);
+    expect(first.text).toMatch(/^\[stub:stub\] 5 chars of input, sha256 [0-9a-f]{16}$/);
+    expect((await stub.complete({ ...request, input: 'other' })).text).not.toBe(first.text);
+
+    const fixed = createStubProvider({ response: 'fixed' });
+    expect((await fixed.complete(request)).text).toBe('fixed');
+  });
+
+  it('openai-compatible: should call chat completions on the configured base URL', async () => {
+    mockChatCreate.mockResolvedValue({
+      model: 'qwen2.5',
+      choices: [{ message: { content: 'local answer' } }],
+    });
+    const provider = createLLMProvider({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'qwen2.5',
+    });
+
+    const response = await provider.complete({ model: 'qwen2.5', instructions: 'sys', input: 'question' });
+
+    expect(mockOpenAIConstructor).toHaveBeenCalledWith({
+      baseURL: 'http://localhost:11434/v1',
+      apiKey: 'not-needed',
+    });
+    expect(mockChatCreate).toHaveBeenCalledWith({
+      model: 'qwen2.5',
+      messages: [
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'question' },
+      ],
+    });
+    expect(response).toEqual({ text: 'local answer', model: 'qwen2.5' });
+  });
+
+  it('anthropic: should call the Messages API and join text blocks', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        model: 'claude-3-5-haiku-latest',
+        content: [
+          { type: 'text', text: 'part one' },
+          { type: 'text', text: 'part two' },
+        ],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createLLMProvider({ provider: 'anthropic', apiKey: 'ak' });
+    const response = await provider.complete({
+      model: provider.defaultModel,
+      instructions: 'sys',
+      input: 'question',
+    });
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('ak');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'claude-3-5-haiku-latest',
+      system: 'sys',
+      messages: [{ role: 'user', content: 'question' }],
+    });
+    expect(response.text).toBe('part one\npart two');
+  });
+
+  it('anthropic: should surface API error messages', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: async () => ({ error: { type: 'not_found_error', message: 'model: claude-x' } }),
+      })
+    );
+
+    const provider = createLLMProvider({ provider: 'anthropic', apiKey: 'ak' });
+    await expect(
+      provider.complete({ model: 'claude-x', instructions: 'sys', input: 'q' })
+    ).rejects.toThrow('model: claude-x');
+  });
+});
+
+describe('extractWorkflowInfoTool with providers', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = db.createWorkflow({ name: 'provider-workflow' });
+    db.createScratchpad({ workflow_id: workflow.id, title: 'notes', content: 'Decided on SQLite' });
+    workflowId = workflow.id;
+    for (const key of ['OPENAI_API_KEY', 'SCRATCHPAD_LLM_API_KEY', 'SCRATCHPAD_LLM_PROVIDER', 'SCRATCHPAD_LLM_BASE_URL']) {
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+    process.env = { ...savedEnv };
+  });
+
+  it('should use an injected provider and its default model', async () => {
+    const result = await extractWorkflowInfoTool(db, createStubProvider({ response: 'stubbed' }))({
+      workflow_id: workflowId,
+      extraction_prompt: 'What was decided?',
+    });
+
+    expect(result).toMatchObject({
+      extraction_result: 'stubbed',
+      model_used: 'stub',
+      provider: 'stub',
+      scratchpads_processed: 1,
+    });
+  });
+
+  it('should select the stub provider from the environment', async () => {
+    process.env['SCRATCHPAD_LLM_PROVIDER'] = 'stub';
+    process.env['SCRATCHPAD_LLM_STUB_RESPONSE'] = 'from env';
+
+    const result = await extractWorkflowInfoTool(db)({
+      workflow_id: workflowId,
+      extraction_prompt: 'What was decided?',
+    });
+    expect(result.extraction_result).toBe('from env');
+    expect(result.provider).toBe('stub');
+  });
+
+  it('should report a clear error when no provider is configured', async () => {
+    await expect(
+      extractWorkflowInfoTool(db)({ workflow_id: workflowId, extraction_prompt: 'x' })
+    ).rejects.toThrow('Failed to extract workflow information: No LLM provider configured');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * MCP Prompts Tests
+ *
+ * Tests the handoff-summary, resume-workflow and record-decision prompts,
+ * including the embedded outline and tail blocks.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+} from '../src/tools/index.js';
+import { registerScratchpadPrompts } from '../src/prompts/index.js';
+
+describe('MCP Prompts', () => {
+  let db: ScratchpadDatabase;
+  let server: McpServer;
+  let client: Client;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  const getPromptText = async (name: string, args: Record<string, string>): Promise<string> => {
+    const result = await client.getPrompt({ name, arguments: args });
+    const [message] = result.messages;
+    expect(message?.role).toBe('user');
+    return message?.content.type === 'text' ? message.content.text : '';
+  };
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({
+      name: 'Auth Refactor',
+      description: 'Move sessions to JWT',
+      project_scope: 'backend',
+    });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Progress Log',
+      content: '# Progress\n\nBlock one',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+    for (const block of ['## Step 2\n\nBlock two', '## Step 3\n\nBlock three', 'Block four']) {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: block });
+    }
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerScratchpadPrompts(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    db.close();
+  });
+
+  it('should list the built-in prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'handoff-summary',
+      'resume-workflow',
+      'record-decision',
+    ]);
+
+    const recordDecision = prompts.find((prompt) => prompt.name === 'record-decision');
+    expect(recordDecision?.arguments?.filter((arg) => arg.required).map((arg) => arg.name)).toEqual([
+      'scratchpad_id',
+      'decision',
+    ]);
+  });
+
+  describe('handoff-summary', () => {
+    it('should embed the outline and the last blocks of the latest scratchpad', async () => {
+      const text = await getPromptText('handoff-summary', { workflow_id: workflowId });
+
+      expect(text).toContain('Workflow: "Auth Refactor"');
+      expect(text).toContain('scope: backend');
+      expect(text).toContain('- Progress (line 1)');
+      expect(text).toContain('  - Step 2');
+      expect(text).toContain('Block four');
+      expect(text).toContain('Block two');
+      expect(text).not.toContain('Block one');
+      expect(text).toContain(`to scratchpad ${scratchpadId}`);
+    });
+
+    it('should honour tail_blocks', async () => {
+      const text = await getPromptText('handoff-summary', {
+        workflow_id: workflowId,
+        tail_blocks: '1',
+      });
+      expect(text).toContain('Last 1 block(s)');
+      expect(text).toContain('Block four');
+      expect(text).not.toContain('Block three');
+    });
+
+    it('should reject scratchpads from another workflow', async () => {
+      const other = await createWorkflowTool(db)({ name: 'Other' });
+      const foreign = await createScratchpadTool(db)({
+        workflow_id: other.workflow.id,
+        title: 'Foreign',
+        content: 'x',
+      });
+      await expect(
+        client.getPrompt({
+          name: 'handoff-summary',
+          arguments: { workflow_id: workflowId, scratchpad_id: foreign.scratchpad.id },
+        })
+      ).rejects.toThrow('does not belong to workflow');
+    });
+
+    it('should reject invalid tail_blocks', async () => {
+      await expect(
+        client.getPrompt({
+          name: 'handoff-summary',
+          arguments: { workflow_id: workflowId, tail_blocks: 'many' },
+        })
+      ).rejects.toThrow('tail_blocks must be an integer');
+    });
+  });
+
+  describe('resume-workflow', () => {
+    it('should default to the latest active workflow', async () => {
+      const text = await getPromptText('resume-workflow', {});
+      expect(text).toContain('Workflow: "Auth Refactor"');
+      expect(text).toContain('Block four');
+      expect(text).toContain(`to scratchpad ${scratchpadId}`);
+    });
+
+    it('should suggest creating a scratchpad for empty workflows', async () => {
+      const empty = await createWorkflowTool(db)({ name: 'Empty' });
+      const text = await getPromptText('resume-workflow', { workflow_id: empty.workflow.id });
+      expect(text).toContain('no scratchpads yet');
+      expect(text).toContain('create-scratchpad');
+    });
+
+    it('should fail when no active workflow matches the scope', async () => {
+      await expect(
+        client.getPrompt({ name: 'resume-workflow', arguments: { project_scope: 'frontend' } })
+      ).rejects.toThrow('No active workflow found in scope "frontend"');
+    });
+  });
+
+  describe('record-decision', () => {
+    it('should render the decision with the existing log', async () => {
+      const text = await getPromptText('record-decision', {
+        scratchpad_id: scratchpadId,
+        decision: 'Use RS256 signed tokens',
+        rationale: 'Allows key rotation',
+      });
+
+      expect(text).toContain('Decision: Use RS256 signed tokens');
+      expect(text).toContain('Rationale: Allows key rotation');
+      expect(text).toContain('## Decision: <short title>');
+      expect(text).toContain('Block four');
+    });
+
+    it('should fail for unknown scratchpads', async () => {
+      await expect(
+        client.getPrompt({
+          name: 'record-decision',
+          arguments: { scratchpad_id: 'missing', decision: 'x' },
+        })
+      ).rejects.toThrow('Scratchpad not found');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * MCP Resources Tests
+ *
+ * Tests workflow / scratchpad resource templates, resource listing and
+ * resources/subscribe update notifications driven by database writes.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+  updateWorkflowStatusTool,
+} from '../src/tools/index.js';
+import { registerScratchpadResources, resourceUris } from '../src/resources/index.js';
+
+const readText = async (client: Client, uri: string): Promise<string> => {
+  const result = await client.readResource({ uri });
+  const [content] = result.contents;
+  return content && 'text' in content ? String(content.text) : '';
+};
+
+describe('MCP Resources', () => {
+  let db: ScratchpadDatabase;
+  let server: McpServer;
+  let client: Client;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Resource Workflow' });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Design Notes',
+      content: '# Design\n\nFirst block',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+    await appendScratchpadTool(db)({ id: scratchpadId, content: '## Follow-up\n\nSecond block' });
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerScratchpadResources(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    db.close();
+  });
+
+  describe('Capabilities and listing', () => {
+    it('should advertise subscribe and listChanged', () => {
+      expect(client.getServerCapabilities()?.resources).toEqual({
+        subscribe: true,
+        listChanged: true,
+      });
+    });
+
+    it('should list workflows and scratchpads of active workflows', async () => {
+      const inactive = await createWorkflowTool(db)({ name: 'Archived' });
+      await createScratchpadTool(db)({
+        workflow_id: inactive.workflow.id,
+        title: 'Old',
+        content: 'old',
+      });
+      await updateWorkflowStatusTool(db)({ workflow_id: inactive.workflow.id, is_active: false });
+
+      const { resources } = await client.listResources();
+      const uris = resources.map((resource) => resource.uri);
+
+      expect(uris).toContain(resourceUris.workflow(workflowId));
+      expect(uris).toContain(resourceUris.workflow(inactive.workflow.id));
+      expect(uris).toContain(resourceUris.scratchpad(scratchpadId));
+      expect(resources.filter((resource) => resource.name === 'Old')).toHaveLength(0);
+    });
+
+    it('should list resource templates', async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+        'scratchpad://workflow/{workflow_id}',
+        'scratchpad://scratchpad/{scratchpad_id}',
+        'scratchpad://scratchpad/{scratchpad_id}/blocks/{block_index}',
+        'scratchpad://scratchpad/{scratchpad_id}/outline',
+      ]);
+    });
+  });
+
+  describe('Reading', () => {
+    it('should read a workflow as JSON with scratchpad summary', async () => {
+      const workflow = JSON.parse(await readText(client, resourceUris.workflow(workflowId)));
+      expect(workflow.name).toBe('Resource Workflow');
+      expect(workflow.scratchpad_count).toBe(1);
+      expect(workflow.scratchpads_summary[0].title).toBe('Design Notes');
+    });
+
+    it('should read full scratchpad content as markdown', async () => {
+      const result = await client.readResource({ uri: resourceUris.scratchpad(scratchpadId) });
+      expect(result.contents[0]?.mimeType).toBe('text/markdown');
+      expect(await readText(client, resourceUris.scratchpad(scratchpadId))).toBe(
+        db.getScratchpadById(scratchpadId)!.content
+      );
+    });
+
+    it('should read single blocks with positive and negative indices', async () => {
+      expect(await readText(client, resourceUris.block(scratchpadId, 0))).toContain('First block');
+      expect(await readText(client, resourceUris.block(scratchpadId, -1))).toContain('Second block');
+      await expect(client.readResource({ uri: resourceUris.block(scratchpadId, 5) })).rejects.toThrow(
+        'Block 5 not found'
+      );
+    });
+
+    it('should read the outline', async () => {
+      const outline = JSON.parse(await readText(client, resourceUris.outline(scratchpadId)));
+      expect(outline.headers.map((header: { text: string }) => header.text)).toEqual([
+        'Design',
+        'Follow-up',
+      ]);
+    });
+
+    it('should fail for unknown scratchpads', async () => {
+      await expect(client.readResource({ uri: resourceUris.scratchpad('missing') })).rejects.toThrow(
+        'Scratchpad not found'
+      );
+    });
+  });
+
+  describe('Subscriptions', () => {
+    const collectUpdates = (): string[] => {
+      const updates: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updates.push(notification.params.uri);
+      });
+      return updates;
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    it('should notify subscribers of a scratchpad, its sub-resources and its workflow', async () => {
+      const updates = collectUpdates();
+      await client.subscribeResource({ uri: resourceUris.scratchpad(scratchpadId) });
+      await client.subscribeResource({ uri: resourceUris.outline(scratchpadId) });
+      await client.subscribeResource({ uri: resourceUris.workflow(workflowId) });
+
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Third block' });
+      await flush();
+
+      expect(updates.sort()).toEqual(
+        [
+          resourceUris.scratchpad(scratchpadId),
+          resourceUris.outline(scratchpadId),
+          resourceUris.workflow(workflowId),
+        ].sort()
+      );
+    });
+
+    it('should not notify unrelated or unsubscribed URIs', async () => {
+      const other = await createScratchpadTool(db)({
+        workflow_id: workflowId,
+        title: 'Other',
+        content: 'other',
+      });
+      const updates = collectUpdates();
+      await client.subscribeResource({ uri: resourceUris.scratchpad(other.scratchpad.id) });
+      await client.subscribeResource({ uri: resourceUris.scratchpad(scratchpadId) });
+      await client.unsubscribeResource({ uri: resourceUris.scratchpad(scratchpadId) });
+
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Ignored' });
+      await flush();
+
+      expect(updates).toEqual([]);
+    });
+
+    it('should send list_changed when scratchpads are created', async () => {
+      let listChanged = 0;
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        listChanged++;
+      });
+
+      await createScratchpadTool(db)({ workflow_id: workflowId, title: 'New', content: 'new' });
+      await flush();
+
+      expect(listChanged).toBe(1);
+    });
+
+    it('should stop listening after the server closes', async () => {
+      await client.subscribeResource({ uri: resourceUris.scratchpad(scratchpadId) });
+      await server.close();
+
+      await expect(
+        appendScratchpadTool(db)({ id: scratchpadId, content: 'After close' })
+      ).resolves.toBeDefined();
+    });
+  });
+});
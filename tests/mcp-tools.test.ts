@@ -31,6 +31,7 @@ import {
   type ListScratchpadsArgs,
   type SearchScratchpadsArgs,
 } from '../src/tools/index.js';
+import { stripBlockIds } from './helpers/blocks.js';
 
 /**
  * Test helper class for MCP tools
@@ -725,13 +726,13 @@ Line 7: Seventh line`;
 
         expect(appendResult).not.toHaveProperty('error');
         expect(appendResult).toHaveProperty('scratchpad');
-        expect(appendResult.scratchpad.content).toBe('Initial content\n\n---\n<!--- block start --->\n\nAppended content');
+        expect(stripBlockIds(appendResult.scratchpad.content)).toBe('Initial content\n\n---\n<!--- block start --->\n\nAppended content');
         expect(appendResult.scratchpad.size_bytes).toBeGreaterThan(15); // Original size
 
         // Verify by getting the scratchpad
         const getResult = await helper.callGetScratchpad({ id: scratchpadId });
         expect(getResult).not.toHaveProperty('error');
-        expect(getResult.scratchpad.content).toBe('Initial content\n\n---\n<!--- block start --->\n\nAppended content');
+        expect(stripBlockIds(getResult.scratchpad.content)).toBe('Initial content\n\n---\n<!--- block start --->\n\nAppended content');
 
         // Verify updated_at changed (allow for same timestamp in fast tests) - now comparing ISO strings
         const updatedAt = new Date(appendResult.scratchpad.updated_at).getTime();
@@ -777,7 +778,7 @@ Line 7: Seventh line`;
         });
 
         expect(result).not.toHaveProperty('error');
-        expect(result.scratchpad.content).toBe(
+        expect(stripBlockIds(result.scratchpad.content)).toBe(
           'Initial content\n\n---\n<!--- block start --->\n\nSecond append\n\n---\n<!--- block start --->\n\nThird append'
         );
       });
@@ -1271,7 +1272,7 @@ Line 7: Seventh line`;
         id: scratchpadId,
       });
       expect(getResult2).not.toHaveProperty('error');
-      expect(getResult2.scratchpad.content).toBe('Original content\n\n---\n<!--- block start --->\n\nAdded content');
+      expect(stripBlockIds(getResult2.scratchpad.content)).toBe('Original content\n\n---\n<!--- block start --->\n\nAdded content');
 
       // Search should also reflect changes
       const searchResult = await helper.callSearchScratchpads({
@@ -0,0 +1,186 @@
+/**
+ * Merge Scratchpads Tests
+ *
+ * Tests merge-scratchpads: ordering strategies, block structure, source deletion to trash,
+ * size / count limits and validation.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import { BlockParser } from '../src/utils/BlockParser.js';
+import {
+  createScratchpadTool,
+  createWorkflowTool,
+  listScratchpadRevisionsTool,
+  mergeScratchpadsTool,
+  restoreFromTrashTool,
+  updateWorkflowStatusTool,
+} from '../src/tools/index.js';
+
+/**
+ * 設定 scratchpad 的 created_at / updated_at，讓排序可預期
+ */
+const setTimestamps = (
+  db: ScratchpadDatabase,
+  id: string,
+  createdAt: number,
+  updatedAt: number
+): void => {
+  (db as any).db
+    .prepare('UPDATE scratchpads SET created_at = ?, updated_at = ? WHERE id = ?')
+    .run(createdAt, updatedAt, id);
+};
+
+describe('merge-scratchpads', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let aId: string;
+  let bId: string;
+  let cId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    workflowId = (await createWorkflowTool(db)({ name: 'Notes' })).workflow.id;
+    const create = async (title: string, content: string): Promise<string> =>
+      (await createScratchpadTool(db)({ workflow_id: workflowId, title, content })).scratchpad.id;
+    aId = await create('Alpha', 'alpha body\n');
+    bId = await create('Beta', '\nbeta body');
+    cId = await create('Gamma', 'gamma body');
+    // created: Alpha < Beta < Gamma；updated: Gamma < Alpha < Beta
+    setTimestamps(db, aId, 100, 500);
+    setTimestamps(db, bId, 200, 600);
+    setTimestamps(db, cId, 300, 400);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('joins sources as titled blocks in created_at order by default', async () => {
+    const result = await mergeScratchpadsTool(db)({
+      workflow_id: workflowId,
+      scratchpad_ids: [cId, aId, bId],
+      title: 'All notes',
+      include_content: true,
+    });
+
+    expect(result.sources.map((source) => source.title)).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(result.scratchpad.content).toBe(
+      BlockParser.joinBlocks([
+        '## Alpha\n\nalpha body',
+        '## Beta\n\nbeta body',
+        '## Gamma\n\ngamma body',
+      ])
+    );
+    expect(result.scratchpad.content).toContain('\n\n---\n<!--- block start --->\n## Beta');
+
+    const blocks = BlockParser.parseBlocks(result.scratchpad.content);
+    expect(blocks).toHaveLength(3);
+    expect(result.message).toBe(
+      `Merged 3 scratchpads into "All notes" (${result.scratchpad.size_bytes} bytes)`
+    );
+
+    // 來源保留，workflow 多一個 scratchpad
+    expect(db.getWorkflowById(workflowId)!.scratchpad_count).toBe(4);
+    const revisions = await listScratchpadRevisionsTool(db)({ id: result.scratchpad.id });
+    expect(revisions.revisions.map((revision) => revision.operation)).toEqual(['merge']);
+  });
+
+  it('supports updated_at and explicit order', async () => {
+    const byUpdated = await mergeScratchpadsTool(db)({
+      workflow_id: workflowId,
+      scratchpad_ids: [aId, bId, cId],
+      title: 'By update',
+      order: 'updated_at',
+    });
+    expect(byUpdated.sources.map((source) => source.title)).toEqual(['Gamma', 'Alpha', 'Beta']);
+
+    const explicit = await mergeScratchpadsTool(db)({
+      workflow_id: workflowId,
+      scratchpad_ids: [bId, cId],
+      title: 'Explicit',
+      order: 'explicit',
+    });
+    expect(explicit.sources.map((source) => source.title)).toEqual(['Beta', 'Gamma']);
+  });
+
+  it('moves sources to trash when delete_sources is set', async () => {
+    const result = await mergeScratchpadsTool(db)({
+      workflow_id: workflowId,
+      scratchpad_ids: [aId, bId],
+      title: 'Merged',
+      delete_sources: true,
+    });
+
+    expect(result.sources.every((source) => typeof source.trash_id === 'string')).toBe(true);
+    expect(result.message).toContain('sources moved to trash');
+    expect(db.getScratchpadById(aId)).toBeNull();
+    expect(db.getScratchpadById(bId)).toBeNull();
+    expect(db.getWorkflowById(workflowId)!.scratchpad_count).toBe(2);
+
+    await restoreFromTrashTool(db)({ trash_id: result.sources[0]!.trash_id! });
+    expect(db.getScratchpadById(aId)?.content).toBe('alpha body\n');
+  });
+
+  it('allows merging in a full workflow only when sources are deleted', async () => {
+    for (let i = 3; i < 50; i++) {
+      db.createScratchpad({ workflow_id: workflowId, title: `Pad ${i}`, content: 'x' });
+    }
+
+    await expect(
+      mergeScratchpadsTool(db)({ workflow_id: workflowId, scratchpad_ids: [aId, bId], title: 'M' })
+    ).rejects.toThrow('Too many scratchpads in workflow: 50 (max: 50)');
+
+    const result = await mergeScratchpadsTool(db)({
+      workflow_id: workflowId,
+      scratchpad_ids: [aId, bId],
+      title: 'M',
+      delete_sources: true,
+    });
+    expect(result.sources).toHaveLength(2);
+    expect(db.getWorkflowById(workflowId)!.scratchpad_count).toBe(49);
+  });
+
+  it('rejects results larger than the scratchpad size limit', async () => {
+    const big = 'x'.repeat(600 * 1024);
+    const bigA = db.createScratchpad({ workflow_id: workflowId, title: 'Big A', content: big }).id;
+    const bigB = db.createScratchpad({ workflow_id: workflowId, title: 'Big B', content: big }).id;
+
+    await expect(
+      mergeScratchpadsTool(db)({
+        workflow_id: workflowId,
+        scratchpad_ids: [bigA, bigB],
+        title: 'Too big',
+        delete_sources: true,
+      })
+    ).rejects.toThrow(/Merged content too large: \d+ bytes \(max: 1048576 bytes\)/);
+    expect(db.getScratchpadById(bigA)).not.toBeNull();
+    expect(db.getWorkflowById(workflowId)!.scratchpad_count).toBe(5);
+  });
+
+  it('validates the scratchpad list and workflow', async () => {
+    const merge = mergeScratchpadsTool(db);
+    const otherId = (await createWorkflowTool(db)({ name: 'Other' })).workflow.id;
+    const foreignId = db.createScratchpad({ workflow_id: otherId, title: 'F', content: 'f' }).id;
+
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId], title: 'M' })
+    ).rejects.toThrow('At least two scratchpads are required to merge');
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId, aId], title: 'M' })
+    ).rejects.toThrow(`Duplicate scratchpad IDs: ${aId}`);
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId, 'missing'], title: 'M' })
+    ).rejects.toThrow('Scratchpad not found: missing');
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId, foreignId], title: 'M' })
+    ).rejects.toThrow(`Scratchpad ${foreignId} does not belong to workflow ${workflowId}`);
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId, bId], title: '  ' })
+    ).rejects.toThrow('Scratchpad title cannot be empty');
+
+    await updateWorkflowStatusTool(db)({ workflow_id: workflowId, is_active: false });
+    await expect(
+      merge({ workflow_id: workflowId, scratchpad_ids: [aId, bId], title: 'M' })
+    ).rejects.toThrow(`Cannot merge scratchpads: workflow is not active: ${workflowId}`);
+  });
+});
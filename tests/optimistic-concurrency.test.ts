@@ -0,0 +1,186 @@
+/**
+ * Optimistic Concurrency Tests
+ *
+ * Tests the monotonic scratchpad version, expected_version / if_unmodified_since
+ * guards on append, chop and update, and the structured conflict error.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase, ScratchpadConflictError } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+  chopScratchpadTool,
+  enhancedUpdateScratchpadTool,
+  renameScratchpadTool,
+} from '../src/tools/index.js';
+import { handleToolError, validateEnhancedUpdateScratchpadArgs } from '../src/server-helpers.js';
+
+describe('Optimistic Concurrency', () => {
+  let db: ScratchpadDatabase;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Concurrency Workflow' });
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflow.workflow.id,
+      title: 'Shared Notes',
+      content: 'Line 1\nLine 2\nLine 3',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('Version tracking', () => {
+    it('should start at version 1 and bump on every write', async () => {
+      expect(db.getScratchpadById(scratchpadId)?.version).toBe(1);
+
+      const appended = await appendScratchpadTool(db)({ id: scratchpadId, content: 'Line 4' });
+      expect(appended.scratchpad.version).toBe(2);
+
+      const chopped = await chopScratchpadTool(db)({ id: scratchpadId, blocks: 1 });
+      expect(chopped.scratchpad.version).toBe(3);
+
+      const updated = await enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'replace',
+        content: 'Fresh',
+      });
+      expect(updated.scratchpad.version).toBe(4);
+
+      const renamed = await renameScratchpadTool(db)({ id: scratchpadId, title: 'Renamed' });
+      expect(renamed.scratchpad).toMatchObject({ title: 'Renamed' });
+      expect(db.getScratchpadById(scratchpadId)?.version).toBe(5);
+    });
+  });
+
+  describe('expected_version', () => {
+    it('should apply the write when the version matches', async () => {
+      const result = await enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'replace_lines',
+        content: 'Line TWO',
+        start_line: 2,
+        end_line: 2,
+        expected_version: 1,
+      });
+
+      expect(result.scratchpad.content).toBe('Line 1\nLine TWO\nLine 3');
+      expect(result.scratchpad.version).toBe(2);
+    });
+
+    it('should reject replace_lines computed from a stale snapshot', async () => {
+      // Another agent appends between read and write
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Concurrent entry' });
+
+      const error = await enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'replace_lines',
+        content: 'Line TWO',
+        start_line: 2,
+        end_line: 2,
+        expected_version: 1,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ScratchpadConflictError);
+      const conflict = error as ScratchpadConflictError;
+      expect(conflict.details.expected_version).toBe(1);
+      expect(conflict.details.current_version).toBe(2);
+      expect(conflict.details.diff_hint).toContain('+Concurrent entry');
+      expect(db.getScratchpadById(scratchpadId)?.content).toContain('Line 2');
+    });
+
+    it('should guard append and chop as well', async () => {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Entry' });
+
+      await expect(
+        appendScratchpadTool(db)({ id: scratchpadId, content: 'Late', expected_version: 1 })
+      ).rejects.toThrow('Version conflict');
+      await expect(
+        chopScratchpadTool(db)({ id: scratchpadId, lines: 1, expected_version: 1 })
+      ).rejects.toThrow('current version is 2');
+
+      expect(db.getScratchpadById(scratchpadId)?.version).toBe(2);
+    });
+
+    it('should report a metadata-only change when the content is unchanged', async () => {
+      await renameScratchpadTool(db)({ id: scratchpadId, title: 'Renamed' });
+
+      const error = (await appendScratchpadTool(db)({
+        id: scratchpadId,
+        content: 'Late',
+        expected_version: 1,
+      }).catch((e: unknown) => e)) as ScratchpadConflictError;
+
+      expect(error.details.diff_hint).toContain('Content is unchanged');
+    });
+  });
+
+  describe('if_unmodified_since', () => {
+    it('should allow writes when unmodified and reject when modified later', async () => {
+      const future = new Date(Date.now() + 60_000).toISOString();
+      await expect(
+        appendScratchpadTool(db)({ id: scratchpadId, content: 'Ok', if_unmodified_since: future })
+      ).resolves.toBeDefined();
+
+      const past = new Date(Date.now() - 3_600_000).toISOString();
+      await expect(
+        appendScratchpadTool(db)({ id: scratchpadId, content: 'Late', if_unmodified_since: past })
+      ).rejects.toThrow('expected no changes since');
+    });
+
+    it('should reject invalid timestamps', async () => {
+      await expect(
+        appendScratchpadTool(db)({ id: scratchpadId, content: 'x', if_unmodified_since: 'yesterday' })
+      ).rejects.toThrow('Invalid if_unmodified_since timestamp');
+    });
+  });
+
+  describe('Tool responses', () => {
+    it('should include structured conflict details in the error response', async () => {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Entry' });
+      const error = await appendScratchpadTool(db)({
+        id: scratchpadId,
+        content: 'Late',
+        expected_version: 1,
+      }).catch((e: unknown) => e);
+
+      const response = handleToolError(error, 'append-scratchpad');
+      expect(response.isError).toBe(true);
+      expect(response.content).toHaveLength(2);
+
+      const details = JSON.parse(response.content[1]!.text);
+      expect(details).toMatchObject({
+        error: 'VERSION_CONFLICT',
+        scratchpad_id: scratchpadId,
+        expected_version: 1,
+        current_version: 2,
+      });
+      expect(typeof details.current_updated_at).toBe('string');
+    });
+
+    it('should accept guard parameters in every update mode', () => {
+      const args = validateEnhancedUpdateScratchpadArgs({
+        id: scratchpadId,
+        mode: 'insert_at_line',
+        content: 'x',
+        line_number: 1,
+        expected_version: 3,
+      });
+      expect(args.expected_version).toBe(3);
+
+      expect(() =>
+        validateEnhancedUpdateScratchpadArgs({
+          id: scratchpadId,
+          mode: 'replace',
+          content: 'x',
+          expected_version: 0,
+        })
+      ).toThrow('expected_version must be a positive integer');
+    });
+  });
+});
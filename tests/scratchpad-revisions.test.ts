@@ -0,0 +1,194 @@
+/**
+ * Scratchpad Revision History Tests
+ *
+ * Tests revision recording on every write path, retention pruning,
+ * unified diff output and restore behaviour.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+  chopScratchpadTool,
+  enhancedUpdateScratchpadTool,
+  listScratchpadRevisionsTool,
+  getScratchpadRevisionTool,
+  diffScratchpadRevisionsTool,
+  restoreScratchpadRevisionTool,
+  setRevisionRetentionTool,
+} from '../src/tools/index.js';
+import { UnifiedDiff } from '../src/utils/UnifiedDiff.js';
+
+describe('Scratchpad Revision History', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Revision Workflow' });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Notes',
+      content: 'Line 1\nLine 2\nLine 3',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('Recording', () => {
+    it('should record a revision for create, append, chop and update', async () => {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Appended' });
+      await chopScratchpadTool(db)({ id: scratchpadId, blocks: 1 });
+      await enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'replace_lines',
+        content: 'Line TWO',
+        start_line: 2,
+        end_line: 2,
+      });
+
+      const result = await listScratchpadRevisionsTool(db)({ id: scratchpadId });
+
+      expect(result.total_revisions).toBe(4);
+      expect(result.revisions.map((r) => r.operation)).toEqual([
+        'update:replace_lines',
+        'chop',
+        'append',
+        'create',
+      ]);
+      expect(result.revisions[0]!.revision).toBe(4);
+      expect(result.has_more).toBe(false);
+    });
+
+    it('should keep the latest revision in sync with current content', async () => {
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'More' });
+
+      const latest = await getScratchpadRevisionTool(db)({ id: scratchpadId, revision: 2 });
+      const current = db.getScratchpadById(scratchpadId)!;
+
+      expect(latest.revision?.content).toBe(current.content);
+      expect(latest.revision?.size_bytes).toBe(current.size_bytes);
+    });
+
+    it('should return null for unknown revisions', async () => {
+      const result = await getScratchpadRevisionTool(db)({ id: scratchpadId, revision: 99 });
+      expect(result.revision).toBeNull();
+      expect(result.message).toContain('not found');
+    });
+  });
+
+  describe('Retention', () => {
+    it('should prune revisions beyond max_revisions', async () => {
+      await setRevisionRetentionTool(db)({ workflow_id: workflowId, max_revisions: 3 });
+
+      for (let i = 0; i < 5; i++) {
+        await appendScratchpadTool(db)({ id: scratchpadId, content: `Entry ${i}` });
+      }
+
+      const result = await listScratchpadRevisionsTool(db)({ id: scratchpadId });
+      expect(result.total_revisions).toBe(3);
+      expect(result.revisions.map((r) => r.revision)).toEqual([6, 5, 4]);
+      expect(result.retention.max_revisions).toBe(3);
+    });
+
+    it('should prune by byte budget but always keep two revisions', async () => {
+      await setRevisionRetentionTool(db)({ workflow_id: workflowId, max_bytes: 10 });
+
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'A much longer appended entry' });
+      await appendScratchpadTool(db)({ id: scratchpadId, content: 'Another entry' });
+
+      expect(db.countScratchpadRevisions(scratchpadId)).toBe(2);
+    });
+
+    it('should reject max_revisions below 2', async () => {
+      await expect(
+        setRevisionRetentionTool(db)({ workflow_id: workflowId, max_revisions: 1 })
+      ).rejects.toThrow('max_revisions must be an integer >= 2');
+    });
+  });
+
+  describe('Diff', () => {
+    it('should produce a unified diff between revisions', async () => {
+      await enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'replace_lines',
+        content: 'Line TWO',
+        start_line: 2,
+        end_line: 2,
+      });
+
+      const result = await diffScratchpadRevisionsTool(db)({ id: scratchpadId, from_revision: 1 });
+
+      expect(result.to_revision).toBe(2);
+      expect(result.stats).toEqual({ additions: 1, deletions: 1, hunks: 1 });
+      expect(result.diff).toContain('@@ -1,3 +1,3 @@');
+      expect(result.diff).toContain('-Line 2');
+      expect(result.diff).toContain('+Line TWO');
+    });
+
+    it('should report identical revisions', async () => {
+      const result = await diffScratchpadRevisionsTool(db)({
+        id: scratchpadId,
+        from_revision: 1,
+        to_revision: 1,
+      });
+      expect(result.diff).toBe('');
+      expect(result.message).toContain('identical');
+    });
+  });
+
+  describe('Restore', () => {
+    it('should restore content and record the restore as a new revision', async () => {
+      await enhancedUpdateScratchpadTool(db)({ id: scratchpadId, mode: 'replace', content: 'Oops' });
+
+      const result = await restoreScratchpadRevisionTool(db)({
+        id: scratchpadId,
+        revision: 1,
+        include_content: true,
+      });
+
+      expect(result.scratchpad.content).toBe('Line 1\nLine 2\nLine 3');
+      expect(result.new_revision).toBe(3);
+
+      const latest = db.getScratchpadRevision(scratchpadId, 3);
+      expect(latest?.operation).toBe('restore:1');
+    });
+
+    it('should refuse to restore into an inactive workflow', async () => {
+      db.setWorkflowActiveStatus(workflowId, false);
+      await expect(
+        restoreScratchpadRevisionTool(db)({ id: scratchpadId, revision: 1 })
+      ).rejects.toThrow('workflow is not active');
+    });
+  });
+});
+
+describe('UnifiedDiff', () => {
+  it('should return an empty patch for identical content', () => {
+    expect(UnifiedDiff.createPatch('a\nb', 'a\nb').patch).toBe('');
+  });
+
+  it('should describe pure additions to empty content', () => {
+    const { patch, stats } = UnifiedDiff.createPatch('', 'one\ntwo');
+    expect(patch).toContain('@@ -0,0 +1,2 @@');
+    expect(stats.additions).toBe(2);
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[27] = 'changed 28';
+
+    const { patch, stats } = UnifiedDiff.createPatch(oldLines.join('\n'), newLines.join('\n'));
+    expect(stats.hunks).toBe(2);
+    expect(patch).toContain('@@ -1,5 +1,5 @@');
+    expect(patch).toContain('@@ -25,6 +25,6 @@');
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Scratchpad Templates Tests
+ *
+ * Tests placeholder rendering, the template registry (database / directory / built-in sources)
+ * and the list-templates, save-template and create-scratchpad template arguments.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  TemplateRegistry,
+  createTemplateRegistryFromEnv,
+  extractTemplateVariables,
+  renderTemplate,
+} from '../src/templates/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  listTemplatesTool,
+  saveTemplateTool,
+} from '../src/tools/index.js';
+
+describe('renderTemplate', () => {
+  const now = new Date('2026-03-04T05:06:07.890Z');
+  const workflow = { id: 'wf-1', name: 'Release', description: null, project_scope: 'app' };
+
+  it('fills built-in and custom placeholders', () => {
+    const rendered = renderTemplate(
+      '# {{title}} ({{ date }} {{time}})\n{{workflow.name}}/{{workflow.project_scope}} by {{owner}}, {{count}} items',
+      { title: 'Notes', workflow, variables: { owner: 'alice', count: 3 }, now }
+    );
+
+    expect(rendered).toBe('# Notes (2026-03-04 05:06)\nRelease/app by alice, 3 items');
+    expect(renderTemplate('{{datetime}} {{workflow.description}}|', { workflow, now })).toBe(
+      '2026-03-04T05:06:07Z |'
+    );
+  });
+
+  it('lets custom variables override built-ins', () => {
+    expect(renderTemplate('{{date}}', { variables: { date: 'tomorrow' }, now })).toBe('tomorrow');
+  });
+
+  it('reports every missing variable at once', () => {
+    expect(() => renderTemplate('{{owner}} {{workflow.name}} {{owner}} {{goal}}', { now })).toThrow(
+      'Missing template variables: owner, workflow.name, goal'
+    );
+  });
+
+  it('extracts custom variables in order of appearance', () => {
+    expect(
+      extractTemplateVariables('{{goal}} {{date}} {{owner}} {{ goal }} {{workflow.name}}')
+    ).toEqual(['goal', 'owner']);
+  });
+});
+
+describe('TemplateRegistry', () => {
+  let db: ScratchpadDatabase;
+  let directory: string;
+
+  beforeEach(() => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-templates-'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads directory templates with front matter and skips other files', () => {
+    fs.writeFileSync(
+      path.join(directory, 'Bug-Report.md'),
+      '---\r\ndescription: Bug triage layout\r\n---\r\n## Repro\r\n{{steps}}\r\n'
+    );
+    fs.writeFileSync(path.join(directory, 'plain.txt'), 'Plain {{owner}}');
+    fs.writeFileSync(path.join(directory, 'image.png'), 'binary');
+    fs.writeFileSync(path.join(directory, 'bad name.md'), 'ignored');
+
+    const registry = new TemplateRegistry(db, { directory });
+    const bug = registry.get('bug-report');
+
+    expect(bug).toMatchObject({
+      name: 'bug-report',
+      description: 'Bug triage layout',
+      content: '## Repro\n{{steps}}\n',
+      source: 'directory',
+      variables: ['steps'],
+    });
+    expect(registry.get('plain')?.description).toBe('');
+    expect(registry.list().map((template) => `${template.name}:${template.source}`)).toEqual([
+      'bug-report:directory',
+      'handoff:builtin',
+      'plain:directory',
+      'planning:builtin',
+    ]);
+  });
+
+  it('picks up directory changes without restarting', () => {
+    const registry = new TemplateRegistry(db, { directory });
+    expect(registry.get('later')).toBeNull();
+
+    fs.writeFileSync(path.join(directory, 'later.md'), 'Later');
+    expect(registry.get('later')?.content).toBe('Later');
+  });
+
+  it('prefers database over directory over built-in templates', () => {
+    fs.writeFileSync(path.join(directory, 'planning.md'), 'Directory planning');
+    const registry = new TemplateRegistry(db, { directory });
+    expect(registry.get('planning')?.source).toBe('directory');
+
+    registry.save({ name: 'planning', content: 'Saved planning', overwrite: true });
+    expect(registry.get('planning')).toMatchObject({
+      source: 'database',
+      content: 'Saved planning',
+    });
+    expect(registry.list().filter((template) => template.name === 'planning')).toHaveLength(1);
+  });
+
+  it('validates template names', () => {
+    const registry = new TemplateRegistry(db);
+    expect(TemplateRegistry.normalizeName('  Daily_Standup ')).toBe('daily_standup');
+    expect(() => registry.save({ name: 'has space', content: 'x' })).toThrow(
+      'Invalid template name'
+    );
+    expect(() => registry.save({ name: '-dash', content: 'x' })).toThrow('Invalid template name');
+    expect(() => registry.save({ name: 'a'.repeat(65), content: 'x' })).toThrow('1-64 characters');
+  });
+
+  it('ignores a missing templates directory', () => {
+    const registry = createTemplateRegistryFromEnv(db, {
+      SCRATCHPAD_TEMPLATES_DIR: path.join(directory, 'missing'),
+    });
+    expect(registry.directory).toBe(path.join(directory, 'missing'));
+    expect(registry.list().map((template) => template.source)).toEqual(['builtin', 'builtin']);
+    expect(createTemplateRegistryFromEnv(db, {}).directory).toBeUndefined();
+  });
+});
+
+describe('template tools', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Release 2.0', project_scope: 'app' });
+    workflowId = workflow.workflow.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('lists built-in templates with their variables', async () => {
+    const result = await listTemplatesTool(db)({});
+
+    expect(result.count).toBe(2);
+    expect(result.templates.map((template) => template.name)).toEqual(['handoff', 'planning']);
+    expect(result.templates[1]).toMatchObject({ source: 'builtin', variables: [] });
+    expect(result.templates[1]!.content).toBeUndefined();
+
+    const withContent = await listTemplatesTool(db)({ source: 'builtin', include_content: true });
+    expect(withContent.templates[1]!.content).toContain('## Decisions');
+  });
+
+  it('saves templates and requires overwrite to replace them', async () => {
+    const saved = await saveTemplateTool(db)({
+      name: 'Standup',
+      description: 'Daily standup',
+      content: '## {{date}} standup for {{team}}\n',
+    });
+
+    expect(saved.replaced).toBeNull();
+    expect(saved.template).toMatchObject({
+      name: 'standup',
+      source: 'database',
+      variables: ['team'],
+      description: 'Daily standup',
+    });
+    expect(saved.template.updated_at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(saved.message).toBe('Saved template "standup"; variables: team');
+
+    await expect(saveTemplateTool(db)({ name: 'standup', content: 'Other' })).rejects.toThrow(
+      'Template already exists: standup (database; set overwrite: true to replace it)'
+    );
+    await expect(saveTemplateTool(db)({ name: 'planning', content: 'Mine' })).rejects.toThrow(
+      'Template already exists: planning (builtin'
+    );
+
+    const replaced = await saveTemplateTool(db)({
+      name: 'standup',
+      content: 'Other',
+      overwrite: true,
+    });
+    expect(replaced.replaced).toBe('database');
+    expect(replaced.template.description).toBe('Daily standup');
+
+    const overridden = await saveTemplateTool(db)({
+      name: 'planning',
+      content: 'Mine',
+      overwrite: true,
+    });
+    expect(overridden.message).toBe('Saved template "planning" (overrides the builtin template)');
+
+    const listed = await listTemplatesTool(db)({ source: 'database' });
+    expect(listed.templates.map((template) => template.name)).toEqual(['planning', 'standup']);
+  });
+
+  it('rejects empty template content', async () => {
+    await expect(saveTemplateTool(db)({ name: 'empty', content: '  \n' })).rejects.toThrow(
+      'Template content cannot be empty'
+    );
+  });
+
+  it('creates a scratchpad from a template with workflow placeholders', async () => {
+    const result = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Kickoff',
+      template: 'planning',
+      include_content: true,
+    });
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(result.template).toBe('planning');
+    expect(result.scratchpad.content).toContain('# Kickoff');
+    expect(result.scratchpad.content).toContain(`> Workflow: Release 2.0 · Created: ${today}`);
+    expect(result.scratchpad.content).toMatch(
+      /## Plan\n\n## Findings\n\n## Decisions\n\n## TODO\n$/
+    );
+    expect(result.message).toContain('from template "planning"');
+  });
+
+  it('fills custom variables and appends extra content after the template', async () => {
+    await saveTemplateTool(db)({
+      name: 'owned',
+      content: 'Owner: {{owner}} ({{workflow.project_scope}})\n\n',
+    });
+
+    const result = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Owned',
+      template: 'Owned',
+      template_vars: { owner: 'alice' },
+      content: 'First note',
+      include_content: true,
+    });
+
+    expect(result.scratchpad.content).toBe('Owner: alice (app)\n\nFirst note');
+  });
+
+  it('reports missing variables and unknown templates', async () => {
+    await saveTemplateTool(db)({ name: 'owned', content: 'Owner: {{owner}}' });
+
+    await expect(
+      createScratchpadTool(db)({ workflow_id: workflowId, title: 'x', template: 'owned' })
+    ).rejects.toThrow('Failed to create scratchpad: Missing template variables: owner');
+    await expect(
+      createScratchpadTool(db)({ workflow_id: workflowId, title: 'x', template: 'nope' })
+    ).rejects.toThrow('Template not found: nope (available: handoff, owned, planning)');
+    expect(db.listScratchpads({ workflow_id: workflowId })).toHaveLength(0);
+  });
+
+  it('requires content without a template and template with template_vars', async () => {
+    await expect(createScratchpadTool(db)({ workflow_id: workflowId, title: 'x' })).rejects.toThrow(
+      'content is required unless a template is given'
+    );
+    await expect(
+      createScratchpadTool(db)({
+        workflow_id: workflowId,
+        title: 'x',
+        content: 'y',
+        template_vars: { owner: 'alice' },
+      })
+    ).rejects.toThrow('template_vars can only be used with template');
+  });
+
+  it('uses the registry passed to the tool', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-templates-'));
+    try {
+      fs.writeFileSync(path.join(directory, 'retro.md'), '# Retro for {{workflow.name}}\n');
+      const registry = new TemplateRegistry(db, { directory });
+
+      const result = await createScratchpadTool(
+        db,
+        registry
+      )({
+        workflow_id: workflowId,
+        title: 'Retro',
+        template: 'retro',
+        include_content: true,
+      });
+      expect(result.scratchpad.content).toBe('# Retro for Release 2.0\n');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Search All Scratchpads Tests
+ *
+ * Tests cross-workflow search with ranking, filters (project scope, active status,
+ * updated_at range, title only) and highlighted snippets on both the LIKE fallback
+ * and the FTS5 bm25() / snippet() / highlight() path.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  searchAllScratchpadsTool,
+} from '../src/tools/index.js';
+import { createDatabase } from './helpers/database.js';
+
+const seed = async (db: ScratchpadDatabase) => {
+  const alpha = await createWorkflowTool(db)({ name: 'Alpha', project_scope: 'proj-a' });
+  const beta = await createWorkflowTool(db)({ name: 'Beta', project_scope: 'proj-b' });
+
+  const titleHit = await createScratchpadTool(db)({
+    workflow_id: alpha.workflow.id,
+    title: 'Caching strategy',
+    content: 'We compared several approaches before choosing one.',
+  });
+  const contentHit = await createScratchpadTool(db)({
+    workflow_id: beta.workflow.id,
+    title: 'Meeting notes',
+    content:
+      'Discussed the rollout plan in detail. The caching layer needs a TTL so stale entries expire quickly after deploys.',
+  });
+  await createScratchpadTool(db)({
+    workflow_id: beta.workflow.id,
+    title: 'Unrelated',
+    content: 'Nothing to see here.',
+  });
+
+  // 固定 updated_at 以測試日期範圍篩選
+  const raw = db['db'];
+  raw
+    .prepare('UPDATE scratchpads SET updated_at = ? WHERE id = ?')
+    .run(Date.parse('2024-01-10T00:00:00Z') / 1000, titleHit.scratchpad.id);
+  raw
+    .prepare('UPDATE scratchpads SET updated_at = ? WHERE id = ?')
+    .run(Date.parse('2024-03-10T00:00:00Z') / 1000, contentHit.scratchpad.id);
+
+  return {
+    alphaId: alpha.workflow.id,
+    betaId: beta.workflow.id,
+    titleHitId: titleHit.scratchpad.id,
+    contentHitId: contentHit.scratchpad.id,
+  };
+};
+
+describe('search-all-scratchpads (LIKE fallback)', () => {
+  let db: ScratchpadDatabase;
+  let ids: Awaited<ReturnType<typeof seed>>;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    ids = await seed(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should search across workflows and rank title matches first', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: 'caching' });
+
+    expect(result.search_method).toBe('like');
+    expect(result.pagination).toEqual({ page: 1, per_page: 10, total_results: 2, has_more: false });
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId, ids.contentHitId]);
+    expect(result.results[0]!.workflow).toMatchObject({
+      id: ids.alphaId,
+      name: 'Alpha',
+      is_active: true,
+    });
+    expect(result.results[0]!.score).toBeGreaterThan(result.results[1]!.score);
+  });
+
+  it('should highlight titles and build snippets around the match', async () => {
+    const result = await searchAllScratchpadsTool(db)({
+      query: 'caching',
+      highlight_open: '<b>',
+      highlight_close: '</b>',
+      snippet_tokens: 6,
+    });
+
+    expect(result.results[0]!.scratchpad.title_highlight).toBe('<b>Caching</b> strategy');
+    const snippet = result.results[1]!.scratchpad.snippet;
+    expect(snippet).toContain('<b>caching</b>');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+
+  it('should require all terms to match', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: 'caching TTL' });
+
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+  });
+
+  it('should filter by project scope and title only', async () => {
+    const scoped = await searchAllScratchpadsTool(db)({
+      query: 'caching',
+      project_scope: 'proj-b',
+    });
+    expect(scoped.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+
+    const titles = await searchAllScratchpadsTool(db)({ query: 'caching', title_only: true });
+    expect(titles.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId]);
+    expect(titles.message).toContain('title only');
+  });
+
+  it('should filter by workflow active status', async () => {
+    db.setWorkflowActiveStatus(ids.betaId, false);
+
+    const active = await searchAllScratchpadsTool(db)({ query: 'caching', is_active: true });
+    expect(active.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId]);
+
+    const inactive = await searchAllScratchpadsTool(db)({ query: 'caching', is_active: false });
+    expect(inactive.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+  });
+
+  it('should filter by updated_at range', async () => {
+    const after = await searchAllScratchpadsTool(db)({
+      query: 'caching',
+      updated_after: '2024-02-01',
+    });
+    expect(after.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+
+    const before = await searchAllScratchpadsTool(db)({
+      query: 'caching',
+      updated_before: '2024-02-01T00:00:00Z',
+    });
+    expect(before.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId]);
+  });
+
+  it('should reject invalid date filters', async () => {
+    await expect(
+      searchAllScratchpadsTool(db)({ query: 'caching', updated_after: 'not a date' })
+    ).rejects.toThrow('Invalid updated_after timestamp');
+  });
+
+  it('should paginate results', async () => {
+    const first = await searchAllScratchpadsTool(db)({ query: 'caching', limit: 1 });
+    expect(first.results).toHaveLength(1);
+    expect(first.pagination.has_more).toBe(true);
+
+    const second = await searchAllScratchpadsTool(db)({ query: 'caching', limit: 1, page: 2 });
+    expect(second.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+    expect(second.pagination.has_more).toBe(false);
+  });
+
+  it('should treat LIKE wildcards in the query literally', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: '%' });
+    expect(result.results).toHaveLength(0);
+  });
+});
+
+describe('search-all-scratchpads (FTS5)', () => {
+  let db: ScratchpadDatabase;
+  let ids: Awaited<ReturnType<typeof seed>>;
+
+  beforeEach(async () => {
+    db = createDatabase(true);
+    ids = await seed(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should rank with bm25 and return highlight() / snippet() output', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: 'caching' });
+
+    expect(result.search_method).toBe('fts5');
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId, ids.contentHitId]);
+    expect(result.results[0]!.score).toBeGreaterThan(result.results[1]!.score);
+    expect(result.results[0]!.scratchpad.title_highlight).toBe('**Caching** strategy');
+    expect(result.results[1]!.scratchpad.snippet).toContain('**caching**');
+  });
+
+  it('should apply filters and title-only matching', async () => {
+    const titles = await searchAllScratchpadsTool(db)({ query: 'caching', title_only: true });
+    expect(titles.results.map((r) => r.scratchpad.id)).toEqual([ids.titleHitId]);
+
+    const filtered = await searchAllScratchpadsTool(db)({
+      query: 'caching',
+      project_scope: 'proj-b',
+      updated_after: '2024-02-01',
+    });
+    expect(filtered.pagination.total_results).toBe(1);
+    expect(filtered.results.map((r) => r.scratchpad.id)).toEqual([ids.contentHitId]);
+  });
+
+  it('should escape FTS5 syntax in the query', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: 'caching" OR "notes' });
+    expect(result.search_method).toBe('fts5');
+    expect(result.results).toHaveLength(0);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Search Query Language Tests
+ *
+ * Tests the query syntax parser (phrases, boolean operators, field prefixes, prefix
+ * wildcards, updated: dates), its compilation to FTS5 MATCH + SQL, and the search
+ * tools on both the FTS5 path and the LIKE fallback.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  SearchQueryCompiler,
+  SCRATCHPAD_QUERY_TARGET,
+} from '../src/database/SearchQueryCompiler.js';
+import { SearchQueryParser, SearchQuerySyntaxError } from '../src/utils/SearchQueryParser.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  searchAllScratchpadsTool,
+  searchScratchpadsTool,
+  searchWorkflowsTool,
+} from '../src/tools/index.js';
+import { createDatabase } from './helpers/database.js';
+
+describe('SearchQueryParser', () => {
+  it('should treat plain words as an implicit AND', () => {
+    const parsed = SearchQueryParser.parse('cache  layer');
+
+    expect(parsed.advanced).toBe(false);
+    expect(parsed.keywords).toEqual(['cache', 'layer']);
+    expect(parsed.root).toMatchObject({
+      type: 'and',
+      children: [
+        { type: 'text', field: null, value: 'cache' },
+        { type: 'text', field: null, value: 'layer' },
+      ],
+    });
+  });
+
+  it('should parse phrases, fields, negation and prefixes', () => {
+    const parsed = SearchQueryParser.parse('title:"design doc" AND -deprecated auth*');
+
+    expect(parsed.advanced).toBe(true);
+    expect(parsed.keywords).toEqual(['design doc', 'auth']);
+    expect(parsed.root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', field: 'title', value: 'design doc', phrase: true, prefix: false },
+        {
+          type: 'not',
+          child: { type: 'text', field: null, value: 'deprecated', phrase: false, prefix: false },
+        },
+        { type: 'text', field: null, value: 'auth', phrase: false, prefix: true },
+      ],
+    });
+  });
+
+  it('should give AND precedence over OR and honour parentheses', () => {
+    expect(SearchQueryParser.parse('a b OR c').root).toMatchObject({
+      type: 'or',
+      children: [{ type: 'and' }, { type: 'text', value: 'c' }],
+    });
+    expect(SearchQueryParser.parse('a (b OR c)').root).toMatchObject({
+      type: 'and',
+      children: [{ type: 'text', value: 'a' }, { type: 'or' }],
+    });
+    expect(SearchQueryParser.parse('NOT (a OR b)').root).toMatchObject({
+      type: 'not',
+      child: { type: 'or' },
+    });
+  });
+
+  it('should treat lowercase operators as words', () => {
+    expect(SearchQueryParser.parse('cats and dogs').keywords).toEqual(['cats', 'and', 'dogs']);
+  });
+
+  it('should parse updated: dates with whole-day semantics', () => {
+    const day = Date.parse('2026-01-01T00:00:00Z') / 1000;
+
+    expect(SearchQueryParser.parse('updated:>2026-01-01').root).toEqual({
+      type: 'updated',
+      comparator: '>=',
+      value: day + 86400,
+    });
+    expect(SearchQueryParser.parse('updated:<2026-01-01').root).toEqual({
+      type: 'updated',
+      comparator: '<',
+      value: day,
+    });
+    expect(SearchQueryParser.parse('updated:2026-01-01').root).toMatchObject({
+      type: 'and',
+      children: [
+        { comparator: '>=', value: day },
+        { comparator: '<', value: day + 86400 },
+      ],
+    });
+  });
+
+  it('should reject malformed queries with a position', () => {
+    expect(() => SearchQueryParser.parse('(cache')).toThrow(SearchQuerySyntaxError);
+    expect(() => SearchQueryParser.parse('cache)')).toThrow("unexpected ')'");
+    expect(() => SearchQueryParser.parse('cache OR')).toThrow('expected a term');
+    expect(() => SearchQueryParser.parse('title: cache')).toThrow('missing value for title:');
+    expect(() => SearchQueryParser.parse('updated:>soon')).toThrow('invalid date');
+    expect(() => SearchQueryParser.parse('a **')).toThrow('position 2');
+  });
+});
+
+describe('SearchQueryCompiler', () => {
+  const compile = (query: string, mode: 'fts5' | 'like') =>
+    SearchQueryCompiler.compile(SearchQueryParser.parse(query).root!, SCRATCHPAD_QUERY_TARGET, {
+      mode,
+    });
+
+  it('should fold text conditions and exclusions into one MATCH expression', () => {
+    const compiled = compile('title:"design doc" -deprecated auth*', 'fts5');
+
+    expect(compiled.match).toBe(
+      '((title : "design doc") AND ({title content tags} : "auth"*)) NOT ({title content tags} : "deprecated")'
+    );
+    expect(compiled.where).toBe('1');
+    expect(compiled.terms).toEqual(['design doc', 'auth']);
+  });
+
+  it('should compile field filters and mixed OR groups to SQL', () => {
+    const compiled = compile('cache (scope:infra OR workflow:ops) updated:>=2026-01-01', 'fts5');
+
+    expect(compiled.match).toBe('({title content tags} : "cache")');
+    expect(compiled.where).toBe(
+      "(w.project_scope = ? OR (w.name LIKE ? ESCAPE '\\' OR w.id = ?)) AND s.updated_at >= ?"
+    );
+    expect(compiled.params).toEqual([
+      'infra',
+      '%ops%',
+      'ops',
+      Date.parse('2026-01-01T00:00:00Z') / 1000,
+    ]);
+  });
+
+  it('should use rowid subqueries for text nested under SQL predicates', () => {
+    const compiled = compile('say OR scope:x', 'fts5');
+
+    expect(compiled.match).toBeNull();
+    expect(compiled.where).toBe(
+      '(s.rowid IN (SELECT rowid FROM scratchpads_fts WHERE scratchpads_fts MATCH ?) OR w.project_scope = ?)'
+    );
+    expect(compiled.params).toEqual(['{title content tags} : "say"', 'x']);
+  });
+
+  it('should compile to escaped LIKE predicates without FTS5', () => {
+    const compiled = compile('-"100%"', 'like');
+
+    expect(compiled.where).toBe(
+      "NOT ((s.title LIKE ? ESCAPE '\\' OR s.content LIKE ? ESCAPE '\\' OR s.tags LIKE ? ESCAPE '\\'))"
+    );
+    expect(compiled.params).toEqual(['%100\\%%', '%100\\%%', '%100\\%%']);
+    expect(compiled.terms).toEqual([]);
+  });
+});
+
+const seed = async (db: ScratchpadDatabase) => {
+  const infra = await createWorkflowTool(db)({
+    name: 'Infra migration',
+    description: 'Move services to the new cluster',
+    project_scope: 'infra',
+  });
+  const web = await createWorkflowTool(db)({
+    name: 'Web app',
+    description: 'Frontend work',
+    project_scope: 'web',
+  });
+
+  const designDoc = await createScratchpadTool(db)({
+    workflow_id: infra.workflow.id,
+    title: 'Design doc for caching',
+    content: 'Authentication tokens are cached in redis.',
+  });
+  const deprecated = await createScratchpadTool(db)({
+    workflow_id: infra.workflow.id,
+    title: 'Old design doc',
+    content: 'Deprecated approach using authorization headers.',
+  });
+  const webNotes = await createScratchpadTool(db)({
+    workflow_id: web.workflow.id,
+    title: 'Login page',
+    content: 'Auth flow design notes for the login form.',
+  });
+
+  // 固定 updated_at 以測試 updated: 篩選
+  const raw = db['db'];
+  raw
+    .prepare('UPDATE scratchpads SET updated_at = ? WHERE id = ?')
+    .run(Date.parse('2025-06-01T00:00:00Z') / 1000, deprecated.scratchpad.id);
+  raw
+    .prepare('UPDATE scratchpads SET updated_at = ? WHERE id IN (?, ?)')
+    .run(
+      Date.parse('2026-02-01T00:00:00Z') / 1000,
+      designDoc.scratchpad.id,
+      webNotes.scratchpad.id
+    );
+
+  return {
+    infraId: infra.workflow.id,
+    webId: web.workflow.id,
+    designDocId: designDoc.scratchpad.id,
+    deprecatedId: deprecated.scratchpad.id,
+    webNotesId: webNotes.scratchpad.id,
+  };
+};
+
+describe.each([
+  { label: 'FTS5', withFTS5: true, method: 'fts5' },
+  { label: 'LIKE fallback', withFTS5: false, method: 'like' },
+])('query language in search tools ($label)', ({ withFTS5, method }) => {
+  let db: ScratchpadDatabase;
+  let ids: Awaited<ReturnType<typeof seed>>;
+
+  beforeEach(async () => {
+    db = createDatabase(withFTS5);
+    ids = await seed(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const searchAll = async (query: string) => {
+    const result = await searchAllScratchpadsTool(db)({ query });
+    expect(result.search_method).toBe(method);
+    return result.results.map((r) => r.scratchpad.id).sort();
+  };
+
+  it('should match title phrases and exclude negated terms', async () => {
+    expect(await searchAll('title:"design doc"')).toEqual(
+      [ids.designDocId, ids.deprecatedId].sort()
+    );
+    expect(await searchAll('title:"design doc" AND -deprecated')).toEqual([ids.designDocId]);
+    expect(await searchAll('title:"design doc" NOT content:deprecated')).toEqual([ids.designDocId]);
+  });
+
+  it('should support OR groups and prefix wildcards', async () => {
+    expect(await searchAll('redis OR login')).toEqual([ids.designDocId, ids.webNotesId].sort());
+    expect(await searchAll('auth*')).toEqual(
+      [ids.designDocId, ids.deprecatedId, ids.webNotesId].sort()
+    );
+    expect(await searchAll('auth* -(redis OR login)')).toEqual([ids.deprecatedId]);
+  });
+
+  it('should filter by workflow, scope and updated date', async () => {
+    expect(await searchAll('design workflow:"infra migration"')).toEqual(
+      [ids.designDocId, ids.deprecatedId].sort()
+    );
+    expect(await searchAll(`design workflow:${ids.webId}`)).toEqual([ids.webNotesId]);
+    expect(await searchAll('design scope:web')).toEqual([ids.webNotesId]);
+    expect(await searchAll('design updated:>2026-01-01')).toEqual(
+      [ids.designDocId, ids.webNotesId].sort()
+    );
+  });
+
+  it('should run filter-only queries', async () => {
+    const result = await searchAllScratchpadsTool(db)({
+      query: 'scope:infra updated:<2026-01-01',
+    });
+
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.deprecatedId]);
+    expect(result.results[0]!.scratchpad.snippet).toBe(
+      'Deprecated approach using authorization headers.'
+    );
+  });
+
+  it('should highlight matched terms of the query', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: '(title:login OR redis) -form' });
+
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.designDocId]);
+    expect(result.results[0]!.scratchpad.snippet).toContain('**redis**');
+  });
+
+  it('should apply the syntax in search-scratchpads', async () => {
+    const result = await searchScratchpadsTool(db)({
+      query: 'title:"design doc" -deprecated',
+      workflow_id: ids.infraId,
+    });
+
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([ids.designDocId]);
+  });
+
+  it('should apply the syntax in search-workflows', async () => {
+    const byName = await searchWorkflowsTool(db)({ query: 'workflow:migration OR title:web' });
+    expect(byName.results.map((r) => r.workflow.id).sort()).toEqual(
+      [ids.infraId, ids.webId].sort()
+    );
+
+    const filtered = await searchWorkflowsTool(db)({ query: 'content:cluster scope:infra' });
+    expect(filtered.results.map((r) => r.workflow.id)).toEqual([ids.infraId]);
+
+    const filterOnly = await searchWorkflowsTool(db)({ query: 'scope:web' });
+    expect(filterOnly.results.map((r) => r.workflow.id)).toEqual([ids.webId]);
+  });
+
+  it('should report syntax errors', async () => {
+    await expect(searchAllScratchpadsTool(db)({ query: '(design' })).rejects.toThrow(
+      "Invalid search query at position 0: missing ')'"
+    );
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Search Workflows Hybrid Ranking Tests
+ *
+ * Tests the reciprocal-rank-fusion mode of search-workflows: signal fusion,
+ * per-call weights, the explanation object and the optional semantic signal.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  searchWorkflowsTool,
+} from '../src/tools/index.js';
+import { BlockEmbeddingIndex, type EmbeddingProvider } from '../src/embeddings/index.js';
+
+// 以概念群組模擬語意向量：同義詞映射到同一維度
+const conceptProvider: EmbeddingProvider = {
+  name: 'stub',
+  label: 'Concept test provider',
+  model: 'concepts',
+  embed: async (texts: string[]) =>
+    texts.map((text) => [
+      /redis|cache/i.test(text) ? 1 : 0,
+      /login|auth/i.test(text) ? 1 : 0,
+      0.01,
+    ]),
+};
+
+describe('search-workflows ranking: rrf', () => {
+  let db: ScratchpadDatabase;
+  let nameMatchId: string;
+  let contentMatchId: string;
+  let semanticMatchId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+
+    const nameMatch = await createWorkflowTool(db)({
+      name: 'Redis rollout',
+      description: 'Redis cluster migration',
+      project_scope: 'infra',
+    });
+    nameMatchId = nameMatch.workflow.id;
+    await createScratchpadTool(db)({
+      workflow_id: nameMatchId,
+      title: 'Plan',
+      content: 'Provision redis nodes',
+    });
+
+    // 只有 scratchpad 內容提到 redis，workflow 名稱不符
+    const contentMatch = await createWorkflowTool(db)({ name: 'Performance review' });
+    contentMatchId = contentMatch.workflow.id;
+    await createScratchpadTool(db)({
+      workflow_id: contentMatchId,
+      title: 'Findings',
+      content: 'Latency spikes traced to redis eviction; redis memory too small',
+    });
+
+    // 沒有字面命中，只有語意相關
+    const semanticMatch = await createWorkflowTool(db)({ name: 'Architecture decisions' });
+    semanticMatchId = semanticMatch.workflow.id;
+    await createScratchpadTool(db)({
+      workflow_id: semanticMatchId,
+      title: 'ADR-7',
+      content: 'Removed the cache layer',
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should keep the weighted mode as default without explanations', async () => {
+    const result = await searchWorkflowsTool(db)({ query: 'redis' });
+
+    expect(result.ranking).toBe('weighted');
+    expect(result.results.map((r) => r.workflow.id)).toEqual([nameMatchId]);
+    expect(result.results[0]!.explanation).toBeUndefined();
+  });
+
+  it('should fuse workflow and scratchpad signals and explain contributions', async () => {
+    const result = await searchWorkflowsTool(db)({ query: 'redis', ranking: 'rrf' });
+
+    expect(result.ranking).toBe('rrf');
+    expect(result.message).toContain('reciprocal rank fusion');
+    expect(result.results.map((r) => r.workflow.id)).toEqual([nameMatchId, contentMatchId]);
+
+    const [top, second] = result.results;
+    const explanation = top!.explanation!;
+    expect(explanation.method).toBe('rrf');
+    expect(explanation.k).toBe(60);
+    expect(explanation.signals.workflow_fts).toMatchObject({ available: true, rank: 1, weight: 1 });
+    expect(explanation.signals.keyword.rank).toBe(1);
+    expect(explanation.signals.jieba).toMatchObject({
+      available: false,
+      rank: null,
+      contribution: 0,
+    });
+    expect(explanation.signals.semantic).toMatchObject({ available: false, contribution: 0 });
+
+    const total = Object.values(explanation.signals).reduce((sum, s) => sum + s.contribution, 0);
+    expect(top!.score).toBeCloseTo(total);
+
+    expect(second!.explanation!.signals.workflow_fts.rank).toBeNull();
+    expect(second!.explanation!.signals.scratchpad_bm25.rank).not.toBeNull();
+  });
+
+  it('should apply per-call weights and rrf_k', async () => {
+    const result = await searchWorkflowsTool(db)({
+      query: 'redis',
+      ranking: 'rrf',
+      rrf_k: 10,
+      weights: { workflow_fts: 0, keyword: 0, scratchpad_bm25: 2 },
+    });
+
+    // 內容命中較多次的 workflow 在 scratchpad BM25 排第一
+    const top = result.results[0]!;
+    expect(top.workflow.id).toBe(contentMatchId);
+    expect(top.explanation!.signals.workflow_fts).toMatchObject({ available: false, weight: 0 });
+    expect(top.explanation!.signals.scratchpad_bm25).toMatchObject({
+      rank: 1,
+      weight: 2,
+      contribution: 2 / 11,
+    });
+  });
+
+  it('should add the semantic signal when an embedding index is available', async () => {
+    const index = new BlockEmbeddingIndex(db, conceptProvider);
+    const result = await searchWorkflowsTool(db, index)({ query: 'redis', ranking: 'rrf' });
+
+    const ids = result.results.map((r) => r.workflow.id);
+    expect(ids).toContain(semanticMatchId);
+    expect(ids.indexOf(semanticMatchId)).toBeGreaterThan(ids.indexOf(nameMatchId));
+
+    const semantic = result.results.find((r) => r.workflow.id === semanticMatchId)!;
+    expect(semantic.explanation!.signals.semantic).toMatchObject({ available: true });
+    expect(semantic.explanation!.signals.semantic.value).toBeGreaterThan(0.9);
+    expect(semantic.explanation!.signals.keyword.rank).toBeNull();
+  });
+
+  it('should respect project scope in every signal', async () => {
+    const result = await searchWorkflowsTool(db)({
+      query: 'redis',
+      ranking: 'rrf',
+      project_scope: 'infra',
+    });
+
+    expect(result.results.map((r) => r.workflow.id)).toEqual([nameMatchId]);
+  });
+
+  it('should rank scratchpad hits beyond the first page of results', async () => {
+    for (let i = 0; i < 60; i++) {
+      const workflow = db.createWorkflow({ name: `Service ${i}` });
+      db.createScratchpad({ workflow_id: workflow.id, title: 'Notes', content: 'redis timeouts' });
+    }
+
+    const result = await searchWorkflowsTool(db)({
+      query: 'redis',
+      ranking: 'rrf',
+      limit: 1,
+      weights: { workflow_fts: 0, jieba: 0, keyword: 0 },
+    });
+
+    // 62 個 workflow 的 scratchpad 命中，超過 searchAllScratchpads 單頁 50 筆
+    expect(result.pagination.total_results).toBe(62);
+    expect(result.results[0]!.explanation!.signals.scratchpad_bm25.note).toContain(
+      'Best hit per workflow from 62 of 62 matching scratchpad(s)'
+    );
+    expect(result.results[0]!.explanation!.signals.keyword.note).toBeUndefined();
+  });
+
+  it('should reject negative weights', async () => {
+    await expect(
+      searchWorkflowsTool(db)({ query: 'redis', ranking: 'rrf', weights: { keyword: -1 } })
+    ).rejects.toThrow('Invalid weight for keyword');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Section Editing Tests
+ *
+ * Tests the replace_section / delete_section / prepend_section / rename_section modes of
+ * update-scratchpad, including nested subsections and ambiguous headers.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createScratchpadTool,
+  createWorkflowTool,
+  enhancedUpdateScratchpadTool,
+  getScratchpadOutlineTool,
+  LineEditor,
+} from '../src/tools/index.js';
+import { validateEnhancedUpdateScratchpadArgs } from '../src/server-helpers.js';
+
+const REPORT = [
+  '# Report',
+  'Intro',
+  '',
+  '## Status',
+  'In progress',
+  '',
+  '### Notes',
+  'status note',
+  '',
+  '## Risks',
+  'None yet',
+  '',
+  '### Notes',
+  'risk note',
+].join('\n');
+
+const edit = (
+  mode: 'replace_section' | 'delete_section' | 'prepend_section' | 'rename_section',
+  section_marker: string,
+  content = ''
+) => LineEditor.processEdit(REPORT, { id: 'x', mode, content, section_marker });
+
+describe('LineEditor section modes', () => {
+  it('replaces the body of a section including its nested subsections', () => {
+    const { newContent, operationDetails } = edit('replace_section', '## Status', 'Done');
+
+    expect(newContent).toBe(
+      [
+        '# Report',
+        'Intro',
+        '',
+        '## Status',
+        'Done',
+        '',
+        '## Risks',
+        'None yet',
+        '',
+        '### Notes',
+        'risk note',
+      ].join('\n')
+    );
+    expect(operationDetails.section).toEqual({
+      header: '## Status',
+      level: 2,
+      start_line: 4,
+      end_line: 9,
+    });
+  });
+
+  it('scopes a subsection to its parent with "Parent > Child"', () => {
+    const { newContent } = edit('replace_section', '## Risks > ### Notes', 'updated risk note');
+
+    expect(newContent.split('\n').slice(7)).toEqual([
+      'status note',
+      '',
+      '## Risks',
+      'None yet',
+      '',
+      '### Notes',
+      'updated risk note',
+    ]);
+  });
+
+  it('matches a header by its text and rejects ambiguous or unknown headers', () => {
+    expect(edit('prepend_section', 'Risks', 'Top risk').newContent.split('\n')[10]).toBe(
+      'Top risk'
+    );
+    expect(() => edit('replace_section', '### Notes', 'x')).toThrow(
+      'Section marker "### Notes" matches 2 headers (lines 7, 13)'
+    );
+    expect(() => edit('replace_section', '## Missing', 'x')).toThrow(
+      'Section not found: ## Missing'
+    );
+    expect(() => edit('replace_section', '## Status > Risks', 'x')).toThrow(
+      'Section not found: Risks'
+    );
+  });
+
+  it('deletes a section with its subsections', () => {
+    expect(edit('delete_section', '## Status').newContent).toBe(
+      ['# Report', 'Intro', '', '## Risks', 'None yet', '', '### Notes', 'risk note'].join('\n')
+    );
+    // 最後一個章節：連同前面的空白分隔行一起移除
+    expect(edit('delete_section', '## Risks').newContent).toBe(
+      ['# Report', 'Intro', '', '## Status', 'In progress', '', '### Notes', 'status note'].join(
+        '\n'
+      )
+    );
+  });
+
+  it('prepends right after the header', () => {
+    const { newContent, operationDetails } = edit('prepend_section', '## Status', 'Owner: alice');
+
+    expect(newContent.split('\n').slice(3, 6)).toEqual([
+      '## Status',
+      'Owner: alice',
+      'In progress',
+    ]);
+    expect(operationDetails.insertion_point).toBe(5);
+  });
+
+  it('renames a header keeping its level', () => {
+    const { newContent } = edit('rename_section', '## Status > ### Notes', 'Status notes');
+
+    expect(newContent.split('\n')[6]).toBe('### Status notes');
+    expect(() => edit('rename_section', '## Status', 'two\nlines')).toThrow('single line');
+  });
+});
+
+describe('LineEditor section modes with fenced code blocks', () => {
+  const SETUP = [
+    '## Setup',
+    '```bash',
+    '# install deps',
+    'npm ci',
+    '```',
+    '',
+    '## Status',
+    'ok',
+  ].join('\n');
+
+  const editSetup = (
+    mode: 'replace_section' | 'delete_section' | 'prepend_section' | 'rename_section',
+    section_marker: string,
+    content = ''
+  ) => LineEditor.processEdit(SETUP, { id: 'x', mode, content, section_marker });
+
+  it('replaces the whole section including the fenced block', () => {
+    const { newContent, operationDetails } = editSetup('replace_section', '## Setup', 'new body');
+
+    expect(newContent).toBe('## Setup\nnew body\n\n## Status\nok');
+    expect(operationDetails.section).toMatchObject({ start_line: 1, end_line: 6 });
+  });
+
+  it('deletes the whole section including the fenced block', () => {
+    expect(editSetup('delete_section', '## Setup').newContent).toBe('## Status\nok');
+  });
+
+  it('prepends after the real header, not the fenced comment', () => {
+    expect(editSetup('prepend_section', '## Setup', 'Run first:').newContent.split('\n')).toEqual([
+      '## Setup',
+      'Run first:',
+      '```bash',
+      '# install deps',
+      'npm ci',
+      '```',
+      '',
+      '## Status',
+      'ok',
+    ]);
+  });
+
+  it('does not treat a fenced comment as a section', () => {
+    expect(() => editSetup('rename_section', '# install deps', 'x')).toThrow(
+      'Section not found: # install deps'
+    );
+    expect(editSetup('rename_section', 'Setup', 'Install').newContent.split('\n')[0]).toBe(
+      '## Install'
+    );
+  });
+});
+
+describe('update-scratchpad section modes', () => {
+  let db: ScratchpadDatabase;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Reports' });
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflow.workflow.id,
+      title: 'Weekly',
+      content: REPORT,
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('edits a section by header and keeps the outline consistent', async () => {
+    const update = enhancedUpdateScratchpadTool(db);
+
+    const replaced = await update({
+      id: scratchpadId,
+      mode: 'replace_section',
+      section_marker: '## Status',
+      content: 'Shipped\n\n### Follow-ups\n- docs',
+    });
+    expect(replaced.message).toContain('Replaced section "## Status" (lines 4-9)');
+    expect(replaced.scratchpad.version).toBe(2);
+
+    const renamed = await update({
+      id: scratchpadId,
+      mode: 'rename_section',
+      section_marker: 'Risks',
+      content: 'Open risks',
+      expected_version: 2,
+    });
+    expect(renamed.message).toContain('Renamed section "## Risks"');
+
+    const { outline } = await getScratchpadOutlineTool(db)({ id: scratchpadId });
+    expect(outline.headers.map((header) => `${header.level}:${header.text}`)).toEqual([
+      '1:Report',
+      '2:Status',
+      '3:Follow-ups',
+      '2:Open risks',
+      '3:Notes',
+    ]);
+  });
+
+  it('wraps section errors like other update errors', async () => {
+    await expect(
+      enhancedUpdateScratchpadTool(db)({
+        id: scratchpadId,
+        mode: 'delete_section',
+        section_marker: '## Nope',
+        content: '',
+      })
+    ).rejects.toThrow('Failed to update scratchpad: Section not found: ## Nope');
+    expect(db.getScratchpadById(scratchpadId)!.version).toBe(1);
+  });
+
+  it('validates section mode arguments', () => {
+    expect(
+      validateEnhancedUpdateScratchpadArgs({
+        id: 'a',
+        mode: 'delete_section',
+        content: '',
+        section_marker: ' ## Status ',
+      })
+    ).toEqual({ id: 'a', mode: 'delete_section', content: '', section_marker: '## Status' });
+    expect(() =>
+      validateEnhancedUpdateScratchpadArgs({ id: 'a', mode: 'replace_section', content: 'x' })
+    ).toThrow('section_marker is required for replace_section mode');
+    expect(() =>
+      validateEnhancedUpdateScratchpadArgs({
+        id: 'a',
+        mode: 'rename_section',
+        content: ' ',
+        section_marker: 'Status',
+      })
+    ).toThrow('single line for rename_section mode');
+    expect(() =>
+      validateEnhancedUpdateScratchpadArgs({
+        id: 'a',
+        mode: 'prepend_section',
+        content: 'x',
+        section_marker: 'Status',
+        line_number: 3,
+      })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Semantic Search Tests
+ *
+ * Tests embedding provider selection, the block embedding index (incremental
+ * updates from write events, vector reuse, line anchors, deletes) and
+ * the semantic-search tool.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  appendScratchpadTool,
+  deleteScratchpadTool,
+  deleteWorkflowTool,
+  semanticSearchTool,
+} from '../src/tools/index.js';
+import {
+  BlockEmbeddingIndex,
+  EmbeddingConfigurationError,
+  createEmbeddingProvider,
+  createStubEmbeddingProvider,
+  createTransformersEmbeddingProvider,
+  resolveEmbeddingConfig,
+  cosineSimilarity,
+  type EmbeddingProvider,
+} from '../src/embeddings/index.js';
+
+const mockEmbeddingsCreate = vi.fn();
+const mockOpenAIConstructor = vi.fn();
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation((options: unknown) => {
+    mockOpenAIConstructor(options);
+    return { embeddings: { create: mockEmbeddingsCreate } };
+  }),
+}));
+
+// 以概念群組模擬語意向量：同義詞映射到同一維度
+const CONCEPTS = [
+  ['redis', 'cache', 'caching'],
+  ['auth', 'login', 'password'],
+  ['deploy', 'release', 'rollout'],
+];
+
+const createConceptProvider = (): EmbeddingProvider & { calls: string[][] } => {
+  const calls: string[][] = [];
+  return {
+    name: 'stub',
+    label: 'Concept test provider',
+    model: 'concepts',
+    calls,
+    embed: async (texts: string[]) => {
+      calls.push(texts);
+      return texts.map((text) => [
+        ...CONCEPTS.map((words) =>
+          words.some((word) => text.toLowerCase().includes(word)) ? 1 : 0
+        ),
+        0.01,
+      ]);
+    },
+  };
+};
+
+describe('resolveEmbeddingConfig', () => {
+  it('should be disabled unless a provider or base URL is configured', () => {
+    expect(resolveEmbeddingConfig({})).toBeNull();
+    expect(resolveEmbeddingConfig({ OPENAI_API_KEY: 'sk' })).toBeNull();
+  });
+
+  it('should auto-detect an OpenAI-compatible base URL', () => {
+    expect(
+      resolveEmbeddingConfig({ SCRATCHPAD_EMBEDDING_BASE_URL: 'http://localhost:11434/v1' })
+    ).toMatchObject({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' });
+  });
+
+  it('should use OPENAI_API_KEY for the explicit OpenAI provider', () => {
+    expect(
+      resolveEmbeddingConfig({ SCRATCHPAD_EMBEDDING_PROVIDER: 'OpenAI', OPENAI_API_KEY: 'sk' })
+    ).toMatchObject({ provider: 'openai', apiKey: 'sk' });
+  });
+
+  it('should reject unknown providers and missing settings', () => {
+    expect(() => resolveEmbeddingConfig({ SCRATCHPAD_EMBEDDING_PROVIDER: 'faiss' })).toThrow(
+      EmbeddingConfigurationError
+    );
+    expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow('OPENAI_API_KEY');
+    expect(() => createEmbeddingProvider({ provider: 'openai-compatible' })).toThrow(
+      'SCRATCHPAD_EMBEDDING_BASE_URL'
+    );
+  });
+});
+
+describe('embedding providers', () => {
+  beforeEach(() => {
+    mockEmbeddingsCreate.mockReset();
+    mockOpenAIConstructor.mockReset();
+  });
+
+  it('should call /v1/embeddings and keep input order', async () => {
+    mockEmbeddingsCreate.mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    });
+    const provider = createEmbeddingProvider({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+    });
+
+    expect(await provider.embed(['a', 'b'])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(mockOpenAIConstructor).toHaveBeenCalledWith({
+      baseURL: 'http://localhost:11434/v1',
+      apiKey: 'not-needed',
+    });
+    expect(mockEmbeddingsCreate).toHaveBeenCalledWith({
+      model: 'nomic-embed-text',
+      input: ['a', 'b'],
+    });
+  });
+
+  it('should produce deterministic normalized stub vectors', async () => {
+    const provider = createStubEmbeddingProvider();
+    const [first, second, other] = await provider.embed([
+      'cache layer',
+      'Cache layer',
+      'login flow',
+    ]);
+
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first!, first!)).toBeCloseTo(1);
+    expect(cosineSimilarity(first!, other!)).toBeLessThan(1);
+  });
+
+  it('should report a configuration error when transformers.js is not installed', async () => {
+    const provider = createTransformersEmbeddingProvider();
+    await expect(provider.embed(['text'])).rejects.toThrow(EmbeddingConfigurationError);
+  });
+});
+
+describe('BlockEmbeddingIndex', () => {
+  let db: ScratchpadDatabase;
+  let provider: ReturnType<typeof createConceptProvider>;
+  let index: BlockEmbeddingIndex;
+  let workflowId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    provider = createConceptProvider();
+    index = new BlockEmbeddingIndex(db, provider);
+    index.start();
+    const workflow = await createWorkflowTool(db)({ name: 'Infra', project_scope: 'infra' });
+    workflowId = workflow.workflow.id;
+  });
+
+  afterEach(async () => {
+    await index.stop();
+    db.close();
+  });
+
+  it('should index blocks incrementally from write events', async () => {
+    const created = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Notes',
+      content: 'Kickoff\nagenda',
+    });
+    await index.whenIdle();
+    expect(provider.calls).toEqual([['Notes\n\nKickoff\nagenda']]);
+
+    await appendScratchpadTool(db)({
+      id: created.scratchpad.id,
+      content: 'Removed the cache layer',
+    });
+    await index.whenIdle();
+
+    // 只嵌入新 block，既有 block 重用向量
+    expect(provider.calls[1]).toEqual(['Notes\n\nRemoved the cache layer']);
+    const stored = db.getBlockEmbeddings(created.scratchpad.id, index.modelKey);
+    expect(stored.map((entry) => [entry.block_index, entry.start_line, entry.end_line])).toEqual([
+      [0, 1, 2],
+      [1, 6, 6],
+    ]);
+  });
+
+  it('should find blocks by meaning with line anchors', async () => {
+    const created = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Decisions',
+      content: 'Switched login to OAuth',
+    });
+    await appendScratchpadTool(db)({
+      id: created.scratchpad.id,
+      content: 'Removed the cache layer',
+    });
+    await index.whenIdle();
+
+    const { hits } = await index.search({
+      query: 'why did we drop Redis',
+      limit: 1,
+      min_score: 0.5,
+    });
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      scratchpad_id: created.scratchpad.id,
+      workflow_id: workflowId,
+      block_index: 1,
+      start_line: 5,
+      end_line: 5,
+      content: 'Removed the cache layer',
+    });
+  });
+
+  it('should index existing scratchpads on first search', async () => {
+    await index.stop();
+    await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Legacy',
+      content: 'Release checklist',
+    });
+    expect(provider.calls).toHaveLength(0);
+
+    const result = await index.search({ query: 'deploy steps', limit: 5, min_score: 0.5 });
+
+    expect(result.indexed).toEqual({ scratchpads: 1, embedded: 1, reused: 0 });
+    expect(result.hits[0]?.content).toBe('Release checklist');
+
+    // 再次搜尋不需重新嵌入
+    const again = await index.search({ query: 'deploy steps', limit: 5, min_score: 0.5 });
+    expect(again.indexed.embedded).toBe(0);
+  });
+
+  it('should index every scratchpad of a large workflow', async () => {
+    const large = new ScratchpadDatabase({
+      filename: ':memory:',
+      limits: { max_scratchpads_per_workflow: 150 },
+    });
+    try {
+      const workflow = await createWorkflowTool(large)({ name: 'Archive' });
+      for (let i = 0; i < 120; i++) {
+        large.createScratchpad({
+          workflow_id: workflow.workflow.id,
+          title: `Note ${i}`,
+          content: `cache ${i}`,
+        });
+      }
+
+      const stats = await new BlockEmbeddingIndex(large, provider).sync();
+
+      expect(stats).toEqual({ scratchpads: 120, embedded: 120, reused: 0 });
+    } finally {
+      large.close();
+    }
+  });
+
+  it('should drop embeddings when a scratchpad is deleted', async () => {
+    const created = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Temp',
+      content: 'cache notes',
+    });
+    await index.whenIdle();
+    expect(db.getBlockEmbeddings(created.scratchpad.id, index.modelKey)).toHaveLength(1);
+
+    await deleteScratchpadTool(db)({ id: created.scratchpad.id });
+    await index.whenIdle();
+
+    expect(db.getBlockEmbeddings(created.scratchpad.id, index.modelKey)).toHaveLength(0);
+    expect(db.listBlockEmbeddings({ model: index.modelKey })).toHaveLength(0);
+  });
+
+  it('should drop embeddings on a reopened database without foreign keys', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-embeddings-'));
+    const filename = path.join(tempDir, 'scratchpad.db');
+    try {
+      const fileDb = new ScratchpadDatabase({ filename });
+      const fileIndex = new BlockEmbeddingIndex(fileDb, provider);
+      fileIndex.start();
+      const workflow = await createWorkflowTool(fileDb)({ name: 'Infra' });
+      const ids: string[] = [];
+      for (const title of ['First', 'Second', 'Third']) {
+        const created = await createScratchpadTool(fileDb)({
+          workflow_id: workflow.workflow.id,
+          title,
+          content: 'cache notes',
+        });
+        ids.push(created.scratchpad.id);
+      }
+      await fileIndex.stop();
+      fileDb.close();
+
+      // 重新開啟時 schema 版本相同，不會執行 initializeSchema；foreign_keys 是否啟用取決於
+      // SQLite 編譯預設值，這裡明確關閉以確認刪除不依賴 ON DELETE CASCADE
+      const reopened = new ScratchpadDatabase({ filename });
+      try {
+        (reopened as any).db.pragma('foreign_keys = OFF');
+        expect(reopened.listBlockEmbeddings({ model: index.modelKey })).toHaveLength(3);
+
+        await deleteScratchpadTool(reopened)({ id: ids[0]! });
+        expect(reopened.getBlockEmbeddings(ids[0]!, index.modelKey)).toHaveLength(0);
+        expect(reopened.listBlockEmbeddings({ model: index.modelKey })).toHaveLength(2);
+
+        await deleteWorkflowTool(reopened)({ workflow_id: workflow.workflow.id });
+        expect(reopened.listBlockEmbeddings({ model: index.modelKey })).toHaveLength(0);
+      } finally {
+        reopened.close();
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('semantic-search tool', () => {
+  let db: ScratchpadDatabase;
+  let index: BlockEmbeddingIndex;
+  let workflowA: string;
+  let workflowB: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    index = new BlockEmbeddingIndex(db, createConceptProvider());
+    workflowA = (await createWorkflowTool(db)({ name: 'A', project_scope: 'alpha' })).workflow.id;
+    workflowB = (await createWorkflowTool(db)({ name: 'B', project_scope: 'beta' })).workflow.id;
+    await createScratchpadTool(db)({
+      workflow_id: workflowA,
+      title: 'One',
+      content: 'Dropped redis',
+    });
+    await createScratchpadTool(db)({
+      workflow_id: workflowB,
+      title: 'Two',
+      content: 'Cache TTL tuning',
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should return block-level hits with anchors', async () => {
+    const result = await semanticSearchTool(db, index)({ query: 'caching', min_score: 0.5 });
+
+    expect(result.count).toBe(2);
+    expect(result.provider).toBe('stub');
+    expect(result.model).toBe('concepts');
+    expect(result.index_updates).toEqual({ scratchpads: 2, embedded: 2 });
+    expect(result.results[0]).toMatchObject({
+      workflow: { name: expect.any(String) },
+      block: { index: 0, start_line: 1, end_line: 1 },
+    });
+  });
+
+  it('should filter by workflow and project scope and truncate content', async () => {
+    const byWorkflow = await semanticSearchTool(
+      db,
+      index
+    )({ query: 'cache', workflow_id: workflowA });
+    expect(byWorkflow.results.map((r) => r.workflow.id)).toEqual([workflowA]);
+
+    const byScope = await semanticSearchTool(
+      db,
+      index
+    )({
+      query: 'cache',
+      project_scope: 'beta',
+      max_content_chars: 5,
+    });
+    expect(byScope.results).toHaveLength(1);
+    expect(byScope.results[0]!.block).toMatchObject({
+      content: 'Cache...',
+      content_truncated: true,
+    });
+  });
+
+  it('should fail clearly when no provider is configured', async () => {
+    const original = process.env['SCRATCHPAD_EMBEDDING_PROVIDER'];
+    delete process.env['SCRATCHPAD_EMBEDDING_PROVIDER'];
+    try {
+      await expect(semanticSearchTool(db)({ query: 'cache' })).rejects.toThrow(
+        'Semantic search is not configured'
+      );
+    } finally {
+      if (original !== undefined) {
+        process.env['SCRATCHPAD_EMBEDDING_PROVIDER'] = original;
+      }
+    }
+  });
+
+  it('should reject unknown workflows', async () => {
+    await expect(
+      semanticSearchTool(db, index)({ query: 'cache', workflow_id: 'missing' })
+    ).rejects.toThrow('Workflow not found: missing');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Tags & Metadata Tests
+ *
+ * Tests tagging and key/value metadata on workflows and scratchpads: normalization,
+ * merge semantics, list/search filters, FTS indexing of tags and trash round-trips.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createWorkflowTool,
+  createScratchpadTool,
+  deleteWorkflowTool,
+  getWorkflowTool,
+  listWorkflowsTool,
+  listScratchpadsTool,
+  restoreFromTrashTool,
+  searchAllScratchpadsTool,
+  searchWorkflowsTool,
+  setScratchpadMetadataTool,
+  setWorkflowMetadataTool,
+  tagScratchpadTool,
+  tagWorkflowTool,
+} from '../src/tools/index.js';
+import { createDatabase } from './helpers/database.js';
+
+describe('tag and metadata tools', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let scratchpadId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Release' });
+    workflowId = workflow.workflow.id;
+    const scratchpad = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Checklist',
+      content: 'Ship it',
+    });
+    scratchpadId = scratchpad.scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should start with empty tags and metadata', () => {
+    expect(db.getWorkflowById(workflowId)).toMatchObject({ tags: [], metadata: {} });
+    expect(db.getScratchpadById(scratchpadId)).toMatchObject({ tags: [], metadata: {} });
+  });
+
+  it('should normalize, add and remove scratchpad tags', async () => {
+    const before = db.getScratchpadById(scratchpadId)!;
+
+    const added = await tagScratchpadTool(db)({
+      id: scratchpadId,
+      add: ['#Blocked', 'backend', 'blocked', 'team:core'],
+    });
+    expect(added.scratchpad.tags).toEqual(['backend', 'blocked', 'team:core']);
+    expect(added.added).toEqual(['backend', 'blocked', 'team:core']);
+    expect(added.message).toContain('added backend, blocked, team:core');
+
+    const removed = await tagScratchpadTool(db)({ id: scratchpadId, remove: ['BLOCKED'] });
+    expect(removed.scratchpad.tags).toEqual(['backend', 'team:core']);
+    expect(removed.removed).toEqual(['blocked']);
+
+    const updated = db.getScratchpadById(scratchpadId)!;
+    expect(updated.tags).toEqual(['backend', 'team:core']);
+    expect(updated.version).toBe(before.version + 2);
+  });
+
+  it('should replace tags with set before applying add and remove', async () => {
+    await tagWorkflowTool(db)({ workflow_id: workflowId, add: ['old', 'keep'] });
+
+    const result = await tagWorkflowTool(db)({
+      workflow_id: workflowId,
+      set: ['keep', 'new'],
+      add: ['extra'],
+      remove: ['new'],
+    });
+
+    expect(result.workflow.tags).toEqual(['extra', 'keep']);
+    expect(result.added).toEqual(['extra']);
+    expect(result.removed).toEqual(['old']);
+    expect(db.getWorkflowById(workflowId)!.tags).toEqual(['extra', 'keep']);
+  });
+
+  it('should reject invalid tags and empty requests', async () => {
+    await expect(tagScratchpadTool(db)({ id: scratchpadId, add: ['two words'] })).rejects.toThrow(
+      'Failed to tag scratchpad: Invalid tag: "two words"'
+    );
+    await expect(tagScratchpadTool(db)({ id: scratchpadId, add: ['  '] })).rejects.toThrow(
+      'Tag cannot be empty'
+    );
+    await expect(
+      tagScratchpadTool(db)({
+        id: scratchpadId,
+        add: Array.from({ length: 21 }, (_, i) => `t${i}`),
+      })
+    ).rejects.toThrow('Too many tags: 21 (max: 20)');
+    await expect(tagScratchpadTool(db)({ id: scratchpadId })).rejects.toThrow(
+      'Provide at least one of add, remove or set'
+    );
+    await expect(tagWorkflowTool(db)({ workflow_id: 'missing', add: ['x'] })).rejects.toThrow(
+      'Workflow not found: missing'
+    );
+  });
+
+  it('should merge workflow metadata and delete keys set to null', async () => {
+    await setWorkflowMetadataTool(db)({
+      workflow_id: workflowId,
+      metadata: { status: 'blocked', owner: 'dana', priority: 1 },
+    });
+
+    const result = await setWorkflowMetadataTool(db)({
+      workflow_id: workflowId,
+      metadata: { status: 'in-progress', owner: null, links: { ticket: 'OPS-12' } },
+    });
+
+    expect(result.workflow.metadata).toEqual({
+      status: 'in-progress',
+      priority: 1,
+      links: { ticket: 'OPS-12' },
+    });
+    expect(result.updated_keys).toEqual(['status', 'links']);
+    expect(result.removed_keys).toEqual(['owner']);
+
+    const workflow = await getWorkflowTool(db)({ workflow_id: workflowId });
+    expect(workflow.workflow.metadata).toEqual(result.workflow.metadata);
+  });
+
+  it('should replace scratchpad metadata when requested', async () => {
+    await setScratchpadMetadataTool(db)({ id: scratchpadId, metadata: { a: 1, b: 2 } });
+    const result = await setScratchpadMetadataTool(db)({
+      id: scratchpadId,
+      metadata: { c: true },
+      replace: true,
+    });
+
+    expect(result.scratchpad.metadata).toEqual({ c: true });
+    expect(result.removed_keys).toEqual(['a', 'b']);
+    expect(db.getScratchpadById(scratchpadId)!.metadata).toEqual({ c: true });
+  });
+
+  it('should reject invalid metadata', async () => {
+    await expect(
+      setWorkflowMetadataTool(db)({ workflow_id: workflowId, metadata: { 'bad"key': 1 } })
+    ).rejects.toThrow('Invalid metadata key');
+    await expect(
+      setWorkflowMetadataTool(db)({
+        workflow_id: workflowId,
+        metadata: { blob: 'x'.repeat(17000) },
+      })
+    ).rejects.toThrow('Metadata too large');
+    await expect(
+      setWorkflowMetadataTool(db)({ workflow_id: workflowId, metadata: [] as never })
+    ).rejects.toThrow('metadata must be a JSON object');
+  });
+
+  it('should not tag scratchpads of inactive workflows', async () => {
+    db.setWorkflowActiveStatus(workflowId, false);
+
+    await expect(tagScratchpadTool(db)({ id: scratchpadId, add: ['x'] })).rejects.toThrow(
+      'Cannot tag scratchpad: workflow is not active'
+    );
+    // workflow 本身仍可標記（例如標示封存原因）
+    await expect(
+      tagWorkflowTool(db)({ workflow_id: workflowId, add: ['archived'] })
+    ).resolves.toMatchObject({ workflow: { tags: ['archived'] } });
+  });
+
+  it('should keep tags and metadata through trash and restore', async () => {
+    await tagWorkflowTool(db)({ workflow_id: workflowId, add: ['release'] });
+    await setWorkflowMetadataTool(db)({ workflow_id: workflowId, metadata: { quarter: 'Q3' } });
+    await tagScratchpadTool(db)({ id: scratchpadId, add: ['todo'] });
+    await setScratchpadMetadataTool(db)({ id: scratchpadId, metadata: { done: false } });
+
+    const deleted = await deleteWorkflowTool(db)({ workflow_id: workflowId });
+    expect(db.getWorkflows(undefined, { tags: ['release'] })).toEqual([]);
+
+    await restoreFromTrashTool(db)({ trash_id: deleted.trash_id! });
+
+    expect(db.getWorkflowById(workflowId)).toMatchObject({
+      tags: ['release'],
+      metadata: { quarter: 'Q3' },
+    });
+    expect(db.getScratchpadById(scratchpadId)).toMatchObject({
+      tags: ['todo'],
+      metadata: { done: false },
+    });
+    expect(db.getWorkflows(undefined, { tags: ['release'] }).map((w) => w.id)).toEqual([
+      workflowId,
+    ]);
+  });
+});
+
+describe('tag and metadata filters on list tools', () => {
+  let db: ScratchpadDatabase;
+
+  beforeEach(() => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should filter list-workflows by tags and metadata', async () => {
+    const api = await createWorkflowTool(db)({ name: 'API', project_scope: 'app' });
+    const web = await createWorkflowTool(db)({ name: 'Web', project_scope: 'app' });
+    const ops = await createWorkflowTool(db)({ name: 'Ops', project_scope: 'infra' });
+    db.setTags('workflow', api.workflow.id, { add: ['blocked', 'backend'] });
+    db.setTags('workflow', web.workflow.id, { add: ['blocked'] });
+    db.setTags('workflow', ops.workflow.id, { add: ['blocked', 'backend'] });
+    db.setMetadata('workflow', api.workflow.id, { set: { priority: 1, urgent: true } });
+    db.setMetadata('workflow', web.workflow.id, { set: { priority: 2, urgent: false } });
+
+    const ids = async (args: Parameters<ReturnType<typeof listWorkflowsTool>>[0]) =>
+      (await listWorkflowsTool(db)(args)).workflows.map((w) => w.name).sort();
+
+    expect(await ids({ tags: ['blocked'] })).toEqual(['API', 'Ops', 'Web']);
+    expect(await ids({ tags: ['#Blocked', 'backend'] })).toEqual(['API', 'Ops']);
+    expect(await ids({ tags: ['blocked', 'backend'], project_scope: 'app' })).toEqual(['API']);
+    expect(await ids({ metadata: { priority: 2 } })).toEqual(['Web']);
+    expect(await ids({ metadata: { urgent: true } })).toEqual(['API']);
+    expect(await ids({ tags: ['blocked'], metadata: { urgent: false } })).toEqual(['Web']);
+
+    const listed = await listWorkflowsTool(db)({ tags: ['backend'], project_scope: 'app' });
+    expect(listed.workflows[0]).toMatchObject({
+      tags: ['backend', 'blocked'],
+      metadata: { priority: 1, urgent: true },
+    });
+  });
+
+  it('should filter list-scratchpads by tags and metadata', async () => {
+    const workflow = await createWorkflowTool(db)({ name: 'Sprint' });
+    const created = [];
+    for (const title of ['A', 'B', 'C']) {
+      created.push(
+        (
+          await createScratchpadTool(db)({
+            workflow_id: workflow.workflow.id,
+            title,
+            content: title,
+          })
+        ).scratchpad.id
+      );
+    }
+    db.setTags('scratchpad', created[0]!, { add: ['todo'] });
+    db.setTags('scratchpad', created[1]!, { add: ['todo', 'bug'] });
+    db.setMetadata('scratchpad', created[2]!, { set: { status: 'done' } });
+
+    const result = await listScratchpadsTool(db)({
+      workflow_id: workflow.workflow.id,
+      tags: ['todo'],
+    });
+    expect(result.scratchpads.map((s) => s.title).sort()).toEqual(['A', 'B']);
+    expect(result.message).toContain('matching tags: todo');
+
+    const done = await listScratchpadsTool(db)({
+      workflow_id: workflow.workflow.id,
+      metadata: { status: 'done' },
+    });
+    expect(done.scratchpads.map((s) => s.title)).toEqual(['C']);
+    expect(done.scratchpads[0]!.metadata).toEqual({ status: 'done' });
+  });
+});
+
+describe.each([
+  { label: 'FTS5', withFTS5: true, method: 'fts5' },
+  { label: 'LIKE fallback', withFTS5: false, method: 'like' },
+])('tags in search tools ($label)', ({ withFTS5, method }) => {
+  let db: ScratchpadDatabase;
+  let blockedId: string;
+  let readyId: string;
+  let infraId: string;
+  let webId: string;
+
+  beforeEach(async () => {
+    db = createDatabase(withFTS5);
+    infraId = (await createWorkflowTool(db)({ name: 'Infra rollout', project_scope: 'infra' }))
+      .workflow.id;
+    webId = (await createWorkflowTool(db)({ name: 'Web rollout', project_scope: 'web' })).workflow
+      .id;
+    blockedId = (
+      await createScratchpadTool(db)({
+        workflow_id: infraId,
+        title: 'Database rollout',
+        content: 'Waiting on the DBA team',
+      })
+    ).scratchpad.id;
+    readyId = (
+      await createScratchpadTool(db)({
+        workflow_id: webId,
+        title: 'Frontend rollout',
+        content: 'Ready to ship',
+      })
+    ).scratchpad.id;
+
+    await tagScratchpadTool(db)({ id: blockedId, add: ['blocked', 'needs-dba'] });
+    await setScratchpadMetadataTool(db)({ id: blockedId, metadata: { owner: 'dana' } });
+    await tagWorkflowTool(db)({ workflow_id: infraId, add: ['blocked'] });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should match tags as indexed text', async () => {
+    const result = await searchAllScratchpadsTool(db)({ query: 'needs-dba' });
+
+    expect(result.search_method).toBe(method);
+    expect(result.results.map((r) => r.scratchpad.id)).toEqual([blockedId]);
+    expect(result.results[0]!.scratchpad.tags).toEqual(['blocked', 'needs-dba']);
+    expect(result.results[0]!.workflow.tags).toEqual(['blocked']);
+  });
+
+  it('should filter search-all-scratchpads by tags, metadata and tag: queries', async () => {
+    const byArgs = await searchAllScratchpadsTool(db)({ query: 'rollout', tags: ['blocked'] });
+    expect(byArgs.results.map((r) => r.scratchpad.id)).toEqual([blockedId]);
+    expect(byArgs.message).toContain('tags: blocked');
+
+    const byMetadata = await searchAllScratchpadsTool(db)({
+      query: 'rollout',
+      metadata: { owner: 'dana' },
+    });
+    expect(byMetadata.results.map((r) => r.scratchpad.id)).toEqual([blockedId]);
+
+    const negated = await searchAllScratchpadsTool(db)({ query: 'rollout -tag:blocked' });
+    expect(negated.results.map((r) => r.scratchpad.id)).toEqual([readyId]);
+
+    const prefix = await searchAllScratchpadsTool(db)({ query: 'tag:needs*' });
+    expect(prefix.results.map((r) => r.scratchpad.id)).toEqual([blockedId]);
+  });
+
+  it('should filter search-workflows by tags', async () => {
+    const all = await searchWorkflowsTool(db)({ query: 'rollout' });
+    expect(all.results.map((r) => r.workflow.id).sort()).toEqual([infraId, webId].sort());
+
+    const tagged = await searchWorkflowsTool(db)({ query: 'rollout', tags: ['blocked'] });
+    expect(tagged.results.map((r) => r.workflow.id)).toEqual([infraId]);
+    expect(tagged.results[0]!.workflow.tags).toEqual(['blocked']);
+
+    const byQuery = await searchWorkflowsTool(db)({ query: 'rollout tag:blocked' });
+    expect(byQuery.results.map((r) => r.workflow.id)).toEqual([infraId]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Task Tracking Tests
+ *
+ * Tests checklist parsing and the list-tasks / complete-task / add-task tools.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScratchpadDatabase, ScratchpadConflictError } from '../src/database/index.js';
+import {
+  formatTaskLine,
+  parseTaskLine,
+  parseTasks,
+  setTaskLineCompleted,
+} from '../src/tasks/index.js';
+import {
+  addTaskTool,
+  appendScratchpadTool,
+  completeTaskTool,
+  createScratchpadTool,
+  createWorkflowTool,
+  listScratchpadRevisionsTool,
+  listTasksTool,
+} from '../src/tools/index.js';
+
+const PLAN = [
+  '# Plan',
+  '',
+  '## Backlog',
+  '- [ ] Write parser',
+  '  - [x] Sketch grammar',
+  '* [X] Pick a name',
+  '',
+  '```md',
+  '- [ ] not a task',
+  '```',
+  '',
+  '## Done',
+  '1. [x] Set up repo',
+  '- [] not a task either',
+].join('\n');
+
+describe('Task parser', () => {
+  it('parses task lines with status, depth and section', () => {
+    expect(parseTasks(PLAN)).toEqual([
+      {
+        line: 4,
+        text: 'Write parser',
+        completed: false,
+        depth: 0,
+        section: '## Backlog',
+        block_id: null,
+      },
+      {
+        line: 5,
+        text: 'Sketch grammar',
+        completed: true,
+        depth: 1,
+        section: '## Backlog',
+        block_id: null,
+      },
+      {
+        line: 6,
+        text: 'Pick a name',
+        completed: true,
+        depth: 0,
+        section: '## Backlog',
+        block_id: null,
+      },
+      {
+        line: 13,
+        text: 'Set up repo',
+        completed: true,
+        depth: 0,
+        section: '## Done',
+        block_id: null,
+      },
+    ]);
+    expect(parseTasks('')).toEqual([]);
+  });
+
+  it('flips and formats task lines', () => {
+    expect(setTaskLineCompleted('  - [ ] Ship it [ ] later', true)).toBe(
+      '  - [x] Ship it [ ] later'
+    );
+    expect(setTaskLineCompleted('- [X] Ship it', false)).toBe('- [ ] Ship it');
+    expect(() => setTaskLineCompleted('plain text', true)).toThrow('Not a task line');
+    expect(parseTaskLine('- [ ]')).toEqual({ text: '', completed: false, depth: 0 });
+    expect(formatTaskLine('  Review PR  ')).toBe('- [ ] Review PR');
+    expect(() => formatTaskLine('two\nlines')).toThrow('single non-empty line');
+    expect(() => formatTaskLine('   ')).toThrow('single non-empty line');
+  });
+});
+
+describe('Task tools', () => {
+  let db: ScratchpadDatabase;
+  let workflowId: string;
+  let planId: string;
+  let notesId: string;
+
+  beforeEach(async () => {
+    db = new ScratchpadDatabase({ filename: ':memory:' });
+    const workflow = await createWorkflowTool(db)({ name: 'Release' });
+    workflowId = workflow.workflow.id;
+    planId = (
+      await createScratchpadTool(db)({ workflow_id: workflowId, title: 'Plan', content: PLAN })
+    ).scratchpad.id;
+    notesId = (
+      await createScratchpadTool(db)({
+        workflow_id: workflowId,
+        title: 'Notes',
+        content: 'Notes\n- [ ] Update changelog',
+      })
+    ).scratchpad.id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('lists tasks across the workflow with a progress summary', async () => {
+    const result = await listTasksTool(db)({ workflow_id: workflowId });
+
+    expect(result.count).toBe(5);
+    expect(result.tasks[0]).toMatchObject({
+      task_id: `${planId}:4`,
+      scratchpad_id: planId,
+      scratchpad_title: 'Plan',
+      workflow_id: workflowId,
+      text: 'Write parser',
+    });
+    expect(result.progress).toMatchObject({
+      total: 5,
+      completed: 3,
+      open: 2,
+      percent_complete: 60,
+    });
+    expect(result.progress.scratchpads).toEqual([
+      {
+        scratchpad_id: planId,
+        scratchpad_title: 'Plan',
+        total: 4,
+        completed: 3,
+        open: 1,
+        percent_complete: 75,
+      },
+      {
+        scratchpad_id: notesId,
+        scratchpad_title: 'Notes',
+        total: 1,
+        completed: 0,
+        open: 1,
+        percent_complete: 0,
+      },
+    ]);
+    expect(result.message).toContain('3/5 task(s) completed (60%)');
+  });
+
+  it('filters by status, section, query and scratchpad', async () => {
+    const list = listTasksTool(db);
+
+    const open = await list({ workflow_id: workflowId, status: 'open' });
+    expect(open.tasks.map((task) => task.text)).toEqual(['Write parser', 'Update changelog']);
+    // progress 永遠涵蓋整個 workflow
+    expect(open.progress.total).toBe(5);
+
+    const done = await list({ workflow_id: workflowId, section: 'done' });
+    expect(done.tasks.map((task) => task.text)).toEqual(['Set up repo']);
+
+    const query = await list({ workflow_id: workflowId, query: 'CHANGELOG', status: 'open' });
+    expect(query.tasks.map((task) => task.task_id)).toEqual([`${notesId}:2`]);
+
+    const scoped = await list({ workflow_id: workflowId, scratchpad_id: notesId });
+    expect(scoped.progress.total).toBe(1);
+
+    const summary = await list({ workflow_id: workflowId, summary_only: true });
+    expect(summary.tasks).toEqual([]);
+    expect(summary.progress.completed).toBe(3);
+
+    await expect(list({ workflow_id: 'missing' })).rejects.toThrow(
+      'Failed to list tasks: Workflow not found: missing'
+    );
+    await expect(list({ workflow_id: workflowId, scratchpad_id: 'missing' })).rejects.toThrow(
+      'Scratchpad not found in workflow'
+    );
+  });
+
+  it('reports the block ID of tasks written through append', async () => {
+    const appended = await appendScratchpadTool(db)({ id: notesId, content: '- [ ] Tag release' });
+    const result = await listTasksTool(db)({ workflow_id: workflowId, query: 'tag release' });
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0]!.block_id).toBe(appended.block_id);
+  });
+
+  it('completes and reopens a task in place', async () => {
+    const complete = completeTaskTool(db);
+
+    const result = await complete({ id: planId, line: 4, expected_text: 'Write parser' });
+    expect(result.task).toMatchObject({ line: 4, text: 'Write parser', completed: true });
+    expect(result.progress).toEqual({ total: 4, completed: 4, open: 0, percent_complete: 100 });
+    expect(result.scratchpad.version).toBe(2);
+    expect(db.getScratchpadById(planId)!.content).toBe(
+      PLAN.replace('- [ ] Write parser', '- [x] Write parser')
+    );
+
+    const reopened = await complete({ id: planId, line: 5, completed: false });
+    expect(reopened.task.completed).toBe(false);
+    expect(db.getScratchpadById(planId)!.content.split('\n')[4]).toBe('  - [ ] Sketch grammar');
+
+    const revisions = await listScratchpadRevisionsTool(db)({ id: planId });
+    expect(revisions.revisions.map((revision) => revision.operation)).toEqual(
+      expect.arrayContaining(['task:complete', 'task:reopen'])
+    );
+  });
+
+  it('leaves the scratchpad untouched when the task already has the requested state', async () => {
+    const result = await completeTaskTool(db)({ id: planId, line: 6 });
+
+    expect(result.scratchpad.version).toBe(1);
+    expect(result.message).toContain('already completed');
+  });
+
+  it('rejects non-task lines, mismatched text and stale versions', async () => {
+    const complete = completeTaskTool(db);
+
+    await expect(complete({ id: planId, line: 9 })).rejects.toThrow('Line 9 is not a task');
+    await expect(complete({ id: planId, line: 99 })).rejects.toThrow('Line 99 is not a task');
+    await expect(complete({ id: planId, line: 4, expected_text: 'Write lexer' })).rejects.toThrow(
+      'does not match expected_text'
+    );
+    await expect(complete({ id: planId, line: 4, expected_version: 7 })).rejects.toBeInstanceOf(
+      ScratchpadConflictError
+    );
+    expect(db.getScratchpadById(planId)!.version).toBe(1);
+  });
+
+  it('adds a task to a section or to the end', async () => {
+    const add = addTaskTool(db);
+
+    const board = await createScratchpadTool(db)({
+      workflow_id: workflowId,
+      title: 'Board',
+      content: '## Todo\n- [ ] Write parser\n## Later\n- [ ] Write docs',
+    });
+    const inSection = await add({
+      id: board.scratchpad.id,
+      text: 'Write tests',
+      section_marker: '## Todo',
+    });
+    expect(inSection.task).toMatchObject({
+      line: 3,
+      text: 'Write tests',
+      completed: false,
+      section: '## Todo',
+    });
+    expect(db.getScratchpadById(board.scratchpad.id)!.content).toBe(
+      '## Todo\n- [ ] Write parser\n- [ ] Write tests\n## Later\n- [ ] Write docs'
+    );
+
+    const atEnd = await add({ id: notesId, text: 'Bump version' });
+    expect(atEnd.task).toMatchObject({ line: 3, text: 'Bump version' });
+    expect(atEnd.progress).toEqual({ total: 2, completed: 0, open: 2, percent_complete: 0 });
+    expect(db.getScratchpadById(notesId)!.content).toBe(
+      'Notes\n- [ ] Update changelog\n- [ ] Bump version'
+    );
+
+    await expect(add({ id: notesId, text: '' })).rejects.toThrow('Failed to add task');
+  });
+
+  describe('add-task section placement', () => {
+    const addTo = async (content: string, section_marker: string): Promise<string> => {
+      const scratchpad = await createScratchpadTool(db)({
+        workflow_id: workflowId,
+        title: 'Board',
+        content,
+      });
+      await addTaskTool(db)({ id: scratchpad.scratchpad.id, text: 'new', section_marker });
+      return db.getScratchpadById(scratchpad.scratchpad.id)!.content;
+    };
+
+    it('keeps the list together in the last section', async () => {
+      expect(await addTo('## Todo\n- [ ] a', '## Todo')).toBe('## Todo\n- [ ] a\n- [ ] new');
+    });
+
+    it('adds before the blank line that separates the next section', async () => {
+      expect(await addTo('## Todo\n- [ ] a\n\n## Later', '## Todo')).toBe(
+        '## Todo\n- [ ] a\n- [ ] new\n\n## Later'
+      );
+    });
+
+    it('adds after continuation lines and before subsections', async () => {
+      expect(await addTo('## Todo\n- [ ] a\n  details\n\n### Someday\n- [ ] b', '## Todo')).toBe(
+        '## Todo\n- [ ] a\n  details\n- [ ] new\n\n### Someday\n- [ ] b'
+      );
+    });
+
+    it('adds after the intro or header of a section without a list', async () => {
+      expect(await addTo('## Todo\nIntro\n\n## Later', 'Todo')).toBe(
+        '## Todo\nIntro\n- [ ] new\n\n## Later'
+      );
+      expect(await addTo('## Todo\n## Later', '## Todo')).toBe('## Todo\n- [ ] new\n## Later');
+    });
+
+    it('matches headers only, not task text', async () => {
+      expect(await addTo('- [ ] TODO a\n\n# TODO\n- [ ] b', 'TODO')).toBe(
+        '- [ ] TODO a\n\n# TODO\n- [ ] b\n- [ ] new'
+      );
+    });
+
+    it('fails when the section does not exist', async () => {
+      await expect(addTo('## Todo\n- [ ] a', '## Missing')).rejects.toThrow(
+        'Failed to add task: Section not found: ## Missing'
+      );
+    });
+  });
+});
@@ -21,6 +21,7 @@ import {
   type CreateScratchpadArgs,
   type AppendScratchpadArgs,
 } from '../src/tools/index.js';
+import { stripBlockIds } from './helpers/blocks.js';
 
 /**
  * Test helper class for UX optimization features
@@ -159,7 +160,7 @@ describe('UX Optimization Features Tests', () => {
 
       expect(result).not.toHaveProperty('error');
       expect(result.scratchpad.id).toBe(scratchpadId);
-      expect(result.scratchpad.content).toBe(
+      expect(stripBlockIds(result.scratchpad.content)).toBe(
         'Initial content for Smart Append testing\n\n---\n<!--- block start --->\n\nBackward compatible append'
       );
       expect(result.message).toContain('Appended');
@@ -194,7 +195,7 @@ describe('UX Optimization Features Tests', () => {
 
       expect(result).not.toHaveProperty('error');
       expect(result.scratchpad.id).toBe(scratchpadId); // Should resolve to the actual scratchpad
-      expect(result.scratchpad.content).toBe(
+      expect(stripBlockIds(result.scratchpad.content)).toBe(
         'Initial content for Smart Append testing\n\n---\n<!--- block start --->\n\nSmart appended content using workflow ID'
       );
       expect(result.message).toContain('Smart Append Test Scratchpad');
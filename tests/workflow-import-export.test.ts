@@ -0,0 +1,408 @@
+/**
+ * Workflow Import / Export Tests
+ *
+ * Tests export-workflow / import-workflow and the CLI: JSON and Markdown round-trips,
+ * conflict policies, ID remapping, archive validation and FTS5 index sync.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScratchpadDatabase } from '../src/database/index.js';
+import {
+  createScratchpadTool,
+  createWorkflowTool,
+  exportWorkflowTool,
+  importWorkflowTool,
+  listScratchpadRevisionsTool,
+  restoreScratchpadRevisionTool,
+  searchAllScratchpadsTool,
+  setScratchpadMetadataTool,
+  tagScratchpadTool,
+} from '../src/tools/index.js';
+import {
+  WORKFLOW_ARCHIVE_VERSION,
+  fromMarkdownBundle,
+  parseWorkflowArchive,
+  type WorkflowArchive,
+} from '../src/portability/index.js';
+import { runCli, type CliIO } from '../src/cli.js';
+import { createDatabase } from './helpers/database.js';
+
+const exportArchive = async (
+  db: ScratchpadDatabase,
+  workflowId: string
+): Promise<WorkflowArchive> => {
+  const result = await exportWorkflowTool(db)({ workflow_id: workflowId });
+  return result.archive!;
+};
+
+describe.each([
+  ['FTS5', true],
+  ['LIKE', false],
+])('workflow import and export (%s)', (_mode, withFTS5) => {
+  let source: ScratchpadDatabase;
+  let target: ScratchpadDatabase;
+  let tempDir: string;
+  let workflowId: string;
+  let planId: string;
+  let notesId: string;
+
+  beforeEach(async () => {
+    source = createDatabase(withFTS5);
+    target = createDatabase(withFTS5);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-export-'));
+
+    const workflow = await createWorkflowTool(source)({
+      name: 'Auth rewrite',
+      description: 'Replace session cookies',
+      project_scope: 'backend',
+    });
+    workflowId = workflow.workflow.id;
+
+    const plan = await createScratchpadTool(source)({
+      workflow_id: workflowId,
+      title: 'Plan: 認證',
+      content: '## Steps\n\n- [ ] migrate tokens\n\n---\nfront-matter-like line\n',
+    });
+    planId = plan.scratchpad.id;
+    const notes = await createScratchpadTool(source)({
+      workflow_id: workflowId,
+      title: 'Notes',
+      content: 'token rotation findings',
+    });
+    notesId = notes.scratchpad.id;
+
+    await tagScratchpadTool(source)({ id: planId, add: ['plan', 'auth'] });
+    await setScratchpadMetadataTool(source)({ id: planId, metadata: { owner: 'alice', step: 2 } });
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('exports a versioned JSON archive with all scratchpads', async () => {
+    const result = await exportWorkflowTool(source)({ workflow_id: workflowId });
+
+    expect(result.format).toBe('json');
+    expect(result.archive!.format).toBe('scratchpad-mcp-workflow');
+    expect(result.archive!.version).toBe(WORKFLOW_ARCHIVE_VERSION);
+    expect(result.archive!.workflow).toMatchObject({
+      id: workflowId,
+      name: 'Auth rewrite',
+      project_scope: 'backend',
+    });
+    expect(result.archive!.workflow).not.toHaveProperty('scratchpad_count');
+    expect(result.archive!.scratchpads.map((s) => s.id).sort()).toEqual([planId, notesId].sort());
+    expect(result.message).toContain('2 scratchpads');
+  });
+
+  it('round-trips a JSON archive into an empty database', async () => {
+    const archive = await exportArchive(source, workflowId);
+
+    const result = await importWorkflowTool(target)({ archive: JSON.stringify(archive) });
+
+    expect(result.workflow).toMatchObject({
+      id: workflowId,
+      action: 'created',
+      scratchpad_count: 2,
+    });
+    expect(result.counts.created).toBe(2);
+    expect(result.id_map).toEqual({});
+
+    const original = source.getScratchpadById(planId)!;
+    const imported = target.getScratchpadById(planId)!;
+    expect(imported).toEqual(original);
+    expect(target.getWorkflowById(workflowId)!.project_scope).toBe('backend');
+
+    const search = await searchAllScratchpadsTool(target)({ query: 'rotation' });
+    expect(search.results.map((r) => r.scratchpad.id)).toEqual([notesId]);
+  });
+
+  it('round-trips a Markdown bundle with front matter', async () => {
+    const result = await exportWorkflowTool(source)({
+      workflow_id: workflowId,
+      format: 'markdown',
+    });
+
+    const files = result.files!;
+    expect(files.map((file) => file.path)).toEqual([
+      'workflow.md',
+      expect.stringMatching(/^scratchpads\/001-/),
+      expect.stringMatching(/^scratchpads\/002-/),
+    ]);
+    const workflowMd = files.find((file) => file.path === 'workflow.md')!.content;
+    expect(workflowMd).toMatch(/^---\n/);
+    expect(workflowMd).toContain(`id: "${workflowId}"`);
+    expect(workflowMd).toContain('project_scope: "backend"');
+    const planFile = files.find((file) => file.path.includes('認證'))!;
+    expect(planFile.path).toMatch(/^scratchpads\/\d{3}-plan-認證\.md$/);
+    expect(planFile.content).toContain(`id: "${planId}"`);
+    expect(planFile.content).toMatch(/created_at: "\d{4}-\d{2}-\d{2}T/);
+
+    const imported = await importWorkflowTool(target)({ files });
+    expect(imported.counts.created).toBe(2);
+    expect(target.getScratchpadById(planId)).toEqual(source.getScratchpadById(planId));
+  });
+
+  it('does not read or write server-side paths', async () => {
+    const outDir = path.join(tempDir, 'bundle');
+    const result = await exportWorkflowTool(source)({
+      workflow_id: workflowId,
+      format: 'markdown',
+      output_path: outDir,
+    } as any);
+    expect(result.files).toHaveLength(3);
+    expect(fs.existsSync(outDir)).toBe(false);
+
+    const archivePath = path.join(tempDir, 'archive.json');
+    fs.writeFileSync(archivePath, JSON.stringify(await exportArchive(source, workflowId)));
+    const importFn = importWorkflowTool(target);
+    for (const inputPath of [archivePath, '../archive.json', '/etc/passwd']) {
+      await expect(importFn({ input_path: inputPath } as any)).rejects.toThrow(
+        'exactly one of archive or files'
+      );
+    }
+    expect(target.getWorkflowById(workflowId)).toBeNull();
+  });
+
+  it('parses inline Markdown files back into an archive snapshot', async () => {
+    const result = await exportWorkflowTool(source)({
+      workflow_id: workflowId,
+      format: 'markdown',
+    });
+
+    const snapshot = parseWorkflowArchive(fromMarkdownBundle(result.files!));
+    expect(snapshot.workflow.id).toBe(workflowId);
+    expect(snapshot.scratchpads).toHaveLength(2);
+  });
+
+  it('skips existing items by default', async () => {
+    const archive = await exportArchive(source, workflowId);
+    await importWorkflowTool(target)({ archive });
+    target.updateScratchpadContent(notesId, 'local edit');
+
+    const result = await importWorkflowTool(target)({ archive });
+
+    expect(result.workflow.action).toBe('skipped');
+    expect(result.counts).toEqual({ created: 0, overwritten: 0, skipped: 2, duplicated: 0 });
+    expect(target.getScratchpadById(notesId)!.content).toBe('local edit');
+  });
+
+  it('overwrites existing items in place and keeps their history', async () => {
+    const archive = await exportArchive(source, workflowId);
+    await importWorkflowTool(target)({ archive });
+    target.updateScratchpadContent(notesId, 'local edit');
+    const before = target.getScratchpadById(notesId)!;
+
+    const result = await importWorkflowTool(target)({ archive, policy: 'overwrite' });
+
+    expect(result.workflow.action).toBe('overwritten');
+    expect(result.counts.overwritten).toBe(2);
+    const after = target.getScratchpadById(notesId)!;
+    expect(after.content).toBe('token rotation findings');
+    expect(after.version).toBe(before.version + 1);
+    expect(target.getWorkflowById(workflowId)!.scratchpad_count).toBe(2);
+
+    const search = await searchAllScratchpadsTool(target)({ query: 'rotation' });
+    expect(search.results.map((r) => r.scratchpad.id)).toEqual([notesId]);
+  });
+
+  it('keeps the overwritten content restorable when the scratchpad has no revisions', async () => {
+    const archive = await exportArchive(source, workflowId);
+    await importWorkflowTool(target)({ archive });
+    target.updateScratchpadContent(notesId, 'local edit');
+    (target as any).db.prepare('DELETE FROM scratchpad_revisions WHERE scratchpad_id = ?').run(notesId);
+
+    await importWorkflowTool(target)({ archive, policy: 'overwrite' });
+
+    const { revisions } = await listScratchpadRevisionsTool(target)({ id: notesId });
+    expect(revisions.map((revision) => revision.operation)).toEqual(['import', 'baseline']);
+    const baseline = revisions[1]!;
+    await restoreScratchpadRevisionTool(target)({ id: notesId, revision: baseline.revision });
+    expect(target.getScratchpadById(notesId)!.content).toBe('local edit');
+  });
+
+  it('duplicates conflicting items under fresh IDs', async () => {
+    const archive = await exportArchive(source, workflowId);
+
+    const result = await importWorkflowTool(source)({ archive, policy: 'duplicate' });
+
+    expect(result.workflow.action).toBe('duplicated');
+    expect(result.workflow.id).not.toBe(workflowId);
+    expect(result.counts.duplicated).toBe(2);
+    expect(Object.keys(result.id_map).sort()).toEqual([workflowId, planId, notesId].sort());
+    expect(source.getWorkflowById(result.workflow.id)!.scratchpad_count).toBe(2);
+    expect(source.getWorkflowById(workflowId)!.scratchpad_count).toBe(2);
+  });
+
+  it('remaps IDs with id_map and regenerate_ids', async () => {
+    const archive = await exportArchive(source, workflowId);
+
+    const mapped = await importWorkflowTool(target)({
+      archive,
+      id_map: { [workflowId]: 'wf-imported', [planId]: 'plan-imported' },
+      project_scope: 'frontend',
+    });
+    expect(mapped.workflow).toMatchObject({ id: 'wf-imported', project_scope: 'frontend' });
+    expect(target.getScratchpadById('plan-imported')!.workflow_id).toBe('wf-imported');
+    expect(target.getScratchpadById(notesId)!.workflow_id).toBe('wf-imported');
+
+    const regenerated = await importWorkflowTool(target)({ archive, regenerate_ids: true });
+    expect(regenerated.workflow.action).toBe('created');
+    expect(regenerated.counts.created).toBe(2);
+    expect(regenerated.id_map[planId]).not.toBe(planId);
+  });
+
+  it('rejects invalid archives', async () => {
+    const archive = await exportArchive(source, workflowId);
+    const importFn = importWorkflowTool(target);
+
+    await expect(importFn({ archive: '{not json' })).rejects.toThrow('not valid JSON');
+    await expect(importFn({ archive: { ...archive, format: 'other' } })).rejects.toThrow(
+      'format must be'
+    );
+    await expect(
+      importFn({ archive: { ...archive, version: WORKFLOW_ARCHIVE_VERSION + 1 } })
+    ).rejects.toThrow('version');
+    await expect(
+      importFn({ archive: { ...archive, workflow: { ...archive.workflow, name: 42 } } })
+    ).rejects.toThrow('Invalid archive');
+    await expect(
+      importFn({
+        archive: { ...archive, scratchpads: [{ ...archive.scratchpads[0], content: null }] },
+      })
+    ).rejects.toThrow('Invalid archive');
+    await expect(
+      importFn({
+        archive: { ...archive, scratchpads: [archive.scratchpads[0], archive.scratchpads[0]] },
+      })
+    ).rejects.toThrow('duplicate scratchpad ID');
+    await expect(importFn({})).rejects.toThrow('exactly one of archive or files');
+
+    expect(target.getWorkflowById(workflowId)).toBeNull();
+  });
+
+  it('fills defaults for hand-written archives', async () => {
+    const result = await importWorkflowTool(target)({
+      archive: {
+        format: 'scratchpad-mcp-workflow',
+        version: 1,
+        workflow: {
+          id: 'wf-hand',
+          name: 'Hand written',
+          description: null,
+          created_at: 1700000000,
+          updated_at: 1700000000,
+          is_active: true,
+          project_scope: null,
+        },
+        scratchpads: [
+          {
+            id: 'sp-hand',
+            workflow_id: 'ignored',
+            title: 'Hello',
+            content: 'hi',
+            created_at: 1700000000,
+            updated_at: 1700000000,
+            size_bytes: 0,
+          },
+        ],
+      },
+    });
+
+    expect(result.counts.created).toBe(1);
+    expect(target.getScratchpadById('sp-hand')).toMatchObject({
+      workflow_id: 'wf-hand',
+      size_bytes: 2,
+      version: 1,
+      tags: [],
+      metadata: {},
+    });
+  });
+});
+
+describe('scratchpad CLI', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let output: string[];
+  let errors: string[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scratchpad-cli-'));
+    dbPath = path.join(tempDir, 'source.db');
+    output = [];
+    errors = [];
+    io = {
+      stdout: (line) => output.push(line),
+      stderr: (line) => errors.push(line),
+      env: { SCRATCHPAD_DB_PATH: dbPath },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const seed = async (): Promise<string> => {
+    const db = createDatabase(false, dbPath);
+    try {
+      const workflow = await createWorkflowTool(db)({ name: 'CLI workflow' });
+      await createScratchpadTool(db)({
+        workflow_id: workflow.workflow.id,
+        title: 'Only',
+        content: 'cli content',
+      });
+      return workflow.workflow.id;
+    } finally {
+      db.close();
+    }
+  };
+
+  it('exports to stdout and imports the archive file into another database', async () => {
+    const workflowId = await seed();
+
+    expect(await runCli(['export', workflowId], io)).toBe(0);
+    const archivePath = path.join(tempDir, 'archive.json');
+    fs.writeFileSync(archivePath, output.join('\n'));
+
+    const targetDb = path.join(tempDir, 'target.db');
+    output = [];
+    expect(await runCli(['import', archivePath, '--db', targetDb, '--policy=overwrite'], io)).toBe(
+      0
+    );
+    expect(output[0]).toContain('Imported workflow "CLI workflow" (created): 1 created');
+
+    const db = new ScratchpadDatabase({ filename: targetDb });
+    try {
+      expect(db.getWorkflowById(workflowId)!.scratchpad_count).toBe(1);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('writes a Markdown bundle with --out', async () => {
+    const workflowId = await seed();
+    const outDir = path.join(tempDir, 'bundle');
+
+    expect(await runCli(['export', workflowId, '--format', 'markdown', '--out', outDir], io)).toBe(
+      0
+    );
+    expect(fs.existsSync(path.join(outDir, 'workflow.md'))).toBe(true);
+    expect(fs.readdirSync(path.join(outDir, 'scratchpads'))).toEqual(['001-only.md']);
+  });
+
+  it('reports usage and runtime errors with exit codes', async () => {
+    expect(await runCli([], io)).toBe(2);
+    expect(await runCli(['frobnicate'], io)).toBe(2);
+    expect(await runCli(['export', 'x', '--bogus', '1'], io)).toBe(1);
+    expect(errors.at(-1)).toContain('Unknown option: --bogus');
+    expect(await runCli(['export', 'missing'], io)).toBe(1);
+    expect(errors.at(-1)).toContain('Workflow not found: missing');
+    expect(await runCli(['import', path.join(tempDir, 'nope.json')], io)).toBe(1);
+    expect(errors.at(-1)).toContain('Archive not found');
+  });
+});
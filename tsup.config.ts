@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/server.ts'],
+  entry: ['src/server.ts', 'src/cli.ts'],
   format: ['esm'],
   target: 'node18',
   outDir: 'dist',
@@ -12,5 +12,5 @@ export default defineConfig({
   splitting: false,
   external: ['better-sqlite3'],
   shims: true,
-  onSuccess: 'chmod +x dist/server.js',
+  onSuccess: 'chmod +x dist/server.js dist/cli.js',
 });
\ No newline at end of file